@@ -8,6 +8,11 @@ const nextConfig: NextConfig = {
   eslint: {
     ignoreDuringBuilds: true,
   },
+  experimental: {
+    serverActions: {
+      bodySizeLimit: '10mb', // Spreadsheet and CSV uploads are sent to Server Actions as parsed entries
+    },
+  },
   images: {
     remotePatterns: [
       {
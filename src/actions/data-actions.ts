@@ -1,26 +1,66 @@
-
 // src/actions/data-actions.ts
 'use server';
-import pool from '@/services/db/client';
 
 import {
     addData,
     updateDataById,
+    patchDataById,
     getDataById,
     getDataByIds,
     addRelationship,
+    addRelationships,
     getRelationshipsBySourceId,
+    getRelationshipsByTargetId,
+    getNeighborhood,
     getAllData,
+    queryData,
+    searchData,
     getAllRelationships,
-    setActiveDataset,        // Import new service function
-    createOrReplaceDataset,  // Import new service function
-    getActiveDatasetName,    // Import new service function
-    getAllDatasetNames,      // Import new service function
-    // Removed replaceDatabase import as it's superseded by createOrReplaceDataset
+    createOrReplaceDataset,
+    getAllDatasetNames,
+    getAllDatasets,
+    updateDatasetMetadata,
+    renameDataset,
+    cloneDataset,
+    deleteDataset,
+    previewDataDeletion,
+    deleteDataByIds,
+    getRelationshipById,
+    updateRelationship,
+    deleteRelationship,
+    restoreRelationship,
+    getRelationshipTypes,
+    getEntryVersions,
+    restoreEntryVersion,
+    queryAuditLog,
+    createCleaningJob,
+    getCleaningJobs,
+    getCleaningJob,
+    getCleaningJobItems,
+    setCleaningJobStatus,
+    reviewCleaningItems,
+    getCleaningRules,
+    setCleaningRules,
+    runCleaningRules,
+    getDatasetSchema,
+    setDatasetSchema,
 } from '@/services/database';
-import type { DataEntry, RelationshipEntry } from '@/services/types'; // Import types
+import { startCleaningJob, stopCleaningJob, suggestCleaningChanges, withRunnerState } from '@/services/cleaning-jobs';
+import { suggestRelationships } from '@/services/relationship-suggestions';
+import type { AuditQuery, CleaningChange, CleaningItemStatus, CleaningRule, DataEntry, DatasetMetadata, DatasetSchema, EntryPatch, EntryQuery, MutationContext, MutationSource, RelationshipAttributes, RelationshipEntry, RelationshipSuggestion } from '@/services/types'; // Import types
 import { revalidatePath } from 'next/cache';
-import { cleanDataFlow } from '@/ai/flows/clean-data-flow';
+import { cookies, headers } from 'next/headers';
+import { cleaningRulesPath, datasetInfoPath, datasetPath, entryPath } from '@/lib/paths';
+import { DATASET_NAME_HINT, DATASET_NAME_PATTERN } from '@/lib/utils';
+import { RELATIONSHIP_TYPE_HINT, RELATIONSHIP_TYPE_PATTERN } from '@/lib/relationship-types';
+import { ACTOR_COOKIE, ACTOR_HEADER, EditSourceSchema, resolveActor, type EditSource } from '@/lib/mutation-context';
+import { clampCleaningConcurrency } from '@/lib/cleaning-jobs';
+import { applyCleaningRules, cleaningRulesError } from '@/lib/cleaning-rules';
+import { CleaningChangesSchema, cleaningChangesPatch, ruleCleaningChanges } from '@/lib/cleaning-changes';
+import { isDeepEqual } from '@/lib/json-diff';
+import { datasetSchemaError } from '@/lib/dataset-schema';
+import { flowModelName } from '@/ai/model-config';
+import { inferSchemaFlow } from '@/ai/flows/infer-schema-flow';
 
 interface ActionResult {
   success: boolean;
@@ -29,48 +69,18 @@ interface ActionResult {
   data?: any;
 }
 
-// --- Dataset Management Actions ---
+// Every action receives the dataset it operates on explicitly (taken from the page URL),
+// so concurrent users or tabs working on different datasets never affect each other.
 
 /**
- * Sets the active dataset for subsequent operations.
+ * Builds the context recorded with entry versions and audit events from the actor header or cookie of the current request.
  */
-export async function setActiveDatasetAction(name: string): Promise<ActionResult> {
-    console.log(`Server Action: Received request to set active dataset to: ${name}`);
-    try {
-        // setActiveDataset now just updates the in-memory variable, no DB check needed here
-        const success = await setActiveDatasetAction(name);
-        if (success) {
-            console.log(`Server Action: Active dataset set to '${name}'.`);
-            // Revalidate the main page to reflect changes related to the active dataset
-            revalidatePath('/');
-            return { success: true, message: `Dataset '${name}' is now active.` };
-        } else {
-            // This case should technically not happen with the current setActiveDataset logic
-            console.warn(`Server Action: Failed to set active dataset (unexpected).`);
-            return { success: false, error: `Failed to set active dataset.` };
-        }
-    } catch (error) {
-        console.error(`Server Action: Error setting active dataset to '${name}':`, error);
-        const errorMessage = error instanceof Error ? error.message : 'An unexpected error occurred.';
-        return { success: false, error: errorMessage };
-    }
+async function mutationContext(source: MutationSource): Promise<MutationContext> {
+    const [requestHeaders, requestCookies] = await Promise.all([headers(), cookies()]);
+    return { actor: resolveActor(requestHeaders.get(ACTOR_HEADER), requestCookies.get(ACTOR_COOKIE)?.value), source };
 }
 
-/**
- * Gets the name of the currently active dataset.
- */
-export async function getActiveDatasetNameAction(): Promise<ActionResult> {
-    console.log("Server Action: Received request to get active dataset name.");
-    try {
-        const name = await getActiveDatasetNameAction();
-        console.log(`Server Action: Active dataset name is '${name}'.`);
-        return { success: true, data: name };
-    } catch (error) {
-        console.error("Server Action: Error getting active dataset name:", error);
-        const errorMessage = error instanceof Error ? error.message : 'An unexpected error occurred.';
-        return { success: false, error: errorMessage };
-    }
-}
+// --- Dataset Management Actions ---
 
 /**
  * Gets the names of all available datasets.
@@ -78,7 +88,7 @@ export async function getActiveDatasetNameAction(): Promise<ActionResult> {
 export async function getAllDatasetNamesAction(): Promise<ActionResult> {
     console.log("Server Action: Received request to get all dataset names.");
     try {
-        const names = await getAllDatasetNamesAction();
+        const names = await getAllDatasetNames();
         console.log(`Server Action: Found dataset names: [${names.join(', ')}]`);
         return { success: true, data: names };
     } catch (error) {
@@ -91,18 +101,18 @@ export async function getAllDatasetNamesAction(): Promise<ActionResult> {
 
 /**
  * Creates a new dataset with the provided data, replacing if the name already exists.
- * Sets the new dataset as active. Accepts DataEntry with optional string IDs.
+ * Accepts DataEntry with optional string IDs.
  */
 export async function createNewDatasetAction(datasetName: string, newData: DataEntry[]): Promise<ActionResult> {
   console.log(`Server Action: Received request to create/replace dataset '${datasetName}' with ${newData.length} entries.`);
   try {
     // Pass data directly, createOrReplaceDataset handles ID assignment/conversion internally
-    const success = await createNewDatasetAction(datasetName, newData);
+    const success = await createOrReplaceDataset(datasetName, newData, await mutationContext('upload'));
 
     if (success) {
-      console.log(`Server Action: Dataset '${datasetName}' created/replaced and set as active.`);
-      revalidatePath('/'); // Revalidate main page to show the new active dataset
-      return { success: true, message: `New data set '${datasetName}' created successfully and is now active.` };
+      console.log(`Server Action: Dataset '${datasetName}' created/replaced.`);
+      revalidatePath(datasetPath(datasetName.trim()));
+      return { success: true, message: `New data set '${datasetName}' created successfully.` };
     } else {
       console.error(`Server Action: Failed to create/replace dataset '${datasetName}'.`);
       return { success: false, error: `Failed to create/replace dataset '${datasetName}'.` };
@@ -118,32 +128,162 @@ export async function createNewDatasetAction(datasetName: string, newData: DataE
 }
 
 
-// --- Data Operations Actions (operate on the active dataset) ---
+/**
+ * Gets all datasets with their metadata and entry/relationship counts.
+ */
+export async function getAllDatasetsAction(): Promise<ActionResult> {
+    console.log("Server Action: Received request to get all datasets with metadata.");
+    try {
+        const datasets = await getAllDatasets();
+        console.log(`Server Action: Found ${datasets.length} datasets.`);
+        return { success: true, data: datasets };
+    } catch (error) {
+        console.error("Server Action: Error getting datasets:", error);
+        const errorMessage = error instanceof Error ? error.message : 'An unexpected error occurred.';
+        return { success: false, error: errorMessage };
+    }
+}
+
+/**
+ * Updates the description, owner and/or tags of a dataset.
+ */
+export async function updateDatasetMetadataAction(datasetName: string, metadata: Partial<DatasetMetadata>): Promise<ActionResult> {
+    console.log(`Server Action [Dataset: ${datasetName}]: Received request to update metadata.`, metadata);
+    try {
+        const updated = await updateDatasetMetadata(datasetName, metadata, await mutationContext('manual'));
+        if (!updated) {
+            return { success: false, error: `Dataset '${datasetName}' not found.` };
+        }
+        revalidatePath('/datasets');
+        revalidatePath(datasetPath(datasetName));
+        return { success: true, message: `Details of '${datasetName}' saved.`, data: updated };
+    } catch (error) {
+        console.error(`Server Action [Dataset: ${datasetName}]: Error updating metadata:`, error);
+        const errorMessage = error instanceof Error ? error.message : 'An unexpected error occurred while updating the dataset.';
+        return { success: false, error: errorMessage };
+    }
+}
+
+/**
+ * Checks a name for a new dataset (rename/clone target). Returns an error message or null if valid.
+ */
+function validateNewDatasetName(newName: string): string | null {
+    const trimmedName = newName.trim();
+    if (!trimmedName) {
+        return 'Dataset name cannot be empty.';
+    }
+    if (!DATASET_NAME_PATTERN.test(trimmedName)) {
+        return DATASET_NAME_HINT;
+    }
+    return null;
+}
+
+/**
+ * Renames a dataset. Entries and relationships move with it.
+ */
+export async function renameDatasetAction(datasetName: string, newName: string): Promise<ActionResult> {
+    console.log(`Server Action [Dataset: ${datasetName}]: Received request to rename to '${newName}'.`);
+    try {
+        const validationError = validateNewDatasetName(newName);
+        if (validationError) {
+            return { success: false, error: validationError };
+        }
+        const trimmedName = newName.trim();
+        const result = await renameDataset(datasetName, trimmedName, await mutationContext('manual'));
+        if (result === 'name-taken') {
+            return { success: false, error: `A dataset named '${trimmedName}' already exists.` };
+        }
+        if (result === 'not-found') {
+            return { success: false, error: `Dataset '${datasetName}' not found.` };
+        }
+        revalidatePath('/datasets');
+        revalidatePath(datasetPath(datasetName));
+        revalidatePath(datasetPath(trimmedName));
+        return { success: true, message: `Dataset '${datasetName}' renamed to '${trimmedName}'.`, data: { name: trimmedName } };
+    } catch (error) {
+        console.error(`Server Action [Dataset: ${datasetName}]: Error renaming dataset:`, error);
+        const errorMessage = error instanceof Error ? error.message : 'An unexpected error occurred while renaming the dataset.';
+        return { success: false, error: errorMessage };
+    }
+}
+
+/**
+ * Creates a deep copy of a dataset (metadata, entries and relationships) under a new name.
+ */
+export async function cloneDatasetAction(datasetName: string, newName: string): Promise<ActionResult> {
+    console.log(`Server Action [Dataset: ${datasetName}]: Received request to clone into '${newName}'.`);
+    try {
+        const validationError = validateNewDatasetName(newName);
+        if (validationError) {
+            return { success: false, error: validationError };
+        }
+        const trimmedName = newName.trim();
+        const result = await cloneDataset(datasetName, trimmedName, await mutationContext('manual'));
+        if (result === 'name-taken') {
+            return { success: false, error: `A dataset named '${trimmedName}' already exists.` };
+        }
+        if (result === 'not-found') {
+            return { success: false, error: `Dataset '${datasetName}' not found.` };
+        }
+        revalidatePath('/datasets');
+        return { success: true, message: `Dataset '${datasetName}' cloned into '${trimmedName}'.`, data: { name: trimmedName } };
+    } catch (error) {
+        console.error(`Server Action [Dataset: ${datasetName}]: Error cloning dataset:`, error);
+        const errorMessage = error instanceof Error ? error.message : 'An unexpected error occurred while cloning the dataset.';
+        return { success: false, error: errorMessage };
+    }
+}
+
+/**
+ * Deletes a dataset with all its entries and relationships.
+ * The caller must repeat the dataset name as confirmation, so a stale or mistaken call cannot drop the wrong dataset.
+ */
+export async function deleteDatasetAction(datasetName: string, confirmationName: string): Promise<ActionResult> {
+    console.log(`Server Action [Dataset: ${datasetName}]: Received request to delete dataset.`);
+    if (confirmationName !== datasetName) {
+        return { success: false, error: 'The confirmation does not match the dataset name.' };
+    }
+    try {
+        const deleted = await deleteDataset(datasetName, await mutationContext('manual'));
+        if (!deleted) {
+            return { success: false, error: `Dataset '${datasetName}' not found.` };
+        }
+        revalidatePath('/');
+        revalidatePath('/datasets');
+        revalidatePath(datasetPath(datasetName));
+        return { success: true, message: `Dataset '${datasetName}' deleted.` };
+    } catch (error) {
+        console.error(`Server Action [Dataset: ${datasetName}]: Error deleting dataset:`, error);
+        const errorMessage = error instanceof Error ? error.message : 'An unexpected error occurred while deleting the dataset.';
+        return { success: false, error: errorMessage };
+    }
+}
+
+// --- Data Operations Actions ---
 
 /**
- * Uploads/updates data in the active dataset. Handles both single entries and arrays.
+ * Uploads/updates data in the given dataset. Handles both single entries and arrays.
  * Expects DataEntry with optional string IDs.
  */
-export async function uploadDataAction(data: DataEntry | DataEntry[]): Promise<ActionResult> {
-  const activeName = await getActiveDatasetNameAction();
-  if (!activeName) {
-    return { success: false, error: "No active dataset selected." };
+export async function uploadDataAction(datasetName: string, data: DataEntry | DataEntry[]): Promise<ActionResult> {
+  if (!datasetName) {
+    return { success: false, error: "No dataset selected." };
   }
-  console.log(`Server Action [Active: ${activeName}]: Received data for upload/update:`, JSON.stringify(data).substring(0, 100) + '...');
+  console.log(`Server Action [Dataset: ${datasetName}]: Received data for upload/update:`, JSON.stringify(data).substring(0, 100) + '...');
   try {
-    // Pass data directly, addData handles ID assignment/conversion and upsert logic\
-    const success = await addData(data);
+    // Pass data directly, addData handles ID assignment/conversion and upsert logic
+    const success = await addData(datasetName, data, await mutationContext('upload'));
 
     if (success) {
-      console.log(`Server Action [Active: ${activeName}]: Data added/updated successfully.`);
-      revalidatePath('/');
+      console.log(`Server Action [Dataset: ${datasetName}]: Data added/updated successfully.`);
+      revalidatePath(datasetPath(datasetName));
       return { success: true, message: 'Data added/updated in the current set successfully.' };
     } else {
-      console.error(`Server Action [Active: ${activeName}]: Failed to add or update data.`);
+      console.error(`Server Action [Dataset: ${datasetName}]: Failed to add or update data.`);
       return { success: false, error: 'Failed to add or update data entries.' };
     }
   } catch (error) {
-    console.error(`Server Action [Active: ${activeName}]: Error uploading/updating data:`, error);
+    console.error(`Server Action [Dataset: ${datasetName}]: Error uploading/updating data:`, error);
     let errorMessage = 'An unexpected error occurred during data upload/update.';
     if (error instanceof Error) {
         errorMessage = error.message;
@@ -154,29 +294,29 @@ export async function uploadDataAction(data: DataEntry | DataEntry[]): Promise<A
 
 /**
  * Cleans a specific data entry using an AI flow. Requires the entry ID (string).
+ * The dataset's cleaning rules run first, so the model only has to handle what they leave.
+ * Returns the suggested field-level changes and the model that made them ({ changes, model }); nothing is written.
  */
-export async function cleanDataAction(entryId: string): Promise<ActionResult> {
-  const activeName = await getActiveDatasetNameAction();
-   if (!activeName) {
-    return { success: false, error: "No active dataset selected." };
+export async function cleanDataAction(datasetName: string, entryId: string): Promise<ActionResult> {
+   if (!datasetName) {
+    return { success: false, error: "No dataset selected." };
   }
-  console.log(`Server Action [Active: ${activeName}]: Received request to clean data for ID: ${entryId}`);
+  console.log(`Server Action [Dataset: ${datasetName}]: Received request to clean data for ID: ${entryId}`);
   try {
      // Fetch data using string ID
-    const currentData = await getDataById(entryId);
+    const [currentData, rules] = await Promise.all([getDataById(datasetName, entryId), getCleaningRules(datasetName)]);
     if (!currentData) {
-      return { success: false, error: `Data entry with ID ${entryId} not found in active dataset '${activeName}'.` };
+      return { success: false, error: `Data entry with ID ${entryId} not found in dataset '${datasetName}'.` };
     }
 
-    // Pass the fetched data (which includes the string 'id') to the flow
-    const cleanedData = await cleanDataFlow(currentData);
-    console.log(`Server Action [Active: ${activeName}]: Genkit flow returned cleaned data:`, cleanedData);
-    // The cleaned data returned by the flow might or might not include the 'id'.
-    // The updateDataAction will handle merging correctly.
-    return { success: true, message: 'Data cleaning suggestions generated.', data: cleanedData };
+    // Rules and flow work on the stored data; the changes are applied with applyCleaningChangesAction once reviewed
+    const model = flowModelName('cleanData');
+    const changes = await suggestCleaningChanges(currentData, rules ?? []);
+    console.log(`Server Action [Dataset: ${datasetName}]: ${model} suggested ${changes.length} changes for ID: ${entryId}`);
+    return { success: true, message: 'Data cleaning suggestions generated.', data: { changes, model } };
 
   } catch (error) {
-    console.error(`Server Action [Active: ${activeName}]: Error cleaning data for ID ${entryId}:`, error);
+    console.error(`Server Action [Dataset: ${datasetName}]: Error cleaning data for ID ${entryId}:`, error);
     let errorMessage = 'An unexpected error occurred during data cleaning.';
     if (error instanceof Error) {
         errorMessage = error.message;
@@ -186,31 +326,36 @@ export async function cleanDataAction(entryId: string): Promise<ActionResult> {
 }
 
 /**
- * Updates a specific data entry in the active dataset.
+ * Updates a specific data entry in the given dataset.
+ * @param datasetName The dataset containing the entry.
  * @param entryId The string ID of the entry to update.
  * @param cleanedData The data object (should NOT contain the 'id' field).
+ * @param source What the new content comes from: 'manual' for edits, 'upload' for amending with an uploaded file.
  */
-export async function updateDataAction(entryId: string, cleanedData: Omit<DataEntry, 'id'>): Promise<ActionResult> {
-    const activeName = await getActiveDatasetNameAction();
-     if (!activeName) {
-        return { success: false, error: "No active dataset selected." };
+export async function updateDataAction(datasetName: string, entryId: string, cleanedData: Omit<DataEntry, 'id'>, source: EditSource = 'manual'): Promise<ActionResult> {
+     if (!datasetName) {
+        return { success: false, error: "No dataset selected." };
      }
-    console.log(`Server Action [Active: ${activeName}]: Received request to update/amend data for ID: ${entryId}`);
+    const parsedSource = EditSourceSchema.safeParse(source);
+    if (!parsedSource.success) {
+        return { success: false, error: `Invalid source '${String(source)}'.` };
+    }
+    console.log(`Server Action [Dataset: ${datasetName}]: Received request to update/amend data for ID: ${entryId}`);
     try {
         // Pass string ID and data without ID to the service function
-        const success = await updateDataById(entryId, cleanedData);
+        const success = await updateDataById(datasetName, entryId, cleanedData, await mutationContext(parsedSource.data));
 
         if (success) {
-            console.log(`Server Action [Active: ${activeName}]: Data for ID ${entryId} updated successfully.`);
-            revalidatePath(`/data/${entryId}`);
-            revalidatePath('/');
+            console.log(`Server Action [Dataset: ${datasetName}]: Data for ID ${entryId} updated successfully.`);
+            revalidatePath(entryPath(datasetName, entryId));
+            revalidatePath(datasetPath(datasetName));
             return { success: true, message: 'Data entry amended successfully.' };
         } else {
-            console.error(`Server Action [Active: ${activeName}]: Failed to update data for ID ${entryId}.`);
-            return { success: false, error: `Failed to amend data entry with ID ${entryId} in active dataset '${activeName}'. Ensure the ID exists.` };
+            console.error(`Server Action [Dataset: ${datasetName}]: Failed to update data for ID ${entryId}.`);
+            return { success: false, error: `Failed to amend data entry with ID ${entryId} in dataset '${datasetName}'. Ensure the ID exists.` };
         }
     } catch (error) {
-        console.error(`Server Action [Active: ${activeName}]: Error updating data for ID ${entryId}:`, error);
+        console.error(`Server Action [Dataset: ${datasetName}]: Error updating data for ID ${entryId}:`, error);
         let errorMessage = 'An unexpected error occurred during data update.';
         if (error instanceof Error) {
             errorMessage = error.message;
@@ -220,21 +365,143 @@ export async function updateDataAction(entryId: string, cleanedData: Omit<DataEn
 }
 
 /**
- * Fetches multiple data entries by their string IDs from the active dataset.
+ * Partially updates a specific data entry: a JSON Merge Patch (fields not in the patch are kept,
+ * null removes a field) or a list of JSON Patch operations.
+ * @param datasetName The dataset containing the entry.
+ * @param entryId The string ID of the entry to patch.
+ * @param patch The patch to apply.
+ * @param source What the patch comes from ('manual' or 'upload'), recorded with the version it replaces.
+ *   Reviewed cleaning changes are applied with applyCleaningChangesAction instead.
+ */
+export async function patchDataAction(datasetName: string, entryId: string, patch: EntryPatch, source: EditSource = 'manual'): Promise<ActionResult> {
+    if (!datasetName) {
+        return { success: false, error: "No dataset selected." };
+    }
+    const parsedSource = EditSourceSchema.safeParse(source);
+    if (!parsedSource.success) {
+        return { success: false, error: `Invalid source '${String(source)}'.` };
+    }
+    console.log(`Server Action [Dataset: ${datasetName}]: Received ${patch.type} patch for ID: ${entryId}`);
+    try {
+        const patched = await patchDataById(datasetName, entryId, patch, await mutationContext(parsedSource.data));
+        if (!patched) {
+            return { success: false, error: `Data entry with ID ${entryId} not found in dataset '${datasetName}'.` };
+        }
+        console.log(`Server Action [Dataset: ${datasetName}]: Data for ID ${entryId} patched successfully.`);
+        revalidatePath(entryPath(datasetName, entryId));
+        revalidatePath(datasetPath(datasetName));
+        return { success: true, message: 'Data entry updated successfully.', data: patched };
+    } catch (error) {
+        console.error(`Server Action [Dataset: ${datasetName}]: Error patching data for ID ${entryId}:`, error);
+        const errorMessage = error instanceof Error ? error.message : 'An unexpected error occurred during data update.';
+        return { success: false, error: errorMessage };
+    }
+}
+
+/**
+ * Applies the reviewed changes of a cleaning suggestion (from cleanDataAction or cleanDataWithRulesAction) to an
+ * entry. The source recorded with the change is decided here: 'rule-clean' if every change is one the dataset's
+ * saved cleaning rules make to the entry now, otherwise 'ai-clean'. Each change is tested against its old value,
+ * so an entry changed since the suggestion was made is not overwritten.
+ */
+export async function applyCleaningChangesAction(datasetName: string, entryId: string, changes: CleaningChange[]): Promise<ActionResult> {
+    if (!datasetName) {
+        return { success: false, error: "No dataset selected." };
+    }
+    const parsedChanges = CleaningChangesSchema.safeParse(changes);
+    if (!parsedChanges.success) {
+        return { success: false, error: parsedChanges.error.issues[0].message };
+    }
+    const accepted = parsedChanges.data as CleaningChange[];
+    console.log(`Server Action [Dataset: ${datasetName}]: Received ${accepted.length} cleaning changes for ID: ${entryId}`);
+    try {
+        const [currentData, rules] = await Promise.all([getDataById(datasetName, entryId), getCleaningRules(datasetName)]);
+        if (!currentData) {
+            return { success: false, error: `Data entry with ID ${entryId} not found in dataset '${datasetName}'.` };
+        }
+
+        // Changes claiming to come from the cleaning rules must be ones the rules make
+        const { id: ignoredId, ...data } = currentData;
+        const ruleChanges = ruleCleaningChanges(data, applyCleaningRules(data, rules ?? []));
+        const isRuleChange = (change: CleaningChange) =>
+            ruleChanges.some(ruleChange => ruleChange.path === change.path && isDeepEqual(ruleChange.after, change.after));
+        if (accepted.some(change => change.category === 'rule' && !isRuleChange(change))) {
+            return { success: false, error: 'The cleaning rules or the entry changed since the suggestion was made. Clean the entry again.' };
+        }
+        const source: MutationSource = accepted.every(change => change.category === 'rule') ? 'rule-clean' : 'ai-clean';
+
+        const patched = await patchDataById(datasetName, entryId, { type: 'json-patch', operations: cleaningChangesPatch(accepted) }, await mutationContext(source));
+        if (!patched) {
+            return { success: false, error: `Data entry with ID ${entryId} not found in dataset '${datasetName}'.` };
+        }
+        console.log(`Server Action [Dataset: ${datasetName}]: Applied ${accepted.length} cleaning changes (${source}) to ID ${entryId}.`);
+        revalidatePath(entryPath(datasetName, entryId));
+        revalidatePath(datasetPath(datasetName));
+        return { success: true, message: `${accepted.length} change${accepted.length === 1 ? '' : 's'} applied.`, data: patched };
+    } catch (error) {
+        console.error(`Server Action [Dataset: ${datasetName}]: Error applying cleaning changes to ID ${entryId}:`, error);
+        const errorMessage = error instanceof Error ? error.message : 'An unexpected error occurred while applying the cleaning changes.';
+        return { success: false, error: errorMessage };
+    }
+}
+
+/**
+ * Lists the previous contents of an entry, newest first.
  */
-export async function getDataByIdsAction(ids: string[]): Promise<ActionResult> {
-    const activeName = await getActiveDatasetNameAction();
-    if (!activeName) {
-       return { success: false, error: "No active dataset selected." };
+export async function getEntryVersionsAction(datasetName: string, entryId: string): Promise<ActionResult> {
+    if (!datasetName) {
+        return { success: false, error: "No dataset selected." };
     }
-    console.log(`Server Action [Active: ${activeName}]: Received request to get data for IDs: [${ids.join(', ')}]`);
+    console.log(`Server Action [Dataset: ${datasetName}]: Received request for versions of ID: ${entryId}`);
+    try {
+        const versions = await getEntryVersions(datasetName, entryId);
+        return { success: true, data: versions };
+    } catch (error) {
+        console.error(`Server Action [Dataset: ${datasetName}]: Error fetching versions for ID ${entryId}:`, error);
+        const errorMessage = error instanceof Error ? error.message : 'An unexpected error occurred while fetching the entry history.';
+        return { success: false, error: errorMessage };
+    }
+}
+
+/**
+ * Restores a previous content of an entry. The content it replaces is kept in the history.
+ */
+export async function restoreEntryVersionAction(datasetName: string, entryId: string, versionId: number): Promise<ActionResult> {
+    if (!datasetName) {
+        return { success: false, error: "No dataset selected." };
+    }
+    console.log(`Server Action [Dataset: ${datasetName}]: Received request to restore version ${versionId} of ID: ${entryId}`);
+    try {
+        const restored = await restoreEntryVersion(datasetName, entryId, versionId, await mutationContext('manual'));
+        if (!restored) {
+            return { success: false, error: `Version ${versionId} of entry ${entryId} not found in dataset '${datasetName}'.` };
+        }
+        console.log(`Server Action [Dataset: ${datasetName}]: Restored version ${versionId} of ID ${entryId}.`);
+        revalidatePath(entryPath(datasetName, entryId));
+        revalidatePath(datasetPath(datasetName));
+        return { success: true, message: 'Previous version restored.', data: restored };
+    } catch (error) {
+        console.error(`Server Action [Dataset: ${datasetName}]: Error restoring version ${versionId} of ID ${entryId}:`, error);
+        const errorMessage = error instanceof Error ? error.message : 'An unexpected error occurred while restoring the version.';
+        return { success: false, error: errorMessage };
+    }
+}
+
+/**
+ * Fetches multiple data entries by their string IDs from the given dataset.
+ */
+export async function getDataByIdsAction(datasetName: string, ids: string[]): Promise<ActionResult> {
+    if (!datasetName) {
+       return { success: false, error: "No dataset selected." };
+    }
+    console.log(`Server Action [Dataset: ${datasetName}]: Received request to get data for IDs: [${ids.join(', ')}]`);
     try {
         // Pass string IDs to service
-        const data = await getDataByIds(ids);
-        console.log(`Server Action [Active: ${activeName}]: Found ${data.length} entries for the requested IDs.`);
+        const data = await getDataByIds(datasetName, ids);
+        console.log(`Server Action [Dataset: ${datasetName}]: Found ${data.length} entries for the requested IDs.`);
         return { success: true, data: data };
     } catch (error) {
-        console.error(`Server Action [Active: ${activeName}]: Error getting data for IDs [${ids.join(', ')}]:`, error);
+        console.error(`Server Action [Dataset: ${datasetName}]: Error getting data for IDs [${ids.join(', ')}]:`, error);
         let errorMessage = 'An unexpected error occurred while fetching multiple data entries.';
         if (error instanceof Error) {
             errorMessage = error.message;
@@ -244,20 +511,19 @@ export async function getDataByIdsAction(ids: string[]): Promise<ActionResult> {
 }
 
 /**
- * Fetches all data entries from the active dataset.
+ * Fetches all data entries from the given dataset.
  */
-export async function getAllDataAction(): Promise<ActionResult> {
-    const activeName = await getActiveDatasetNameAction();
-     if (!activeName) {
-        return { success: false, error: "No active dataset selected." };
+export async function getAllDataAction(datasetName: string): Promise<ActionResult> {
+     if (!datasetName) {
+        return { success: false, error: "No dataset selected." };
      }
-    console.log(`Server Action [Active: ${activeName}]: Received request to get all data.`);
+    console.log(`Server Action [Dataset: ${datasetName}]: Received request to get all data.`);
      try {
-         const data = await getAllData(); // Fetches from active dataset
-         console.log(`Server Action [Active: ${activeName}]: Found ${data.length} total data entries.`);
+         const data = await getAllData(datasetName);
+         console.log(`Server Action [Dataset: ${datasetName}]: Found ${data.length} total data entries.`);
          return { success: true, data: data };
      } catch (error) {
-         console.error(`Server Action [Active: ${activeName}]: Error getting all data:`, error);
+         console.error(`Server Action [Dataset: ${datasetName}]: Error getting all data:`, error);
          let errorMessage = 'An unexpected error occurred while fetching all data.';
          if (error instanceof Error) {
              errorMessage = error.message;
@@ -266,47 +532,148 @@ export async function getAllDataAction(): Promise<ActionResult> {
      }
 }
 
+/**
+ * Fetches one page of entries from the given dataset, sorted and filtered on the server.
+ * Pass the returned `nextCursor` as `query.cursor` to get the following page.
+ */
+export async function queryDataAction(datasetName: string, query: EntryQuery): Promise<ActionResult> {
+    if (!datasetName) {
+        return { success: false, error: "No dataset selected." };
+    }
+    console.log(`Server Action [Dataset: ${datasetName}]: Received request to query data.`);
+    try {
+        const page = await queryData(datasetName, query);
+        return { success: true, data: page };
+    } catch (error) {
+        console.error(`Server Action [Dataset: ${datasetName}]: Error querying data:`, error);
+        const errorMessage = error instanceof Error ? error.message : 'An unexpected error occurred while querying data.';
+        return { success: false, error: errorMessage };
+    }
+}
+
+/**
+ * Full-text search over the entries of the given dataset. Returns ranked results with highlighted snippets.
+ */
+export async function searchDataAction(datasetName: string, searchText: string): Promise<ActionResult> {
+    if (!datasetName) {
+        return { success: false, error: "No dataset selected." };
+    }
+    console.log(`Server Action [Dataset: ${datasetName}]: Received search request: "${searchText}"`);
+    try {
+        const results = await searchData(datasetName, searchText);
+        return { success: true, data: results };
+    } catch (error) {
+        console.error(`Server Action [Dataset: ${datasetName}]: Error searching data:`, error);
+        const errorMessage = error instanceof Error ? error.message : 'An unexpected error occurred while searching.';
+        return { success: false, error: errorMessage };
+    }
+}
 
-// --- Relationship Actions (operate on the active dataset) ---
+/**
+ * Reports how many entries and relationships deleting the given entries would remove.
+ * Relationships are deleted together with their entries, so the UI shows this before asking for confirmation.
+ */
+export async function previewDeleteDataAction(datasetName: string, entryIds: string[]): Promise<ActionResult> {
+    if (!datasetName) {
+        return { success: false, error: "No dataset selected." };
+    }
+    console.log(`Server Action [Dataset: ${datasetName}]: Received request to preview deletion of ${entryIds.length} entries.`);
+    try {
+        const preview = await previewDataDeletion(datasetName, entryIds);
+        return { success: true, data: preview };
+    } catch (error) {
+        console.error(`Server Action [Dataset: ${datasetName}]: Error previewing deletion:`, error);
+        const errorMessage = error instanceof Error ? error.message : 'An unexpected error occurred while preparing the deletion.';
+        return { success: false, error: errorMessage };
+    }
+}
+
+/**
+ * Deletes one or more entries from the given dataset, together with their relationships.
+ */
+export async function deleteDataAction(datasetName: string, entryIds: string[]): Promise<ActionResult> {
+    if (!datasetName) {
+        return { success: false, error: "No dataset selected." };
+    }
+    if (entryIds.length === 0) {
+        return { success: false, error: "No entries selected for deletion." };
+    }
+    console.log(`Server Action [Dataset: ${datasetName}]: Received request to delete ${entryIds.length} entries.`);
+    try {
+        const deletedIds = await deleteDataByIds(datasetName, entryIds, await mutationContext('manual'));
+        if (deletedIds.length === 0) {
+            return { success: false, error: 'None of the selected entries exist anymore.' };
+        }
+        deletedIds.forEach(id => revalidatePath(entryPath(datasetName, id)));
+        revalidatePath(datasetPath(datasetName));
+        const message = `${deletedIds.length} entr${deletedIds.length === 1 ? 'y' : 'ies'} deleted.`;
+        console.log(`Server Action [Dataset: ${datasetName}]: ${message}`);
+        return { success: true, message, data: deletedIds };
+    } catch (error) {
+        console.error(`Server Action [Dataset: ${datasetName}]: Error deleting entries:`, error);
+        const errorMessage = error instanceof Error ? error.message : 'An unexpected error occurred while deleting entries.';
+        return { success: false, error: errorMessage };
+    }
+}
+
+
+// --- Relationship Actions ---
+
+/**
+ * Checks the optional type, properties and weight of a relationship. Returns an error message or null if valid.
+ */
+function validateRelationshipAttributes(attributes: RelationshipAttributes): string | null {
+    if (attributes.type !== undefined && attributes.type.trim() && !RELATIONSHIP_TYPE_PATTERN.test(attributes.type.trim())) {
+        return RELATIONSHIP_TYPE_HINT;
+    }
+    if (attributes.properties != null && (typeof attributes.properties !== 'object' || Array.isArray(attributes.properties))) {
+        return 'Relationship properties must be a JSON object.';
+    }
+    if (attributes.weight != null && !Number.isFinite(attributes.weight)) {
+        return 'Relationship weight must be a finite number.';
+    }
+    return null;
+}
 
 /**
  * Adds a relationship between two entries identified by their string IDs.
  */
-export async function addRelationshipAction(sourceId: string, targetId: string): Promise<ActionResult> {
-    const activeName = await getActiveDatasetNameAction();
-     if (!activeName) {
-        return { success: false, error: "No active dataset selected." };
+export async function addRelationshipAction(
+    datasetName: string,
+    sourceId: string,
+    targetId: string,
+    attributes: RelationshipAttributes = {}
+): Promise<ActionResult> {
+     if (!datasetName) {
+        return { success: false, error: "No dataset selected." };
      }
-    console.log(`Server Action [Active: ${activeName}]: Received request to add relationship: ${sourceId} -> ${targetId}`);
+    console.log(`Server Action [Dataset: ${datasetName}]: Received request to add relationship: ${sourceId} -[${attributes.type ?? 'default'}]-> ${targetId}`);
     try {
         if (sourceId === targetId) {
-             console.warn(`Server Action [Active: ${activeName}]: Attempted to add self-referencing relationship for ID ${sourceId}.`);
+             console.warn(`Server Action [Dataset: ${datasetName}]: Attempted to add self-referencing relationship for ID ${sourceId}.`);
              return { success: false, error: 'Cannot create a relationship with the same entry.' };
         }
+        const attributesError = validateRelationshipAttributes(attributes);
+        if (attributesError) {
+            return { success: false, error: attributesError };
+        }
 
         // Pass string IDs to service
-        const newRelationship = await addRelationship(sourceId, targetId);
+        const newRelationship = await addRelationship(datasetName, sourceId, targetId, attributes, await mutationContext('manual'));
 
         if (newRelationship) {
-            console.log(`Server Action [Active: ${activeName}]: Relationship added/found successfully:`, newRelationship);
-            revalidatePath(`/data/${sourceId}`); // Revalidate source page
-            revalidatePath(`/data/${targetId}`); // Revalidate target page (if visited)
-            revalidatePath('/'); // Revalidate overview page
+            console.log(`Server Action [Dataset: ${datasetName}]: Relationship added/found successfully:`, newRelationship);
+            revalidatePath(entryPath(datasetName, sourceId)); // Revalidate source page
+            revalidatePath(entryPath(datasetName, targetId)); // Revalidate target page (if visited)
+            revalidatePath(datasetPath(datasetName)); // Revalidate overview page
             return { success: true, message: 'Relationship added successfully.', data: newRelationship };
         } else {
-             // addRelationship service now returns null if source/target don't exist
-             console.error(`Server Action [Active: ${activeName}]: Failed add relationship ${sourceId} -> ${targetId}. Source or Target ID likely missing in dataset '${activeName}'.`);
-             // Check existence for better error message (optional, requires extra DB calls)
-             // const sourceExists = !!await getDataById(sourceId);
-             // const targetExists = !!await getDataById(targetId);
-             // let errorMsg = `Failed to add relationship in dataset '${activeName}'.`;
-             // if (!sourceExists) errorMsg = `Source entry ID ${sourceId} not found in dataset '${activeName}'.`;
-             // else if (!targetExists) errorMsg = `Target entry ID ${targetId} not found in dataset '${activeName}'.`;
-             // else errorMsg = `Failed to add relationship in dataset '${activeName}'. Possible database issue.`;
-             return { success: false, error: `Failed to add relationship. Ensure both source (${sourceId}) and target (${targetId}) IDs exist in dataset '${activeName}'.` };
-        }
-    } catch (error) {
-        console.error(`Server Action [Active: ${activeName}]: Error adding relationship ${sourceId} -> ${targetId}:`, error);
+             // addRelationship service returns null if source/target don't exist
+             console.error(`Server Action [Dataset: ${datasetName}]: Failed add relationship ${sourceId} -> ${targetId}. Source or Target ID likely missing in dataset '${datasetName}'.`);
+             return { success: false, error: `Failed to add relationship. Ensure both source (${sourceId}) and target (${targetId}) IDs exist in dataset '${datasetName}'.` };
+        }
+    } catch (error) {
+        console.error(`Server Action [Dataset: ${datasetName}]: Error adding relationship ${sourceId} -> ${targetId}:`, error);
         let errorMessage = 'An unexpected error occurred while adding the relationship.';
         if (error instanceof Error) {
             errorMessage = error.message;
@@ -316,21 +683,108 @@ export async function addRelationshipAction(sourceId: string, targetId: string):
 }
 
 /**
- * Fetches relationships originating from a specific source ID (string) in the active dataset.
+ * Changes the target, type, properties and/or weight of an existing relationship, keeping its ID.
+ * Revalidates the source page and the detail pages of the old and the new target.
  */
-export async function getRelationshipsAction(sourceId: string): Promise<ActionResult> {
-    const activeName = await getActiveDatasetNameAction();
-     if (!activeName) {
-        return { success: false, error: "No active dataset selected." };
+export async function updateRelationshipAction(
+    datasetName: string,
+    relationshipId: number,
+    changes: { targetId?: string } & RelationshipAttributes
+): Promise<ActionResult> {
+    if (!datasetName) {
+        return { success: false, error: "No dataset selected." };
+    }
+    console.log(`Server Action [Dataset: ${datasetName}]: Received request to update relationship ${relationshipId}`, changes);
+    try {
+        const attributesError = validateRelationshipAttributes(changes);
+        if (attributesError) {
+            return { success: false, error: attributesError };
+        }
+        const previous = await getRelationshipById(datasetName, relationshipId);
+        if (!previous) {
+            return { success: false, error: `Relationship ${relationshipId} not found in dataset '${datasetName}'.` };
+        }
+        const { targetId, ...attributes } = changes;
+        const updated = await updateRelationship(datasetName, relationshipId, { targetEntryId: targetId, ...attributes }, await mutationContext('manual'));
+        if (!updated) {
+            return { success: false, error: `Failed to update relationship. Ensure the target exists, differs from the source, and is not already related with the same type.` };
+        }
+        revalidatePath(entryPath(datasetName, updated.source_entry_id));
+        revalidatePath(entryPath(datasetName, previous.target_entry_id));
+        revalidatePath(entryPath(datasetName, updated.target_entry_id));
+        revalidatePath(datasetPath(datasetName));
+        return { success: true, message: `Relationship is now ${updated.type} ${updated.target_entry_id}.`, data: updated };
+    } catch (error) {
+        console.error(`Server Action [Dataset: ${datasetName}]: Error updating relationship ${relationshipId}:`, error);
+        const errorMessage = error instanceof Error ? error.message : 'An unexpected error occurred while updating the relationship.';
+        return { success: false, error: errorMessage };
+    }
+}
+
+/**
+ * Deletes a relationship by its ID. The deleted relationship is returned so the caller can offer an undo.
+ */
+export async function deleteRelationshipAction(datasetName: string, relationshipId: number): Promise<ActionResult> {
+    if (!datasetName) {
+        return { success: false, error: "No dataset selected." };
+    }
+    console.log(`Server Action [Dataset: ${datasetName}]: Received request to delete relationship ${relationshipId}`);
+    try {
+        const deleted = await deleteRelationship(datasetName, relationshipId, await mutationContext('manual'));
+        if (!deleted) {
+            return { success: false, error: `Relationship ${relationshipId} not found in dataset '${datasetName}'.` };
+        }
+        revalidatePath(entryPath(datasetName, deleted.source_entry_id));
+        revalidatePath(entryPath(datasetName, deleted.target_entry_id));
+        revalidatePath(datasetPath(datasetName));
+        return { success: true, message: `Relationship ${deleted.source_entry_id} -> ${deleted.target_entry_id} deleted.`, data: deleted };
+    } catch (error) {
+        console.error(`Server Action [Dataset: ${datasetName}]: Error deleting relationship ${relationshipId}:`, error);
+        const errorMessage = error instanceof Error ? error.message : 'An unexpected error occurred while deleting the relationship.';
+        return { success: false, error: errorMessage };
+    }
+}
+
+/**
+ * Undoes a relationship deletion by re-inserting the relationship returned from deleteRelationshipAction.
+ */
+export async function restoreRelationshipAction(datasetName: string, relationship: RelationshipEntry): Promise<ActionResult> {
+    if (!datasetName) {
+        return { success: false, error: "No dataset selected." };
+    }
+    console.log(`Server Action [Dataset: ${datasetName}]: Received request to restore relationship ${relationship.id}`);
+    try {
+        const restored = await restoreRelationship(datasetName, relationship, await mutationContext('manual'));
+        if (!restored) {
+            return { success: false, error: 'The relationship could not be restored. One of its entries was deleted or the relationship was created again.' };
+        }
+        revalidatePath(entryPath(datasetName, restored.source_entry_id));
+        revalidatePath(entryPath(datasetName, restored.target_entry_id));
+        revalidatePath(datasetPath(datasetName));
+        return { success: true, message: 'Relationship restored.', data: restored };
+    } catch (error) {
+        console.error(`Server Action [Dataset: ${datasetName}]: Error restoring relationship ${relationship.id}:`, error);
+        const errorMessage = error instanceof Error ? error.message : 'An unexpected error occurred while restoring the relationship.';
+        return { success: false, error: errorMessage };
+    }
+}
+
+/**
+ * Fetches relationships originating from a specific source ID (string) in the given dataset,
+ * optionally only those of the given type.
+ */
+export async function getRelationshipsAction(datasetName: string, sourceId: string, type?: string): Promise<ActionResult> {
+     if (!datasetName) {
+        return { success: false, error: "No dataset selected." };
      }
-    console.log(`Server Action [Active: ${activeName}]: Received request to get relationships for source ID: ${sourceId}`);
+    console.log(`Server Action [Dataset: ${datasetName}]: Received request to get relationships for source ID: ${sourceId}`);
     try {
         // Pass string ID to service
-        const relationships = await getRelationshipsBySourceId(sourceId);
-        console.log(`Server Action [Active: ${activeName}]: Found ${relationships.length} relationships for ${sourceId}.`);
+        const relationships = await getRelationshipsBySourceId(datasetName, sourceId, type);
+        console.log(`Server Action [Dataset: ${datasetName}]: Found ${relationships.length} relationships for ${sourceId}.`);
         return { success: true, data: relationships };
     } catch (error) {
-        console.error(`Server Action [Active: ${activeName}]: Error getting relationships for ID ${sourceId}:`, error);
+        console.error(`Server Action [Dataset: ${datasetName}]: Error getting relationships for ID ${sourceId}:`, error);
         let errorMessage = 'An unexpected error occurred while fetching relationships.';
         if (error instanceof Error) {
             errorMessage = error.message;
@@ -340,20 +794,60 @@ export async function getRelationshipsAction(sourceId: string): Promise<ActionRe
 }
 
 /**
- * Fetches all relationships from the active dataset.
+ * Fetches the relationships pointing at the given target entry, optionally only those of the given type.
  */
-export async function getAllRelationshipsAction(): Promise<ActionResult> {
-    const activeName = await getActiveDatasetNameAction();
-     if (!activeName) {
-        return { success: false, error: "No active dataset selected." };
+export async function getIncomingRelationshipsAction(datasetName: string, targetId: string, type?: string): Promise<ActionResult> {
+    if (!datasetName) {
+        return { success: false, error: "No dataset selected." };
+    }
+    console.log(`Server Action [Dataset: ${datasetName}]: Received request to get relationships for target ID: ${targetId}`);
+    try {
+        const relationships = await getRelationshipsByTargetId(datasetName, targetId, type);
+        console.log(`Server Action [Dataset: ${datasetName}]: Found ${relationships.length} incoming relationships for ${targetId}.`);
+        return { success: true, data: relationships };
+    } catch (error) {
+        console.error(`Server Action [Dataset: ${datasetName}]: Error getting incoming relationships for ID ${targetId}:`, error);
+        const errorMessage = error instanceof Error ? error.message : 'An unexpected error occurred while fetching incoming relationships.';
+        return { success: false, error: errorMessage };
+    }
+}
+
+/**
+ * Fetches the entries within `depth` hops of an entry (following relationships in both directions)
+ * and the relationships between them.
+ */
+export async function getNeighborhoodAction(datasetName: string, entryId: string, depth: number, type?: string): Promise<ActionResult> {
+    if (!datasetName) {
+        return { success: false, error: "No dataset selected." };
+    }
+    console.log(`Server Action [Dataset: ${datasetName}]: Received request to get the ${depth}-hop neighborhood of ID: ${entryId}`);
+    try {
+        const neighborhood = await getNeighborhood(datasetName, entryId, depth, type);
+        if (!neighborhood) {
+            return { success: false, error: `Entry with ID ${entryId} not found in dataset '${datasetName}'.` };
+        }
+        return { success: true, data: neighborhood };
+    } catch (error) {
+        console.error(`Server Action [Dataset: ${datasetName}]: Error getting neighborhood of ID ${entryId}:`, error);
+        const errorMessage = error instanceof Error ? error.message : 'An unexpected error occurred while fetching the neighborhood.';
+        return { success: false, error: errorMessage };
+    }
+}
+
+/**
+ * Fetches all relationships from the given dataset, optionally only those of the given type.
+ */
+export async function getAllRelationshipsAction(datasetName: string, type?: string): Promise<ActionResult> {
+     if (!datasetName) {
+        return { success: false, error: "No dataset selected." };
      }
-    console.log(`Server Action [Active: ${activeName}]: Received request to get all relationships.`);
+    console.log(`Server Action [Dataset: ${datasetName}]: Received request to get all relationships.`);
     try {
-        const relationships = await getAllRelationships(); // Fetches from active dataset
-        console.log(`Server Action [Active: ${activeName}]: Found ${relationships.length} total relationships.`);
+        const relationships = await getAllRelationships(datasetName, type);
+        console.log(`Server Action [Dataset: ${datasetName}]: Found ${relationships.length} total relationships.`);
         return { success: true, data: relationships };
     } catch (error) {
-        console.error(`Server Action [Active: ${activeName}]: Error getting all relationships:`, error);
+        console.error(`Server Action [Dataset: ${datasetName}]: Error getting all relationships:`, error);
         let errorMessage = 'An unexpected error occurred while fetching all relationships.';
         if (error instanceof Error) {
             errorMessage = error.message;
@@ -361,3 +855,454 @@ export async function getAllRelationshipsAction(): Promise<ActionResult> {
         return { success: false, error: errorMessage };
     }
 }
+
+/**
+ * Fetches the relationship types used in the given dataset, with their usage counts.
+ */
+export async function getRelationshipTypesAction(datasetName: string): Promise<ActionResult> {
+    if (!datasetName) {
+        return { success: false, error: "No dataset selected." };
+    }
+    console.log(`Server Action [Dataset: ${datasetName}]: Received request to get relationship types.`);
+    try {
+        const types = await getRelationshipTypes(datasetName);
+        return { success: true, data: types };
+    } catch (error) {
+        console.error(`Server Action [Dataset: ${datasetName}]: Error getting relationship types:`, error);
+        const errorMessage = error instanceof Error ? error.message : 'An unexpected error occurred while fetching relationship types.';
+        return { success: false, error: errorMessage };
+    }
+}
+
+// --- Relationship Suggestion Actions ---
+
+/**
+ * Suggests relationships for one entry (or the whole dataset if entryId is null) that do not exist yet: from
+ * foreign-key-like fields and shared values, and, if useAi is set, from the AI model. If the model fails, the
+ * heuristic suggestions are still returned, with the error in `aiError`.
+ */
+export async function suggestRelationshipsAction(datasetName: string, entryId: string | null, useAi = true): Promise<ActionResult> {
+    if (!datasetName) {
+        return { success: false, error: "No dataset selected." };
+    }
+    console.log(`Server Action [Dataset: ${datasetName}]: Received request to suggest relationships for ${entryId ? `entry ${entryId}` : 'the whole dataset'}.`);
+    try {
+        const result = await suggestRelationships(datasetName, entryId, useAi);
+        if (!result) {
+            return { success: false, error: entryId ? `Entry with ID ${entryId} not found in dataset '${datasetName}'.` : `Dataset '${datasetName}' not found.` };
+        }
+        console.log(`Server Action [Dataset: ${datasetName}]: Suggesting ${result.suggestions.length} relationships.`);
+        return { success: true, data: result };
+    } catch (error) {
+        console.error(`Server Action [Dataset: ${datasetName}]: Error suggesting relationships:`, error);
+        const errorMessage = error instanceof Error ? error.message : 'An unexpected error occurred while suggesting relationships.';
+        return { success: false, error: errorMessage };
+    }
+}
+
+/**
+ * Creates the accepted relationship suggestions in one transaction, recorded in the audit log with the 'suggestion'
+ * source. Suggestions whose entries no longer exist are skipped; relationships that already exist are reported
+ * separately ({ created, existing, skipped }).
+ */
+export async function acceptRelationshipSuggestionsAction(
+    datasetName: string,
+    suggestions: Pick<RelationshipSuggestion, 'source_entry_id' | 'target_entry_id' | 'type'>[]
+): Promise<ActionResult> {
+    if (!datasetName) {
+        return { success: false, error: "No dataset selected." };
+    }
+    if (suggestions.length === 0) {
+        return { success: false, error: 'No suggestions selected.' };
+    }
+    console.log(`Server Action [Dataset: ${datasetName}]: Received request to accept ${suggestions.length} relationship suggestions.`);
+    try {
+        for (const suggestion of suggestions) {
+            if (suggestion.source_entry_id === suggestion.target_entry_id) {
+                return { success: false, error: 'Cannot create a relationship with the same entry.' };
+            }
+            const attributesError = validateRelationshipAttributes({ type: suggestion.type });
+            if (attributesError) {
+                return { success: false, error: attributesError };
+            }
+        }
+
+        // All or nothing: a failure partway does not leave some of the accepted relationships behind
+        const { created, existing, skipped } = await addRelationships(datasetName, suggestions, await mutationContext('suggestion'));
+
+        for (const id of new Set(created.flatMap(r => [r.source_entry_id, r.target_entry_id]))) {
+            revalidatePath(entryPath(datasetName, id));
+        }
+        revalidatePath(datasetPath(datasetName));
+        const parts = [`${created.length} relationship${created.length === 1 ? '' : 's'} added.`];
+        if (existing.length) parts.push(`${existing.length} already existed.`);
+        if (skipped) parts.push(`${skipped} skipped because an entry no longer exists.`);
+        return { success: true, message: parts.join(' '), data: { created, existing, skipped } };
+    } catch (error) {
+        console.error(`Server Action [Dataset: ${datasetName}]: Error accepting relationship suggestions:`, error);
+        const errorMessage = error instanceof Error ? error.message : 'An unexpected error occurred while adding the suggested relationships.';
+        return { success: false, error: errorMessage };
+    }
+}
+
+// --- Dataset Schema Actions ---
+
+/**
+ * Fetches the documented schema of a dataset ({ schema }, null if none has been documented yet).
+ */
+export async function getDatasetSchemaAction(datasetName: string): Promise<ActionResult> {
+    if (!datasetName) {
+        return { success: false, error: "No dataset selected." };
+    }
+    try {
+        const result = await getDatasetSchema(datasetName);
+        if (!result) {
+            return { success: false, error: `Dataset '${datasetName}' not found.` };
+        }
+        return { success: true, data: result };
+    } catch (error) {
+        console.error(`Server Action [Dataset: ${datasetName}]: Error fetching schema:`, error);
+        const errorMessage = error instanceof Error ? error.message : 'An unexpected error occurred while fetching the schema.';
+        return { success: false, error: errorMessage };
+    }
+}
+
+/**
+ * Replaces the documented schema of a dataset after checking it, or removes it (null).
+ */
+export async function saveDatasetSchemaAction(datasetName: string, schema: DatasetSchema | null): Promise<ActionResult> {
+    if (!datasetName) {
+        return { success: false, error: "No dataset selected." };
+    }
+    console.log(`Server Action [Dataset: ${datasetName}]: Received request to save the schema (${schema ? `${schema.fields.length} fields` : 'none'}).`);
+    const schemaError = schema && datasetSchemaError(schema);
+    if (schemaError) {
+        return { success: false, error: schemaError };
+    }
+    try {
+        const success = await setDatasetSchema(datasetName, schema, await mutationContext('manual'));
+        if (!success) {
+            return { success: false, error: `Dataset '${datasetName}' not found.` };
+        }
+        revalidatePath(datasetInfoPath(datasetName));
+        return { success: true, message: schema ? 'Schema saved.' : 'Schema removed.', data: { schema } };
+    } catch (error) {
+        console.error(`Server Action [Dataset: ${datasetName}]: Error saving schema:`, error);
+        const errorMessage = error instanceof Error ? error.message : 'An unexpected error occurred while saving the schema.';
+        return { success: false, error: errorMessage };
+    }
+}
+
+/**
+ * Infers the schema of a dataset with the AI model from a random sample of its entries and stores it as the
+ * documented schema, replacing the current one. Returns { schema }.
+ * @param sampleSize How many entries to sample (see clampSchemaSampleSize).
+ */
+export async function inferDatasetSchemaAction(datasetName: string, sampleSize?: number): Promise<ActionResult> {
+    if (!datasetName) {
+        return { success: false, error: "No dataset selected." };
+    }
+    console.log(`Server Action [Dataset: ${datasetName}]: Received request to infer the schema.`);
+    try {
+        const schema = await inferSchemaFlow({ datasetName, sampleSize }) as DatasetSchema;
+        const success = await setDatasetSchema(datasetName, schema, await mutationContext('manual'), {
+            inferredBy: schema.inferred_by?.model,
+            sampleSize: schema.inferred_by?.sample_size,
+        });
+        if (!success) {
+            return { success: false, error: `Dataset '${datasetName}' not found.` };
+        }
+        revalidatePath(datasetInfoPath(datasetName));
+        return { success: true, message: `Inferred ${schema.fields.length} fields from ${schema.inferred_by?.sample_size} entries.`, data: { schema } };
+    } catch (error) {
+        console.error(`Server Action [Dataset: ${datasetName}]: Error inferring schema:`, error);
+        const errorMessage = error instanceof Error ? error.message : 'An unexpected error occurred while inferring the schema.';
+        return { success: false, error: errorMessage };
+    }
+}
+
+// --- Cleaning Rule Actions ---
+
+/**
+ * Fetches the cleaning rule set of a dataset.
+ */
+export async function getCleaningRulesAction(datasetName: string): Promise<ActionResult> {
+    if (!datasetName) {
+        return { success: false, error: "No dataset selected." };
+    }
+    try {
+        const rules = await getCleaningRules(datasetName);
+        if (!rules) {
+            return { success: false, error: `Dataset '${datasetName}' not found.` };
+        }
+        return { success: true, data: rules };
+    } catch (error) {
+        console.error(`Server Action [Dataset: ${datasetName}]: Error fetching cleaning rules:`, error);
+        const errorMessage = error instanceof Error ? error.message : 'An unexpected error occurred while fetching the cleaning rules.';
+        return { success: false, error: errorMessage };
+    }
+}
+
+/**
+ * Replaces the cleaning rule set of a dataset after checking that every rule is usable.
+ */
+export async function saveCleaningRulesAction(datasetName: string, rules: CleaningRule[]): Promise<ActionResult> {
+    if (!datasetName) {
+        return { success: false, error: "No dataset selected." };
+    }
+    console.log(`Server Action [Dataset: ${datasetName}]: Received request to save ${rules.length} cleaning rules.`);
+    const rulesError = cleaningRulesError(rules);
+    if (rulesError) {
+        return { success: false, error: rulesError };
+    }
+    try {
+        const success = await setCleaningRules(datasetName, rules, await mutationContext('manual'));
+        if (!success) {
+            return { success: false, error: `Dataset '${datasetName}' not found.` };
+        }
+        revalidatePath(cleaningRulesPath(datasetName));
+        return { success: true, message: `Saved ${rules.length} cleaning rule${rules.length === 1 ? '' : 's'}.`, data: rules };
+    } catch (error) {
+        console.error(`Server Action [Dataset: ${datasetName}]: Error saving cleaning rules:`, error);
+        const errorMessage = error instanceof Error ? error.message : 'An unexpected error occurred while saving the cleaning rules.';
+        return { success: false, error: errorMessage };
+    }
+}
+
+/**
+ * Shows what a rule set would change without writing anything, so rules can be tried out before they are saved.
+ * @param query Filters and relationship filter of the preview, or null for all entries.
+ */
+export async function previewCleaningRulesAction(datasetName: string, rules: CleaningRule[], query: EntryQuery | null): Promise<ActionResult> {
+    if (!datasetName) {
+        return { success: false, error: "No dataset selected." };
+    }
+    const rulesError = cleaningRulesError(rules);
+    if (rulesError) {
+        return { success: false, error: rulesError };
+    }
+    try {
+        const summary = await runCleaningRules(datasetName, rules, query, false, await mutationContext('rule-clean'));
+        return { success: true, data: summary };
+    } catch (error) {
+        console.error(`Server Action [Dataset: ${datasetName}]: Error previewing cleaning rules:`, error);
+        const errorMessage = error instanceof Error ? error.message : 'An unexpected error occurred while previewing the cleaning rules.';
+        return { success: false, error: errorMessage };
+    }
+}
+
+/**
+ * Applies the saved cleaning rules of a dataset to all its entries, or only those matching the given filters.
+ * @param query Filters and relationship filter of the preview, or null for all entries.
+ */
+export async function applyCleaningRulesAction(datasetName: string, query: EntryQuery | null): Promise<ActionResult> {
+    if (!datasetName) {
+        return { success: false, error: "No dataset selected." };
+    }
+    console.log(`Server Action [Dataset: ${datasetName}]: Received request to apply cleaning rules.`);
+    try {
+        const rules = await getCleaningRules(datasetName);
+        if (!rules) {
+            return { success: false, error: `Dataset '${datasetName}' not found.` };
+        }
+        if (!rules.some(rule => rule.enabled !== false)) {
+            return { success: false, error: "The dataset has no enabled cleaning rules." };
+        }
+        const summary = await runCleaningRules(datasetName, rules, query, true, await mutationContext('rule-clean'));
+        if (summary.changed > 0) {
+            revalidatePath(datasetPath(datasetName));
+        }
+        return { success: true, message: `Cleaned ${summary.changed} of ${summary.examined} entries.`, data: summary };
+    } catch (error) {
+        console.error(`Server Action [Dataset: ${datasetName}]: Error applying cleaning rules:`, error);
+        const errorMessage = error instanceof Error ? error.message : 'An unexpected error occurred while applying the cleaning rules.';
+        return { success: false, error: errorMessage };
+    }
+}
+
+/**
+ * Runs the saved cleaning rules of a dataset over one entry and returns the changes they make
+ * ({ changes, model: null }, like cleanDataAction); nothing is written.
+ */
+export async function cleanDataWithRulesAction(datasetName: string, entryId: string): Promise<ActionResult> {
+    if (!datasetName) {
+        return { success: false, error: "No dataset selected." };
+    }
+    console.log(`Server Action [Dataset: ${datasetName}]: Received request to clean data with rules for ID: ${entryId}`);
+    try {
+        const [currentData, rules] = await Promise.all([getDataById(datasetName, entryId), getCleaningRules(datasetName)]);
+        if (!currentData || !rules) {
+            return { success: false, error: `Data entry with ID ${entryId} not found in dataset '${datasetName}'.` };
+        }
+        if (!rules.some(rule => rule.enabled !== false)) {
+            return { success: false, error: "The dataset has no enabled cleaning rules." };
+        }
+        const { id: ignoredId, ...data } = currentData;
+        return { success: true, message: 'Cleaning rules applied.', data: { changes: ruleCleaningChanges(data, applyCleaningRules(data, rules)), model: null } };
+    } catch (error) {
+        console.error(`Server Action [Dataset: ${datasetName}]: Error cleaning data with rules for ID ${entryId}:`, error);
+        const errorMessage = error instanceof Error ? error.message : 'An unexpected error occurred during rule-based cleaning.';
+        return { success: false, error: errorMessage };
+    }
+}
+
+// --- Cleaning Job Actions ---
+
+/**
+ * Starts a batch AI cleaning job over all entries of the dataset, or only those matching the given filters.
+ * The job runs on the server; its suggestions are reviewed on the job's page.
+ * @param query Filters and relationship filter of the preview, or null for all entries.
+ */
+export async function startCleaningJobAction(datasetName: string, query: EntryQuery | null, concurrency?: number): Promise<ActionResult> {
+    if (!datasetName) {
+        return { success: false, error: "No dataset selected." };
+    }
+    console.log(`Server Action [Dataset: ${datasetName}]: Received request to start a cleaning job.`);
+    try {
+        const job = await createCleaningJob(datasetName, query, clampCleaningConcurrency(concurrency), flowModelName('cleanData'), await mutationContext('ai-clean'));
+        if (!job) {
+            return { success: false, error: "No entries match the current filters." };
+        }
+        startCleaningJob(job.id, job.concurrency);
+        console.log(`Server Action [Dataset: ${datasetName}]: Started cleaning job ${job.id} for ${job.total} entries.`);
+        return { success: true, message: `Cleaning ${job.total} entries in the background.`, data: withRunnerState(job) };
+    } catch (error) {
+        console.error(`Server Action [Dataset: ${datasetName}]: Error starting cleaning job:`, error);
+        const errorMessage = error instanceof Error ? error.message : 'An unexpected error occurred while starting the cleaning job.';
+        return { success: false, error: errorMessage };
+    }
+}
+
+/**
+ * Lists the cleaning jobs of a dataset with their progress, newest first.
+ */
+export async function getCleaningJobsAction(datasetName: string): Promise<ActionResult> {
+    if (!datasetName) {
+        return { success: false, error: "No dataset selected." };
+    }
+    try {
+        const jobs = await getCleaningJobs(datasetName);
+        return { success: true, data: jobs.map(withRunnerState) };
+    } catch (error) {
+        console.error(`Server Action [Dataset: ${datasetName}]: Error fetching cleaning jobs:`, error);
+        const errorMessage = error instanceof Error ? error.message : 'An unexpected error occurred while fetching the cleaning jobs.';
+        return { success: false, error: errorMessage };
+    }
+}
+
+/**
+ * Fetches the progress of a cleaning job and one page of its entries, optionally only those in one state.
+ */
+export async function getCleaningJobAction(datasetName: string, jobId: number, status?: CleaningItemStatus, cursor?: string | null): Promise<ActionResult> {
+    if (!datasetName) {
+        return { success: false, error: "No dataset selected." };
+    }
+    try {
+        const [job, page] = await Promise.all([
+            getCleaningJob(datasetName, jobId),
+            getCleaningJobItems(datasetName, jobId, { status, cursor }),
+        ]);
+        if (!job) {
+            return { success: false, error: `Cleaning job ${jobId} not found in dataset '${datasetName}'.` };
+        }
+        return { success: true, data: { job: withRunnerState(job), ...page } };
+    } catch (error) {
+        console.error(`Server Action [Dataset: ${datasetName}]: Error fetching cleaning job ${jobId}:`, error);
+        const errorMessage = error instanceof Error ? error.message : 'An unexpected error occurred while fetching the cleaning job.';
+        return { success: false, error: errorMessage };
+    }
+}
+
+/**
+ * Cancels a running cleaning job. Suggestions made so far can still be reviewed; the job can be resumed later.
+ */
+export async function cancelCleaningJobAction(datasetName: string, jobId: number): Promise<ActionResult> {
+    if (!datasetName) {
+        return { success: false, error: "No dataset selected." };
+    }
+    console.log(`Server Action [Dataset: ${datasetName}]: Received request to cancel cleaning job ${jobId}.`);
+    try {
+        const job = await setCleaningJobStatus(datasetName, jobId, 'cancelled');
+        if (!job) {
+            return { success: false, error: `Cleaning job ${jobId} not found in dataset '${datasetName}'.` };
+        }
+        stopCleaningJob(jobId);
+        return { success: true, message: 'Cleaning job cancelled.', data: withRunnerState(job) };
+    } catch (error) {
+        console.error(`Server Action [Dataset: ${datasetName}]: Error cancelling cleaning job ${jobId}:`, error);
+        const errorMessage = error instanceof Error ? error.message : 'An unexpected error occurred while cancelling the cleaning job.';
+        return { success: false, error: errorMessage };
+    }
+}
+
+/**
+ * Resumes a cancelled or interrupted cleaning job, and retries the entries on which the model failed.
+ */
+export async function resumeCleaningJobAction(datasetName: string, jobId: number): Promise<ActionResult> {
+    if (!datasetName) {
+        return { success: false, error: "No dataset selected." };
+    }
+    console.log(`Server Action [Dataset: ${datasetName}]: Received request to resume cleaning job ${jobId}.`);
+    try {
+        const job = await setCleaningJobStatus(datasetName, jobId, 'running', flowModelName('cleanData'));
+        if (!job) {
+            return { success: false, error: `Cleaning job ${jobId} not found in dataset '${datasetName}'.` };
+        }
+        startCleaningJob(job.id, job.concurrency);
+        return { success: true, message: 'Cleaning job resumed.', data: withRunnerState(job) };
+    } catch (error) {
+        console.error(`Server Action [Dataset: ${datasetName}]: Error resuming cleaning job ${jobId}:`, error);
+        const errorMessage = error instanceof Error ? error.message : 'An unexpected error occurred while resuming the cleaning job.';
+        return { success: false, error: errorMessage };
+    }
+}
+
+/**
+ * Accepts or rejects suggestions of a cleaning job: the given entries, or all suggestions waiting for review.
+ * Accepted suggestions are written to their entries as AI cleanings.
+ */
+export async function reviewCleaningItemsAction(
+    datasetName: string,
+    jobId: number,
+    decision: 'accept' | 'reject',
+    entryIds: string[] | null
+): Promise<ActionResult> {
+    if (!datasetName) {
+        return { success: false, error: "No dataset selected." };
+    }
+    console.log(`Server Action [Dataset: ${datasetName}]: Received request to ${decision} suggestions of cleaning job ${jobId}.`);
+    try {
+        const summary = await reviewCleaningItems(datasetName, jobId, decision, entryIds, await mutationContext('ai-clean'));
+        if (!summary) {
+            return { success: false, error: `Cleaning job ${jobId} not found in dataset '${datasetName}'.` };
+        }
+        for (const entryId of summary.acceptedIds) {
+            revalidatePath(entryPath(datasetName, entryId)); // Their detail pages still show the content before cleaning
+        }
+        if (summary.accepted > 0) {
+            revalidatePath(datasetPath(datasetName));
+        }
+        return { success: true, data: summary };
+    } catch (error) {
+        console.error(`Server Action [Dataset: ${datasetName}]: Error reviewing suggestions of cleaning job ${jobId}:`, error);
+        const errorMessage = error instanceof Error ? error.message : 'An unexpected error occurred while reviewing the suggestions.';
+        return { success: false, error: errorMessage };
+    }
+}
+
+// --- Audit Log Actions ---
+
+/**
+ * Fetches one page of the audit log, newest first, filtered by dataset, actor and/or action.
+ */
+export async function getAuditLogAction(query: AuditQuery): Promise<ActionResult> {
+    console.log('Server Action: Received request for audit events:', query);
+    try {
+        const page = await queryAuditLog(query);
+        return { success: true, data: page };
+    } catch (error) {
+        console.error('Server Action: Error fetching audit events:', error);
+        const errorMessage = error instanceof Error ? error.message : 'An unexpected error occurred while fetching the audit log.';
+        return { success: false, error: errorMessage };
+    }
+}
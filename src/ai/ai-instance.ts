@@ -1,12 +1,35 @@
 import {genkit} from 'genkit';
+import type {GenkitPlugin} from 'genkit/plugin';
 import {googleAI} from '@genkit-ai/googleai';
+import {configuredModelNames, DEFAULT_AI_MODEL, parseModelName} from '@/ai/model-config';
+import {defineFakeModel, defineLocalModel} from '@/ai/model-providers';
 
-export const ai = genkit({
-  promptDir: './prompts',
-  plugins: [
+// Providers and models are chosen in the environment (see model-config.ts), so an air-gapped setup
+// can run on a local model without ever loading the Google AI plugin.
+let models: ReturnType<typeof parseModelName>[] = [];
+try {
+  models = configuredModelNames().map(parseModelName);
+} catch (error) {
+  // Flows report the invalid setting when they run; the rest of the app keeps working
+  console.error('AI model configuration is invalid:', error instanceof Error ? error.message : error);
+}
+
+const plugins: GenkitPlugin[] = [];
+if (models.some(({provider}) => provider === 'googleai')) {
+  plugins.push(
     googleAI({
       apiKey: process.env.GOOGLE_GENAI_API_KEY,
-    }),
-  ],
-  model: 'googleai/gemini-2.0-flash',
+    })
+  );
+}
+
+export const ai = genkit({
+  promptDir: './prompts',
+  plugins,
+  model: process.env.AI_MODEL?.trim() || DEFAULT_AI_MODEL,
 });
+
+for (const {provider, model} of models) {
+  if (provider === 'local') defineLocalModel(ai, model);
+  if (provider === 'fake') defineFakeModel(ai, model);
+}
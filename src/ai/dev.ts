@@ -1,2 +1,4 @@
 // Flows will be imported for their side effects in this file.
 import './flows/clean-data-flow';
+import './flows/infer-schema-flow';
+import './flows/suggest-relationships-flow';
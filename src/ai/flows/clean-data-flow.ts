@@ -4,13 +4,15 @@
 /**
  * @fileOverview A Genkit flow for cleaning and standardizing data entries.
  *
- * - cleanDataFlow - A function that takes a data entry and returns a cleaned version.
+ * - cleanDataFlow - A function that takes a data entry and returns the field-level changes that clean it.
  * - CleanDataInput - The input type for the cleanDataFlow function (currently DataEntry).
- * - CleanDataOutput - The return type for the cleanDataFlow function (potentially DataEntry without id).
+ * - CleanDataOutput - The return type for the cleanDataFlow function: the changes, each with a category, rationale and confidence.
  */
 
 import { ai } from '@/ai/ai-instance';
-import type { DataEntry } from '@/services/types'; // Updated import path
+import { flowModelName } from '@/ai/model-config';
+import type { CleaningChange, DataEntry } from '@/services/types'; // Updated import path
+import { AI_CLEANING_CHANGE_CATEGORIES, validCleaningChanges } from '@/lib/cleaning-changes';
 import { z } from 'genkit';
 import { json } from 'genkit/experimental'; // Import json helper
 
@@ -19,13 +21,24 @@ const DataEntryInputSchema = z.record(z.string(), z.any())
     .refine(data => typeof data.id === 'string', { message: "Input must have a string 'id' field." })
     .describe('A flexible data entry object with string keys and any value types, requiring a string id.');
 
-// Define a flexible schema for output, which might exclude 'id'
-const DataEntryOutputSchema = z.record(z.string(), z.any())
-    .describe('A flexible data entry object representing the cleaned data, potentially excluding the id.');
+// One value the model wants to change, addressed by a JSON Pointer into the entry content
+const CleaningChangeSchema = z.object({
+    path: z.string().describe("JSON Pointer (RFC 6901) to the changed value, e.g. '/email' or '/address/city' or '/tags/0'."),
+    before: z.any().describe('The value currently at the path, exactly as in the input.'),
+    after: z.any().describe('The cleaned value.'),
+    category: z.enum(AI_CLEANING_CHANGE_CATEGORIES).describe('The kind of fix.'),
+    rationale: z.string().describe('One short sentence explaining the change.'),
+    confidence: z.number().min(0).max(1).describe('How sure you are that the change is correct, from 0 to 1.'),
+});
+
+// Output of the prompt and the flow: the list of changes; an empty list means the entry is already clean
+const CleanDataOutputSchema = z.object({
+    changes: z.array(CleaningChangeSchema),
+}).describe('The field-level changes that clean the data entry.');
 
 export type CleanDataInput = z.infer<typeof DataEntryInputSchema>;
-// The output type represents the data *excluding* the ID, as the cleaning shouldn't modify the ID.
-export type CleanDataOutput = Omit<DataEntry, 'id'>;
+// Changes never touch the 'id'; paths point into the content without it.
+export type CleanDataOutput = { changes: CleaningChange[] };
 
 
 // Define the prompt for the LLM
@@ -36,8 +49,8 @@ const cleanDataPrompt = ai.definePrompt({
     schema: z.record(z.string(), z.any()).describe('Data entry content excluding the ID.'),
   },
   output: {
-    // Expect the LLM to output cleaned JSON *without* the ID
-    schema: DataEntryOutputSchema,
+    // Expect the LLM to list its changes instead of rewriting the whole entry, so each one can be reviewed
+    schema: CleanDataOutputSchema,
   },
   prompt: `You are an expert data cleaning agent. Analyze the following JSON data entry (which excludes the original ID) and perform these cleaning tasks:
 1.  Trim leading/trailing whitespace from all string values.
@@ -45,15 +58,23 @@ const cleanDataPrompt = ai.definePrompt({
 3.  Correct obvious typos in string values where confidence is high.
 4.  Attempt to standardize boolean-like strings (e.g., "yes", "True", "1" to true; "no", "False", "0" to false).
 5.  Format date strings to ISO 8601 format (YYYY-MM-DDTHH:mm:ss.sssZ) if they are recognizable date formats.
-6.  Ensure the structure of the JSON remains the same, only modifying values and potentially key casing. Do not add or remove keys unless it's purely a casing change. Do NOT re-introduce an 'id' field.
-7.  Return the cleaned JSON object (without the 'id' field).
+6.  Ensure the structure of the JSON remains the same: only modify values. Do not add, remove or rename keys.
+
+Report every value you change as one entry of "changes":
+- "path": a JSON Pointer to the value, e.g. "/email", "/address/city" or "/tags/0". Point at the most specific value you change.
+- "before": the value currently at the path, copied exactly from the input.
+- "after": the cleaned value.
+- "category": "trim", "typo", "boolean", "date", "casing", or "other" for anything else.
+- "rationale": one short sentence explaining why.
+- "confidence": from 0 to 1, how sure you are that the change is correct. Use low values for guesses.
+
+Do not report values you leave unchanged. If nothing needs cleaning, return an empty "changes" list.
 
 Original Data Entry (excluding ID):
 \`\`\`json
 {{{json input}}}
 \`\`\`
-
-Return ONLY the cleaned JSON object, without adding an 'id' field.`,
+`,
 });
 
 
@@ -66,8 +87,8 @@ export const cleanDataFlow = ai.defineFlow<
     name: 'cleanDataFlow',
     // We use the full DataEntry for the flow's inputSchema for type safety at the call site
     inputSchema: DataEntryInputSchema,
-    // The flow's outputSchema represents the cleaned data (potentially without ID)
-    outputSchema: DataEntryOutputSchema,
+    // The flow's outputSchema is the list of changes to the data (without ID)
+    outputSchema: CleanDataOutputSchema,
   },
   async (dataEntryWithId) => {
     console.log("Genkit Flow: Received data for cleaning:", dataEntryWithId);
@@ -77,10 +98,12 @@ export const cleanDataFlow = ai.defineFlow<
 
     console.log("Genkit Flow: Sending data to prompt (excluding ID):", dataToClean);
 
-    // Call the LLM prompt with the data excluding the ID
-    const result = await cleanDataPrompt(dataToClean);
+    // Call the LLM prompt with the data excluding the ID, on the model configured for this flow
+    const model = flowModelName('cleanData');
+    console.log(`Genkit Flow: Cleaning with model ${model}`);
+    const result = await cleanDataPrompt(dataToClean, { model });
 
-    // Use .output directly; the prompt's output schema defines the expected structure (without ID)
+    // Use .output directly; the prompt's output schema defines the expected structure
     const cleanedOutput = result.output;
 
     if (!cleanedOutput) {
@@ -88,8 +111,13 @@ export const cleanDataFlow = ai.defineFlow<
         throw new Error('Failed to get cleaned data from the AI model.');
     }
 
-    console.log("Genkit Flow: Returning cleaned data (excluding ID):", cleanedOutput);
-    // Return the cleaned data, which should not include the 'id' based on the prompt
-    return cleanedOutput as CleanDataOutput;
+    // Drop changes that do not match the input (wrong path or 'before' value, no actual change)
+    const changes = validCleaningChanges(dataToClean, cleanedOutput.changes as CleaningChange[]);
+    if (changes.length < cleanedOutput.changes.length) {
+        console.warn(`Genkit Flow: Dropped ${cleanedOutput.changes.length - changes.length} changes that do not match the data.`);
+    }
+
+    console.log("Genkit Flow: Returning changes:", changes);
+    return { changes };
   }
 );
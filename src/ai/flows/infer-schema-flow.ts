@@ -0,0 +1,162 @@
+// src/ai/flows/infer-schema-flow.ts
+'use server';
+/**
+ * @fileOverview A Genkit flow that proposes the documented schema of a dataset from a sample of its entries.
+ *
+ * - inferSchemaFlow - A function that samples entries of a dataset and returns a schema: field names, types,
+ *   optionality, enums, formats and a description of each field.
+ * - InferSchemaInput - The input type for the inferSchemaFlow function: the dataset and the sample size.
+ * - InferSchemaOutput - The return type for the inferSchemaFlow function (a DatasetSchema).
+ */
+
+import { ai } from '@/ai/ai-instance';
+import { flowModelName } from '@/ai/model-config';
+import { getDatasetInfo, sampleEntries } from '@/services/database';
+import type { DatasetSchema } from '@/services/types';
+import {
+    DATASET_SCHEMA_FIELD_TYPES,
+    clampSchemaSampleSize,
+    mergeSchemaProposal,
+    profileEntries,
+    profiledEnumCandidates,
+    profiledFieldType,
+} from '@/lib/dataset-schema';
+import { z } from 'genkit';
+
+// Entries shown to the model as they are, besides the profile of the whole sample
+const EXAMPLE_ENTRY_COUNT = 5;
+const EXAMPLE_VALUE_COUNT = 5;
+
+const InferSchemaInputSchema = z.object({
+    datasetName: z.string().min(1).describe('The dataset whose entries are sampled.'),
+    sampleSize: z.number().int().optional().describe('How many entries to sample.'),
+});
+
+// One field as the model documents it
+const ProposedFieldSchema = z.object({
+    path: z.string().describe("The field path exactly as listed in the profile, e.g. 'email', 'address.city' or 'tags.*'."),
+    type: z.enum(DATASET_SCHEMA_FIELD_TYPES).describe('The type of the values.'),
+    optional: z.boolean().describe('Whether entries may leave the field out or set it to null.'),
+    enum: z.array(z.union([z.string(), z.number()])).optional().describe('The only allowed values, if the field is a fixed set.'),
+    format: z.string().optional().describe("Format of text values, e.g. 'email', 'uri', 'uuid', 'date', 'date-time', 'phone', 'currency-code'."),
+    description: z.string().describe('One or two sentences on what the field means.'),
+});
+
+// Output of the prompt: the model's proposal, merged with the profile by the flow
+const ProposedSchemaSchema = z.object({
+    description: z.string().describe('One or two sentences on what one entry of the dataset represents.'),
+    fields: z.array(ProposedFieldSchema),
+});
+
+const InferSchemaOutputSchema = ProposedSchemaSchema.extend({
+    inferred_by: z.object({ model: z.string(), sample_size: z.number().int(), inferred_at: z.string() }).nullable(),
+});
+
+export type InferSchemaInput = z.infer<typeof InferSchemaInputSchema>;
+export type InferSchemaOutput = DatasetSchema;
+
+
+const inferSchemaPrompt = ai.definePrompt({
+  name: 'inferSchemaPrompt',
+  input: {
+    schema: z.object({
+      datasetName: z.string(),
+      datasetDescription: z.string(),
+      sampleSize: z.number(),
+      fields: z.array(z.record(z.string(), z.any())).describe('Profile of every field found in the sample.'),
+      examples: z.array(z.record(z.string(), z.any())).describe('A few sampled entries, without their IDs.'),
+    }),
+  },
+  output: {
+    schema: ProposedSchemaSchema,
+  },
+  prompt: `You are an expert data modeller. Document the schema of the JSON entries of the dataset "{{datasetName}}".
+{{#if datasetDescription}}The dataset is described as: {{datasetDescription}}
+{{/if}}
+{{sampleSize}} entries were sampled at random. This is the profile of every field found in them:
+- "path": the field, as a dot-separated path; "*" stands for the items of an array.
+- "observedType": the type of the values seen ("mixed" if there were several).
+- "presentIn": in how many of the entries, parent objects or array items the field had a value other than null.
+- "values": some distinct values seen; "fixedSetCandidate" is true if these look like all the allowed values.
+- "format": a format every text value matched, if any.
+
+\`\`\`json
+{{{json fields}}}
+\`\`\`
+
+Some of the sampled entries (IDs left out):
+\`\`\`json
+{{{json examples}}}
+\`\`\`
+
+Document the dataset:
+- "description": what one entry represents.
+- "fields": one item per field of the profile, with the same "path". Do not invent fields.
+  - "type": normally the observed type; use "number" rather than "integer" if fractions are plausible.
+  - "optional": true if entries may leave the field out or set it to null. Fields present in fewer places than they could be are optional.
+  - "enum": only for fields that are clearly a fixed set of values, such as statuses or categories; list all allowed values.
+  - "format": for text values with a recognisable format (e.g. "email", "uri", "uuid", "date", "date-time", "phone", "country-code"); leave it out otherwise.
+  - "description": what the field means, in one or two plain sentences. Infer it from the field name and values.
+`,
+});
+
+
+export const inferSchemaFlow = ai.defineFlow(
+  {
+    name: 'inferSchemaFlow',
+    inputSchema: InferSchemaInputSchema,
+    // The proposal merged with the profile of the sample, and where it came from
+    outputSchema: InferSchemaOutputSchema,
+  },
+  async ({ datasetName, sampleSize }) => {
+    const size = clampSchemaSampleSize(sampleSize);
+    console.log(`Genkit Flow: Inferring the schema of '${datasetName}' from up to ${size} entries`);
+
+    const [info, sample] = await Promise.all([getDatasetInfo(datasetName), sampleEntries(datasetName, size)]);
+    if (!info || !sample) {
+        throw new Error(`Dataset '${datasetName}' not found.`);
+    }
+    if (sample.length === 0) {
+        throw new Error(`Dataset '${datasetName}' has no entries to infer a schema from.`);
+    }
+
+    const contents = sample.map(({ id, ...data }) => data);
+    const profile = profileEntries(contents);
+    const fields = profile.fields.map(field => {
+        const candidates = profiledEnumCandidates(field);
+        return {
+            path: field.path,
+            observedType: profiledFieldType(field),
+            presentIn: `${field.present} of ${field.occurrences}`,
+            values: candidates ?? field.values.slice(0, EXAMPLE_VALUE_COUNT),
+            fixedSetCandidate: candidates !== null,
+            format: field.formats?.[0] ?? null,
+        };
+    });
+
+    // Call the LLM prompt on the model configured for this flow
+    const model = flowModelName('inferSchema');
+    console.log(`Genkit Flow: Inferring schema with model ${model} (${fields.length} fields in ${sample.length} entries)`);
+    const result = await inferSchemaPrompt({
+        datasetName,
+        datasetDescription: info.description ?? '',
+        sampleSize: sample.length,
+        fields,
+        examples: contents.slice(0, EXAMPLE_ENTRY_COUNT),
+    }, { model });
+
+    const proposal = result.output;
+    if (!proposal) {
+        console.error("Genkit Flow: LLM did not return a valid schema.");
+        throw new Error('Failed to get a schema from the AI model.');
+    }
+
+    // The sample decides which fields exist; proposals it contradicts are corrected
+    const schema: DatasetSchema = {
+        ...mergeSchemaProposal(profile, proposal),
+        inferred_by: { model, sample_size: sample.length, inferred_at: new Date().toISOString() },
+    };
+    console.log(`Genkit Flow: Returning schema with ${schema.fields.length} fields`);
+    return schema;
+  }
+);
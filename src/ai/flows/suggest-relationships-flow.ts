@@ -0,0 +1,106 @@
+// src/ai/flows/suggest-relationships-flow.ts
+'use server';
+/**
+ * @fileOverview A Genkit flow that proposes relationships between data entries.
+ *
+ * - suggestRelationshipsFlow - A function that takes entries of one dataset (optionally one of them as the focus) and
+ *   returns candidate relationships between them, each with a type, a reason and a score.
+ * - SuggestRelationshipsInput - The input type for the suggestRelationshipsFlow function.
+ * - SuggestRelationshipsOutput - The return type for the suggestRelationshipsFlow function.
+ */
+
+import { ai } from '@/ai/ai-instance';
+import { flowModelName } from '@/ai/model-config';
+import type { RelationshipSuggestion } from '@/services/types';
+import { validRelationshipSuggestions } from '@/lib/relationship-suggestions';
+import { z } from 'genkit';
+
+const EntrySchema = z.record(z.string(), z.any())
+    .refine(data => typeof data.id === 'string', { message: "Entries must have a string 'id' field." });
+
+const SuggestRelationshipsInputSchema = z.object({
+    entries: z.array(EntrySchema).min(2).describe('The entries the relationships may connect, with their IDs.'),
+    focusId: z.string().nullable().describe('The entry every relationship must start or end at; null for any entries.'),
+    knownTypes: z.array(z.string()).describe('Relationship types already used in the dataset, and the usual ones.'),
+});
+
+// One relationship the model proposes
+const SuggestedRelationshipSchema = z.object({
+    source_entry_id: z.string().describe('ID of the entry the relationship starts at.'),
+    target_entry_id: z.string().describe('ID of the entry the relationship points to.'),
+    type: z.string().describe("The relationship type: letters, digits, '_' or '-', e.g. 'references' or 'parent_of'."),
+    score: z.number().min(0).max(1).describe('How likely the relationship is, from 0 to 1.'),
+    reason: z.string().describe('One short sentence naming the fields or values that show the relationship.'),
+});
+
+const SuggestRelationshipsOutputSchema = z.object({
+    relationships: z.array(SuggestedRelationshipSchema),
+});
+
+export type SuggestRelationshipsInput = z.infer<typeof SuggestRelationshipsInputSchema>;
+// Only relationships between the given entries (involving the focus entry, if any) are returned
+export type SuggestRelationshipsOutput = { suggestions: RelationshipSuggestion[] };
+
+
+const suggestRelationshipsPrompt = ai.definePrompt({
+  name: 'suggestRelationshipsPrompt',
+  input: {
+    schema: SuggestRelationshipsInputSchema,
+  },
+  output: {
+    schema: SuggestRelationshipsOutputSchema,
+  },
+  prompt: `You are an expert data analyst. Find meaningful relationships between the following JSON entries of one dataset.
+{{#if focusId}}Only propose relationships that start or end at the entry with ID "{{focusId}}".
+{{/if}}
+Entries:
+\`\`\`json
+{{{json entries}}}
+\`\`\`
+
+Look for:
+- fields that hold the ID, name, code or email of another entry (foreign keys), e.g. "customer_id" or "manager";
+- hierarchies such as parent/child, part/whole or manager/report;
+- entries that describe the same thing (duplicates), e.g. the same person with slightly different spelling;
+- other clear links such as shared orders, addresses or events.
+
+Report each relationship as one item of "relationships":
+- "source_entry_id" and "target_entry_id": the IDs of the two entries, exactly as given. Direct the relationship the way its type reads, e.g. an order "references" its customer, a parent is "parent_of" its child.
+- "type": preferably one of {{#each knownTypes}}"{{this}}"{{#unless @last}}, {{/unless}}{{/each}}; otherwise a short snake_case label.
+- "score": from 0 to 1, how likely the relationship is. Use low values for guesses.
+- "reason": one short sentence naming the fields or values that show it.
+
+Do not propose relationships of an entry to itself or relationships you are not reasonably sure about. If there are none, return an empty "relationships" list.
+`,
+});
+
+
+export const suggestRelationshipsFlow = ai.defineFlow(
+  {
+    name: 'suggestRelationshipsFlow',
+    inputSchema: SuggestRelationshipsInputSchema,
+    outputSchema: z.object({ suggestions: z.array(SuggestedRelationshipSchema.extend({ origin: z.enum(['heuristic', 'ai']) })) }),
+  },
+  async (input) => {
+    // Call the LLM prompt on the model configured for this flow
+    const model = flowModelName('suggestRelationships');
+    console.log(`Genkit Flow: Suggesting relationships between ${input.entries.length} entries${input.focusId ? ` for ${input.focusId}` : ''} with model ${model}`);
+    const result = await suggestRelationshipsPrompt(input, { model });
+
+    const output = result.output;
+    if (!output) {
+        console.error("Genkit Flow: LLM did not return valid output.");
+        throw new Error('Failed to get relationship suggestions from the AI model.');
+    }
+
+    // Drop relationships between unknown entries, self-references and invalid types
+    const shownIds = new Set(input.entries.map(entry => String(entry.id)));
+    const suggestions = validRelationshipSuggestions(output.relationships, shownIds, input.focusId);
+    if (suggestions.length < output.relationships.length) {
+        console.warn(`Genkit Flow: Dropped ${output.relationships.length - suggestions.length} relationship suggestions that do not match the entries.`);
+    }
+
+    console.log(`Genkit Flow: Returning ${suggestions.length} relationship suggestions`);
+    return { suggestions };
+  }
+);
@@ -0,0 +1,58 @@
+// src/ai/model-config.ts
+// Which model each Genkit flow uses, read from the environment:
+//   AI_MODEL                  default model of all flows, as '<provider>/<model>' (default 'googleai/gemini-2.0-flash')
+//   AI_MODEL_<FLOW>           model of one flow, overriding AI_MODEL (e.g. AI_MODEL_CLEAN_DATA)
+//   LOCAL_AI_BASE_URL         base URL of the OpenAI-compatible API for 'local/...' models (default Ollama's)
+//   LOCAL_AI_API_KEY          bearer token for that API, if it needs one
+//   FAKE_AI_RESPONSE          fixed text the 'fake/...' models answer with, instead of a minimal valid answer
+// Kept free of Genkit imports so pages and actions can show the configured model cheaply.
+
+import { AI_MODEL_PROVIDERS, type AiModelProvider } from '@/lib/ai-models';
+
+export const DEFAULT_AI_MODEL = 'googleai/gemini-2.0-flash';
+export const DEFAULT_LOCAL_AI_BASE_URL = 'http://localhost:11434/v1';
+
+// Flows whose model can be configured, with the environment variable that selects it
+export const AI_FLOW_MODEL_VARIABLES = {
+    cleanData: 'AI_MODEL_CLEAN_DATA',
+    inferSchema: 'AI_MODEL_INFER_SCHEMA',
+    suggestRelationships: 'AI_MODEL_SUGGEST_RELATIONSHIPS',
+} as const;
+
+export type AiFlow = keyof typeof AI_FLOW_MODEL_VARIABLES;
+
+/**
+ * Splits a model name such as 'local/llama3.1:8b' into its provider and the provider's model name.
+ * @throws {Error} If the name has no model part or names an unknown provider.
+ */
+export function parseModelName(name: string): { provider: AiModelProvider; model: string } {
+    const separator = name.indexOf('/');
+    const provider = name.slice(0, separator);
+    const model = name.slice(separator + 1);
+    if (separator <= 0 || !model) {
+        throw new Error(`Invalid AI model '${name}': expected '<provider>/<model>', e.g. '${DEFAULT_AI_MODEL}'.`);
+    }
+    if (!(AI_MODEL_PROVIDERS as readonly string[]).includes(provider)) {
+        throw new Error(`Invalid AI model '${name}': unknown provider '${provider}' (expected one of ${AI_MODEL_PROVIDERS.join(', ')}).`);
+    }
+    return { provider: provider as AiModelProvider, model };
+}
+
+/**
+ * The model a flow runs on: its own variable if set, else AI_MODEL, else DEFAULT_AI_MODEL.
+ * @throws {Error} If the configured name is invalid.
+ */
+export function flowModelName(flow: AiFlow): string {
+    const name = process.env[AI_FLOW_MODEL_VARIABLES[flow]]?.trim() || process.env.AI_MODEL?.trim() || DEFAULT_AI_MODEL;
+    parseModelName(name);
+    return name;
+}
+
+/**
+ * Every distinct model configured for any flow, so the providers can register exactly those.
+ */
+export function configuredModelNames(): string[] {
+    const names = new Set(Object.keys(AI_FLOW_MODEL_VARIABLES).map(flow => flowModelName(flow as AiFlow)));
+    names.add(process.env.AI_MODEL?.trim() || DEFAULT_AI_MODEL);
+    return Array.from(names);
+}
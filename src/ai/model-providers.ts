@@ -0,0 +1,134 @@
+// src/ai/model-providers.ts
+// Genkit models that do not come from a plugin:
+// - 'local/<model>': any OpenAI-compatible chat completions API, e.g. Ollama or the llama.cpp server
+// - 'fake/<model>': a deterministic stand-in for tests and offline development; it never calls anything
+
+import type { Genkit } from 'genkit';
+import { DEFAULT_LOCAL_AI_BASE_URL } from '@/ai/model-config';
+
+type ModelRunner = Parameters<Genkit['defineModel']>[1];
+type ModelRequest = Parameters<ModelRunner>[0];
+
+const OPENAI_ROLES: Record<string, string> = { system: 'system', user: 'user', model: 'assistant', tool: 'tool' };
+
+const FINISH_REASONS: Record<string, 'stop' | 'length' | 'blocked' | 'other'> = {
+    stop: 'stop',
+    length: 'length',
+    content_filter: 'blocked',
+};
+
+function messageText(content: { text?: string }[]): string {
+    return content.map(part => part.text ?? '').join('');
+}
+
+/**
+ * Registers a model served by an OpenAI-compatible API under 'local/<model>'. Structured output is requested
+ * as a JSON object; Genkit adds the schema to the prompt, since such servers cannot be relied on to enforce it.
+ */
+export function defineLocalModel(ai: Genkit, model: string): void {
+    const baseUrl = (process.env.LOCAL_AI_BASE_URL?.trim() || DEFAULT_LOCAL_AI_BASE_URL).replace(/\/+$/, '');
+    ai.defineModel(
+        {
+            name: `local/${model}`,
+            label: `Local (OpenAI-compatible) - ${model}`,
+            supports: { multiturn: true, systemRole: true, media: false, tools: false, output: ['text', 'json'] },
+        },
+        async (request: ModelRequest) => {
+            const config = (request.config ?? {}) as { temperature?: number; maxOutputTokens?: number; topP?: number; stopSequences?: string[] };
+            const response = await fetch(`${baseUrl}/chat/completions`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    ...(process.env.LOCAL_AI_API_KEY ? { Authorization: `Bearer ${process.env.LOCAL_AI_API_KEY}` } : {}),
+                },
+                body: JSON.stringify({
+                    model,
+                    messages: request.messages.map(message => ({ role: OPENAI_ROLES[message.role], content: messageText(message.content) })),
+                    temperature: config.temperature,
+                    max_tokens: config.maxOutputTokens,
+                    top_p: config.topP,
+                    stop: config.stopSequences,
+                    ...(request.output?.format === 'json' || request.output?.schema ? { response_format: { type: 'json_object' } } : {}),
+                }),
+            });
+            if (!response.ok) {
+                const detail = await response.text().catch(() => '');
+                throw new Error(`Local model '${model}' at ${baseUrl} answered ${response.status} ${response.statusText}${detail ? `: ${detail.slice(0, 500)}` : ''}`);
+            }
+            const completion = await response.json() as {
+                choices?: { message?: { content?: string | null }; finish_reason?: string }[];
+                usage?: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number };
+            };
+            const choice = completion.choices?.[0];
+            if (!choice?.message) {
+                throw new Error(`Local model '${model}' at ${baseUrl} returned no message.`);
+            }
+            return {
+                message: { role: 'model', content: [{ text: choice.message.content ?? '' }] },
+                finishReason: FINISH_REASONS[choice.finish_reason ?? 'stop'] ?? 'other',
+                usage: {
+                    inputTokens: completion.usage?.prompt_tokens,
+                    outputTokens: completion.usage?.completion_tokens,
+                    totalTokens: completion.usage?.total_tokens,
+                },
+            };
+        }
+    );
+}
+
+/**
+ * The smallest value that satisfies a JSON Schema: required properties only, empty arrays and strings,
+ * the first enum value or alternative, and so on.
+ */
+function minimalJsonSchemaValue(schema: Record<string, any> | undefined): unknown {
+    if (!schema) return null;
+    if (Array.isArray(schema.enum) && schema.enum.length > 0) return schema.enum[0];
+    if ('const' in schema) return schema.const;
+    const alternatives = schema.anyOf ?? schema.oneOf;
+    if (Array.isArray(alternatives) && alternatives.length > 0) return minimalJsonSchemaValue(alternatives[0]);
+    const type = Array.isArray(schema.type) ? schema.type.find((candidate: string) => candidate !== 'null') ?? 'null' : schema.type;
+    switch (type) {
+        case 'object':
+            return Object.fromEntries(
+                ((schema.required ?? []) as string[]).map(key => [key, minimalJsonSchemaValue(schema.properties?.[key])])
+            );
+        case 'array':
+            return Array.from({ length: schema.minItems ?? 0 }, () => minimalJsonSchemaValue(schema.items));
+        case 'string':
+            return 'x'.repeat(schema.minLength ?? 0);
+        case 'number':
+        case 'integer':
+            return schema.minimum ?? 0;
+        case 'boolean':
+            return false;
+        default:
+            return null;
+    }
+}
+
+/**
+ * Registers a deterministic fake model under 'fake/<model>'. It answers with FAKE_AI_RESPONSE if set; otherwise
+ * with the minimal value of the requested output schema (for cleaning: no changes), or an echo of the last
+ * message for text output. The same request always gets the same answer.
+ */
+export function defineFakeModel(ai: Genkit, model: string): void {
+    ai.defineModel(
+        {
+            name: `fake/${model}`,
+            label: `Fake (offline) - ${model}`,
+            supports: { multiturn: true, systemRole: true, media: false, tools: false, output: ['text', 'json'], constrained: 'all' },
+        },
+        async (request: ModelRequest) => {
+            let text = process.env.FAKE_AI_RESPONSE;
+            if (text === undefined) {
+                text = request.output?.format === 'json' || request.output?.schema
+                    ? JSON.stringify(minimalJsonSchemaValue(request.output?.schema))
+                    : `Fake response to: ${messageText(request.messages.at(-1)?.content ?? [])}`;
+            }
+            return {
+                message: { role: 'model', content: [{ text }] },
+                finishReason: 'stop',
+            };
+        }
+    );
+}
@@ -0,0 +1,29 @@
+// src/app/api/data/audit/route.ts
+import { type NextRequest } from 'next/server';
+import { queryAuditLog } from '@/services/database';
+import { AuditQueryParamsSchema, handleRouteError, jsonError, jsonSuccess } from '../route-helpers';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Lists audit events, newest first: { events, nextCursor }. Filters: ?dataset=, ?actor=, ?action= (e.g. entry.update).
+ * Pages hold ?limit= events (default 100, max. 500); pass nextCursor as ?cursor= for the next page.
+ */
+export async function GET(request: NextRequest) {
+  const query = AuditQueryParamsSchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+  if (!query.success) {
+    return jsonError('Invalid query parameters.', 400, query.error.flatten());
+  }
+  try {
+    const page = await queryAuditLog({
+      datasetName: query.data.dataset,
+      actor: query.data.actor,
+      action: query.data.action,
+      limit: query.data.limit,
+      cursor: query.data.cursor,
+    });
+    return jsonSuccess(page);
+  } catch (error) {
+    return handleRouteError('GET /api/data/audit', error);
+  }
+}
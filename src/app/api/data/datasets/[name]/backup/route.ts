@@ -0,0 +1,61 @@
+// src/app/api/data/datasets/[name]/backup/route.ts
+import { type NextRequest } from 'next/server';
+import { streamDatasetArchive } from '@/services/database';
+import { archiveChunks, archiveFileName, type ArchiveRecord } from '@/lib/dataset-archive';
+import { handleRouteError, jsonError } from '../../../route-helpers';
+
+export const dynamic = 'force-dynamic';
+
+interface BackupRouteContext {
+  params: Promise<{ name: string }>;
+}
+
+/**
+ * Downloads a backup archive of the dataset: its metadata, entries and relationships as gzip-compressed
+ * NDJSON (see src/lib/dataset-archive.ts). The archive is streamed while the dataset is read.
+ * Restore it with POST /api/data/datasets/{name}/restore.
+ */
+export async function GET(_request: NextRequest, { params }: BackupRouteContext) {
+  const datasetName = (await params).name;
+  try {
+    const records = streamDatasetArchive(datasetName);
+    // The dataset line comes first; none means the dataset does not exist
+    const first = await records.next();
+    if (first.done) {
+      return jsonError(`Dataset '${datasetName}' not found.`, 404);
+    }
+    console.log(`API Route [Dataset: ${datasetName}]: Streaming backup archive.`);
+
+    async function* allRecords(): AsyncGenerator<ArchiveRecord> {
+      yield first.value as ArchiveRecord;
+      yield* records;
+    }
+    const chunks = archiveChunks(allRecords());
+    const encoder = new TextEncoder();
+    const body = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        try {
+          const { value, done } = await chunks.next();
+          if (done) controller.close();
+          else controller.enqueue(encoder.encode(value));
+        } catch (error) {
+          console.error(`API Route [GET /api/data/datasets/[name]/backup]: Backup of '${datasetName}' failed:`, error);
+          controller.error(error);
+        }
+      },
+      async cancel() {
+        await records.return(undefined); // Ends the snapshot and releases the database connection
+      },
+    });
+
+    return new Response(body.pipeThrough(new CompressionStream('gzip')), {
+      headers: {
+        'Content-Type': 'application/gzip',
+        'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(archiveFileName(datasetName))}`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    return handleRouteError('GET /api/data/datasets/[name]/backup', error);
+  }
+}
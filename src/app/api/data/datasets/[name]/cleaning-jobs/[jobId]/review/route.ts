@@ -0,0 +1,64 @@
+// src/app/api/data/datasets/[name]/cleaning-jobs/[jobId]/review/route.ts
+import { type NextRequest } from 'next/server';
+import { revalidatePath } from 'next/cache';
+import { z } from 'zod';
+import { reviewCleaningItems } from '@/services/database';
+import {
+  EntryIdSchema,
+  handleRouteError,
+  jsonError,
+  jsonSuccess,
+  parseJsonBody,
+  requestMutationContext,
+  resolveDataset,
+} from '../../../../../route-helpers';
+import { datasetPath, entryPath } from '@/lib/paths';
+
+export const dynamic = 'force-dynamic';
+
+interface ReviewRouteContext {
+  params: Promise<{ name: string; jobId: string }>;
+}
+
+// Without entryIds, the decision applies to every suggestion still waiting for review
+const ReviewBodySchema = z.object({
+  decision: z.enum(['accept', 'reject']),
+  entryIds: z.array(EntryIdSchema).min(1).optional(),
+});
+
+/**
+ * Accepts or rejects suggestions of the job. Accepted suggestions are written to their entries, except where
+ * the entry changed after the suggestion was made (counted as stale). Returns { accepted, acceptedIds, rejected, stale }.
+ * Body: { decision: 'accept' | 'reject', entryIds?: string[] }
+ */
+export async function POST(request: NextRequest, { params }: ReviewRouteContext) {
+  const jobId = Number((await params).jobId);
+  if (!Number.isInteger(jobId) || jobId <= 0) {
+    return jsonError('Invalid cleaning job ID.', 400);
+  }
+
+  try {
+    const dataset = await resolveDataset(params);
+    if (dataset.response) return dataset.response;
+
+    const body = await parseJsonBody(request, ReviewBodySchema);
+    if (body.response) return body.response;
+
+    const summary = await reviewCleaningItems(dataset.name, jobId, body.data.decision, body.data.entryIds ?? null, {
+      ...requestMutationContext(request, 'api'),
+      source: 'ai-clean', // Accepted suggestions are AI cleanings, whoever accepts them
+    });
+    if (!summary) {
+      return jsonError(`Cleaning job ${jobId} not found.`, 404);
+    }
+    for (const entryId of summary.acceptedIds) {
+      revalidatePath(entryPath(dataset.name, entryId));
+    }
+    if (summary.accepted > 0) {
+      revalidatePath(datasetPath(dataset.name));
+    }
+    return jsonSuccess(summary);
+  } catch (error) {
+    return handleRouteError(`POST /api/data/datasets/[name]/cleaning-jobs/${jobId}/review`, error);
+  }
+}
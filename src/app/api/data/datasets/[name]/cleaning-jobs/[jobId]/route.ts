@@ -0,0 +1,96 @@
+// src/app/api/data/datasets/[name]/cleaning-jobs/[jobId]/route.ts
+import { type NextRequest } from 'next/server';
+import { z } from 'zod';
+import { getCleaningJob, getCleaningJobItems, setCleaningJobStatus } from '@/services/database';
+import { startCleaningJob, stopCleaningJob, withRunnerState } from '@/services/cleaning-jobs';
+import { flowModelName } from '@/ai/model-config';
+import { CLEANING_ITEM_STATUSES, MAX_CLEANING_ITEM_PAGE_SIZE } from '@/lib/cleaning-jobs';
+import type { CleaningItemStatus } from '@/services/types';
+import { handleRouteError, jsonError, jsonSuccess, parseJsonBody, resolveDataset } from '../../../../route-helpers';
+
+export const dynamic = 'force-dynamic';
+
+interface CleaningJobRouteContext {
+  params: Promise<{ name: string; jobId: string }>;
+}
+
+const CleaningItemsQuerySchema = z.object({
+  status: z.enum(CLEANING_ITEM_STATUSES as [CleaningItemStatus, ...CleaningItemStatus[]]).optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_CLEANING_ITEM_PAGE_SIZE).optional(),
+  cursor: z.string().min(1).optional(),
+});
+
+const CleaningJobStatusBodySchema = z.object({
+  status: z.enum(['running', 'cancelled']),
+});
+
+async function parseJobId(params: CleaningJobRouteContext['params']): Promise<number | null> {
+  const jobId = Number((await params).jobId);
+  return Number.isInteger(jobId) && jobId > 0 ? jobId : null;
+}
+
+/**
+ * Returns the job's progress and one page of its entries with their suggestions: { job, items, nextCursor }.
+ * ?status= limits the entries to one state (e.g. proposed for the review queue); ?limit= and ?cursor= page through them.
+ */
+export async function GET(request: NextRequest, { params }: CleaningJobRouteContext) {
+  const jobId = await parseJobId(params);
+  if (jobId === null) {
+    return jsonError('Invalid cleaning job ID.', 400);
+  }
+  const query = CleaningItemsQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+  if (!query.success) {
+    return jsonError('Invalid query parameters.', 400, query.error.flatten());
+  }
+
+  try {
+    const dataset = await resolveDataset(params);
+    if (dataset.response) return dataset.response;
+
+    const job = await getCleaningJob(dataset.name, jobId);
+    if (!job) {
+      return jsonError(`Cleaning job ${jobId} not found.`, 404);
+    }
+    const page = await getCleaningJobItems(dataset.name, jobId, query.data);
+    return jsonSuccess({ job: withRunnerState(job), ...page });
+  } catch (error) {
+    return handleRouteError(`GET /api/data/datasets/[name]/cleaning-jobs/${jobId}`, error);
+  }
+}
+
+/**
+ * Cancels ({ "status": "cancelled" }) or resumes ({ "status": "running" }) the job.
+ * Resuming also retries the entries on which the model failed.
+ */
+export async function PATCH(request: NextRequest, { params }: CleaningJobRouteContext) {
+  const jobId = await parseJobId(params);
+  if (jobId === null) {
+    return jsonError('Invalid cleaning job ID.', 400);
+  }
+
+  try {
+    const dataset = await resolveDataset(params);
+    if (dataset.response) return dataset.response;
+
+    const body = await parseJsonBody(request, CleaningJobStatusBodySchema);
+    if (body.response) return body.response;
+
+    const job = await setCleaningJobStatus(
+      dataset.name,
+      jobId,
+      body.data.status,
+      body.data.status === 'running' ? flowModelName('cleanData') : undefined
+    );
+    if (!job) {
+      return jsonError(`Cleaning job ${jobId} not found.`, 404);
+    }
+    if (job.status === 'running') {
+      startCleaningJob(job.id, job.concurrency);
+    } else {
+      stopCleaningJob(job.id);
+    }
+    return jsonSuccess(withRunnerState(job), job.status === 'running' ? 'Cleaning job resumed.' : 'Cleaning job cancelled.');
+  } catch (error) {
+    return handleRouteError(`PATCH /api/data/datasets/[name]/cleaning-jobs/${jobId}`, error);
+  }
+}
@@ -0,0 +1,74 @@
+// src/app/api/data/datasets/[name]/cleaning-jobs/route.ts
+import { type NextRequest } from 'next/server';
+import { z } from 'zod';
+import { createCleaningJob, getCleaningJobs } from '@/services/database';
+import { startCleaningJob, withRunnerState } from '@/services/cleaning-jobs';
+import { flowModelName } from '@/ai/model-config';
+import { clampCleaningConcurrency, MAX_CLEANING_CONCURRENCY } from '@/lib/cleaning-jobs';
+import {
+  EntryFilterSchema,
+  handleRouteError,
+  jsonError,
+  jsonSuccess,
+  parseJsonBody,
+  requestMutationContext,
+  resolveDataset,
+} from '../../../route-helpers';
+
+export const dynamic = 'force-dynamic';
+
+interface CleaningJobsRouteContext {
+  params: Promise<{ name: string }>;
+}
+
+// Without filters and sourceId, the job cleans every entry of the dataset
+const StartCleaningJobBodySchema = z.object({
+  filters: z.array(EntryFilterSchema).optional(),
+  sourceId: z.string().trim().min(1).optional(),
+  concurrency: z.number().int().min(1).max(MAX_CLEANING_CONCURRENCY).optional(),
+});
+
+/**
+ * Lists the batch AI cleaning jobs of the dataset with their progress, newest first.
+ */
+export async function GET(_request: NextRequest, { params }: CleaningJobsRouteContext) {
+  try {
+    const dataset = await resolveDataset(params);
+    if (dataset.response) return dataset.response;
+
+    const jobs = await getCleaningJobs(dataset.name);
+    return jsonSuccess(jobs.map(withRunnerState));
+  } catch (error) {
+    return handleRouteError('GET /api/data/datasets/[name]/cleaning-jobs', error);
+  }
+}
+
+/**
+ * Starts a batch AI cleaning job over all entries, or those matching the listing filters, and returns it with status 201.
+ * The job runs in the background; poll the job for progress and review its suggestions there.
+ * Body: { filters?: EntryFilter[], sourceId?: string, concurrency?: number }
+ */
+export async function POST(request: NextRequest, { params }: CleaningJobsRouteContext) {
+  try {
+    const dataset = await resolveDataset(params);
+    if (dataset.response) return dataset.response;
+
+    const body = await parseJsonBody(request, StartCleaningJobBodySchema);
+    if (body.response) return body.response;
+
+    const job = await createCleaningJob(
+      dataset.name,
+      { filters: body.data.filters, relatedToSourceId: body.data.sourceId },
+      clampCleaningConcurrency(body.data.concurrency),
+      flowModelName('cleanData'),
+      requestMutationContext(request, 'api')
+    );
+    if (!job) {
+      return jsonError('No entries match the filters.', 422);
+    }
+    startCleaningJob(job.id, job.concurrency);
+    return jsonSuccess(withRunnerState(job), `Cleaning ${job.total} entries in the background.`, 201);
+  } catch (error) {
+    return handleRouteError('POST /api/data/datasets/[name]/cleaning-jobs', error);
+  }
+}
@@ -0,0 +1,64 @@
+// src/app/api/data/datasets/[name]/cleaning-rules/apply/route.ts
+import { type NextRequest } from 'next/server';
+import { z } from 'zod';
+import { getCleaningRules, runCleaningRules } from '@/services/database';
+import {
+  EntryFilterSchema,
+  handleRouteError,
+  jsonError,
+  jsonSuccess,
+  parseJsonBody,
+  requestMutationContext,
+  resolveDataset,
+} from '../../../../route-helpers';
+
+export const dynamic = 'force-dynamic';
+
+interface ApplyCleaningRulesRouteContext {
+  params: Promise<{ name: string }>;
+}
+
+// Without filters and sourceId, the rules run over every entry of the dataset
+const ApplyCleaningRulesBodySchema = z.object({
+  filters: z.array(EntryFilterSchema).optional(),
+  sourceId: z.string().trim().min(1).optional(),
+  dryRun: z.boolean().optional(),
+});
+
+/**
+ * Applies the saved cleaning rules of the dataset to all entries, or those matching the listing filters,
+ * in one transaction. Returns how many entries were examined and changed, with samples of the changes.
+ * With dryRun, nothing is written.
+ * Body: { filters?: EntryFilter[], sourceId?: string, dryRun?: boolean }
+ */
+export async function POST(request: NextRequest, { params }: ApplyCleaningRulesRouteContext) {
+  try {
+    const dataset = await resolveDataset(params);
+    if (dataset.response) return dataset.response;
+
+    const body = await parseJsonBody(request, ApplyCleaningRulesBodySchema);
+    if (body.response) return body.response;
+
+    const rules = await getCleaningRules(dataset.name);
+    if (!rules) {
+      return jsonError(`Dataset '${dataset.name}' not found.`, 404);
+    }
+    if (!rules.some(rule => rule.enabled !== false)) {
+      return jsonError('The dataset has no enabled cleaning rules.', 422);
+    }
+    const dryRun = body.data.dryRun ?? false;
+    const summary = await runCleaningRules(
+      dataset.name,
+      rules,
+      { filters: body.data.filters, relatedToSourceId: body.data.sourceId },
+      !dryRun,
+      requestMutationContext(request, 'rule-clean')
+    );
+    const message = dryRun
+      ? `${summary.changed} of ${summary.examined} entries would change.`
+      : `Cleaned ${summary.changed} of ${summary.examined} entries.`;
+    return jsonSuccess(summary, message);
+  } catch (error) {
+    return handleRouteError('POST /api/data/datasets/[name]/cleaning-rules/apply', error);
+  }
+}
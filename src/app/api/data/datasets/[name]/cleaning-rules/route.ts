@@ -0,0 +1,87 @@
+// src/app/api/data/datasets/[name]/cleaning-rules/route.ts
+import { type NextRequest } from 'next/server';
+import { z } from 'zod';
+import { getCleaningRules, setCleaningRules } from '@/services/database';
+import { cleaningRulesError, MAX_CLEANING_RULES } from '@/lib/cleaning-rules';
+import {
+  handleRouteError,
+  jsonError,
+  jsonSuccess,
+  parseJsonBody,
+  requestMutationContext,
+  resolveDataset,
+} from '../../../route-helpers';
+
+export const dynamic = 'force-dynamic';
+
+interface CleaningRulesRouteContext {
+  params: Promise<{ name: string }>;
+}
+
+const RuleBaseSchema = z.object({
+  fields: z.array(z.string().trim().min(1)).optional(),
+  enabled: z.boolean().optional(),
+});
+
+const CleaningRuleSchema = z.discriminatedUnion('type', [
+  RuleBaseSchema.extend({ type: z.literal('trim') }),
+  RuleBaseSchema.extend({ type: z.literal('case'), mode: z.enum(['lower', 'upper', 'title']) }),
+  RuleBaseSchema.extend({
+    type: z.literal('regex-replace'),
+    pattern: z.string().min(1),
+    flags: z.string().regex(/^[dgimsuy]*$/, 'Invalid regular expression flags.').optional(),
+    replacement: z.string(),
+  }),
+  RuleBaseSchema.extend({ type: z.literal('coerce'), to: z.enum(['number', 'boolean', 'string']) }),
+  RuleBaseSchema.extend({ type: z.literal('date'), formats: z.array(z.string().min(1)).min(1), output: z.enum(['date', 'datetime']) }),
+  RuleBaseSchema.extend({ type: z.literal('map'), mapping: z.record(z.unknown()), caseInsensitive: z.boolean().optional() }),
+  RuleBaseSchema.extend({ type: z.literal('null'), values: z.array(z.string()).min(1) }),
+]);
+
+const CleaningRulesBodySchema = z.object({
+  rules: z.array(CleaningRuleSchema).max(MAX_CLEANING_RULES),
+});
+
+/**
+ * Returns the cleaning rules of the dataset, in the order they run.
+ */
+export async function GET(_request: NextRequest, { params }: CleaningRulesRouteContext) {
+  try {
+    const dataset = await resolveDataset(params);
+    if (dataset.response) return dataset.response;
+
+    const rules = await getCleaningRules(dataset.name);
+    if (!rules) {
+      return jsonError(`Dataset '${dataset.name}' not found.`, 404);
+    }
+    return jsonSuccess(rules);
+  } catch (error) {
+    return handleRouteError('GET /api/data/datasets/[name]/cleaning-rules', error);
+  }
+}
+
+/**
+ * Replaces the cleaning rules of the dataset.
+ * Body: { rules: CleaningRule[] }
+ */
+export async function PUT(request: NextRequest, { params }: CleaningRulesRouteContext) {
+  try {
+    const dataset = await resolveDataset(params);
+    if (dataset.response) return dataset.response;
+
+    const body = await parseJsonBody(request, CleaningRulesBodySchema);
+    if (body.response) return body.response;
+
+    const rulesError = cleaningRulesError(body.data.rules);
+    if (rulesError) {
+      return jsonError(rulesError, 400);
+    }
+    const success = await setCleaningRules(dataset.name, body.data.rules, requestMutationContext(request, 'api'));
+    if (!success) {
+      return jsonError(`Dataset '${dataset.name}' not found.`, 404);
+    }
+    return jsonSuccess(body.data.rules, `Saved ${body.data.rules.length} cleaning rules.`);
+  } catch (error) {
+    return handleRouteError('PUT /api/data/datasets/[name]/cleaning-rules', error);
+  }
+}
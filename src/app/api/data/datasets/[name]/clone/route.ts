@@ -0,0 +1,51 @@
+// src/app/api/data/datasets/[name]/clone/route.ts
+import { type NextRequest } from 'next/server';
+import { z } from 'zod';
+import { revalidatePath } from 'next/cache';
+import { cloneDataset, getDatasetInfo } from '@/services/database';
+import {
+  DatasetNameSchema,
+  handleRouteError,
+  jsonError,
+  jsonSuccess,
+  parseJsonBody,
+  requestMutationContext,
+  resolveDataset,
+} from '../../../route-helpers';
+
+export const dynamic = 'force-dynamic';
+
+interface CloneRouteContext {
+  params: Promise<{ name: string }>;
+}
+
+const CloneDatasetBodySchema = z.object({
+  name: DatasetNameSchema,
+});
+
+/**
+ * Deep-clones the dataset (metadata, entries and relationships) under a new name.
+ * Body: { name: string }
+ */
+export async function POST(request: NextRequest, { params }: CloneRouteContext) {
+  const body = await parseJsonBody(request, CloneDatasetBodySchema);
+  if (body.response) return body.response;
+
+  const newName = body.data.name;
+  try {
+    const dataset = await resolveDataset(params);
+    if (dataset.response) return dataset.response;
+
+    const result = await cloneDataset(dataset.name, newName, requestMutationContext(request, 'api'));
+    if (result === 'name-taken') {
+      return jsonError(`A dataset named '${newName}' already exists.`, 409);
+    }
+    if (result === 'not-found') {
+      return jsonError(`Dataset '${dataset.name}' not found.`, 404);
+    }
+    revalidatePath('/datasets');
+    return jsonSuccess(await getDatasetInfo(newName), `Dataset '${dataset.name}' cloned into '${newName}'.`, 201);
+  } catch (error) {
+    return handleRouteError('POST /api/data/datasets/[name]/clone', error);
+  }
+}
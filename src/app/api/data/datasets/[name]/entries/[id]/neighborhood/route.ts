@@ -0,0 +1,40 @@
+// src/app/api/data/datasets/[name]/entries/[id]/neighborhood/route.ts
+import { type NextRequest } from 'next/server';
+import { getNeighborhood } from '@/services/database';
+import { handleRouteError, jsonError, jsonSuccess, resolveDataset } from '../../../../../route-helpers';
+import { MAX_NEIGHBORHOOD_DEPTH } from '@/lib/relationship-types';
+
+export const dynamic = 'force-dynamic';
+
+interface NeighborhoodRouteContext {
+  params: Promise<{ name: string; id: string }>;
+}
+
+/**
+ * Returns the entries within ?depth= hops of an entry (default 1, max. MAX_NEIGHBORHOOD_DEPTH),
+ * following relationships in both directions, together with the relationships between them.
+ * ?type= restricts the walk to relationships of that type.
+ */
+export async function GET(request: NextRequest, { params }: NeighborhoodRouteContext) {
+  const id = (await params).id;
+  const rawDepth = request.nextUrl.searchParams.get('depth') ?? '1';
+  const depth = Number(rawDepth);
+  const type = request.nextUrl.searchParams.get('type') ?? undefined;
+
+  if (!Number.isInteger(depth) || depth < 1 || depth > MAX_NEIGHBORHOOD_DEPTH) {
+    return jsonError(`depth must be an integer between 1 and ${MAX_NEIGHBORHOOD_DEPTH}.`, 400);
+  }
+
+  try {
+    const dataset = await resolveDataset(params);
+    if (dataset.response) return dataset.response;
+
+    const neighborhood = await getNeighborhood(dataset.name, id, depth, type);
+    if (!neighborhood) {
+      return jsonError(`Data entry with ID ${id} not found.`, 404);
+    }
+    return jsonSuccess(neighborhood);
+  } catch (error) {
+    return handleRouteError(`GET /api/data/datasets/[name]/entries/${id}/neighborhood`, error);
+  }
+}
@@ -0,0 +1,158 @@
+// src/app/api/data/datasets/[name]/entries/[id]/route.ts
+import { type NextRequest } from 'next/server';
+import { revalidatePath } from 'next/cache';
+import { deleteDataById, getDataById, patchDataById, updateDataById } from '@/services/database';
+import type { EntryPatch, JsonPatchOperation } from '@/services/types';
+import { INVALID_PATCH_PREFIX } from '@/lib/json-patch';
+import {
+  EntryDataBodySchema,
+  handleRouteError,
+  JsonPatchBodySchema,
+  jsonError,
+  jsonSuccess,
+  parseJsonBody,
+  requestMutationContext,
+  resolveDataset,
+} from '../../../../route-helpers';
+import { datasetPath, entryPath } from '@/lib/paths';
+
+export const dynamic = 'force-dynamic';
+
+interface EntryRouteContext {
+  params: Promise<{ name: string; id: string }>;
+}
+
+function revalidateEntryPaths(datasetName: string, id: string) {
+  revalidatePath(entryPath(datasetName, id));
+  revalidatePath(datasetPath(datasetName));
+}
+
+/**
+ * Returns a single entry of the dataset.
+ */
+export async function GET(_request: NextRequest, { params }: EntryRouteContext) {
+  const id = (await params).id;
+  try {
+    const dataset = await resolveDataset(params);
+    if (dataset.response) return dataset.response;
+
+    const entry = await getDataById(dataset.name, id);
+    if (!entry) {
+      return jsonError(`Data entry with ID ${id} not found.`, 404);
+    }
+    return jsonSuccess(entry);
+  } catch (error) {
+    return handleRouteError(`GET /api/data/datasets/[name]/entries/${id}`, error);
+  }
+}
+
+/**
+ * Replaces the whole content of an entry. An 'id' field in the body is ignored.
+ */
+export async function PUT(request: NextRequest, { params }: EntryRouteContext) {
+  const id = (await params).id;
+  const body = await parseJsonBody(request, EntryDataBodySchema);
+  if (body.response) return body.response;
+
+  const { id: ignoredBodyId, ...data } = body.data;
+  try {
+    const dataset = await resolveDataset(params);
+    if (dataset.response) return dataset.response;
+
+    const success = await updateDataById(dataset.name, id, data, requestMutationContext(request, 'api'));
+    if (!success) {
+      return jsonError(`Data entry with ID ${id} not found.`, 404);
+    }
+    revalidateEntryPaths(dataset.name, id);
+    return jsonSuccess({ ...data, id }, 'Data entry replaced.');
+  } catch (error) {
+    return handleRouteError(`PUT /api/data/datasets/[name]/entries/${id}`, error);
+  }
+}
+
+const MERGE_PATCH_CONTENT_TYPE = 'application/merge-patch+json';
+const JSON_PATCH_CONTENT_TYPE = 'application/json-patch+json';
+
+/**
+ * Partially updates an entry. The Content-Type selects the semantics:
+ * - application/merge-patch+json: RFC 7396 JSON Merge Patch (nested objects are merged, null removes a field)
+ * - application/json-patch+json:  RFC 6902 JSON Patch (an array of operations, applied all or nothing)
+ * - application/json (default):   the given top-level fields are replaced, the others kept
+ * A patch that cannot be applied (e.g. a failed 'test' or a missing path) is answered with 422.
+ */
+export async function PATCH(request: NextRequest, { params }: EntryRouteContext) {
+  const contentType = request.headers.get('content-type')?.split(';')[0].trim().toLowerCase();
+  if (contentType === MERGE_PATCH_CONTENT_TYPE || contentType === JSON_PATCH_CONTENT_TYPE) {
+    return applyPatch(request, params, contentType);
+  }
+
+  const id = (await params).id;
+  const body = await parseJsonBody(request, EntryDataBodySchema);
+  if (body.response) return body.response;
+
+  try {
+    const dataset = await resolveDataset(params);
+    if (dataset.response) return dataset.response;
+
+    // Read and written under a row lock, so concurrent patches of the entry do not overwrite each other
+    const patched = await patchDataById(dataset.name, id, { type: 'fields', fields: body.data }, requestMutationContext(request, 'api'));
+    if (!patched) {
+      return jsonError(`Data entry with ID ${id} not found.`, 404);
+    }
+    revalidateEntryPaths(dataset.name, id);
+    return jsonSuccess(patched, 'Data entry updated.');
+  } catch (error) {
+    return handleRouteError(`PATCH /api/data/datasets/[name]/entries/${id}`, error);
+  }
+}
+
+async function applyPatch(request: NextRequest, params: EntryRouteContext['params'], contentType: string) {
+  const id = (await params).id;
+  let patch: EntryPatch;
+  if (contentType === MERGE_PATCH_CONTENT_TYPE) {
+    const body = await parseJsonBody(request, EntryDataBodySchema);
+    if (body.response) return body.response;
+    patch = { type: 'merge', patch: body.data };
+  } else {
+    const body = await parseJsonBody(request, JsonPatchBodySchema);
+    if (body.response) return body.response;
+    patch = { type: 'json-patch', operations: body.data as JsonPatchOperation[] };
+  }
+
+  try {
+    const dataset = await resolveDataset(params);
+    if (dataset.response) return dataset.response;
+
+    const patched = await patchDataById(dataset.name, id, patch, requestMutationContext(request, 'api'));
+    if (!patched) {
+      return jsonError(`Data entry with ID ${id} not found.`, 404);
+    }
+    revalidateEntryPaths(dataset.name, id);
+    return jsonSuccess(patched, 'Data entry updated.');
+  } catch (error) {
+    if (error instanceof Error && error.message.startsWith(INVALID_PATCH_PREFIX)) {
+      return jsonError(error.message, 422);
+    }
+    return handleRouteError(`PATCH /api/data/datasets/[name]/entries/${id}`, error);
+  }
+}
+
+/**
+ * Deletes an entry. Relationships from or to the entry are removed with it.
+ */
+export async function DELETE(request: NextRequest, { params }: EntryRouteContext) {
+  const id = (await params).id;
+  try {
+    const dataset = await resolveDataset(params);
+    if (dataset.response) return dataset.response;
+
+    const deleted = await deleteDataById(dataset.name, id, requestMutationContext(request, 'api'));
+    if (!deleted) {
+      return jsonError(`Data entry with ID ${id} not found.`, 404);
+    }
+    revalidateEntryPaths(dataset.name, id);
+    return jsonSuccess({ id }, 'Data entry deleted.');
+  } catch (error) {
+    return handleRouteError(`DELETE /api/data/datasets/[name]/entries/${id}`, error);
+  }
+}
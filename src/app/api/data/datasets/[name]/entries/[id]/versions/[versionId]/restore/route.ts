@@ -0,0 +1,39 @@
+// src/app/api/data/datasets/[name]/entries/[id]/versions/[versionId]/restore/route.ts
+import { type NextRequest } from 'next/server';
+import { revalidatePath } from 'next/cache';
+import { restoreEntryVersion } from '@/services/database';
+import { handleRouteError, jsonError, jsonSuccess, requestMutationContext, resolveDataset } from '../../../../../../../route-helpers';
+import { datasetPath, entryPath } from '@/lib/paths';
+
+export const dynamic = 'force-dynamic';
+
+interface RestoreVersionRouteContext {
+  params: Promise<{ name: string; id: string; versionId: string }>;
+}
+
+/**
+ * Makes a previous version the entry's content again. The content it replaces is recorded as a new version,
+ * so the restore itself can be undone. Returns the restored entry.
+ */
+export async function POST(request: NextRequest, { params }: RestoreVersionRouteContext) {
+  const { id, versionId: rawVersionId } = await params;
+  const versionId = Number(rawVersionId);
+  if (!Number.isInteger(versionId) || versionId <= 0) {
+    return jsonError('Invalid version ID.', 400);
+  }
+
+  try {
+    const dataset = await resolveDataset(params);
+    if (dataset.response) return dataset.response;
+
+    const restored = await restoreEntryVersion(dataset.name, id, versionId, requestMutationContext(request, 'api'));
+    if (!restored) {
+      return jsonError(`Version ${versionId} of data entry ${id} not found.`, 404);
+    }
+    revalidatePath(entryPath(dataset.name, id));
+    revalidatePath(datasetPath(dataset.name));
+    return jsonSuccess(restored, `Version ${versionId} restored.`);
+  } catch (error) {
+    return handleRouteError(`POST /api/data/datasets/[name]/entries/${id}/versions/${versionId}/restore`, error);
+  }
+}
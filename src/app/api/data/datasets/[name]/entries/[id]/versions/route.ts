@@ -0,0 +1,30 @@
+// src/app/api/data/datasets/[name]/entries/[id]/versions/route.ts
+import { type NextRequest } from 'next/server';
+import { getDataById, getEntryVersions } from '@/services/database';
+import { handleRouteError, jsonError, jsonSuccess, resolveDataset } from '../../../../../route-helpers';
+
+export const dynamic = 'force-dynamic';
+
+interface VersionsRouteContext {
+  params: Promise<{ name: string; id: string }>;
+}
+
+/**
+ * Lists the previous contents of an entry, newest first. A version is recorded every time
+ * the entry is overwritten, with the actor and source of the change that replaced it.
+ */
+export async function GET(request: NextRequest, { params }: VersionsRouteContext) {
+  const id = (await params).id;
+  try {
+    const dataset = await resolveDataset(params);
+    if (dataset.response) return dataset.response;
+
+    if (!(await getDataById(dataset.name, id))) {
+      return jsonError(`Data entry with ID ${id} not found.`, 404);
+    }
+    const versions = await getEntryVersions(dataset.name, id);
+    return jsonSuccess(versions);
+  } catch (error) {
+    return handleRouteError(`GET /api/data/datasets/[name]/entries/${id}/versions`, error);
+  }
+}
@@ -0,0 +1,112 @@
+// src/app/api/data/datasets/[name]/entries/route.ts
+import { type NextRequest } from 'next/server';
+import { z } from 'zod';
+import { revalidatePath } from 'next/cache';
+import { addData, deleteDataByIds, getAllData, queryData } from '@/services/database';
+import {
+  DataEntriesBodySchema,
+  EntryIdSchema,
+  EntryQueryParamsSchema,
+  handleRouteError,
+  jsonError,
+  jsonSuccess,
+  parseJsonBody,
+  requestMutationContext,
+  resolveDataset,
+} from '../../../route-helpers';
+import type { DataEntry } from '@/services/types';
+import { datasetPath, entryPath } from '@/lib/paths';
+
+export const dynamic = 'force-dynamic';
+
+interface EntriesRouteContext {
+  params: Promise<{ name: string }>;
+}
+
+const DeleteEntriesBodySchema = z.object({
+  ids: z.array(EntryIdSchema).min(1),
+});
+
+/**
+ * Lists all entries of the dataset.
+ * With any of ?limit=, ?cursor=, ?sort=, ?order=, ?filters= (JSON array) or ?sourceId=, returns one page instead:
+ * { entries, nextCursor, totalCount }. Pass nextCursor as ?cursor= (with the same sort) to get the next page.
+ */
+export async function GET(request: NextRequest, { params }: EntriesRouteContext) {
+  const searchParams = Object.fromEntries(request.nextUrl.searchParams);
+  const query = EntryQueryParamsSchema.safeParse(searchParams);
+  if (!query.success) {
+    return jsonError('Invalid query parameters.', 400, query.error.flatten());
+  }
+  try {
+    const dataset = await resolveDataset(params);
+    if (dataset.response) return dataset.response;
+
+    if (Object.keys(query.data).length === 0) {
+      const entries = await getAllData(dataset.name);
+      return jsonSuccess(entries);
+    }
+
+    const page = await queryData(dataset.name, {
+      limit: query.data.limit,
+      cursor: query.data.cursor,
+      sortField: query.data.sort,
+      sortDirection: query.data.order,
+      filters: query.data.filters,
+      relatedToSourceId: query.data.sourceId,
+    });
+    return jsonSuccess(page);
+  } catch (error) {
+    if (error instanceof Error && error.message.startsWith('Invalid page cursor')) {
+      return jsonError(error.message, 400);
+    }
+    return handleRouteError('GET /api/data/datasets/[name]/entries', error);
+  }
+}
+
+/**
+ * Adds one entry or an array of entries to the dataset.
+ * Entries whose id already exists are replaced (upsert); entries without an id get a new UUID.
+ */
+export async function POST(request: NextRequest, { params }: EntriesRouteContext) {
+  const body = await parseJsonBody(request, DataEntriesBodySchema);
+  if (body.response) return body.response;
+
+  const entries = body.data as DataEntry | DataEntry[];
+  const count = Array.isArray(entries) ? entries.length : 1;
+  try {
+    const dataset = await resolveDataset(params);
+    if (dataset.response) return dataset.response;
+
+    const success = await addData(dataset.name, entries, requestMutationContext(request, 'api'));
+    if (!success) {
+      return jsonError('Failed to add or update data entries.', 500);
+    }
+    revalidatePath(datasetPath(dataset.name));
+    return jsonSuccess({ count }, `${count} entr${count === 1 ? 'y' : 'ies'} added/updated.`, 201);
+  } catch (error) {
+    return handleRouteError('POST /api/data/datasets/[name]/entries', error);
+  }
+}
+
+/**
+ * Deletes several entries of the dataset. Relationships from or to them are removed with them.
+ * IDs that do not exist are ignored; the response lists the IDs actually deleted.
+ * Body: { ids: string[] }
+ */
+export async function DELETE(request: NextRequest, { params }: EntriesRouteContext) {
+  const body = await parseJsonBody(request, DeleteEntriesBodySchema);
+  if (body.response) return body.response;
+
+  try {
+    const dataset = await resolveDataset(params);
+    if (dataset.response) return dataset.response;
+
+    const deletedIds = await deleteDataByIds(dataset.name, body.data.ids, requestMutationContext(request, 'api'));
+    deletedIds.forEach(id => revalidatePath(entryPath(dataset.name, id)));
+    revalidatePath(datasetPath(dataset.name));
+    return jsonSuccess({ deletedIds }, `${deletedIds.length} entr${deletedIds.length === 1 ? 'y' : 'ies'} deleted.`);
+  } catch (error) {
+    return handleRouteError('DELETE /api/data/datasets/[name]/entries', error);
+  }
+}
@@ -0,0 +1,147 @@
+// src/app/api/data/datasets/[name]/export/route.ts
+import { type NextRequest } from 'next/server';
+import { z } from 'zod';
+import { getAllRelationships, streamData } from '@/services/database';
+import type { DataEntry, EntryQuery, RelationshipEntry } from '@/services/types';
+import {
+  csvChunks,
+  exportFileName,
+  exportFormatInfo,
+  flattenObject,
+  jsonArrayChunks,
+  ndjsonChunks,
+  relationshipToRow,
+  XLSX_MAX_ROWS,
+  type ExportFormat,
+} from '@/lib/export';
+import { writeWorkbook } from '@/lib/xlsx';
+import { EntryQueryParamsSchema, handleRouteError, jsonError, resolveDataset } from '../../../route-helpers';
+
+export const dynamic = 'force-dynamic';
+
+interface ExportRouteContext {
+  params: Promise<{ name: string }>;
+}
+
+// Sort and filters of the entry listing select the exported view; paging parameters do not apply
+const ExportParamsSchema = EntryQueryParamsSchema.omit({ limit: true, cursor: true }).extend({
+  format: z.enum(['json', 'ndjson', 'csv', 'xlsx']).default('json'),
+  content: z.enum(['entries', 'relationships']).default('entries'),
+  relationships: z.enum(['true', 'false']).default('false'),
+});
+
+function downloadHeaders(format: ExportFormat, fileName: string): HeadersInit {
+  return {
+    'Content-Type': exportFormatInfo(format).contentType,
+    'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(fileName)}`,
+    'Cache-Control': 'no-store',
+  };
+}
+
+/**
+ * Sends text chunks as a streamed download. Chunks are produced on demand, so the dataset is
+ * read page by page while the client downloads.
+ */
+function streamDownload(chunks: AsyncGenerator<string>, format: ExportFormat, fileName: string): Response {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done } = await chunks.next();
+        if (done) controller.close();
+        else controller.enqueue(encoder.encode(value));
+      } catch (error) {
+        console.error(`API Route [GET /api/data/datasets/[name]/export]: Export of '${fileName}' failed:`, error);
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await chunks.return(undefined); // Releases the database connection when the download is aborted
+    },
+  });
+  return new Response(body, { headers: downloadHeaders(format, fileName) });
+}
+
+async function* flatEntries(entries: AsyncIterable<DataEntry>): AsyncGenerator<Record<string, unknown>> {
+  for await (const entry of entries) yield flattenObject(entry);
+}
+
+async function* iterate<T>(items: T[]): AsyncGenerator<T> {
+  yield* items;
+}
+
+/**
+ * Downloads the dataset. ?format=json|ndjson|csv|xlsx (default json). CSV and XLSX flatten nested fields
+ * into dot-path columns. ?content=relationships downloads the relationships instead of the entries;
+ * for XLSX, ?relationships=true adds them as a second sheet. The listing's ?sort=, ?order=, ?filters= and
+ * ?sourceId= export only the matching entries (and the relationships between them).
+ */
+export async function GET(request: NextRequest, { params }: ExportRouteContext) {
+  const parsed = ExportParamsSchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+  if (!parsed.success) {
+    return jsonError('Invalid query parameters.', 400, parsed.error.flatten());
+  }
+  const { format, content, relationships: includeRelationships, sort, order, filters, sourceId } = parsed.data;
+  const query: EntryQuery = { sortField: sort, sortDirection: order, filters, relatedToSourceId: sourceId };
+  const isFilteredView = !!(filters?.length || sourceId);
+
+  try {
+    const dataset = await resolveDataset(params);
+    if (dataset.response) return dataset.response;
+    const datasetName = dataset.name;
+    console.log(`API Route [Dataset: ${datasetName}]: Exporting ${content} as ${format}${isFilteredView ? ' (filtered view)' : ''}.`);
+
+    // Relationships of a filtered view: only those between exported entries
+    const loadRelationships = async (): Promise<RelationshipEntry[]> => {
+      const all = await getAllRelationships(datasetName);
+      if (!isFilteredView) return all;
+      const ids = new Set<string>();
+      for await (const entry of streamData(datasetName, query)) ids.add(entry.id);
+      return all.filter(relationship => ids.has(relationship.source_entry_id) && ids.has(relationship.target_entry_id));
+    };
+
+    if (format === 'xlsx') {
+      const sheets: { name: string; rows: Record<string, unknown>[] }[] = [];
+      if (content === 'entries') {
+        const rows: Record<string, unknown>[] = [];
+        for await (const entry of streamData(datasetName, query)) {
+          if (rows.length === XLSX_MAX_ROWS) {
+            return jsonError(`The export has more than ${XLSX_MAX_ROWS} entries, which does not fit in an Excel sheet. Use CSV or NDJSON instead.`, 400);
+          }
+          rows.push(flattenObject(entry));
+        }
+        sheets.push({ name: 'entries', rows });
+      }
+      if (content === 'relationships' || includeRelationships === 'true') {
+        sheets.push({ name: 'relationships', rows: (await loadRelationships()).map(relationshipToRow) });
+      }
+      const workbook = await writeWorkbook(sheets);
+      return new Response(workbook, { headers: downloadHeaders(format, exportFileName(datasetName, format, content)) });
+    }
+
+    const fileName = exportFileName(datasetName, format, content);
+    if (content === 'relationships') {
+      const relationships = await loadRelationships();
+      if (format === 'csv') {
+        const rows = relationships.map(relationshipToRow);
+        const columns = Array.from(new Set(rows.flatMap(row => Object.keys(row))));
+        return streamDownload(csvChunks(columns, iterate(rows)), format, fileName);
+      }
+      const chunks = format === 'json' ? jsonArrayChunks(iterate(relationships)) : ndjsonChunks(iterate(relationships));
+      return streamDownload(chunks, format, fileName);
+    }
+
+    if (format === 'csv') {
+      // The header needs every column up front, so the entries are read twice: once for the columns, once for the rows
+      const columns = new Set<string>(['id']);
+      for await (const row of flatEntries(streamData(datasetName, query))) {
+        Object.keys(row).forEach(column => columns.add(column));
+      }
+      return streamDownload(csvChunks(Array.from(columns), flatEntries(streamData(datasetName, query))), format, fileName);
+    }
+    const entries = streamData(datasetName, query);
+    return streamDownload(format === 'json' ? jsonArrayChunks(entries) : ndjsonChunks(entries), format, fileName);
+  } catch (error) {
+    return handleRouteError('GET /api/data/datasets/[name]/export', error);
+  }
+}
@@ -0,0 +1,48 @@
+// src/app/api/data/datasets/[name]/import/route.ts
+import { type NextRequest } from 'next/server';
+import { revalidatePath } from 'next/cache';
+import { importEntries } from '@/services/database';
+import { decodeTextStream, INVALID_UPLOAD_PREFIX, parseEntryStream } from '@/lib/json-stream';
+import { datasetPath } from '@/lib/paths';
+import { DatasetNameSchema, handleRouteError, jsonError, jsonSuccess, requestMutationContext } from '../../../route-helpers';
+
+export const dynamic = 'force-dynamic';
+
+interface ImportRouteContext {
+  params: Promise<{ name: string }>;
+}
+
+/**
+ * Streams a large upload into the dataset. The request body is the raw file: a JSON array of entries
+ * or NDJSON (one entry per line). It is parsed while it arrives and written in batches, in one transaction.
+ * ?mode=append (default) adds to the existing dataset; ?mode=replace creates or replaces the dataset.
+ * Returns { count }, the number of entries written; an ID repeated within a batch counts once.
+ */
+export async function POST(request: NextRequest, { params }: ImportRouteContext) {
+  const name = DatasetNameSchema.safeParse((await params).name);
+  if (!name.success) {
+    return jsonError('Invalid dataset name.', 400, name.error.flatten());
+  }
+  const mode = request.nextUrl.searchParams.get('mode') ?? 'append';
+  if (mode !== 'append' && mode !== 'replace') {
+    return jsonError("mode must be 'append' or 'replace'.", 400);
+  }
+  if (!request.body) {
+    return jsonError('Request body is empty.', 400);
+  }
+
+  try {
+    const count = await importEntries(name.data, parseEntryStream(decodeTextStream(request.body)), mode, requestMutationContext(request, 'upload'));
+    if (count === null) {
+      return jsonError(`Dataset '${name.data}' not found.`, 404);
+    }
+    revalidatePath(datasetPath(name.data));
+    revalidatePath('/datasets');
+    return jsonSuccess({ count }, `${count} entr${count === 1 ? 'y' : 'ies'} imported into '${name.data}'.`, 201);
+  } catch (error) {
+    if (error instanceof Error && error.message.startsWith(INVALID_UPLOAD_PREFIX)) {
+      return jsonError(error.message, 400);
+    }
+    return handleRouteError('POST /api/data/datasets/[name]/import', error);
+  }
+}
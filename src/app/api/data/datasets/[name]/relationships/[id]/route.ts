@@ -0,0 +1,159 @@
+// src/app/api/data/datasets/[name]/relationships/[id]/route.ts
+import { type NextRequest } from 'next/server';
+import { revalidatePath } from 'next/cache';
+import { deleteRelationship, getRelationshipById, updateRelationship } from '@/services/database';
+import type { MutationContext, RelationshipAttributes, RelationshipEntry } from '@/services/types';
+import {
+  EntryIdSchema,
+  handleRouteError,
+  jsonError,
+  jsonSuccess,
+  parseJsonBody,
+  parseRelationshipId,
+  RelationshipAttributesSchema,
+  requestMutationContext,
+  resolveDataset,
+} from '../../../../route-helpers';
+import { datasetPath, entryPath } from '@/lib/paths';
+
+export const dynamic = 'force-dynamic';
+
+interface RelationshipRouteContext {
+  params: Promise<{ name: string; id: string }>;
+}
+
+const ReplaceRelationshipBodySchema = RelationshipAttributesSchema.extend({
+  sourceId: EntryIdSchema,
+  targetId: EntryIdSchema,
+});
+
+const PatchRelationshipBodySchema = RelationshipAttributesSchema
+  .extend({
+    sourceId: EntryIdSchema.optional(),
+    targetId: EntryIdSchema.optional(),
+  })
+  .refine(body => Object.values(body).some(value => value !== undefined), {
+    message: 'Provide at least one of sourceId, targetId, type, properties, weight.',
+  });
+
+function revalidateRelationshipPaths(datasetName: string, ...relationships: (RelationshipEntry | null)[]) {
+  for (const relationship of relationships) {
+    if (!relationship) continue;
+    revalidatePath(entryPath(datasetName, relationship.source_entry_id));
+    revalidatePath(entryPath(datasetName, relationship.target_entry_id));
+  }
+  revalidatePath(datasetPath(datasetName));
+}
+
+async function applyRelationshipUpdate(
+  context: string,
+  params: Promise<{ name: string }>,
+  relationshipId: number,
+  changes: { sourceId?: string; targetId?: string } & RelationshipAttributes,
+  mutationContext: MutationContext
+) {
+  try {
+    const dataset = await resolveDataset(params);
+    if (dataset.response) return dataset.response;
+
+    const previous = await getRelationshipById(dataset.name, relationshipId);
+    if (!previous) {
+      return jsonError(`Relationship ${relationshipId} not found.`, 404);
+    }
+    const { sourceId, targetId, ...attributes } = changes;
+    const updated = await updateRelationship(dataset.name, relationshipId, {
+      sourceEntryId: sourceId,
+      targetEntryId: targetId,
+      ...attributes,
+    }, mutationContext);
+    if (!updated) {
+      return jsonError(
+        'Failed to update relationship. Ensure source and target exist, differ from each other, and are not already related with the same type.',
+        409
+      );
+    }
+    revalidateRelationshipPaths(dataset.name, previous, updated);
+    return jsonSuccess(updated, 'Relationship updated successfully.');
+  } catch (error) {
+    return handleRouteError(context, error);
+  }
+}
+
+/**
+ * Returns a single relationship of the dataset.
+ */
+export async function GET(_request: NextRequest, { params }: RelationshipRouteContext) {
+  const rawId = (await params).id;
+  const relationshipId = parseRelationshipId(rawId);
+  if (relationshipId === null) {
+    return jsonError(`Invalid relationship ID '${rawId}'.`, 400);
+  }
+  try {
+    const dataset = await resolveDataset(params);
+    if (dataset.response) return dataset.response;
+
+    const relationship = await getRelationshipById(dataset.name, relationshipId);
+    if (!relationship) {
+      return jsonError(`Relationship ${relationshipId} not found.`, 404);
+    }
+    return jsonSuccess(relationship);
+  } catch (error) {
+    return handleRouteError(`GET /api/data/datasets/[name]/relationships/${relationshipId}`, error);
+  }
+}
+
+/**
+ * Replaces both ends of a relationship. Attributes left out keep their values.
+ * Body: { sourceId: string, targetId: string, type?: string, properties?: object | null, weight?: number | null }
+ */
+export async function PUT(request: NextRequest, { params }: RelationshipRouteContext) {
+  const rawId = (await params).id;
+  const relationshipId = parseRelationshipId(rawId);
+  if (relationshipId === null) {
+    return jsonError(`Invalid relationship ID '${rawId}'.`, 400);
+  }
+  const body = await parseJsonBody(request, ReplaceRelationshipBodySchema);
+  if (body.response) return body.response;
+
+  return applyRelationshipUpdate(`PUT /api/data/datasets/[name]/relationships/${relationshipId}`, params, relationshipId, body.data, requestMutationContext(request, 'api'));
+}
+
+/**
+ * Changes the source, target, type, properties and/or weight of a relationship.
+ * Body: { sourceId?: string, targetId?: string, type?: string, properties?: object | null, weight?: number | null }
+ */
+export async function PATCH(request: NextRequest, { params }: RelationshipRouteContext) {
+  const rawId = (await params).id;
+  const relationshipId = parseRelationshipId(rawId);
+  if (relationshipId === null) {
+    return jsonError(`Invalid relationship ID '${rawId}'.`, 400);
+  }
+  const body = await parseJsonBody(request, PatchRelationshipBodySchema);
+  if (body.response) return body.response;
+
+  return applyRelationshipUpdate(`PATCH /api/data/datasets/[name]/relationships/${relationshipId}`, params, relationshipId, body.data, requestMutationContext(request, 'api'));
+}
+
+/**
+ * Deletes a relationship.
+ */
+export async function DELETE(request: NextRequest, { params }: RelationshipRouteContext) {
+  const rawId = (await params).id;
+  const relationshipId = parseRelationshipId(rawId);
+  if (relationshipId === null) {
+    return jsonError(`Invalid relationship ID '${rawId}'.`, 400);
+  }
+  try {
+    const dataset = await resolveDataset(params);
+    if (dataset.response) return dataset.response;
+
+    const deleted = await deleteRelationship(dataset.name, relationshipId, requestMutationContext(request, 'api'));
+    if (!deleted) {
+      return jsonError(`Relationship ${relationshipId} not found.`, 404);
+    }
+    revalidateRelationshipPaths(dataset.name, deleted);
+    return jsonSuccess(deleted, 'Relationship deleted.');
+  } catch (error) {
+    return handleRouteError(`DELETE /api/data/datasets/[name]/relationships/${relationshipId}`, error);
+  }
+}
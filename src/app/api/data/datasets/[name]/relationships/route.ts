@@ -0,0 +1,81 @@
+// src/app/api/data/datasets/[name]/relationships/route.ts
+import { type NextRequest } from 'next/server';
+import { revalidatePath } from 'next/cache';
+import { addRelationship, getAllRelationships, getRelationshipsBySourceId, getRelationshipsByTargetId } from '@/services/database';
+import {
+  EntryIdSchema,
+  handleRouteError,
+  jsonError,
+  jsonSuccess,
+  parseJsonBody,
+  RelationshipAttributesSchema,
+  requestMutationContext,
+  resolveDataset,
+} from '../../../route-helpers';
+import { datasetPath, entryPath } from '@/lib/paths';
+
+export const dynamic = 'force-dynamic';
+
+interface RelationshipsRouteContext {
+  params: Promise<{ name: string }>;
+}
+
+const CreateRelationshipBodySchema = RelationshipAttributesSchema
+  .extend({
+    sourceId: EntryIdSchema,
+    targetId: EntryIdSchema,
+  })
+  .refine(body => body.sourceId !== body.targetId, {
+    message: 'Cannot create a relationship with the same entry.',
+    path: ['targetId'],
+  });
+
+/**
+ * Lists relationships of the dataset, optionally only those originating from ?sourceId=
+ * or pointing at ?targetId=, and/or of ?type=. sourceId takes precedence over targetId.
+ */
+export async function GET(request: NextRequest, { params }: RelationshipsRouteContext) {
+  const sourceId = request.nextUrl.searchParams.get('sourceId');
+  const targetId = request.nextUrl.searchParams.get('targetId');
+  const type = request.nextUrl.searchParams.get('type') ?? undefined;
+  try {
+    const dataset = await resolveDataset(params);
+    if (dataset.response) return dataset.response;
+
+    const relationships = sourceId
+      ? await getRelationshipsBySourceId(dataset.name, sourceId, type)
+      : targetId
+        ? await getRelationshipsByTargetId(dataset.name, targetId, type)
+        : await getAllRelationships(dataset.name, type);
+    return jsonSuccess(relationships);
+  } catch (error) {
+    return handleRouteError('GET /api/data/datasets/[name]/relationships', error);
+  }
+}
+
+/**
+ * Creates a typed relationship between two entries of the dataset.
+ * Returns the existing relationship if one of the same type is already defined.
+ * Body: { sourceId: string, targetId: string, type?: string, properties?: object, weight?: number }
+ */
+export async function POST(request: NextRequest, { params }: RelationshipsRouteContext) {
+  const body = await parseJsonBody(request, CreateRelationshipBodySchema);
+  if (body.response) return body.response;
+
+  const { sourceId, targetId, ...attributes } = body.data;
+  try {
+    const dataset = await resolveDataset(params);
+    if (dataset.response) return dataset.response;
+
+    const relationship = await addRelationship(dataset.name, sourceId, targetId, attributes, requestMutationContext(request, 'api'));
+    if (!relationship) {
+      return jsonError(`Failed to add relationship. Ensure both source (${sourceId}) and target (${targetId}) IDs exist.`, 404);
+    }
+    revalidatePath(entryPath(dataset.name, sourceId));
+    revalidatePath(entryPath(dataset.name, targetId));
+    revalidatePath(datasetPath(dataset.name));
+    return jsonSuccess(relationship, 'Relationship added successfully.', 201);
+  } catch (error) {
+    return handleRouteError('POST /api/data/datasets/[name]/relationships', error);
+  }
+}
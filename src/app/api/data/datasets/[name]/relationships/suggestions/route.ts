@@ -0,0 +1,33 @@
+// src/app/api/data/datasets/[name]/relationships/suggestions/route.ts
+import { type NextRequest } from 'next/server';
+import { suggestRelationships } from '@/services/relationship-suggestions';
+import { handleRouteError, jsonError, jsonSuccess, resolveDataset } from '../../../../route-helpers';
+
+export const dynamic = 'force-dynamic';
+
+interface RelationshipSuggestionsRouteContext {
+  params: Promise<{ name: string }>;
+}
+
+/**
+ * Suggests relationships that do not exist yet, for the entry ?entryId= or the whole dataset, best first. Each has a
+ * type, a score from 0 to 1, a reason and its origin ('heuristic' or 'ai'). With ?ai=false only the heuristics run;
+ * if the AI model fails, the heuristic suggestions are returned with the error in `aiError`.
+ * Accept a suggestion by creating it with POST /relationships.
+ */
+export async function GET(request: NextRequest, { params }: RelationshipSuggestionsRouteContext) {
+  const entryId = request.nextUrl.searchParams.get('entryId') || null;
+  const useAi = request.nextUrl.searchParams.get('ai') !== 'false';
+  try {
+    const dataset = await resolveDataset(params);
+    if (dataset.response) return dataset.response;
+
+    const result = await suggestRelationships(dataset.name, entryId, useAi);
+    if (!result) {
+      return jsonError(entryId ? `Entry with ID ${entryId} not found in dataset '${dataset.name}'.` : `Dataset '${dataset.name}' not found.`, 404);
+    }
+    return jsonSuccess(result);
+  } catch (error) {
+    return handleRouteError('GET /api/data/datasets/[name]/relationships/suggestions', error);
+  }
+}
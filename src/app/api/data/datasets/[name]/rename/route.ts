@@ -0,0 +1,54 @@
+// src/app/api/data/datasets/[name]/rename/route.ts
+import { type NextRequest } from 'next/server';
+import { z } from 'zod';
+import { revalidatePath } from 'next/cache';
+import { getDatasetInfo, renameDataset } from '@/services/database';
+import {
+  DatasetNameSchema,
+  handleRouteError,
+  jsonError,
+  jsonSuccess,
+  parseJsonBody,
+  requestMutationContext,
+  resolveDataset,
+} from '../../../route-helpers';
+import { datasetPath } from '@/lib/paths';
+
+export const dynamic = 'force-dynamic';
+
+interface RenameRouteContext {
+  params: Promise<{ name: string }>;
+}
+
+const RenameDatasetBodySchema = z.object({
+  name: DatasetNameSchema,
+});
+
+/**
+ * Renames the dataset. Entries and relationships move with it.
+ * Body: { name: string }
+ */
+export async function POST(request: NextRequest, { params }: RenameRouteContext) {
+  const body = await parseJsonBody(request, RenameDatasetBodySchema);
+  if (body.response) return body.response;
+
+  const newName = body.data.name;
+  try {
+    const dataset = await resolveDataset(params);
+    if (dataset.response) return dataset.response;
+
+    const result = await renameDataset(dataset.name, newName, requestMutationContext(request, 'api'));
+    if (result === 'name-taken') {
+      return jsonError(`A dataset named '${newName}' already exists.`, 409);
+    }
+    if (result === 'not-found') {
+      return jsonError(`Dataset '${dataset.name}' not found.`, 404);
+    }
+    revalidatePath('/datasets');
+    revalidatePath(datasetPath(dataset.name));
+    revalidatePath(datasetPath(newName));
+    return jsonSuccess(await getDatasetInfo(newName), `Dataset '${dataset.name}' renamed to '${newName}'.`);
+  } catch (error) {
+    return handleRouteError('POST /api/data/datasets/[name]/rename', error);
+  }
+}
@@ -0,0 +1,55 @@
+// src/app/api/data/datasets/[name]/restore/route.ts
+import { type NextRequest } from 'next/server';
+import { revalidatePath } from 'next/cache';
+import { z } from 'zod';
+import { restoreDatasetArchive } from '@/services/database';
+import { readArchive } from '@/lib/dataset-archive';
+import { INVALID_UPLOAD_PREFIX } from '@/lib/json-stream';
+import { datasetPath } from '@/lib/paths';
+import { DatasetNameSchema, handleRouteError, jsonError, jsonSuccess, requestMutationContext } from '../../../route-helpers';
+
+export const dynamic = 'force-dynamic';
+
+interface RestoreRouteContext {
+  params: Promise<{ name: string }>;
+}
+
+const CollisionSchema = z.enum(['skip', 'overwrite', 'remap']).default('skip');
+
+/**
+ * Restores a backup archive into the dataset named in the URL, which may differ from the dataset the
+ * backup was taken from. The request body is the archive file as downloaded from the backup route
+ * (gzip-compressed or plain NDJSON). A missing dataset is created; into an existing one the archive is merged,
+ * and ?collision=skip (default)|overwrite|remap decides what happens to entries whose ID already exists.
+ * All or nothing; returns a RestoreSummary.
+ */
+export async function POST(request: NextRequest, { params }: RestoreRouteContext) {
+  const name = DatasetNameSchema.safeParse((await params).name);
+  if (!name.success) {
+    return jsonError('Invalid dataset name.', 400, name.error.flatten());
+  }
+  const collision = CollisionSchema.safeParse(request.nextUrl.searchParams.get('collision') ?? undefined);
+  if (!collision.success) {
+    return jsonError("collision must be 'skip', 'overwrite' or 'remap'.", 400);
+  }
+  if (!request.body) {
+    return jsonError('Request body is empty.', 400);
+  }
+
+  try {
+    const summary = await restoreDatasetArchive(name.data, readArchive(request.body), collision.data, requestMutationContext(request, 'upload'));
+    revalidatePath(datasetPath(name.data));
+    revalidatePath('/datasets');
+    const entryCount = summary.entriesRestored + summary.entriesOverwritten + summary.entriesRemapped;
+    return jsonSuccess(
+      summary,
+      `Restored ${entryCount} entries and ${summary.relationshipsRestored} relationships into '${name.data}'.`,
+      summary.createdDataset ? 201 : 200
+    );
+  } catch (error) {
+    if (error instanceof Error && error.message.startsWith(INVALID_UPLOAD_PREFIX)) {
+      return jsonError(error.message, 400);
+    }
+    return handleRouteError('POST /api/data/datasets/[name]/restore', error);
+  }
+}
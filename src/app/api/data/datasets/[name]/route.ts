@@ -0,0 +1,122 @@
+// src/app/api/data/datasets/[name]/route.ts
+import { type NextRequest } from 'next/server';
+import { z } from 'zod';
+import { revalidatePath } from 'next/cache';
+import { addData, createOrReplaceDataset, deleteDataset, getDatasetInfo, updateDatasetMetadata } from '@/services/database';
+import {
+  DataEntryBodySchema,
+  DatasetMetadataBodySchema,
+  DatasetNameSchema,
+  handleRouteError,
+  jsonError,
+  jsonSuccess,
+  parseJsonBody,
+  requestMutationContext,
+  resolveDataset,
+} from '../../route-helpers';
+import type { DataEntry } from '@/services/types';
+import { datasetPath } from '@/lib/paths';
+
+export const dynamic = 'force-dynamic';
+
+interface DatasetRouteContext {
+  params: Promise<{ name: string }>;
+}
+
+const DatasetEntriesBodySchema = z.object({
+  entries: z.array(DataEntryBodySchema),
+});
+
+const PatchDatasetBodySchema = DatasetMetadataBodySchema.extend({
+  entries: z.array(DataEntryBodySchema).optional(),
+}).refine(
+  body => Object.values(body).some(value => value !== undefined),
+  { message: 'Provide entries and/or description, owner, tags.' }
+);
+
+/**
+ * Returns the dataset with its metadata and entry/relationship counts, or 404 if it does not exist.
+ */
+export async function GET(_request: NextRequest, { params }: DatasetRouteContext) {
+  const name = (await params).name;
+  try {
+    const info = await getDatasetInfo(name);
+    if (!info) {
+      return jsonError(`Dataset '${name}' not found.`, 404);
+    }
+    return jsonSuccess(info);
+  } catch (error) {
+    return handleRouteError('GET /api/data/datasets/[name]', error);
+  }
+}
+
+/**
+ * Replaces all entries (and drops all relationships) of the dataset, creating it if needed.
+ * Body: { entries: object[] }
+ */
+export async function PUT(request: NextRequest, { params }: DatasetRouteContext) {
+  const parsedName = DatasetNameSchema.safeParse((await params).name);
+  if (!parsedName.success) {
+    return jsonError(parsedName.error.issues[0].message, 400);
+  }
+  const name = parsedName.data;
+  const body = await parseJsonBody(request, DatasetEntriesBodySchema);
+  if (body.response) return body.response;
+
+  try {
+    const success = await createOrReplaceDataset(name, body.data.entries as DataEntry[], requestMutationContext(request, 'api'));
+    if (!success) {
+      return jsonError(`Failed to replace dataset '${name}'.`, 500);
+    }
+    revalidatePath(datasetPath(name));
+    return jsonSuccess({ name, entryCount: body.data.entries.length }, `Dataset '${name}' replaced.`);
+  } catch (error) {
+    return handleRouteError(`PUT /api/data/datasets/${name}`, error);
+  }
+}
+
+/**
+ * Updates the dataset's metadata and/or adds entries, replacing entries whose id already exists.
+ * Body: { entries?: object[], description?: string | null, owner?: string | null, tags?: string[] }
+ */
+export async function PATCH(request: NextRequest, { params }: DatasetRouteContext) {
+  const body = await parseJsonBody(request, PatchDatasetBodySchema);
+  if (body.response) return body.response;
+
+  const { entries, ...metadata } = body.data;
+  try {
+    const dataset = await resolveDataset(params);
+    if (dataset.response) return dataset.response;
+
+    if (entries) {
+      const success = await addData(dataset.name, entries as DataEntry[], requestMutationContext(request, 'api'));
+      if (!success) {
+        return jsonError('Failed to add or update data entries.', 500);
+      }
+    }
+    const info = await updateDatasetMetadata(dataset.name, metadata, requestMutationContext(request, 'api'));
+    revalidatePath('/datasets');
+    revalidatePath(datasetPath(dataset.name));
+    return jsonSuccess(info, entries ? 'Data entries added/updated.' : 'Dataset updated.');
+  } catch (error) {
+    return handleRouteError('PATCH /api/data/datasets/[name]', error);
+  }
+}
+
+/**
+ * Deletes the dataset with all its entries and relationships.
+ */
+export async function DELETE(request: NextRequest, { params }: DatasetRouteContext) {
+  const name = (await params).name;
+  try {
+    const deleted = await deleteDataset(name, requestMutationContext(request, 'api'));
+    if (!deleted) {
+      return jsonError(`Dataset '${name}' not found.`, 404);
+    }
+    revalidatePath('/');
+    revalidatePath('/datasets');
+    return jsonSuccess({ name }, `Dataset '${name}' deleted.`);
+  } catch (error) {
+    return handleRouteError(`DELETE /api/data/datasets/${name}`, error);
+  }
+}
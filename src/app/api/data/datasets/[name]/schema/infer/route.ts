@@ -0,0 +1,65 @@
+// src/app/api/data/datasets/[name]/schema/infer/route.ts
+import { type NextRequest } from 'next/server';
+import { z } from 'zod';
+import { getDatasetInfo, setDatasetSchema } from '@/services/database';
+import type { DatasetSchema } from '@/services/types';
+import { MAX_SCHEMA_SAMPLE_SIZE } from '@/lib/dataset-schema';
+import { inferSchemaFlow } from '@/ai/flows/infer-schema-flow';
+import {
+  handleRouteError,
+  jsonError,
+  jsonSuccess,
+  parseJsonBody,
+  requestMutationContext,
+  resolveDataset,
+} from '../../../../route-helpers';
+
+export const dynamic = 'force-dynamic';
+
+interface InferSchemaRouteContext {
+  params: Promise<{ name: string }>;
+}
+
+const InferSchemaBodySchema = z.object({
+  sampleSize: z.number().int().min(1).max(MAX_SCHEMA_SAMPLE_SIZE).optional(),
+  dryRun: z.boolean().optional(),
+});
+
+/**
+ * Infers the schema of the dataset with the AI model from a random sample of its entries and stores it as the
+ * documented schema, replacing the current one. With dryRun, the inferred schema is only returned.
+ * Body: { sampleSize?: number, dryRun?: boolean }
+ */
+export async function POST(request: NextRequest, { params }: InferSchemaRouteContext) {
+  try {
+    const dataset = await resolveDataset(params);
+    if (dataset.response) return dataset.response;
+
+    const body = await parseJsonBody(request, InferSchemaBodySchema);
+    if (body.response) return body.response;
+
+    const info = await getDatasetInfo(dataset.name);
+    if (!info) {
+      return jsonError(`Dataset '${dataset.name}' not found.`, 404);
+    }
+    if (info.entry_count === 0) {
+      return jsonError(`Dataset '${dataset.name}' has no entries to infer a schema from.`, 422);
+    }
+
+    const schema = await inferSchemaFlow({ datasetName: dataset.name, sampleSize: body.data.sampleSize }) as DatasetSchema;
+    const message = `Inferred ${schema.fields.length} fields from ${schema.inferred_by?.sample_size} entries.`;
+    if (body.data.dryRun) {
+      return jsonSuccess({ schema }, message);
+    }
+    const success = await setDatasetSchema(dataset.name, schema, requestMutationContext(request, 'api'), {
+      inferredBy: schema.inferred_by?.model,
+      sampleSize: schema.inferred_by?.sample_size,
+    });
+    if (!success) {
+      return jsonError(`Dataset '${dataset.name}' not found.`, 404);
+    }
+    return jsonSuccess({ schema }, message);
+  } catch (error) {
+    return handleRouteError('POST /api/data/datasets/[name]/schema/infer', error);
+  }
+}
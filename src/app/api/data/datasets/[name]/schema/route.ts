@@ -0,0 +1,64 @@
+// src/app/api/data/datasets/[name]/schema/route.ts
+import { type NextRequest } from 'next/server';
+import { z } from 'zod';
+import { getDatasetSchema, setDatasetSchema } from '@/services/database';
+import { DatasetSchemaSchema } from '@/lib/dataset-schema';
+import {
+  handleRouteError,
+  jsonError,
+  jsonSuccess,
+  parseJsonBody,
+  requestMutationContext,
+  resolveDataset,
+} from '../../../route-helpers';
+
+export const dynamic = 'force-dynamic';
+
+interface DatasetSchemaRouteContext {
+  params: Promise<{ name: string }>;
+}
+
+// A null schema removes the documented schema
+const DatasetSchemaBodySchema = z.object({
+  schema: DatasetSchemaSchema.nullable(),
+});
+
+/**
+ * Returns the documented schema of the dataset: { schema }, where schema is null if none has been documented yet.
+ */
+export async function GET(_request: NextRequest, { params }: DatasetSchemaRouteContext) {
+  try {
+    const dataset = await resolveDataset(params);
+    if (dataset.response) return dataset.response;
+
+    const result = await getDatasetSchema(dataset.name);
+    if (!result) {
+      return jsonError(`Dataset '${dataset.name}' not found.`, 404);
+    }
+    return jsonSuccess(result);
+  } catch (error) {
+    return handleRouteError('GET /api/data/datasets/[name]/schema', error);
+  }
+}
+
+/**
+ * Replaces the documented schema of the dataset, or removes it.
+ * Body: { schema: DatasetSchema | null }
+ */
+export async function PUT(request: NextRequest, { params }: DatasetSchemaRouteContext) {
+  try {
+    const dataset = await resolveDataset(params);
+    if (dataset.response) return dataset.response;
+
+    const body = await parseJsonBody(request, DatasetSchemaBodySchema);
+    if (body.response) return body.response;
+
+    const success = await setDatasetSchema(dataset.name, body.data.schema, requestMutationContext(request, 'api'));
+    if (!success) {
+      return jsonError(`Dataset '${dataset.name}' not found.`, 404);
+    }
+    return jsonSuccess({ schema: body.data.schema }, body.data.schema ? 'Schema saved.' : 'Schema removed.');
+  } catch (error) {
+    return handleRouteError('PUT /api/data/datasets/[name]/schema', error);
+  }
+}
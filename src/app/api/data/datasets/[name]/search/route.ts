@@ -0,0 +1,34 @@
+// src/app/api/data/datasets/[name]/search/route.ts
+import { type NextRequest } from 'next/server';
+import { searchData } from '@/services/database';
+import { handleRouteError, jsonError, jsonSuccess, resolveDataset } from '../../../route-helpers';
+
+export const dynamic = 'force-dynamic';
+
+interface SearchRouteContext {
+  params: Promise<{ name: string }>;
+}
+
+/**
+ * Full-text search over the entries of the dataset: ?q= (web-search syntax), optional ?limit= (max. 100).
+ * Returns results ordered by relevance, each with { entry, rank, snippet }.
+ */
+export async function GET(request: NextRequest, { params }: SearchRouteContext) {
+  const searchText = request.nextUrl.searchParams.get('q')?.trim();
+  const limit = request.nextUrl.searchParams.get('limit');
+  if (!searchText) {
+    return jsonError('Query parameter q is required.', 400);
+  }
+  if (limit !== null && (!Number.isInteger(Number(limit)) || Number(limit) < 1)) {
+    return jsonError('limit must be a positive integer.', 400);
+  }
+  try {
+    const dataset = await resolveDataset(params);
+    if (dataset.response) return dataset.response;
+
+    const results = await searchData(dataset.name, searchText, limit === null ? undefined : Number(limit));
+    return jsonSuccess(results);
+  } catch (error) {
+    return handleRouteError('GET /api/data/datasets/[name]/search', error);
+  }
+}
@@ -0,0 +1,63 @@
+// src/app/api/data/datasets/route.ts
+import { type NextRequest } from 'next/server';
+import { z } from 'zod';
+import { revalidatePath } from 'next/cache';
+import { createOrReplaceDataset, getAllDatasetNames, getAllDatasets, updateDatasetMetadata } from '@/services/database';
+import {
+  DataEntryBodySchema,
+  DatasetMetadataBodySchema,
+  DatasetNameSchema,
+  handleRouteError,
+  jsonError,
+  jsonSuccess,
+  parseJsonBody,
+  requestMutationContext,
+} from '../route-helpers';
+import type { DataEntry } from '@/services/types';
+import { datasetPath } from '@/lib/paths';
+
+export const dynamic = 'force-dynamic';
+
+const CreateDatasetBodySchema = DatasetMetadataBodySchema.extend({
+  name: DatasetNameSchema,
+  entries: z.array(DataEntryBodySchema).default([]),
+});
+
+/**
+ * Lists all dataset names, or with ?details=true all datasets with metadata and counts.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    if (request.nextUrl.searchParams.get('details') === 'true') {
+      return jsonSuccess({ datasets: await getAllDatasets() });
+    }
+    const datasets = await getAllDatasetNames();
+    return jsonSuccess({ datasets });
+  } catch (error) {
+    return handleRouteError('GET /api/data/datasets', error);
+  }
+}
+
+/**
+ * Creates a dataset, replacing one with the same name.
+ * Body: { name: string, entries?: object[], description?: string, owner?: string, tags?: string[] }
+ */
+export async function POST(request: NextRequest) {
+  const body = await parseJsonBody(request, CreateDatasetBodySchema);
+  if (body.response) return body.response;
+
+  const { name, entries, ...metadata } = body.data;
+  try {
+    const mutationContext = requestMutationContext(request, 'api');
+    const success = await createOrReplaceDataset(name, entries as DataEntry[], mutationContext);
+    if (!success) {
+      return jsonError(`Failed to create/replace dataset '${name}'.`, 500);
+    }
+    const info = await updateDatasetMetadata(name, metadata, mutationContext);
+    revalidatePath('/datasets');
+    revalidatePath(datasetPath(name));
+    return jsonSuccess(info, `Dataset '${name}' created.`, 201);
+  } catch (error) {
+    return handleRouteError('POST /api/data/datasets', error);
+  }
+}
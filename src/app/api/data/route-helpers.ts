@@ -0,0 +1,185 @@
+// src/app/api/data/route-helpers.ts
+import { NextResponse, type NextRequest } from 'next/server';
+import { z } from 'zod';
+import { datasetExists } from '@/services/database';
+import { DATASET_NAME_HINT, DATASET_NAME_PATTERN } from '@/lib/utils';
+import { RELATIONSHIP_TYPE_HINT, RELATIONSHIP_TYPE_PATTERN } from '@/lib/relationship-types';
+import { MAX_ENTRY_PAGE_SIZE } from '@/lib/entry-query';
+import { AUDIT_ACTIONS, MAX_AUDIT_PAGE_SIZE } from '@/lib/audit';
+import { ACTOR_COOKIE, ACTOR_HEADER, resolveActor } from '@/lib/mutation-context';
+import type { AuditAction, MutationContext, MutationSource } from '@/services/types';
+
+// Response bodies mirror the ActionResult shape returned by the server actions,
+// so API clients and the UI see the same success/error envelope.
+interface ApiResult {
+  success: boolean;
+  message?: string;
+  error?: string;
+  data?: any;
+  details?: any;
+}
+
+// --- Request Body Schemas ---
+
+// A single entry: arbitrary JSON object with an optional string/number id (normalised to a string).
+export const DataEntryBodySchema = z
+  .object({
+    id: z.union([z.string().min(1), z.number()]).transform(String).optional(),
+  })
+  .passthrough();
+
+// One entry or a non-empty array of entries, as accepted by addData.
+export const DataEntriesBodySchema = z.union([DataEntryBodySchema, z.array(DataEntryBodySchema).min(1)]);
+
+// Entry content for PUT/PATCH on a specific entry. The 'id' comes from the URL and is ignored here.
+export const EntryDataBodySchema = z.record(z.string(), z.any());
+
+// RFC 6902 JSON Patch: a non-empty array of operations (Content-Type: application/json-patch+json).
+const JsonPointerSchema = z.string().refine(pointer => pointer === '' || pointer.startsWith('/'), "A JSON Pointer is '' or starts with '/'.");
+export const JsonPatchBodySchema = z.array(z.discriminatedUnion('op', [
+  z.object({ op: z.literal('add'), path: JsonPointerSchema, value: z.any() }),
+  z.object({ op: z.literal('replace'), path: JsonPointerSchema, value: z.any() }),
+  z.object({ op: z.literal('test'), path: JsonPointerSchema, value: z.any() }),
+  z.object({ op: z.literal('remove'), path: JsonPointerSchema }),
+  z.object({ op: z.literal('move'), from: JsonPointerSchema, path: JsonPointerSchema }),
+  z.object({ op: z.literal('copy'), from: JsonPointerSchema, path: JsonPointerSchema }),
+]).refine(operation => !('value' in operation) || operation.value !== undefined, 'value is required.')).min(1);
+
+export const EntryIdSchema = z.union([z.string().trim().min(1), z.number()]).transform(String);
+
+export const DatasetNameSchema = z
+  .string()
+  .trim()
+  .min(1, 'Dataset name cannot be empty.')
+  .regex(DATASET_NAME_PATTERN, DATASET_NAME_HINT);
+
+// Optional relationship attributes. A missing type means the default type on create and "unchanged" on update.
+export const RelationshipAttributesSchema = z.object({
+  type: z.string().trim().regex(RELATIONSHIP_TYPE_PATTERN, RELATIONSHIP_TYPE_HINT).optional(),
+  properties: z.record(z.string(), z.any()).nullable().optional(),
+  weight: z.number().finite().nullable().optional(),
+});
+
+// Editable dataset metadata. Fields left out are not changed; null or '' clears description/owner.
+export const DatasetMetadataBodySchema = z.object({
+  description: z.string().nullable().optional(),
+  owner: z.string().nullable().optional(),
+  tags: z.array(z.string()).optional(),
+});
+
+// Entry listing query (?limit=&cursor=&sort=&order=&filters=&sourceId=); filters is a JSON array.
+const ScalarSchema = z.union([z.string(), z.number(), z.boolean()]);
+export const EntryFilterSchema = z.discriminatedUnion('operator', [
+  z.object({ field: z.string().trim().min(1), operator: z.literal('equals'), value: ScalarSchema }),
+  z.object({ field: z.string().trim().min(1), operator: z.literal('contains'), value: ScalarSchema }),
+  z.object({
+    field: z.string().trim().min(1),
+    operator: z.literal('range'),
+    min: z.union([z.string(), z.number()]).optional(),
+    max: z.union([z.string(), z.number()]).optional(),
+  }),
+  z.object({ field: z.string().trim().min(1), operator: z.literal('exists') }),
+]).refine(
+  filter => filter.operator !== 'range' || filter.min !== undefined || filter.max !== undefined,
+  'A range filter needs min and/or max.'
+);
+
+export const EntryQueryParamsSchema = z.object({
+  limit: z.coerce.number().int().min(1).max(MAX_ENTRY_PAGE_SIZE).optional(),
+  cursor: z.string().min(1).optional(),
+  sort: z.string().trim().min(1).optional(),
+  order: z.enum(['asc', 'desc']).optional(),
+  filters: z
+    .string()
+    .transform((raw, ctx) => {
+      try {
+        return JSON.parse(raw);
+      } catch {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'filters must be a JSON array.' });
+        return z.NEVER;
+      }
+    })
+    .pipe(z.array(EntryFilterSchema))
+    .optional(),
+  sourceId: z.string().trim().min(1).optional(),
+});
+
+// Audit log query (?dataset=&actor=&action=&limit=&cursor=)
+export const AuditQueryParamsSchema = z.object({
+  dataset: z.string().trim().min(1).optional(),
+  actor: z.string().trim().min(1).optional(),
+  action: z.enum(AUDIT_ACTIONS as [AuditAction, ...AuditAction[]]).optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_AUDIT_PAGE_SIZE).optional(),
+  cursor: z.coerce.number().int().min(1).optional(),
+});
+
+// --- Response Helpers ---
+
+export function jsonSuccess(data: any, message?: string, status = 200): NextResponse<ApiResult> {
+  return NextResponse.json({ success: true, message, data }, { status });
+}
+
+export function jsonError(error: string, status: number, details?: any): NextResponse<ApiResult> {
+  return NextResponse.json({ success: false, error, details }, { status });
+}
+
+/**
+ * Logs an unexpected error raised by a service call and converts it into a 500 response.
+ */
+export function handleRouteError(context: string, error: unknown): NextResponse<ApiResult> {
+  console.error(`API Route [${context}]: Unexpected error:`, error);
+  const errorMessage = error instanceof Error ? error.message : 'An unexpected error occurred.';
+  return jsonError(errorMessage, 500);
+}
+
+/**
+ * Reads the request body as JSON and validates it against a zod schema.
+ * Returns either the parsed data or a ready-made 400 response.
+ */
+export async function parseJsonBody<T extends z.ZodTypeAny>(
+  request: NextRequest,
+  schema: T
+): Promise<{ data: z.infer<T>; response?: undefined } | { data?: undefined; response: NextResponse<ApiResult> }> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return { response: jsonError('Request body must be valid JSON.', 400) };
+  }
+
+  const parsed = schema.safeParse(body);
+  if (!parsed.success) {
+    return { response: jsonError('Request body failed validation.', 400, parsed.error.flatten()) };
+  }
+  return { data: parsed.data };
+}
+
+/**
+ * Reads the dataset name from the route params and checks that the dataset exists.
+ * Returns either the name (route handlers get params already decoded) or a ready-made 404 response.
+ */
+export async function resolveDataset(
+  params: Promise<{ name: string }>
+): Promise<{ name: string; response?: undefined } | { name?: undefined; response: NextResponse<ApiResult> }> {
+  const name = (await params).name;
+  if (!(await datasetExists(name))) {
+    return { response: jsonError(`Dataset '${name}' not found.`, 404) };
+  }
+  return { name };
+}
+
+/**
+ * Parses a numeric relationship ID from a route segment.
+ * Returns null if the segment is not a positive integer.
+ */
+export function parseRelationshipId(raw: string): number | null {
+  const id = Number(raw);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+/**
+ * Builds the context recorded with entry versions and audit events: the actor from the actor header or cookie, and the source.
+ */
+export function requestMutationContext(request: NextRequest, source: MutationSource): MutationContext {
+  return { actor: resolveActor(request.headers.get(ACTOR_HEADER), request.cookies.get(ACTOR_COOKIE)?.value), source };
+}
@@ -1,20 +1,47 @@
-
 // src/app/api/data/route.ts
-import { NextResponse, type NextRequest } from 'next/server';
+import { getAllDatasetNames } from '@/services/database';
+import { handleRouteError, jsonSuccess } from './route-helpers';
+
+// REST ingestion API. The route handlers below /api/data call the same database
+// service functions as the Server Actions, so both paths share validation and storage logic.
+// Every entry and relationship route is scoped to the dataset named in the URL.
+//
+//   /api/data/datasets                                                   GET list (?details=true for metadata), POST create/replace
+//   /api/data/datasets/[name]                                            GET info, PUT replace entries, PATCH metadata/upsert entries, DELETE
+//   /api/data/datasets/[name]/rename                                     POST rename
+//   /api/data/datasets/[name]/clone                                      POST deep clone
+//   /api/data/datasets/[name]/entries                                    GET all (or a page: ?limit=, ?cursor=, ?sort=, ?order=, ?filters=, ?sourceId=), POST add/upsert, DELETE bulk delete
+//   /api/data/datasets/[name]/entries/[id]                               GET, PUT replace, PATCH (JSON Merge Patch, JSON Patch, or top-level fields for application/json), DELETE
+//   /api/data/datasets/[name]/entries/[id]/versions                      GET previous contents, newest first
+//   /api/data/datasets/[name]/entries/[id]/versions/[versionId]/restore  POST restore a version
+//   /api/data/datasets/[name]/entries/[id]/neighborhood                  GET entries within ?depth= hops (both directions, optionally ?type=)
+//   /api/data/datasets/[name]/import                                     POST streaming bulk import (JSON array or NDJSON, ?mode=append|replace)
+//   /api/data/datasets/[name]/export                                     GET download entries or relationships (?format=json|ndjson|csv|xlsx)
+//   /api/data/datasets/[name]/backup                                     GET backup archive (gzip-compressed NDJSON)
+//   /api/data/datasets/[name]/restore                                    POST restore a backup archive (?collision=skip|overwrite|remap)
+//   /api/data/datasets/[name]/search                                     GET full-text search (?q=, ?limit=)
+//   /api/data/datasets/[name]/relationships                              GET all (optionally ?sourceId= or ?targetId=, ?type=), POST create
+//   /api/data/datasets/[name]/relationships/suggestions                  GET suggested relationships (?entryId=, ?ai=false)
+//   /api/data/datasets/[name]/relationships/[id]                         GET, PUT replace source/target, PATCH change source/target/type/properties/weight, DELETE
+//   /api/data/datasets/[name]/schema                                     GET, PUT documented schema
+//   /api/data/datasets/[name]/schema/infer                               POST infer the schema with the AI model (dryRun to only return it)
+//   /api/data/datasets/[name]/cleaning-rules                             GET, PUT cleaning rules
+//   /api/data/datasets/[name]/cleaning-rules/apply                       POST apply the saved rules to all or filtered entries
+//   /api/data/datasets/[name]/cleaning-jobs                              GET list, POST start a batch AI cleaning job
+//   /api/data/datasets/[name]/cleaning-jobs/[jobId]                      GET progress and items, PATCH cancel/resume
+//   /api/data/datasets/[name]/cleaning-jobs/[jobId]/review               POST accept or reject suggestions
+//   /api/data/audit                                                      GET audit events (?dataset=, ?actor=, ?action=, ?limit=, ?cursor=)
 
-// This API route is no longer the primary way to upload data,
-// as the frontend now uses Server Actions (uploadDataAction, updateDataAction, createNewDatasetAction)
-// which interact with the active dataset managed by the database service.
-// Keep the file for potential future API needs or remove if definitely unused.
+export const dynamic = 'force-dynamic';
 
-// Example: Optional GET handler (if needed later)
+/**
+ * Returns an overview of the API: all dataset names.
+ */
 export async function GET() {
-  // Implementation for fetching data via API (if ever needed)
-  // Currently, data fetching is done via Server Components and Server Actions.
-  return NextResponse.json({ message: 'GET method not implemented. Data access via Server Actions.' });
+  try {
+    const datasets = await getAllDatasetNames();
+    return jsonSuccess({ datasets });
+  } catch (error) {
+    return handleRouteError('GET /api/data', error);
+  }
 }
-
-// Remove the POST handler as it's replaced by Server Actions
-// export async function POST(request: NextRequest) {
-//   // ... previous POST logic ...
-// }
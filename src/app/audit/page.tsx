@@ -0,0 +1,47 @@
+import { AuditLogView } from "@/components/audit-log-view";
+import { getAllDatasetNames, queryAuditLog } from "@/services/database";
+import { AUDIT_ACTIONS } from "@/lib/audit";
+import type { AuditAction, AuditPage, AuditQuery } from "@/services/types";
+
+interface AuditPageProps {
+  searchParams: Promise<{
+    dataset?: string;
+    actor?: string;
+    action?: string;
+  }>;
+}
+
+export const dynamic = 'force-dynamic'; // New events are recorded with every change
+
+export default async function AuditLogPage({ searchParams }: AuditPageProps) {
+  const { dataset, actor, action } = await searchParams;
+  // Filters come from the URL, so a filtered view can be bookmarked or shared
+  const filters: AuditQuery = {
+    datasetName: dataset?.trim() || undefined,
+    actor: actor?.trim() || undefined,
+    action: AUDIT_ACTIONS.includes(action as AuditAction) ? (action as AuditAction) : undefined,
+  };
+  let initialPage: AuditPage = { events: [], nextCursor: null };
+  let datasetNames: string[] = [];
+  let error: string | null = null;
+
+  try {
+    [initialPage, datasetNames] = await Promise.all([queryAuditLog(filters), getAllDatasetNames()]);
+  } catch (e) {
+    console.error("Failed to fetch audit events:", e);
+    error = "Failed to load the audit log. Please try again later.";
+    if (e instanceof Error) {
+      error = `${error} Details: ${e.message}`;
+    }
+  }
+
+  return (
+    <AuditLogView
+      key={JSON.stringify(filters)}
+      initialPage={initialPage}
+      filters={filters}
+      datasetNames={datasetNames}
+      error={error}
+    />
+  );
+}
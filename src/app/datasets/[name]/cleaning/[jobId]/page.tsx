@@ -0,0 +1,66 @@
+import { notFound } from 'next/navigation';
+import Link from 'next/link';
+import { ArrowLeft } from 'lucide-react';
+import { getCleaningJob, getCleaningJobItems } from '@/services/database';
+import { withRunnerState } from '@/services/cleaning-jobs';
+import type { CleaningJob, CleaningJobItemPage } from '@/services/types';
+import { CleaningJobReview } from '@/components/cleaning-job-review';
+import { cleaningJobsPath } from '@/lib/paths';
+import { Button } from '@/components/ui/button';
+
+interface CleaningJobPageProps {
+  params: Promise<{
+    name: string; // Dataset name from the URL
+    jobId: string;
+  }>;
+}
+
+export const dynamic = 'force-dynamic'; // Progress changes while the job runs
+
+export default async function CleaningJobPage({ params }: CleaningJobPageProps) {
+  const routeParams = await params;
+  const datasetName = decodeURIComponent(routeParams.name);
+  const jobId = Number(routeParams.jobId);
+  if (!Number.isInteger(jobId) || jobId <= 0) {
+    notFound();
+  }
+
+  let job: CleaningJob | null = null;
+  let initialItems: CleaningJobItemPage = { items: [], nextCursor: null };
+  let error: string | null = null;
+
+  try {
+    // The review queue opens on the suggestions waiting for review
+    const [storedJob, page] = await Promise.all([
+      getCleaningJob(datasetName, jobId),
+      getCleaningJobItems(datasetName, jobId, { status: 'proposed' }),
+    ]);
+    job = storedJob && withRunnerState(storedJob);
+    initialItems = page;
+  } catch (e) {
+    console.error(`Failed to fetch cleaning job ${jobId} of dataset '${datasetName}':`, e);
+    error = `Failed to load cleaning job ${jobId}. Please try again later.`;
+    if (e instanceof Error) {
+      error = `${error} Details: ${e.message}`;
+    }
+  }
+
+  if (!error && !job) {
+    notFound();
+  }
+
+  return (
+    <div className="space-y-6">
+      <Button variant="outline" asChild>
+        <Link href={cleaningJobsPath(datasetName)}>
+          <ArrowLeft className="mr-2 h-4 w-4" /> All Cleaning Jobs
+        </Link>
+      </Button>
+      {error || !job ? (
+        <p className="text-destructive">{error}</p>
+      ) : (
+        <CleaningJobReview datasetName={datasetName} initialJob={job} initialItems={initialItems} />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+import Link from 'next/link';
+import { ArrowLeft } from 'lucide-react';
+import { getCleaningJobs } from '@/services/database';
+import { withRunnerState } from '@/services/cleaning-jobs';
+import type { CleaningJob } from '@/services/types';
+import { CLEANING_JOB_STATUS_LABELS } from '@/lib/cleaning-jobs';
+import { formatModelName } from '@/lib/ai-models';
+import { cleaningJobPath, datasetPath } from '@/lib/paths';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+interface CleaningJobsPageProps {
+  params: Promise<{
+    name: string; // Dataset name from the URL
+  }>;
+}
+
+export const dynamic = 'force-dynamic'; // Progress changes while jobs run
+
+export default async function CleaningJobsPage({ params }: CleaningJobsPageProps) {
+  const datasetName = decodeURIComponent((await params).name);
+  let jobs: CleaningJob[] = [];
+  let error: string | null = null;
+
+  try {
+    jobs = (await getCleaningJobs(datasetName)).map(withRunnerState);
+  } catch (e) {
+    console.error(`Failed to fetch cleaning jobs for dataset '${datasetName}':`, e);
+    error = `Failed to load the cleaning jobs of '${datasetName}'. Please try again later.`;
+    if (e instanceof Error) {
+      error = `${error} Details: ${e.message}`;
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <Button variant="outline" asChild>
+        <Link href={datasetPath(datasetName)}>
+          <ArrowLeft className="mr-2 h-4 w-4" /> Back to Overview
+        </Link>
+      </Button>
+      <Card>
+        <CardHeader>
+          <CardTitle>AI Cleaning Jobs</CardTitle>
+          <CardDescription>
+            Batch cleaning runs of '{datasetName}', newest first. Start one with the wand button next to the dataset selector.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {error ? (
+            <p className="text-destructive">{error}</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Job</TableHead>
+                  <TableHead className="whitespace-nowrap">Started</TableHead>
+                  <TableHead>By</TableHead>
+                  <TableHead>Model</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Entries</TableHead>
+                  <TableHead className="text-right">To Review</TableHead>
+                  <TableHead className="text-right">Failed</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {jobs.length > 0 ? (
+                  jobs.map(job => (
+                    <TableRow key={job.id}>
+                      <TableCell>
+                        <Link href={cleaningJobPath(datasetName, job.id)} className="font-medium underline underline-offset-2">
+                          #{job.id}
+                        </Link>
+                        {job.query && <span className="ml-2 text-xs text-muted-foreground">(filtered)</span>}
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">{new Date(job.created_at).toLocaleString()}</TableCell>
+                      <TableCell>{job.actor}</TableCell>
+                      <TableCell className="text-sm">{job.model ? formatModelName(job.model) : '—'}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className="font-normal">
+                          {job.status === 'running' && !job.active ? 'Interrupted' : CLEANING_JOB_STATUS_LABELS[job.status]}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right">{job.total}</TableCell>
+                      <TableCell className="text-right">{job.counts.proposed ?? 0}</TableCell>
+                      <TableCell className="text-right">{job.counts.failed ?? 0}</TableCell>
+                    </TableRow>
+                  ))
+                ) : (
+                  <TableRow>
+                    <TableCell colSpan={8} className="h-24 text-center">
+                      No cleaning jobs have been run on this dataset.
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
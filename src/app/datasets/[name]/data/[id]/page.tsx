@@ -1,61 +1,59 @@
 
 import { notFound } from 'next/navigation';
-import { getDataById, getActiveDatasetName } from '@/services/database'; // Import getActiveDatasetName
+import { getDataById } from '@/services/database';
 import { DataDetailView } from '@/components/data-detail-view';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import Link from 'next/link';
 import { Button } from '@/components/ui/button';
 import { ArrowLeft } from 'lucide-react';
 import type { DataEntry } from '@/services/types'; // Updated import path
+import { datasetPath } from '@/lib/paths';
 
 interface DataDetailPageProps {
-  params: {
+  params: Promise<{
+    name: string; // Dataset name from the URL
     id: string; // ID from URL is always a string
-  };
+  }>;
 }
 
 export const dynamic = 'force-dynamic'; // Ensure data is fetched on each request
 
 export default async function DataDetailPage({ params }: DataDetailPageProps) {
-  const { id } = params; // id is a string here
+  const routeParams = await params; // Pages get params URI-encoded, unlike route handlers
+  const datasetName = decodeURIComponent(routeParams.name);
+  const id = decodeURIComponent(routeParams.id); // id is a string here
   let dataEntry: DataEntry | null = null;
   let error: string | null = null;
-  let activeDatasetName: string | null = null; // To display the dataset name
 
   try {
-    // Fetch the active dataset name first for context
-    activeDatasetName = await getActiveDatasetName(); // Fetch using the service function
-
-    console.log(`[DataDetailPage - Active: ${activeDatasetName || 'N/A'}] Rendering page for ID: ${id}`);
-    // Pass the string ID directly to getDataById
-    dataEntry = await getDataById(id); // Fetches from the active dataset using string ID
+    console.log(`[DataDetailPage - Dataset: ${datasetName}] Rendering page for ID: ${id}`);
+    // Fetch the entry from the dataset named in the URL
+    dataEntry = await getDataById(datasetName, id);
 
     if (dataEntry) {
-        console.log(`[DataDetailPage - Active: ${activeDatasetName || 'N/A'}] Successfully fetched data for ID: ${id}.`);
+        console.log(`[DataDetailPage - Dataset: ${datasetName}] Successfully fetched data for ID: ${id}.`);
     } else {
-        console.warn(`[DataDetailPage - Active: ${activeDatasetName || 'N/A'}] getDataById returned null for ID: ${id}. Entry not found in this dataset.`);
+        console.warn(`[DataDetailPage - Dataset: ${datasetName}] getDataById returned null for ID: ${id}. Entry not found in this dataset.`);
     }
 
   } catch (e) {
-    const datasetCtx = activeDatasetName || 'N/A'; // Use fetched name or N/A
-    console.error(`[DataDetailPage - Active: ${datasetCtx}] Failed to fetch data for ID ${id}:`, e);
-    error = `Failed to load data for ID ${id} from dataset '${datasetCtx}'.`;
+    console.error(`[DataDetailPage - Dataset: ${datasetName}] Failed to fetch data for ID ${id}:`, e);
+    error = `Failed to load data for ID ${id} from dataset '${datasetName}'.`;
     if (e instanceof Error) {
         error = `${error} Details: ${e.message}`;
     }
-    // No need to re-fetch names on error, use the one already fetched or N/A
   }
 
   // Trigger 404 if no error occurred BUT dataEntry is still null
   if (!error && !dataEntry) {
-     console.log(`[DataDetailPage - Active: ${activeDatasetName || 'N/A'}] No data found for ID ${id}. Triggering notFound().`);
+     console.log(`[DataDetailPage - Dataset: ${datasetName}] No data found for ID ${id}. Triggering notFound().`);
     notFound();
   }
 
   return (
     <div className="space-y-6">
        <Button variant="outline" asChild>
-           <Link href="/">
+           <Link href={datasetPath(datasetName)}>
              <ArrowLeft className="mr-2 h-4 w-4" /> Back to Overview
            </Link>
          </Button>
@@ -63,17 +61,17 @@ export default async function DataDetailPage({ params }: DataDetailPageProps) {
         <CardHeader>
           <CardTitle>Data Details (ID: {id})</CardTitle>
           <p className="text-sm text-muted-foreground">
-            Dataset: <span className="font-medium">{activeDatasetName || 'N/A'}</span>
+            Dataset: <span className="font-medium">{datasetName}</span>
           </p>
         </CardHeader>
         <CardContent>
           {error ? (
             <p className="text-destructive">{error}</p>
           ) : dataEntry ? (
-            // Pass the string ID to the client component
-            <DataDetailView initialData={dataEntry} entryId={id} />
+            // Pass the dataset and string ID to the client component
+            <DataDetailView initialData={dataEntry} entryId={id} datasetName={datasetName} />
           ) : (
-             <p className="text-destructive">Data entry not found (ID: {id}) in dataset '{activeDatasetName || 'N/A'}'.</p>
+             <p className="text-destructive">Data entry not found (ID: {id}) in dataset '{datasetName}'.</p>
           )}
         </CardContent>
       </Card>
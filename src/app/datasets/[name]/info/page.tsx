@@ -0,0 +1,98 @@
+import { notFound } from 'next/navigation';
+import Link from 'next/link';
+import { ArrowLeft } from 'lucide-react';
+import { getDatasetInfo, getDatasetSchema } from '@/services/database';
+import type { DatasetInfo, DatasetSchema } from '@/services/types';
+import { DatasetSchemaEditor } from '@/components/dataset-schema-editor';
+import { datasetPath } from '@/lib/paths';
+import { flowModelName } from '@/ai/model-config';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+
+interface DatasetInfoPageProps {
+  params: Promise<{
+    name: string; // Dataset name from the URL
+  }>;
+}
+
+export const dynamic = 'force-dynamic';
+
+export default async function DatasetInfoPage({ params }: DatasetInfoPageProps) {
+  const datasetName = decodeURIComponent((await params).name);
+  let info: DatasetInfo | null = null;
+  let schema: DatasetSchema | null = null;
+  let error: string | null = null;
+  let inferenceModel: string | null = null;
+
+  try {
+    const [datasetInfo, documented] = await Promise.all([getDatasetInfo(datasetName), getDatasetSchema(datasetName)]);
+    info = datasetInfo;
+    schema = documented?.schema ?? null;
+  } catch (e) {
+    console.error(`Failed to fetch the details of dataset '${datasetName}':`, e);
+    error = `Failed to load the details of '${datasetName}'. Please try again later.`;
+    if (e instanceof Error) {
+      error = `${error} Details: ${e.message}`;
+    }
+  }
+
+  if (!error && !info) {
+    notFound();
+  }
+
+  try {
+    inferenceModel = flowModelName('inferSchema');
+  } catch (e) {
+    console.error("Invalid AI model configuration:", e); // Inferring the schema reports it
+  }
+
+  return (
+    <div className="space-y-6">
+      <Button variant="outline" asChild>
+        <Link href={datasetPath(datasetName)}>
+          <ArrowLeft className="mr-2 h-4 w-4" /> Back to Overview
+        </Link>
+      </Button>
+      {error || !info ? (
+        <p className="text-destructive">{error}</p>
+      ) : (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle>{info.name}</CardTitle>
+              <CardDescription>
+                {info.description || 'No description.'} Edit the description, owner and tags on the{' '}
+                <Link href="/datasets" className="underline underline-offset-2">datasets page</Link>.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <dl className="grid gap-x-6 gap-y-2 text-sm sm:grid-cols-[auto_1fr]">
+                <dt className="text-muted-foreground">Owner</dt>
+                <dd>{info.owner || '-'}</dd>
+                <dt className="text-muted-foreground">Tags</dt>
+                <dd className="flex flex-wrap gap-1">
+                  {info.tags.length > 0 ? info.tags.map((tag) => <Badge key={tag} variant="secondary">{tag}</Badge>) : '-'}
+                </dd>
+                <dt className="text-muted-foreground">Entries</dt>
+                <dd>{info.entry_count}</dd>
+                <dt className="text-muted-foreground">Relationships</dt>
+                <dd>{info.relationship_count}</dd>
+                <dt className="text-muted-foreground">Created</dt>
+                <dd>{new Date(info.created_at).toLocaleString()}</dd>
+                <dt className="text-muted-foreground">Last Modified</dt>
+                <dd>{new Date(info.updated_at).toLocaleString()}</dd>
+              </dl>
+            </CardContent>
+          </Card>
+          <DatasetSchemaEditor
+            datasetName={datasetName}
+            initialSchema={schema}
+            entryCount={info.entry_count}
+            inferenceModel={inferenceModel}
+          />
+        </>
+      )}
+    </div>
+  );
+}
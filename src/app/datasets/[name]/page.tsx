@@ -0,0 +1,83 @@
+
+import { notFound } from "next/navigation";
+import { DataUploadForm } from "@/components/data-upload-form";
+import { DataPreviewSection } from "@/components/data-preview-section";
+import { queryData, getAllRelationships, getAllDatasetNames } from "@/services/database";
+import type { EntryPage, RelationshipEntry } from "@/services/types"; // Import types
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Separator } from "@/components/ui/separator";
+import { flowModelName } from "@/ai/model-config";
+
+interface DatasetPageProps {
+  params: Promise<{
+    name: string; // Dataset name from the URL
+  }>;
+}
+
+export const dynamic = 'force-dynamic'; // Ensure data is fetched on each request
+
+export default async function DatasetPage({ params }: DatasetPageProps) {
+  const datasetName = decodeURIComponent((await params).name);
+  let initialPage: EntryPage = { entries: [], nextCursor: null, totalCount: 0 };
+  let initialRelationships: RelationshipEntry[] = [];
+  let allDatasetNames: string[] = [];
+  let error: string | null = null;
+  let cleaningModel: string | null = null;
+
+  try {
+    allDatasetNames = await getAllDatasetNames();
+  } catch (e) {
+    console.error("Failed to fetch dataset names:", e);
+  }
+
+  if (allDatasetNames.length > 0 && !allDatasetNames.includes(datasetName)) {
+    console.log(`[DatasetPage] Dataset '${datasetName}' does not exist. Triggering notFound().`);
+    notFound();
+  }
+
+  try {
+    // Fetch the first page of entries and the relationships for the dataset named in the URL
+    [initialPage, initialRelationships] = await Promise.all([
+        queryData(datasetName),
+        getAllRelationships(datasetName),
+    ]);
+  } catch (e) {
+    console.error(`Failed to fetch data or relationships for dataset '${datasetName}':`, e);
+    error = `Failed to load data for dataset '${datasetName}'. Please try again later.`;
+    if (e instanceof Error) {
+        error = `${error} Details: ${e.message}`;
+    }
+    initialPage = { entries: [], nextCursor: null, totalCount: 0 };
+    initialRelationships = [];
+  }
+
+  try {
+    cleaningModel = flowModelName('cleanData');
+  } catch (e) {
+    console.error("Invalid AI model configuration:", e); // Starting a cleaning job reports it
+  }
+
+  return (
+    <div className="space-y-8">
+      <Card>
+        <CardHeader>
+          <CardTitle>Upload New Data</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <DataUploadForm allDatasetNames={allDatasetNames} activeDatasetName={datasetName} />
+        </CardContent>
+      </Card>
+
+      <Separator />
+
+      <DataPreviewSection
+        initialPage={initialPage}
+        initialRelationships={initialRelationships}
+        activeDatasetName={datasetName}
+        allDatasetNames={allDatasetNames}
+        error={error}
+        cleaningModel={cleaningModel}
+      />
+    </div>
+  );
+}
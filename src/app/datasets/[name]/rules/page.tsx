@@ -0,0 +1,51 @@
+import { notFound } from 'next/navigation';
+import Link from 'next/link';
+import { ArrowLeft } from 'lucide-react';
+import { getCleaningRules } from '@/services/database';
+import type { CleaningRule } from '@/services/types';
+import { CleaningRulesEditor } from '@/components/cleaning-rules-editor';
+import { datasetPath } from '@/lib/paths';
+import { Button } from '@/components/ui/button';
+
+interface CleaningRulesPageProps {
+  params: Promise<{
+    name: string; // Dataset name from the URL
+  }>;
+}
+
+export const dynamic = 'force-dynamic';
+
+export default async function CleaningRulesPage({ params }: CleaningRulesPageProps) {
+  const datasetName = decodeURIComponent((await params).name);
+  let rules: CleaningRule[] | null = null;
+  let error: string | null = null;
+
+  try {
+    rules = await getCleaningRules(datasetName);
+  } catch (e) {
+    console.error(`Failed to fetch cleaning rules for dataset '${datasetName}':`, e);
+    error = `Failed to load the cleaning rules of '${datasetName}'. Please try again later.`;
+    if (e instanceof Error) {
+      error = `${error} Details: ${e.message}`;
+    }
+  }
+
+  if (!error && !rules) {
+    notFound();
+  }
+
+  return (
+    <div className="space-y-6">
+      <Button variant="outline" asChild>
+        <Link href={datasetPath(datasetName)}>
+          <ArrowLeft className="mr-2 h-4 w-4" /> Back to Overview
+        </Link>
+      </Button>
+      {error || !rules ? (
+        <p className="text-destructive">{error}</p>
+      ) : (
+        <CleaningRulesEditor datasetName={datasetName} initialRules={rules} />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+import { notFound } from 'next/navigation';
+import Link from 'next/link';
+import { ArrowLeft } from 'lucide-react';
+import { datasetExists } from '@/services/database';
+import { RelationshipSuggestions } from '@/components/relationship-suggestions';
+import { datasetPath } from '@/lib/paths';
+import { Button } from '@/components/ui/button';
+
+interface RelationshipSuggestionsPageProps {
+  params: Promise<{
+    name: string; // Dataset name from the URL
+  }>;
+}
+
+export const dynamic = 'force-dynamic';
+
+export default async function RelationshipSuggestionsPage({ params }: RelationshipSuggestionsPageProps) {
+  const datasetName = decodeURIComponent((await params).name);
+  let exists = false;
+  let error: string | null = null;
+
+  try {
+    exists = await datasetExists(datasetName);
+  } catch (e) {
+    console.error(`Failed to check dataset '${datasetName}':`, e);
+    error = `Failed to load '${datasetName}'. Please try again later.`;
+    if (e instanceof Error) {
+      error = `${error} Details: ${e.message}`;
+    }
+  }
+
+  if (!error && !exists) {
+    notFound();
+  }
+
+  return (
+    <div className="space-y-6">
+      <Button variant="outline" asChild>
+        <Link href={datasetPath(datasetName)}>
+          <ArrowLeft className="mr-2 h-4 w-4" /> Back to Overview
+        </Link>
+      </Button>
+      {error ? (
+        <p className="text-destructive">{error}</p>
+      ) : (
+        <RelationshipSuggestions datasetName={datasetName} entryId={null} />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,22 @@
+import { DatasetManagement } from "@/components/dataset-management";
+import { getAllDatasets } from "@/services/database";
+import type { DatasetInfo } from "@/services/types";
+
+export const dynamic = 'force-dynamic'; // Counts and metadata change with every edit
+
+export default async function DatasetsPage() {
+  let datasets: DatasetInfo[] = [];
+  let error: string | null = null;
+
+  try {
+    datasets = await getAllDatasets();
+  } catch (e) {
+    console.error("Failed to fetch datasets:", e);
+    error = "Failed to load datasets. Please try again later.";
+    if (e instanceof Error) {
+      error = `${error} Details: ${e.message}`;
+    }
+  }
+
+  return <DatasetManagement initialDatasets={datasets} error={error} />;
+}
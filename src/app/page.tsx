@@ -1,52 +1,36 @@
 
+import { redirect } from "next/navigation";
 import { DataUploadForm } from "@/components/data-upload-form";
 import { DataPreviewSection } from "@/components/data-preview-section";
-import { getAllData, getAllRelationships, getActiveDatasetName, getAllDatasetNames } from "@/services/database"; // Import dataset name functions
-import type { DataEntry, RelationshipEntry } from "@/services/types"; // Import types
+import { getAllDatasetNames } from "@/services/database";
+import { datasetPath } from "@/lib/paths";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
 
 export const dynamic = 'force-dynamic'; // Ensure data is fetched on each request
 
+// The dataset being viewed is part of the URL (/datasets/[name]).
+// The root page only forwards to a dataset, preferring 'default'.
 export default async function Home() {
-  let initialData: DataEntry[] = [];
-  let initialRelationships: RelationshipEntry[] = [];
-  let activeDatasetName: string | null = null;
   let allDatasetNames: string[] = [];
   let error: string | null = null;
 
   try {
-    // Fetch active dataset name and all names first
-    activeDatasetName = await getActiveDatasetName();
     allDatasetNames = await getAllDatasetNames();
-
-    // Fetch data and relationships for the active dataset
-    if (activeDatasetName) {
-        [initialData, initialRelationships] = await Promise.all([
-            getAllData(),      // Fetches from active dataset
-            getAllRelationships(), // Fetches from active dataset
-        ]);
-    } else {
-        // Handle case where no dataset is active (e.g., initial state or error)
-        error = "No active dataset selected. Please create or select a dataset.";
-        initialData = [];
-        initialRelationships = [];
-        // Keep allDatasetNames as fetched, it might still be useful
-    }
-
   } catch (e) {
-    console.error("Failed to fetch initial data, relationships, or dataset names:", e);
-    error = `Failed to load data for dataset '${activeDatasetName || 'N/A'}'. Please try again later.`;
+    console.error("Failed to fetch dataset names:", e);
+    error = "Failed to load datasets. Please try again later.";
     if (e instanceof Error) {
         error = `${error} Details: ${e.message}`;
     }
-    // Reset on error, but keep dataset names if fetched
-    initialData = [];
-    initialRelationships = [];
-    activeDatasetName = await getActiveDatasetName(); // Re-fetch active name in case it changed during error
-    allDatasetNames = await getAllDatasetNames(); // Re-fetch all names
   }
 
+  if (allDatasetNames.length > 0) {
+    const target = allDatasetNames.includes('default') ? 'default' : allDatasetNames[0];
+    redirect(datasetPath(target));
+  }
+
+  // No datasets yet: show the upload form so the user can create one.
   return (
     <div className="space-y-8">
       <Card>
@@ -54,17 +38,16 @@ export default async function Home() {
           <CardTitle>Upload New Data</CardTitle>
         </CardHeader>
         <CardContent>
-          <DataUploadForm allDatasetNames={allDatasetNames}/> {/* Pass dataset names */}
+          <DataUploadForm allDatasetNames={allDatasetNames} activeDatasetName={null} />
         </CardContent>
       </Card>
 
       <Separator />
 
-      {/* Pass dataset names and active name to the preview section */}
       <DataPreviewSection
-        initialData={initialData}
-        initialRelationships={initialRelationships}
-        activeDatasetName={activeDatasetName}
+        initialPage={{ entries: [], nextCursor: null, totalCount: 0 }}
+        initialRelationships={[]}
+        activeDatasetName={null}
         allDatasetNames={allDatasetNames}
         error={error}
       />
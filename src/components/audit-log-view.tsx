@@ -0,0 +1,219 @@
+// src/components/audit-log-view.tsx
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { Filter, Loader2, ScrollText } from "lucide-react";
+import type { AuditAction, AuditEvent, AuditPage, AuditQuery } from "@/services/types";
+import { getAuditLogAction } from "@/actions/data-actions";
+import { AUDIT_ACTIONS, AUDIT_ACTION_LABELS } from "@/lib/audit";
+import { MUTATION_SOURCE_LABELS } from "@/lib/mutation-context";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+interface AuditLogViewProps {
+  initialPage: AuditPage;
+  filters: AuditQuery; // The filters the first page was loaded with (from the URL)
+  datasetNames: string[];
+  error: string | null;
+}
+
+const ALL_ACTIONS = "all"; // Select items cannot have an empty value
+
+function HashCell({ hash }: { hash: string | null }) {
+  if (!hash) return <span className="text-muted-foreground">—</span>;
+  return <span className="font-mono text-xs" title={hash}>{hash.slice(0, 12)}</span>;
+}
+
+/**
+ * The audit log: every recorded change, newest first, filterable by dataset, actor and action.
+ * Filters are applied through the URL; further pages are loaded with the server action.
+ */
+export function AuditLogView({ initialPage, filters, datasetNames, error: initialError }: AuditLogViewProps) {
+  const router = useRouter();
+  const [events, setEvents] = useState<AuditEvent[]>(initialPage.events);
+  const [nextCursor, setNextCursor] = useState<number | null>(initialPage.nextCursor);
+  const [datasetFilter, setDatasetFilter] = useState(filters.datasetName ?? "");
+  const [actorFilter, setActorFilter] = useState(filters.actor ?? "");
+  const [actionFilter, setActionFilter] = useState<string>(filters.action ?? ALL_ACTIONS);
+  const [error, setError] = useState<string | null>(initialError);
+  const [isLoadingMore, startLoadingMoreTransition] = useTransition();
+
+  const handleApplyFilters = (event: React.FormEvent) => {
+    event.preventDefault();
+    const params = new URLSearchParams();
+    if (datasetFilter.trim()) params.set("dataset", datasetFilter.trim());
+    if (actorFilter.trim()) params.set("actor", actorFilter.trim());
+    if (actionFilter !== ALL_ACTIONS) params.set("action", actionFilter);
+    router.push(params.size > 0 ? `/audit?${params}` : "/audit");
+  };
+
+  const handleClearFilters = () => {
+    setDatasetFilter("");
+    setActorFilter("");
+    setActionFilter(ALL_ACTIONS);
+    router.push("/audit");
+  };
+
+  const handleLoadMore = () => {
+    if (nextCursor === null) return;
+    startLoadingMoreTransition(async () => {
+      const result = await getAuditLogAction({ ...filters, cursor: nextCursor });
+      if (result.success && result.data) {
+        const page = result.data as AuditPage;
+        setEvents(current => [...current, ...page.events]);
+        setNextCursor(page.nextCursor);
+        setError(null);
+      } else {
+        setError(result.error || "Failed to load more audit events.");
+      }
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Audit Log</CardTitle>
+        <CardDescription className="mt-1 flex items-center gap-1">
+          <ScrollText className="h-4 w-4 text-muted-foreground" />
+          <span>
+            Every change to datasets, entries and relationships, with who made it and SHA-256 hashes of the content before and after.
+            Events cannot be changed or removed.
+          </span>
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form onSubmit={handleApplyFilters} className="flex flex-wrap items-end gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="audit-dataset">Dataset</Label>
+            <Input
+              id="audit-dataset"
+              list="audit-dataset-names"
+              value={datasetFilter}
+              onChange={(e) => setDatasetFilter(e.target.value)}
+              placeholder="All datasets"
+              className="w-[200px]"
+            />
+            {/* Free text, so events of renamed or deleted datasets can be found too */}
+            <datalist id="audit-dataset-names">
+              {datasetNames.map(name => <option key={name} value={name} />)}
+            </datalist>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="audit-actor">Actor</Label>
+            <Input
+              id="audit-actor"
+              value={actorFilter}
+              onChange={(e) => setActorFilter(e.target.value)}
+              placeholder="All actors"
+              className="w-[200px]"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="audit-action">Action</Label>
+            <Select value={actionFilter} onValueChange={setActionFilter}>
+              <SelectTrigger id="audit-action" className="w-[220px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_ACTIONS}>All actions</SelectItem>
+                {AUDIT_ACTIONS.map(action => (
+                  <SelectItem key={action} value={action}>{AUDIT_ACTION_LABELS[action]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button type="submit">
+            <Filter className="mr-2 h-4 w-4" /> Apply
+          </Button>
+          <Button type="button" variant="outline" onClick={handleClearFilters}>
+            Clear
+          </Button>
+        </form>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertTitle>Error</AlertTitle>
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="rounded-md border overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="whitespace-nowrap">When</TableHead>
+                <TableHead>Actor</TableHead>
+                <TableHead>Action</TableHead>
+                <TableHead>Dataset</TableHead>
+                <TableHead>Target</TableHead>
+                <TableHead className="whitespace-nowrap">Before</TableHead>
+                <TableHead className="whitespace-nowrap">After</TableHead>
+                <TableHead>Details</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {events.length > 0 ? (
+                events.map(event => (
+                  <TableRow key={event.id}>
+                    <TableCell className="whitespace-nowrap">{new Date(event.recorded_at).toLocaleString()}</TableCell>
+                    <TableCell>
+                      <div className="font-medium">{event.actor}</div>
+                      <div className="text-xs text-muted-foreground">{MUTATION_SOURCE_LABELS[event.source] ?? event.source}</div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className="font-normal whitespace-nowrap">
+                        {AUDIT_ACTION_LABELS[event.action as AuditAction] ?? event.action}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">{event.dataset_name}</TableCell>
+                    <TableCell className="font-mono text-xs">{event.target_id ?? "—"}</TableCell>
+                    <TableCell><HashCell hash={event.before_hash} /></TableCell>
+                    <TableCell><HashCell hash={event.after_hash} /></TableCell>
+                    <TableCell className="font-mono text-xs max-w-[260px] break-all">
+                      {event.details ? JSON.stringify(event.details) : ""}
+                    </TableCell>
+                  </TableRow>
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={8} className="h-24 text-center">
+                    No audit events match these filters.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+
+        {nextCursor !== null && (
+          <div className="flex justify-center">
+            <Button variant="outline" onClick={handleLoadMore} disabled={isLoadingMore}>
+              {isLoadingMore && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {isLoadingMore ? "Loading..." : "Load More"}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
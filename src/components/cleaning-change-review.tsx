@@ -0,0 +1,96 @@
+// src/components/cleaning-change-review.tsx
+"use client";
+
+import type { CleaningChange } from "@/services/types";
+import { CLEANING_CHANGE_CATEGORY_LABELS, LOW_CLEANING_CONFIDENCE } from "@/lib/cleaning-changes";
+import { formatDiffValue } from "@/lib/json-diff";
+import { parseJsonPointer } from "@/lib/json-patch";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+
+interface CleaningChangeReviewProps {
+  changes: CleaningChange[];
+  selected: Set<number>; // Indexes of the accepted changes
+  onSelectionChange: (selected: Set<number>) => void;
+  disabled?: boolean;
+}
+
+/** The changes selected before the user reviews them: all but the low-confidence ones. */
+export function defaultCleaningChangeSelection(changes: CleaningChange[]): Set<number> {
+  return new Set(changes.flatMap((change, index) => (change.confidence >= LOW_CLEANING_CONFIDENCE ? [index] : [])));
+}
+
+/** Readable form of a change's JSON Pointer, e.g. 'address.city' or 'tags[0]'. */
+function displayPath(path: string): string {
+  return parseJsonPointer(path).reduce((display, token) => (
+    /^(0|[1-9][0-9]*)$/.test(token) ? `${display}[${token}]` : display ? `${display}.${token}` : token
+  ), "");
+}
+
+/**
+ * Field-level review of a cleaning suggestion: each change with its old and new value, category, rationale and
+ * confidence, and a checkbox to accept or reject it. Low-confidence changes start out rejected.
+ */
+export function CleaningChangeReview({ changes, selected, onSelectionChange, disabled }: CleaningChangeReviewProps) {
+  if (changes.length === 0) {
+    return <p className="text-sm text-muted-foreground">No changes suggested; the entry already looks clean.</p>;
+  }
+
+  const toggle = (index: number, checked: boolean) => {
+    const next = new Set(selected);
+    if (checked) next.add(index);
+    else next.delete(index);
+    onSelectionChange(next);
+  };
+  const allSelected = changes.every((_, index) => selected.has(index));
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center space-x-2">
+        <Checkbox
+          id="cleaning-changes-all"
+          checked={allSelected}
+          onCheckedChange={(checked) => onSelectionChange(checked === true ? new Set(changes.map((_, index) => index)) : new Set())}
+          disabled={disabled}
+        />
+        <Label htmlFor="cleaning-changes-all" className="font-normal cursor-pointer">
+          Accept all ({selected.size} of {changes.length} accepted)
+        </Label>
+      </div>
+      <ul className="space-y-2">
+        {changes.map((change, index) => {
+          const id = `cleaning-change-${index}`;
+          const isLowConfidence = change.confidence < LOW_CLEANING_CONFIDENCE;
+          return (
+            <li key={change.path} className="flex items-start gap-3 rounded-md border bg-background p-2">
+              <Checkbox
+                id={id}
+                checked={selected.has(index)}
+                onCheckedChange={(checked) => toggle(index, checked === true)}
+                disabled={disabled}
+                className="mt-1"
+                aria-label={`Accept the change of ${displayPath(change.path)}`}
+              />
+              <div className="min-w-0 flex-1 space-y-1">
+                <div className="flex flex-wrap items-center gap-2">
+                  <label htmlFor={id} className="font-mono text-sm font-semibold cursor-pointer">{displayPath(change.path)}</label>
+                  <Badge variant="outline" className="font-normal">{CLEANING_CHANGE_CATEGORY_LABELS[change.category]}</Badge>
+                  <Badge variant={isLowConfidence ? "destructive" : "secondary"} className="font-normal">
+                    {Math.round(change.confidence * 100)}% confident
+                  </Badge>
+                </div>
+                <p className="font-mono text-xs break-all">
+                  <span className="text-destructive line-through">{formatDiffValue(change.before)}</span>
+                  {" → "}
+                  <span className="text-green-700">{formatDiffValue(change.after)}</span>
+                </p>
+                {change.rationale && <p className="text-xs text-muted-foreground">{change.rationale}</p>}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
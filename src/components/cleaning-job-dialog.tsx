@@ -0,0 +1,142 @@
+// src/components/cleaning-job-dialog.tsx
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { Loader2, Wand2 } from "lucide-react";
+import type { CleaningJob, EntryQuery } from "@/services/types";
+import { startCleaningJobAction } from "@/actions/data-actions";
+import { DEFAULT_CLEANING_CONCURRENCY, MAX_CLEANING_CONCURRENCY } from "@/lib/cleaning-jobs";
+import { cleaningJobPath, cleaningJobsPath } from "@/lib/paths";
+import { formatModelName } from "@/lib/ai-models";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+  DialogClose,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface CleaningJobDialogProps {
+  datasetName: string | null;
+  view: EntryQuery; // Filters currently applied in the preview
+  totalCount: number; // Entries matching the current filters
+  model?: string | null; // AI model new jobs run on
+  disabled?: boolean;
+}
+
+const CONCURRENCY_OPTIONS = [1, 2, 4, 8, MAX_CLEANING_CONCURRENCY];
+
+/**
+ * Batch cleaning button and dialog of the data preview: starts an AI cleaning job over the whole dataset
+ * or the filtered view, then opens the job's page to follow its progress and review the suggestions.
+ */
+export function CleaningJobDialog({ datasetName, view, totalCount, model, disabled }: CleaningJobDialogProps) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [onlyFilteredView, setOnlyFilteredView] = useState(false);
+  const [concurrency, setConcurrency] = useState(DEFAULT_CLEANING_CONCURRENCY);
+  const [isStarting, startStartingTransition] = useTransition();
+  const hasFilters = !!(view.filters?.length || view.relatedToSourceId);
+
+  const handleStart = () => {
+    if (!datasetName) return;
+    startStartingTransition(async () => {
+      const query = onlyFilteredView && hasFilters ? { filters: view.filters, relatedToSourceId: view.relatedToSourceId } : null;
+      const result = await startCleaningJobAction(datasetName, query, concurrency);
+      if (result.success && result.data) {
+        const job = result.data as CleaningJob;
+        toast({ title: "Cleaning Started", description: result.message });
+        router.push(cleaningJobPath(datasetName, job.id));
+      } else {
+        toast({ variant: "destructive", title: "Could Not Start Cleaning", description: result.error || "The cleaning job could not be started." });
+      }
+    });
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button
+          variant="outline"
+          size="icon"
+          disabled={disabled || !datasetName}
+          aria-label="Clean All with AI"
+          title="Clean all entries, or the filtered ones, with AI and review the suggestions"
+        >
+          <Wand2 className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Clean Entries with AI</DialogTitle>
+          <DialogDescription>
+            Sends the entries of '{datasetName}' to the AI model in the background. Nothing is changed until you accept
+            suggestions on the job's page, which you can leave and come back to at any time.
+            {model && <> Model: {formatModelName(model)}.</>}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="cleaning-filtered"
+              checked={onlyFilteredView && hasFilters}
+              onCheckedChange={(checked) => setOnlyFilteredView(checked === true)}
+              disabled={!hasFilters}
+            />
+            <Label htmlFor="cleaning-filtered" className="font-normal cursor-pointer">
+              Only entries matching the current filters{hasFilters ? ` (${totalCount})` : " (no filters applied)"}
+            </Label>
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="cleaning-concurrency">Entries Cleaned at Once</Label>
+            <Select value={String(concurrency)} onValueChange={(value) => setConcurrency(Number(value))}>
+              <SelectTrigger id="cleaning-concurrency" className="w-[120px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CONCURRENCY_OPTIONS.map(option => (
+                  <SelectItem key={option} value={String(option)}>{option}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">Lower this if the model provider rate-limits requests. Failed calls are retried.</p>
+          </div>
+
+          {datasetName && (
+            <p className="text-sm">
+              <Link href={cleaningJobsPath(datasetName)} className="underline underline-offset-2">Show previous cleaning jobs</Link>
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <DialogClose asChild>
+            <Button variant="outline" disabled={isStarting}>Cancel</Button>
+          </DialogClose>
+          <Button onClick={handleStart} disabled={!datasetName || isStarting}>
+            {isStarting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Wand2 className="mr-2 h-4 w-4" />}
+            Start Cleaning
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,401 @@
+// src/components/cleaning-job-review.tsx
+"use client";
+
+import { useEffect, useRef, useState, useTransition } from "react";
+import Link from "next/link";
+import { Check, Loader2, Play, RefreshCw, Square, X } from "lucide-react";
+import type { CleaningItemStatus, CleaningJob, CleaningJobItem, CleaningJobItemPage, CleaningReviewSummary } from "@/services/types";
+import {
+  cancelCleaningJobAction,
+  getCleaningJobAction,
+  resumeCleaningJobAction,
+  reviewCleaningItemsAction,
+} from "@/actions/data-actions";
+import { useToast } from "@/hooks/use-toast";
+import { diffObjects } from "@/lib/json-diff";
+import {
+  CLEANING_ITEM_STATUSES,
+  CLEANING_ITEM_STATUS_LABELS,
+  CLEANING_JOB_STATUS_LABELS,
+  CLEANING_PROGRESS_POLL_MS,
+} from "@/lib/cleaning-jobs";
+import { entryPath } from "@/lib/paths";
+import { formatModelName } from "@/lib/ai-models";
+import { FieldChangeLine } from "@/components/upload-diff-preview";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface CleaningJobReviewProps {
+  datasetName: string;
+  initialJob: CleaningJob;
+  initialItems: CleaningJobItemPage; // First page of suggestions waiting for review
+}
+
+interface JobWithItems extends CleaningJobItemPage {
+  job: CleaningJob;
+}
+
+function describeReview(summary: CleaningReviewSummary): string {
+  const parts = [];
+  if (summary.accepted > 0) parts.push(`${summary.accepted} applied`);
+  if (summary.rejected > 0) parts.push(`${summary.rejected} rejected`);
+  if (summary.stale > 0) parts.push(`${summary.stale} skipped because the entry changed meanwhile`);
+  return parts.length > 0 ? `${parts.join(", ")}.` : "No suggestions were waiting for review.";
+}
+
+function CleaningItemRow({ datasetName, item, selected, onSelectedChange, onReview, disabled }: {
+  datasetName: string;
+  item: CleaningJobItem;
+  selected: boolean;
+  onSelectedChange: (checked: boolean) => void;
+  onReview: (decision: "accept" | "reject") => void;
+  disabled: boolean;
+}) {
+  const changes = item.original && item.proposed ? diffObjects(item.original, item.proposed) : [];
+  const reviewable = item.status === "proposed";
+
+  return (
+    <li className="rounded-md border bg-background p-2">
+      <div className="flex flex-wrap items-center gap-2">
+        {reviewable && (
+          <Checkbox
+            checked={selected}
+            onCheckedChange={(checked) => onSelectedChange(checked === true)}
+            disabled={disabled}
+            aria-label={`Select entry ${item.entry_id}`}
+          />
+        )}
+        <Badge variant="outline" className="font-normal">{CLEANING_ITEM_STATUS_LABELS[item.status]}</Badge>
+        <Link href={entryPath(datasetName, item.entry_id)} className="font-mono text-xs truncate underline underline-offset-2">
+          {item.entry_id}
+        </Link>
+        {item.attempts > 1 && <span className="text-xs text-muted-foreground">({item.attempts} attempts)</span>}
+        {reviewable && (
+          <div className="ml-auto flex gap-1">
+            <Button variant="outline" size="sm" onClick={() => onReview("accept")} disabled={disabled}>
+              <Check className="mr-1 h-4 w-4" /> Accept
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => onReview("reject")} disabled={disabled}>
+              <X className="mr-1 h-4 w-4" /> Reject
+            </Button>
+          </div>
+        )}
+      </div>
+      {item.error && <p className="mt-1 pl-8 text-xs text-destructive">{item.error}</p>}
+      {changes.length > 0 && (
+        <ul className="mt-1 pl-8 space-y-0.5">
+          {changes.map(change => <FieldChangeLine key={change.path} change={change} />)}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+/**
+ * Progress and review queue of a batch AI cleaning job. While the job runs, its progress is refreshed
+ * periodically; suggestions can be accepted or rejected one by one, for the selected entries, or all at once.
+ */
+export function CleaningJobReview({ datasetName, initialJob, initialItems }: CleaningJobReviewProps) {
+  const { toast } = useToast();
+  const [job, setJob] = useState<CleaningJob>(initialJob);
+  const [items, setItems] = useState<CleaningJobItem[]>(initialItems.items);
+  const [nextCursor, setNextCursor] = useState<string | null>(initialItems.nextCursor);
+  const [statusFilter, setStatusFilter] = useState<CleaningItemStatus>("proposed");
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, startLoadingTransition] = useTransition();
+  const [isReviewing, startReviewingTransition] = useTransition();
+  const [isUpdatingJob, startUpdatingJobTransition] = useTransition();
+  const statusFilterRef = useRef(statusFilter);
+  statusFilterRef.current = statusFilter;
+
+  const isRunning = job.status === "running" && job.active === true;
+  const isInterrupted = job.status === "running" && !job.active;
+  const pending = job.counts.pending ?? 0;
+  const failed = job.counts.failed ?? 0;
+  const progress = job.total > 0 ? Math.round(((job.total - pending) / job.total) * 100) : 100;
+  const isBusy = isLoading || isReviewing || isUpdatingJob;
+
+  // Fetches the job and the first page of entries in the given state, replacing the list
+  const reload = async (status: CleaningItemStatus): Promise<void> => {
+    const result = await getCleaningJobAction(datasetName, job.id, status);
+    if (result.success && result.data) {
+      const data = result.data as JobWithItems;
+      setJob(data.job);
+      setItems(data.items);
+      setNextCursor(data.nextCursor);
+      setSelected(new Set());
+      setError(null);
+    } else {
+      setError(result.error || "Failed to load the cleaning job.");
+    }
+  };
+
+  // Refresh the progress while the job runs; the list is reloaded once it stops
+  useEffect(() => {
+    if (!isRunning) return;
+    const timer = setInterval(async () => {
+      const result = await getCleaningJobAction(datasetName, job.id, statusFilterRef.current);
+      if (!result.success || !result.data) return;
+      const data = result.data as JobWithItems;
+      setJob(data.job);
+      if (data.job.status !== "running" || !data.job.active) {
+        setItems(data.items);
+        setNextCursor(data.nextCursor);
+        setSelected(new Set());
+      }
+    }, CLEANING_PROGRESS_POLL_MS);
+    return () => clearInterval(timer);
+  }, [datasetName, job.id, isRunning]);
+
+  const handleStatusFilterChange = (value: string) => {
+    const status = value as CleaningItemStatus;
+    setStatusFilter(status);
+    startLoadingTransition(() => reload(status));
+  };
+
+  const handleLoadMore = () => {
+    if (!nextCursor) return;
+    startLoadingTransition(async () => {
+      const result = await getCleaningJobAction(datasetName, job.id, statusFilter, nextCursor);
+      if (result.success && result.data) {
+        const data = result.data as JobWithItems;
+        setJob(data.job);
+        setItems(current => [...current, ...data.items]);
+        setNextCursor(data.nextCursor);
+      } else {
+        setError(result.error || "Failed to load more entries.");
+      }
+    });
+  };
+
+  const handleReview = (decision: "accept" | "reject", entryIds: string[] | null) => {
+    startReviewingTransition(async () => {
+      const result = await reviewCleaningItemsAction(datasetName, job.id, decision, entryIds);
+      if (result.success && result.data) {
+        toast({ title: decision === "accept" ? "Suggestions Applied" : "Suggestions Rejected", description: describeReview(result.data as CleaningReviewSummary) });
+      } else {
+        toast({ variant: "destructive", title: "Review Failed", description: result.error || "The suggestions could not be reviewed." });
+      }
+      await reload(statusFilter);
+    });
+  };
+
+  const handleJobStatus = (action: "cancel" | "resume") => {
+    startUpdatingJobTransition(async () => {
+      const result = action === "cancel"
+        ? await cancelCleaningJobAction(datasetName, job.id)
+        : await resumeCleaningJobAction(datasetName, job.id);
+      if (result.success && result.data) {
+        setJob(result.data as CleaningJob);
+        toast({ title: result.message });
+      } else {
+        toast({ variant: "destructive", title: "Update Failed", description: result.error || "The cleaning job could not be updated." });
+      }
+    });
+  };
+
+  const toggle = (entryId: string, checked: boolean) => {
+    const next = new Set(selected);
+    if (checked) next.add(entryId);
+    else next.delete(entryId);
+    setSelected(next);
+  };
+  const reviewableIds = items.filter(item => item.status === "proposed").map(item => item.entry_id);
+  const allSelected = reviewableIds.length > 0 && reviewableIds.every(id => selected.has(id));
+  const proposedCount = job.counts.proposed ?? 0;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex flex-wrap items-start justify-between gap-4">
+            <div>
+              <CardTitle>AI Cleaning Job #{job.id}</CardTitle>
+              <CardDescription className="mt-1">
+                {job.query ? "Filtered entries" : "All entries"} of '{datasetName}', started by {job.actor} on {new Date(job.created_at).toLocaleString()},
+                {" "}{job.concurrency} at a time{job.model ? `, with ${formatModelName(job.model)}` : ""}.
+              </CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <Badge variant="outline">{isInterrupted ? "Interrupted" : CLEANING_JOB_STATUS_LABELS[job.status]}</Badge>
+              {isRunning && (
+                <Button variant="outline" size="sm" onClick={() => handleJobStatus("cancel")} disabled={isBusy}>
+                  <Square className="mr-1 h-4 w-4" /> Cancel
+                </Button>
+              )}
+              {!isRunning && (pending > 0 || failed > 0) && (
+                <Button variant="outline" size="sm" onClick={() => handleJobStatus("resume")} disabled={isBusy}>
+                  {isUpdatingJob ? <Loader2 className="mr-1 h-4 w-4 animate-spin" /> : <Play className="mr-1 h-4 w-4" />}
+                  {pending > 0 ? "Resume" : "Retry Failed"}
+                </Button>
+              )}
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <Progress value={progress} />
+          <p className="text-sm text-muted-foreground">
+            {job.total - pending} of {job.total} entries cleaned ({progress}%).{" "}
+            {CLEANING_ITEM_STATUSES.filter(status => status !== "pending" && job.counts[status])
+              .map(status => `${CLEANING_ITEM_STATUS_LABELS[status]}: ${job.counts[status]}`)
+              .join(" · ")}
+          </p>
+          {isInterrupted && (
+            <Alert>
+              <AlertTitle>Job Interrupted</AlertTitle>
+              <AlertDescription>
+                The server stopped working on this job, e.g. because it was restarted. Click "Resume" to clean the remaining entries.
+              </AlertDescription>
+            </Alert>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Review</CardTitle>
+          <CardDescription>
+            Accepted suggestions are written to their entries and can be undone from each entry's history. A suggestion is not applied
+            if its entry was changed after it was made.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-end gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="cleaning-status-filter">Show</Label>
+              <Select value={statusFilter} onValueChange={handleStatusFilterChange}>
+                <SelectTrigger id="cleaning-status-filter" className="w-[200px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CLEANING_ITEM_STATUSES.map(status => (
+                    <SelectItem key={status} value={status}>
+                      {CLEANING_ITEM_STATUS_LABELS[status]} ({job.counts[status] ?? 0})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => startLoadingTransition(() => reload(statusFilter))}
+              disabled={isBusy}
+              aria-label="Refresh"
+              title="Reload the list"
+            >
+              <RefreshCw className={`h-4 w-4 ${isLoading ? "animate-spin" : ""}`} />
+            </Button>
+            {statusFilter === "proposed" && (
+              <div className="ml-auto flex flex-wrap gap-2">
+                <Button variant="outline" onClick={() => handleReview("reject", Array.from(selected))} disabled={isBusy || selected.size === 0}>
+                  <X className="mr-1 h-4 w-4" /> Reject Selected
+                </Button>
+                <Button onClick={() => handleReview("accept", Array.from(selected))} disabled={isBusy || selected.size === 0}>
+                  {isReviewing ? <Loader2 className="mr-1 h-4 w-4 animate-spin" /> : <Check className="mr-1 h-4 w-4" />}
+                  Accept Selected ({selected.size})
+                </Button>
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button variant="secondary" disabled={isBusy || proposedCount === 0}>Review All ({proposedCount})</Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Review All Suggestions?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        This applies to all {proposedCount} suggestions waiting for review, including those not listed on this page.
+                        {isRunning && " Suggestions the running job makes afterwards stay in the queue."}
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction
+                        className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                        onClick={() => handleReview("reject", null)}
+                      >
+                        Reject All
+                      </AlertDialogAction>
+                      <AlertDialogAction onClick={() => handleReview("accept", null)}>Accept All</AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </div>
+            )}
+          </div>
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertTitle>Error</AlertTitle>
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          {reviewableIds.length > 0 && (
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="cleaning-select-all"
+                checked={allSelected}
+                onCheckedChange={(checked) => setSelected(checked === true ? new Set(reviewableIds) : new Set())}
+                disabled={isBusy}
+              />
+              <Label htmlFor="cleaning-select-all" className="font-normal cursor-pointer text-xs">Select all listed</Label>
+            </div>
+          )}
+
+          {items.length > 0 ? (
+            <ul className="space-y-2">
+              {items.map(item => (
+                <CleaningItemRow
+                  key={item.entry_id}
+                  datasetName={datasetName}
+                  item={item}
+                  selected={selected.has(item.entry_id)}
+                  onSelectedChange={(checked) => toggle(item.entry_id, checked)}
+                  onReview={(decision) => handleReview(decision, [item.entry_id])}
+                  disabled={isBusy}
+                />
+              ))}
+            </ul>
+          ) : (
+            <p className="py-8 text-center text-sm text-muted-foreground">
+              {statusFilter === "proposed" && isRunning ? "No suggestions yet. They appear here as entries are cleaned." : "No entries in this state."}
+            </p>
+          )}
+
+          {nextCursor && (
+            <div className="flex justify-center">
+              <Button variant="outline" onClick={handleLoadMore} disabled={isBusy}>
+                {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Load More
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,448 @@
+// src/components/cleaning-rules-editor.tsx
+"use client";
+
+import { useRef, useState, useTransition } from "react";
+import Link from "next/link";
+import { ArrowDown, ArrowUp, Eye, ListChecks, Loader2, Plus, Save, Trash2 } from "lucide-react";
+import type { CleaningRule, CleaningRuleType, RuleCleaningSummary } from "@/services/types";
+import { applyCleaningRulesAction, previewCleaningRulesAction, saveCleaningRulesAction } from "@/actions/data-actions";
+import { useToast } from "@/hooks/use-toast";
+import {
+  CLEANING_RULE_LABELS,
+  CLEANING_RULE_TYPES,
+  DEFAULT_CLEANING_RULES,
+  MAX_CLEANING_RULES,
+  cleaningRuleError,
+} from "@/lib/cleaning-rules";
+import { diffObjects, isDeepEqual } from "@/lib/json-diff";
+import { entryPath } from "@/lib/paths";
+import { FieldChangeLine } from "@/components/upload-diff-preview";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+
+interface CleaningRulesEditorProps {
+  datasetName: string;
+  initialRules: CleaningRule[];
+}
+
+// A rule being edited, with a stable key so inputs keep their state when rules are reordered
+interface EditableRule {
+  key: number;
+  rule: CleaningRule;
+}
+
+function splitList(value: string): string[] {
+  return value.split(",").map(item => item.trim()).filter(Boolean);
+}
+
+/**
+ * JSON editor of a mapping rule's table. The text is kept while it is not valid JSON, so it can be typed freely.
+ */
+function MappingInput({ id, mapping, onChange, disabled }: {
+  id: string;
+  mapping: Record<string, unknown>;
+  onChange: (mapping: Record<string, unknown>) => void;
+  disabled: boolean;
+}) {
+  const [text, setText] = useState(() => JSON.stringify(mapping, null, 2));
+  const [error, setError] = useState<string | null>(null);
+
+  const handleChange = (value: string) => {
+    setText(value);
+    try {
+      const parsed = JSON.parse(value);
+      if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+        setError("The mapping must be a JSON object of original value to new value.");
+        return;
+      }
+      setError(null);
+      onChange(parsed);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Invalid JSON.");
+    }
+  };
+
+  return (
+    <div className="space-y-1">
+      <Textarea id={id} value={text} onChange={(e) => handleChange(e.target.value)} className="min-h-[100px] font-mono text-xs" disabled={disabled} />
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+}
+
+/**
+ * The settings of one rule that depend on its type.
+ */
+function RuleSettings({ id, rule, onChange, disabled }: {
+  id: string;
+  rule: CleaningRule;
+  onChange: (rule: CleaningRule) => void;
+  disabled: boolean;
+}) {
+  switch (rule.type) {
+    case "case":
+      return (
+        <div className="space-y-1">
+          <Label htmlFor={`${id}-mode`}>Case</Label>
+          <Select value={rule.mode} onValueChange={(mode) => onChange({ ...rule, mode: mode as typeof rule.mode })} disabled={disabled}>
+            <SelectTrigger id={`${id}-mode`} className="w-[180px]"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="lower">lower case</SelectItem>
+              <SelectItem value="upper">UPPER CASE</SelectItem>
+              <SelectItem value="title">Title Case</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      );
+    case "regex-replace":
+      return (
+        <div className="grid gap-2 sm:grid-cols-[2fr_80px_2fr]">
+          <div className="space-y-1">
+            <Label htmlFor={`${id}-pattern`}>Pattern</Label>
+            <Input id={`${id}-pattern`} value={rule.pattern} onChange={(e) => onChange({ ...rule, pattern: e.target.value })} className="font-mono" disabled={disabled} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor={`${id}-flags`}>Flags</Label>
+            <Input id={`${id}-flags`} value={rule.flags ?? ""} onChange={(e) => onChange({ ...rule, flags: e.target.value })} className="font-mono" disabled={disabled} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor={`${id}-replacement`}>Replacement</Label>
+            <Input id={`${id}-replacement`} value={rule.replacement} onChange={(e) => onChange({ ...rule, replacement: e.target.value })} className="font-mono" disabled={disabled} />
+          </div>
+        </div>
+      );
+    case "coerce":
+      return (
+        <div className="space-y-1">
+          <Label htmlFor={`${id}-to`}>Convert To</Label>
+          <Select value={rule.to} onValueChange={(to) => onChange({ ...rule, to: to as typeof rule.to })} disabled={disabled}>
+            <SelectTrigger id={`${id}-to`} className="w-[180px]"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="number">Number</SelectItem>
+              <SelectItem value="boolean">Boolean (yes/no, true/false, 1/0)</SelectItem>
+              <SelectItem value="string">Text</SelectItem>
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">Values that cannot be converted are left as they are.</p>
+        </div>
+      );
+    case "date":
+      return (
+        <div className="grid gap-2 sm:grid-cols-[2fr_1fr]">
+          <div className="space-y-1">
+            <Label htmlFor={`${id}-formats`}>Formats (one per line, tried in order)</Label>
+            <Textarea
+              id={`${id}-formats`}
+              value={rule.formats.join("\n")}
+              onChange={(e) => onChange({ ...rule, formats: e.target.value.split("\n") })}
+              className="min-h-[72px] font-mono text-xs"
+              disabled={disabled}
+            />
+            <p className="text-xs text-muted-foreground">
+              date-fns format tokens, e.g. dd/MM/yyyy or MMM d, yyyy h:mm a. Values matching none of them are left as they are.
+            </p>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor={`${id}-output`}>Output</Label>
+            <Select value={rule.output} onValueChange={(output) => onChange({ ...rule, output: output as typeof rule.output })} disabled={disabled}>
+              <SelectTrigger id={`${id}-output`}><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="date">Date (YYYY-MM-DD)</SelectItem>
+                <SelectItem value="datetime">Date and time (ISO 8601, UTC)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      );
+    case "map":
+      return (
+        <div className="space-y-1">
+          <Label htmlFor={`${id}-mapping`}>Mapping (JSON: original value to new value)</Label>
+          <MappingInput id={`${id}-mapping`} mapping={rule.mapping} onChange={(mapping) => onChange({ ...rule, mapping })} disabled={disabled} />
+          <div className="flex items-center space-x-2">
+            <Switch
+              id={`${id}-case-insensitive`}
+              checked={rule.caseInsensitive ?? false}
+              onCheckedChange={(caseInsensitive) => onChange({ ...rule, caseInsensitive })}
+              disabled={disabled}
+            />
+            <Label htmlFor={`${id}-case-insensitive`} className="font-normal">Ignore case when matching</Label>
+          </div>
+        </div>
+      );
+    case "null":
+      return (
+        <div className="space-y-1">
+          <Label htmlFor={`${id}-values`}>Values Treated as Empty (one per line)</Label>
+          <Textarea
+            id={`${id}-values`}
+            value={rule.values.join("\n")}
+            onChange={(e) => onChange({ ...rule, values: e.target.value.split("\n") })}
+            className="min-h-[72px] font-mono text-xs"
+            disabled={disabled}
+          />
+          <p className="text-xs text-muted-foreground">Matched ignoring case and surrounding spaces; an empty line matches empty text. Matches become null.</p>
+        </div>
+      );
+    default:
+      return null;
+  }
+}
+
+/**
+ * Editor of a dataset's cleaning rules: deterministic fixes (trimming, casing, regex replacements, type and date
+ * conversions, value mappings, empty-value normalization) applied in order without the AI model. Rules can be
+ * previewed against the stored entries before they are saved, and applied to all entries at once.
+ * The saved rules also run before every AI cleaning, so the model only has to handle what they leave.
+ */
+export function CleaningRulesEditor({ datasetName, initialRules }: CleaningRulesEditorProps) {
+  const { toast } = useToast();
+  const nextKey = useRef(initialRules.length);
+  const [savedRules, setSavedRules] = useState<CleaningRule[]>(initialRules);
+  const [items, setItems] = useState<EditableRule[]>(() => initialRules.map((rule, index) => ({ key: index, rule })));
+  const [newRuleType, setNewRuleType] = useState<CleaningRuleType>("trim");
+  const [preview, setPreview] = useState<RuleCleaningSummary | null>(null);
+  const [isSaving, startSavingTransition] = useTransition();
+  const [isPreviewing, startPreviewTransition] = useTransition();
+  const [isApplying, startApplyingTransition] = useTransition();
+
+  const rules = items.map(item => item.rule);
+  const errors = rules.map(cleaningRuleError);
+  const hasErrors = errors.some(Boolean);
+  const isDirty = !isDeepEqual(rules, savedRules);
+  const isPending = isSaving || isPreviewing || isApplying;
+
+  const updateRules = (update: (current: EditableRule[]) => EditableRule[]) => {
+    setItems(update);
+    setPreview(null); // The preview was made with other rules
+  };
+
+  const handleRuleChange = (index: number, rule: CleaningRule) => {
+    updateRules(current => current.map((item, i) => (i === index ? { ...item, rule } : item)));
+  };
+
+  const handleAddRule = () => {
+    updateRules(current => [...current, { key: nextKey.current++, rule: DEFAULT_CLEANING_RULES[newRuleType] }]);
+  };
+
+  const handleMoveRule = (index: number, offset: -1 | 1) => {
+    updateRules(current => {
+      const reordered = [...current];
+      [reordered[index], reordered[index + offset]] = [reordered[index + offset], reordered[index]];
+      return reordered;
+    });
+  };
+
+  const handleRemoveRule = (index: number) => {
+    updateRules(current => current.filter((_, i) => i !== index));
+  };
+
+  const handleSave = () => {
+    startSavingTransition(async () => {
+      const result = await saveCleaningRulesAction(datasetName, rules);
+      if (result.success) {
+        setSavedRules(rules);
+        toast({ title: "Rules Saved", description: result.message });
+      } else {
+        toast({ variant: "destructive", title: "Save Failed", description: result.error || "The cleaning rules could not be saved." });
+      }
+    });
+  };
+
+  const handlePreview = () => {
+    startPreviewTransition(async () => {
+      const result = await previewCleaningRulesAction(datasetName, rules, null);
+      if (result.success && result.data) {
+        setPreview(result.data as RuleCleaningSummary);
+      } else {
+        toast({ variant: "destructive", title: "Preview Failed", description: result.error || "The rules could not be tried out." });
+      }
+    });
+  };
+
+  const handleApply = () => {
+    startApplyingTransition(async () => {
+      const result = await applyCleaningRulesAction(datasetName, null);
+      if (result.success) {
+        setPreview(null);
+        toast({ title: "Rules Applied", description: result.message });
+      } else {
+        toast({ variant: "destructive", title: "Apply Failed", description: result.error || "The cleaning rules could not be applied." });
+      }
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Cleaning Rules</CardTitle>
+          <CardDescription>
+            Deterministic fixes for the entries of '{datasetName}', run top to bottom without the AI model. They also run
+            before every AI cleaning, so the model only has to handle what they leave. Fields are dot-separated paths
+            into the entry (e.g. address.city); * matches any single field or array item (e.g. tags.*). Leave them empty
+            to apply a rule to every value.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {items.length === 0 && (
+            <p className="text-sm text-muted-foreground">No rules yet. Add one below.</p>
+          )}
+          <ol className="space-y-4">
+            {items.map(({ key, rule }, index) => {
+              const id = `rule-${key}`;
+              return (
+                <li key={key} className="rounded-md border p-3 space-y-3">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-sm font-semibold">{index + 1}.</span>
+                    <Select
+                      value={rule.type}
+                      onValueChange={(type) => handleRuleChange(index, { ...DEFAULT_CLEANING_RULES[type as CleaningRuleType], fields: rule.fields, enabled: rule.enabled })}
+                      disabled={isPending}
+                    >
+                      <SelectTrigger className="w-[200px]" aria-label="Rule type"><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        {CLEANING_RULE_TYPES.map(type => (
+                          <SelectItem key={type} value={type}>{CLEANING_RULE_LABELS[type]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <div className="flex items-center space-x-2 ml-2">
+                      <Switch
+                        id={`${id}-enabled`}
+                        checked={rule.enabled !== false}
+                        onCheckedChange={(enabled) => handleRuleChange(index, { ...rule, enabled })}
+                        disabled={isPending}
+                      />
+                      <Label htmlFor={`${id}-enabled`} className="font-normal">Enabled</Label>
+                    </div>
+                    <div className="ml-auto flex gap-1">
+                      <Button variant="ghost" size="icon" onClick={() => handleMoveRule(index, -1)} disabled={isPending || index === 0} aria-label="Move up">
+                        <ArrowUp className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" onClick={() => handleMoveRule(index, 1)} disabled={isPending || index === items.length - 1} aria-label="Move down">
+                        <ArrowDown className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" onClick={() => handleRemoveRule(index)} disabled={isPending} aria-label="Remove rule">
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </div>
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor={`${id}-fields`}>Fields (comma-separated)</Label>
+                    <Input
+                      id={`${id}-fields`}
+                      defaultValue={rule.fields?.join(", ") ?? ""}
+                      onBlur={(e) => handleRuleChange(index, { ...rule, fields: splitList(e.target.value) })}
+                      placeholder="All fields"
+                      className="font-mono"
+                      disabled={isPending}
+                    />
+                  </div>
+                  <RuleSettings id={id} rule={rule} onChange={(updated) => handleRuleChange(index, updated)} disabled={isPending} />
+                  {errors[index] && <p className="text-sm text-destructive">{errors[index]}</p>}
+                </li>
+              );
+            })}
+          </ol>
+          <div className="flex items-center gap-2">
+            <Select value={newRuleType} onValueChange={(type) => setNewRuleType(type as CleaningRuleType)} disabled={isPending}>
+              <SelectTrigger className="w-[200px]" aria-label="Type of the new rule"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {CLEANING_RULE_TYPES.map(type => (
+                  <SelectItem key={type} value={type}>{CLEANING_RULE_LABELS[type]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" onClick={handleAddRule} disabled={isPending || items.length >= MAX_CLEANING_RULES}>
+              <Plus className="mr-2 h-4 w-4" /> Add Rule
+            </Button>
+          </div>
+        </CardContent>
+        <CardFooter className="flex flex-wrap justify-end gap-2">
+          <Button variant="outline" onClick={handlePreview} disabled={isPending || hasErrors || items.length === 0}>
+            {isPreviewing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Eye className="mr-2 h-4 w-4" />}
+            Preview Changes
+          </Button>
+          <Button onClick={handleSave} disabled={isPending || hasErrors || !isDirty}>
+            {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+            Save Rules
+          </Button>
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button
+                variant="secondary"
+                disabled={isPending || isDirty || savedRules.every(rule => rule.enabled === false)}
+                title={isDirty ? "Save the rules before applying them" : undefined}
+              >
+                {isApplying ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <ListChecks className="mr-2 h-4 w-4" />}
+                Apply to All Entries
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Apply Cleaning Rules?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  The saved rules will be applied to every entry of '{datasetName}' in one step. Each changed entry keeps
+                  its previous content in its history, so it can be restored.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction onClick={handleApply}>Apply Rules</AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </CardFooter>
+      </Card>
+
+      {preview && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Preview</CardTitle>
+            <CardDescription>
+              {preview.changed} of {preview.examined} entries would change
+              {preview.samples.length < preview.changed ? `; the first ${preview.samples.length} are shown` : ""}. Nothing has been written.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ul className="space-y-2">
+              {preview.samples.map(sample => (
+                <li key={sample.id} className="rounded-md border bg-background p-2">
+                  <Link href={entryPath(datasetName, sample.id)} className="font-mono text-sm underline underline-offset-2">
+                    {sample.id}
+                  </Link>
+                  <ul className="mt-1 pl-4 space-y-0.5">
+                    {diffObjects(sample.before, sample.after).map(change => <FieldChangeLine key={change.path} change={change} />)}
+                  </ul>
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -3,22 +3,32 @@
 "use client";
 
 import { useState, useTransition, useEffect, useMemo, useCallback } from 'react';
-import type { DataEntry, RelationshipEntry } from '@/services/types'; // Updated import path
+import type { CleaningChange, DataEntry, MutationSource, RelationshipEntry } from '@/services/types'; // Updated import path
 import { Button } from '@/components/ui/button';
 import { useToast } from '@/hooks/use-toast';
 import {
   cleanDataAction,
+  cleanDataWithRulesAction,
   updateDataAction,
+  applyCleaningChangesAction,
   addRelationshipAction,
   getRelationshipsAction,
-  getDataByIdsAction // Import action to fetch multiple entries
+  getIncomingRelationshipsAction,
+  getDataByIdsAction, // Import action to fetch multiple entries
+  updateRelationshipAction,
+  deleteRelationshipAction,
+  restoreRelationshipAction,
+  getRelationshipTypesAction,
 } from '@/actions/data-actions';
-import { Loader2, Save, Sparkles, Edit, XCircle, LinkIcon, Plus, Trash2, Columns3, CheckSquare } from 'lucide-react'; // Added Columns3, CheckSquare
+import { DEFAULT_RELATIONSHIP_TYPE, SUGGESTED_RELATIONSHIP_TYPES } from '@/lib/relationship-types';
+import { ToastAction } from '@/components/ui/toast';
+import { Loader2, Save, Sparkles, Edit, XCircle, LinkIcon, Plus, Trash2, Columns3, CheckSquare, Pencil, Check, ListChecks } from 'lucide-react'; // Added Columns3, CheckSquare
 import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Label } from "@/components/ui/label";
 import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
 import {
   Table,
   TableBody,
@@ -29,34 +39,56 @@ import {
 } from "@/components/ui/table";
 import Link from 'next/link';
 import { ScrollArea, ScrollBar } from '@/components/ui/scroll-area'; // Added ScrollArea
+import { cleaningRulesPath, entryPath } from '@/lib/paths';
+import { EntryNeighborhood } from '@/components/entry-neighborhood';
+import { EntryHistory } from '@/components/entry-history';
+import { RelationshipSuggestions } from '@/components/relationship-suggestions';
+import { CleaningChangeReview, defaultCleaningChangeSelection } from '@/components/cleaning-change-review';
+import { formatModelName } from '@/lib/ai-models';
 
 interface DataDetailViewProps {
   initialData: DataEntry;
   entryId: string; // Ensure entryId is always string
+  datasetName: string; // Dataset the entry belongs to (from the URL)
 }
 
-export function DataDetailView({ initialData, entryId }: DataDetailViewProps) {
+export function DataDetailView({ initialData, entryId, datasetName }: DataDetailViewProps) {
   const [currentData, setCurrentData] = useState<DataEntry>(initialData);
-  const [cleanedDataSuggestion, setCleanedDataSuggestion] = useState<DataEntry | null>(null);
+  const [cleaningChanges, setCleaningChanges] = useState<CleaningChange[] | null>(null); // Current cleaning suggestion
+  const [acceptedChanges, setAcceptedChanges] = useState<Set<number>>(new Set()); // Indexes into cleaningChanges
+  const [suggestionModel, setSuggestionModel] = useState<string | null>(null); // AI model that made the suggestion, if any
+  const [suggestionSource, setSuggestionSource] = useState<Extract<MutationSource, 'ai-clean' | 'rule-clean'>>('ai-clean'); // What made the current suggestion
   const [isCleaning, startCleaningTransition] = useTransition();
   const [isSaving, startSavingTransition] = useTransition();
   const [isEditing, setIsEditing] = useState(false);
   const [editedJsonString, setEditedJsonString] = useState('');
   const [error, setError] = useState<string | null>(null);
   const [editError, setEditError] = useState<string | null>(null);
+  const [historyVersion, setHistoryVersion] = useState(0); // Bumped whenever the entry content is saved
   const { toast } = useToast();
 
   // --- Relationship State ---
-  const [relationships, setRelationships] = useState<RelationshipEntry[]>([]);
+  const [relationships, setRelationships] = useState<RelationshipEntry[]>([]); // Outgoing: this entry is the source
+  const [incomingRelationships, setIncomingRelationships] = useState<RelationshipEntry[]>([]); // This entry is the target
+  const [neighborhoodVersion, setNeighborhoodVersion] = useState(0); // Bumped whenever relationships are re-fetched
   const [relatedData, setRelatedData] = useState<DataEntry[]>([]); // State to store full related data
   const [isLoadingRelationships, startLoadingRelationshipsTransition] = useTransition();
   const [isLoadingRelatedData, startLoadingRelatedDataTransition] = useTransition();
   const [relationshipError, setRelationshipError] = useState<string | null>(null);
   const [targetEntryId, setTargetEntryId] = useState<string>('');
+  const [relationshipType, setRelationshipType] = useState<string>(DEFAULT_RELATIONSHIP_TYPE);
+  const [relationshipWeight, setRelationshipWeight] = useState<string>(''); // Optional, kept as text while typing
+  const [relationshipProperties, setRelationshipProperties] = useState<string>(''); // Optional JSON object
+  const [knownRelationshipTypes, setKnownRelationshipTypes] = useState<string[]>(SUGGESTED_RELATIONSHIP_TYPES);
   const [isAddingRelationship, startAddingRelationshipTransition] = useTransition();
   const [relatedHeaders, setRelatedHeaders] = useState<string[]>([]); // State for table headers
   const [isEditingHeaders, setIsEditingHeaders] = useState(false); // State for header editing mode
   const [tempHeaders, setTempHeaders] = useState<string[]>([]); // Temporary headers during edit
+  const [editingRelationshipId, setEditingRelationshipId] = useState<number | null>(null); // Relationship whose target/type is being changed
+  const [editedTargetId, setEditedTargetId] = useState<string>('');
+  const [editedType, setEditedType] = useState<string>('');
+  const [isUpdatingRelationship, startUpdatingRelationshipTransition] = useTransition();
+  const [isDeletingRelationship, startDeletingRelationshipTransition] = useTransition();
   // --- End Relationship State ---
 
   // --- Fetch Relationships ---
@@ -64,12 +96,23 @@ export function DataDetailView({ initialData, entryId }: DataDetailViewProps) {
      setRelationshipError(null);
      startLoadingRelationshipsTransition(async () => {
        try {
-         // Pass string entryId to action
-         const result = await getRelationshipsAction(entryId);
+         // Pass string entryId to actions
+         const [result, incomingResult] = await Promise.all([
+             getRelationshipsAction(datasetName, entryId),
+             getIncomingRelationshipsAction(datasetName, entryId),
+         ]);
+         setNeighborhoodVersion(version => version + 1);
+         if (incomingResult.success && Array.isArray(incomingResult.data)) {
+           setIncomingRelationships(incomingResult.data);
+         } else {
+           setRelationshipError(incomingResult.error || 'Failed to load incoming relationships.');
+           setIncomingRelationships([]);
+         }
          if (result.success && Array.isArray(result.data)) {
            setRelationships(result.data);
            // Ensure target IDs are strings for getDataByIdsAction
-           const targetIds = result.data.map((rel: RelationshipEntry) => String(rel.target_entry_id));
+           // The same target can be linked with several types; fetch each entry once
+           const targetIds = Array.from(new Set(result.data.map((rel: RelationshipEntry) => String(rel.target_entry_id))));
            if (targetIds.length > 0) {
                fetchRelatedData(targetIds);
            } else {
@@ -86,16 +129,27 @@ export function DataDetailView({ initialData, entryId }: DataDetailViewProps) {
          const message = e instanceof Error ? e.message : 'An unexpected error occurred while fetching relationships.';
          setRelationshipError(message);
          setRelationships([]);
+         setIncomingRelationships([]);
          setRelatedData([]);
          setRelatedHeaders([]);
        }
      });
-   }, [entryId]); // Depend on string entryId
+   }, [datasetName, entryId]); // Depend on dataset and string entryId
 
    // Initial fetch on component mount
    useEffect(() => {
        fetchRelationships();
    }, [fetchRelationships]);
+
+   // Offer the types already used in this dataset next to the suggested ones
+   useEffect(() => {
+       getRelationshipTypesAction(datasetName).then(result => {
+           if (result.success && Array.isArray(result.data)) {
+               const usedTypes = result.data.map((row: { type: string }) => row.type);
+               setKnownRelationshipTypes(Array.from(new Set([...SUGGESTED_RELATIONSHIP_TYPES, ...usedTypes])));
+           }
+       });
+   }, [datasetName, relationships]);
    // --- End Fetch Relationships ---
 
    // --- Fetch Related Data ---
@@ -104,7 +158,7 @@ export function DataDetailView({ initialData, entryId }: DataDetailViewProps) {
        startLoadingRelatedDataTransition(async () => {
             try {
                 // Pass string IDs to action
-                const result = await getDataByIdsAction(targetIds);
+                const result = await getDataByIdsAction(datasetName, targetIds);
                 if (result.success && Array.isArray(result.data)) {
                     setRelatedData(result.data);
                     // Determine headers from the fetched related data
@@ -143,19 +197,26 @@ export function DataDetailView({ initialData, entryId }: DataDetailViewProps) {
    }
    // --- End Fetch Related Data ---
 
-  const handleCleanData = () => {
+  // 'ai-clean' asks the AI model (after the dataset's cleaning rules); 'rule-clean' only runs the cleaning rules
+  const handleCleanData = (source: 'ai-clean' | 'rule-clean') => {
     setError(null);
     setEditError(null);
-    setCleanedDataSuggestion(null);
+    setCleaningChanges(null);
+    setSuggestionSource(source);
     startCleaningTransition(async () => {
       try {
         // Pass string entryId to action
-        const result = await cleanDataAction(entryId);
+        const result = source === 'rule-clean'
+          ? await cleanDataWithRulesAction(datasetName, entryId)
+          : await cleanDataAction(datasetName, entryId);
         if (result.success && result.data) {
-          setCleanedDataSuggestion(result.data as DataEntry);
+          const { changes, model } = result.data as { changes: CleaningChange[]; model: string | null };
+          setCleaningChanges(changes);
+          setSuggestionModel(model);
+          setAcceptedChanges(defaultCleaningChangeSelection(changes));
           toast({
             title: 'Cleaning Suggestion Ready',
-            description: 'AI has generated a cleaned version of the data.',
+            description: `${changes.length} change${changes.length === 1 ? '' : 's'} suggested. Review them below.`,
           });
         } else {
           setError(result.error || 'Failed to get cleaning suggestions.');
@@ -166,7 +227,7 @@ export function DataDetailView({ initialData, entryId }: DataDetailViewProps) {
           });
         }
       } catch (e) {
-        console.error('Error calling cleanDataAction:', e);
+        console.error(`Error calling the ${source} action:`, e);
         const message = e instanceof Error ? e.message : 'An unexpected error occurred.';
         setError(message);
         toast({
@@ -179,17 +240,19 @@ export function DataDetailView({ initialData, entryId }: DataDetailViewProps) {
   };
 
   const handleApplySuggestion = () => {
-      if (!cleanedDataSuggestion) return;
+      if (!cleaningChanges) return;
+      const accepted = cleaningChanges.filter((_, index) => acceptedChanges.has(index));
+      if (accepted.length === 0) return;
       setError(null);
       setEditError(null);
       startSavingTransition(async () => {
         try {
-            // Pass string entryId to action
-            const result = await updateDataAction(entryId, cleanedDataSuggestion);
-             if (result.success) {
-                // Update local state - ensure ID remains a string
-                setCurrentData({...cleanedDataSuggestion, id: entryId });
-                setCleanedDataSuggestion(null);
+            // Each change is tested against its old value, so an entry changed meanwhile is not overwritten
+            const result = await applyCleaningChangesAction(datasetName, entryId, accepted);
+             if (result.success && result.data) {
+                setCurrentData(result.data as DataEntry);
+                setCleaningChanges(null);
+                setHistoryVersion(version => version + 1);
                 toast({
                     title: 'Success',
                     description: result.message || 'Data updated successfully.',
@@ -204,7 +267,7 @@ export function DataDetailView({ initialData, entryId }: DataDetailViewProps) {
                  });
             }
         } catch (e) {
-             console.error('Error calling updateDataAction:', e);
+             console.error('Error calling applyCleaningChangesAction:', e);
              const message = e instanceof Error ? e.message : 'An unexpected error occurred.';
              setError(message);
              toast({
@@ -216,22 +279,13 @@ export function DataDetailView({ initialData, entryId }: DataDetailViewProps) {
       });
   };
 
-  const handleSuggestionChange = (event: React.ChangeEvent<HTMLTextAreaElement>) => {
-      try {
-          const updatedSuggestion = JSON.parse(event.target.value);
-          setCleanedDataSuggestion(updatedSuggestion);
-      } catch (e) {
-          console.warn("Invalid JSON in suggestion textarea");
-      }
-  };
-
   // --- Manual Edit Handlers ---
   const handleEditClick = () => {
     setIsEditing(true);
     setEditedJsonString(JSON.stringify(currentData, null, 2));
     setEditError(null);
     setError(null);
-    setCleanedDataSuggestion(null);
+    setCleaningChanges(null);
   };
 
   const handleCancelEdit = () => {
@@ -273,11 +327,12 @@ export function DataDetailView({ initialData, entryId }: DataDetailViewProps) {
     startSavingTransition(async () => {
         try {
             // Pass string entryId and data without id to action
-            const result = await updateDataAction(entryId, parsedData);
+            const result = await updateDataAction(datasetName, entryId, parsedData);
             if (result.success) {
                 // Update local state with the saved data, preserving the string ID
                 setCurrentData({ ...parsedData, id: entryId });
                 setIsEditing(false);
+                setHistoryVersion(version => version + 1);
                 toast({
                     title: 'Success',
                     description: result.message || 'Data updated successfully.',
@@ -313,13 +368,38 @@ export function DataDetailView({ initialData, entryId }: DataDetailViewProps) {
             toast({ variant: 'destructive', title: 'Missing Input', description: 'Please enter a Target Entry ID.' });
             return;
         }
+        const weight = relationshipWeight.trim() ? Number(relationshipWeight) : null;
+        if (weight !== null && !Number.isFinite(weight)) {
+            setRelationshipError('Weight must be a number.');
+            return;
+        }
+        let properties: Record<string, any> | null = null;
+        if (relationshipProperties.trim()) {
+            let parsed: unknown = null;
+            try {
+                parsed = JSON.parse(relationshipProperties);
+            } catch {
+                // Reported below together with non-object JSON
+            }
+            if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+                setRelationshipError('Properties must be a JSON object, e.g. {"note": "..."}.');
+                return;
+            }
+            properties = parsed as Record<string, any>;
+        }
         setRelationshipError(null);
         startAddingRelationshipTransition(async () => {
              try {
                  // Pass string IDs to action
-                 const result = await addRelationshipAction(entryId, trimmedTargetId);
+                 const result = await addRelationshipAction(datasetName, entryId, trimmedTargetId, {
+                     type: relationshipType,
+                     properties,
+                     weight,
+                 });
                  if (result.success && result.data) {
-                     setTargetEntryId(''); // Clear input on success
+                     setTargetEntryId(''); // Clear inputs on success, keep the type for the next link
+                     setRelationshipWeight('');
+                     setRelationshipProperties('');
                      toast({
                          title: 'Success',
                          description: result.message || 'Relationship added successfully.',
@@ -346,13 +426,107 @@ export function DataDetailView({ initialData, entryId }: DataDetailViewProps) {
         });
    };
 
-   // Relationship deletion remains unimplemented
-   const handleDeleteRelationship = (relationshipId: number | string) => {
-        console.warn(`Delete relationship functionality not implemented yet (ID: ${relationshipId})`);
-         toast({
-            variant: 'default',
-            title: 'Not Implemented',
-            description: 'Deleting relationships is not yet supported.',
+   // Loaded target entries, keyed by ID (one entry can be the target of several typed relationships)
+   const relatedDataById = useMemo(
+       () => new Map(relatedData.map(entry => [entry.id, entry])),
+       [relatedData]
+   );
+
+   const handleUndoDeleteRelationship = (deleted: RelationshipEntry) => {
+        startDeletingRelationshipTransition(async () => {
+            const result = await restoreRelationshipAction(datasetName, deleted);
+            if (result.success) {
+                toast({ title: 'Relationship Restored', description: `${deleted.type} link ${deleted.source_entry_id} → ${deleted.target_entry_id} restored.` });
+                fetchRelationships();
+            } else {
+                toast({
+                    variant: 'destructive',
+                    title: 'Undo Failed',
+                    description: result.error || 'Could not restore the relationship.',
+                });
+            }
+        });
+   };
+
+   const handleDeleteRelationship = (relationshipId: number) => {
+        setRelationshipError(null);
+        startDeletingRelationshipTransition(async () => {
+            try {
+                const result = await deleteRelationshipAction(datasetName, relationshipId);
+                if (result.success && result.data) {
+                    const deleted = result.data as RelationshipEntry;
+                    toast({
+                        title: 'Relationship Deleted',
+                        description: result.message,
+                        action: (
+                            <ToastAction altText="Undo deleting the relationship" onClick={() => handleUndoDeleteRelationship(deleted)}>
+                                Undo
+                            </ToastAction>
+                        ),
+                    });
+                    fetchRelationships();
+                } else {
+                    setRelationshipError(result.error || 'Failed to delete relationship.');
+                    toast({
+                        variant: 'destructive',
+                        title: 'Relationship Error',
+                        description: result.error || 'Could not delete the relationship.',
+                    });
+                }
+            } catch (e) {
+                console.error('Error calling deleteRelationshipAction:', e);
+                const message = e instanceof Error ? e.message : 'An unexpected error occurred.';
+                setRelationshipError(message);
+                toast({ variant: 'destructive', title: 'Relationship Failed', description: message });
+            }
+        });
+   };
+
+   const handleStartEditTarget = (relationship: RelationshipEntry) => {
+        setEditingRelationshipId(relationship.id);
+        setEditedTargetId(relationship.target_entry_id);
+        setEditedType(relationship.type);
+        setRelationshipError(null);
+   };
+
+   const handleCancelEditTarget = () => {
+        setEditingRelationshipId(null);
+        setEditedTargetId('');
+        setEditedType('');
+   };
+
+   const handleSaveTarget = () => {
+        if (editingRelationshipId === null) return;
+        const trimmedTargetId = editedTargetId.trim();
+        if (!trimmedTargetId) {
+            setRelationshipError('Target Entry ID cannot be empty.');
+            return;
+        }
+        const relationshipId = editingRelationshipId;
+        startUpdatingRelationshipTransition(async () => {
+            try {
+                const result = await updateRelationshipAction(datasetName, relationshipId, {
+                    targetId: trimmedTargetId,
+                    type: editedType,
+                });
+                if (result.success) {
+                    toast({ title: 'Relationship Updated', description: result.message });
+                    handleCancelEditTarget();
+                    fetchRelationships();
+                } else {
+                    setRelationshipError(result.error || 'Failed to update relationship.');
+                    toast({
+                        variant: 'destructive',
+                        title: 'Relationship Error',
+                        description: result.error || 'Could not update the relationship.',
+                    });
+                }
+            } catch (e) {
+                console.error('Error calling updateRelationshipAction:', e);
+                const message = e instanceof Error ? e.message : 'An unexpected error occurred.';
+                setRelationshipError(message);
+                toast({ variant: 'destructive', title: 'Relationship Failed', description: message });
+            }
         });
    };
    // --- End Relationship Handlers ---
@@ -384,7 +558,7 @@ export function DataDetailView({ initialData, entryId }: DataDetailViewProps) {
   };
   // --- End Header Editing Handlers ---
 
-  const isActionPending = isCleaning || isSaving || isLoadingRelationships || isLoadingRelatedData || isAddingRelationship;
+  const isActionPending = isCleaning || isSaving || isLoadingRelationships || isLoadingRelatedData || isAddingRelationship || isUpdatingRelationship || isDeletingRelationship;
 
   // Prepare current data for display, ensuring id is included
   const displayData = useMemo(() => ({ id: entryId, ...currentData }), [currentData, entryId]);
@@ -447,9 +621,13 @@ export function DataDetailView({ initialData, entryId }: DataDetailViewProps) {
                         <Button onClick={handleEditClick} disabled={isActionPending}>
                              <Edit className="mr-2 h-4 w-4" /> Edit
                          </Button>
-                         <Button onClick={handleCleanData} disabled={isActionPending}>
-                           {isCleaning ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Sparkles className="mr-2 h-4 w-4" />}
-                           {isCleaning ? 'Cleaning...' : 'Clean Data with AI'}
+                         <Button variant="outline" onClick={() => handleCleanData('rule-clean')} disabled={isActionPending}>
+                           {isCleaning && suggestionSource === 'rule-clean' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <ListChecks className="mr-2 h-4 w-4" />}
+                           Apply Cleaning Rules
+                         </Button>
+                         <Button onClick={() => handleCleanData('ai-clean')} disabled={isActionPending}>
+                           {isCleaning && suggestionSource === 'ai-clean' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Sparkles className="mr-2 h-4 w-4" />}
+                           {isCleaning && suggestionSource === 'ai-clean' ? 'Cleaning...' : 'Clean Data with AI'}
                          </Button>
                     </div>
                  )}
@@ -464,42 +642,57 @@ export function DataDetailView({ initialData, entryId }: DataDetailViewProps) {
          </div>
       )}
 
-      {/* AI Cleaning Suggestion Card */}
-      {cleanedDataSuggestion && !isEditing && (
+      {/* Cleaning Suggestion Card */}
+      {cleaningChanges && !isEditing && (
         <Card>
             <CardHeader>
-                <CardTitle>AI Cleaning Suggestion</CardTitle>
-                <CardDescription>Review and edit the suggestion below. Click Apply to save.</CardDescription>
+                <CardTitle>{suggestionSource === 'rule-clean' ? 'Cleaning Rules Result' : 'AI Cleaning Suggestion'}</CardTitle>
+                <CardDescription>
+                  {suggestionModel && <>Suggested by {formatModelName(suggestionModel)}. </>}
+                  Untick the changes you do not want, then click Apply to save the rest.{' '}
+                  <Link href={cleaningRulesPath(datasetName)} className="underline underline-offset-2">Edit cleaning rules</Link>
+                </CardDescription>
             </CardHeader>
-          <CardContent className="space-y-2">
-             <Label htmlFor="suggestion-textarea">Suggested Cleaned Data (JSON)</Label>
-             <Textarea
-                id="suggestion-textarea"
-               value={JSON.stringify(cleanedDataSuggestion, null, 2)}
-               onChange={handleSuggestionChange}
-               className="min-h-[200px] font-mono text-sm"
+          <CardContent>
+             <CleaningChangeReview
+               changes={cleaningChanges}
+               selected={acceptedChanges}
+               onSelectionChange={setAcceptedChanges}
                disabled={isSaving}
              />
           </CardContent>
            <CardFooter className="flex justify-end gap-2">
-                <Button variant="outline" onClick={() => setCleanedDataSuggestion(null)} disabled={isSaving}>
+                <Button variant="outline" onClick={() => setCleaningChanges(null)} disabled={isSaving}>
                     Discard
                 </Button>
-                 <Button onClick={handleApplySuggestion} disabled={isSaving}>
+                 <Button onClick={handleApplySuggestion} disabled={isSaving || acceptedChanges.size === 0}>
                    {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
-                   {isSaving ? 'Applying...' : 'Apply Suggestion'}
+                   {isSaving ? 'Applying...' : `Apply ${acceptedChanges.size} Change${acceptedChanges.size === 1 ? '' : 's'}`}
                  </Button>
            </CardFooter>
         </Card>
       )}
 
-      {/* Related Data Entries Card */}
+      <EntryHistory
+        datasetName={datasetName}
+        entryId={entryId}
+        currentData={currentData}
+        refreshKey={historyVersion}
+        onRestored={(entry) => {
+          setCurrentData(entry);
+          setIsEditing(false);
+          setCleaningChanges(null);
+          setHistoryVersion(version => version + 1);
+        }}
+      />
+
+      {/* Outgoing Relationships Card */}
       <Card>
         <CardHeader>
             <div className="flex justify-between items-start">
                 <div>
-                    <CardTitle>Related Data Entries</CardTitle>
-                    <CardDescription>Define relationships and view details of linked entries (Source ID: {entryId}).</CardDescription>
+                    <CardTitle>Outgoing Relationships</CardTitle>
+                    <CardDescription>Define relationships from this entry and view details of linked entries (Source ID: {entryId}).</CardDescription>
                 </div>
                 {relatedData.length > 0 && !isEditingHeaders && (
                      <Button variant="outline" size="sm" onClick={handleEditHeadersClick} disabled={isActionPending}>
@@ -527,8 +720,8 @@ export function DataDetailView({ initialData, entryId }: DataDetailViewProps) {
               )}
 
              {/* Add Relationship Form */}
-             <div className="flex items-end gap-2">
-                <div className="flex-grow space-y-1">
+             <div className="grid gap-2 sm:grid-cols-[1fr_180px_100px_auto] sm:items-end">
+                <div className="space-y-1">
                     <Label htmlFor="target-entry-id">Target Entry ID</Label>
                     <Input
                         id="target-entry-id"
@@ -537,11 +730,48 @@ export function DataDetailView({ initialData, entryId }: DataDetailViewProps) {
                         onChange={(e) => setTargetEntryId(e.target.value)}
                         disabled={isAddingRelationship || isActionPending}
                     />
+                </div>
+                <div className="space-y-1">
+                    <Label htmlFor="relationship-type">Type</Label>
+                    <Input
+                        id="relationship-type"
+                        list="relationship-type-options"
+                        placeholder={DEFAULT_RELATIONSHIP_TYPE}
+                        value={relationshipType}
+                        onChange={(e) => setRelationshipType(e.target.value)}
+                        disabled={isAddingRelationship || isActionPending}
+                    />
+                    <datalist id="relationship-type-options">
+                        {knownRelationshipTypes.map(type => <option key={type} value={type} />)}
+                    </datalist>
+                </div>
+                <div className="space-y-1">
+                    <Label htmlFor="relationship-weight">Weight</Label>
+                    <Input
+                        id="relationship-weight"
+                        type="number"
+                        step="any"
+                        placeholder="Optional"
+                        value={relationshipWeight}
+                        onChange={(e) => setRelationshipWeight(e.target.value)}
+                        disabled={isAddingRelationship || isActionPending}
+                    />
                 </div>
                  <Button onClick={handleAddRelationship} disabled={isAddingRelationship || isActionPending}>
                     {isAddingRelationship ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
                     {isAddingRelationship ? 'Adding...' : 'Add Relationship'}
                  </Button>
+                <div className="space-y-1 sm:col-span-4">
+                    <Label htmlFor="relationship-properties">Properties (optional JSON object)</Label>
+                    <Input
+                        id="relationship-properties"
+                        placeholder='{"note": "confirmed by import"}'
+                        value={relationshipProperties}
+                        onChange={(e) => setRelationshipProperties(e.target.value)}
+                        className="font-mono text-sm"
+                        disabled={isAddingRelationship || isActionPending}
+                    />
+                </div>
              </div>
 
              {/* Related Data Table */}
@@ -549,6 +779,7 @@ export function DataDetailView({ initialData, entryId }: DataDetailViewProps) {
                 <Table>
                   <TableHeader>
                     <TableRow>
+                        <TableHead className="whitespace-nowrap">Type</TableHead>
                         {isEditingHeaders ? (
                             tempHeaders.map((header, index) => (
                                 <TableHead key={`edit-header-${index}`}>
@@ -574,42 +805,174 @@ export function DataDetailView({ initialData, entryId }: DataDetailViewProps) {
                   <TableBody>
                     {(isLoadingRelationships || isLoadingRelatedData) ? (
                        <TableRow>
-                            <TableCell colSpan={relatedHeaders.length + 1} className="h-24 text-center">
+                            <TableCell colSpan={relatedHeaders.length + 2} className="h-24 text-center">
                                 <Loader2 className="mx-auto h-6 w-6 animate-spin text-muted-foreground" />
                                 <p className="mt-2 text-muted-foreground">Loading related data...</p>
                             </TableCell>
                         </TableRow>
-                    ) : relatedData.length > 0 ? (
-                      // Ensure relatedData has string IDs before mapping
-                      relatedData.map((entry) => (
-                        <TableRow key={entry.id}>
+                    ) : relationships.length > 0 ? (
+                      relationships.map((relationship) => {
+                        const entry = relatedDataById.get(relationship.target_entry_id);
+                        const isEditingRow = editingRelationshipId === relationship.id;
+                        return (
+                        <TableRow key={relationship.id}>
+                           <TableCell className="whitespace-nowrap">
+                               {isEditingRow ? (
+                                   <Input
+                                       list="relationship-type-options"
+                                       value={editedType}
+                                       onChange={(e) => setEditedType(e.target.value)}
+                                       onKeyDown={(e) => e.key === 'Enter' && handleSaveTarget()}
+                                       className="h-8 w-[140px] text-sm"
+                                       aria-label="Relationship Type"
+                                       disabled={isUpdatingRelationship}
+                                   />
+                               ) : (
+                                   <span title={relationship.properties ? JSON.stringify(relationship.properties) : undefined}>
+                                       <Badge variant="secondary">{relationship.type}</Badge>
+                                       {relationship.weight !== null && (
+                                           <span className="ml-1 text-xs text-muted-foreground">w={relationship.weight}</span>
+                                       )}
+                                   </span>
+                               )}
+                           </TableCell>
                            {relatedHeaders.map((header) => (
-                               <TableCell key={`${entry.id}-${header}`} className="whitespace-nowrap max-w-[200px] truncate">
-                                    {typeof entry[header] === 'object' && entry[header] !== null
+                               <TableCell key={`${relationship.id}-${header}`} className="whitespace-nowrap max-w-[200px] truncate">
+                                    {!entry
+                                     ? (header === 'id' ? relationship.target_entry_id : '')
+                                     : typeof entry[header] === 'object' && entry[header] !== null
                                      ? JSON.stringify(entry[header])
                                      : String(entry[header] ?? '')}
                                 </TableCell>
                             ))}
-                           <TableCell className="text-right">
+                           <TableCell className="text-right whitespace-nowrap">
+                               {isEditingRow ? (
+                                   <div className="flex items-center justify-end gap-1">
+                                       <Input
+                                           value={editedTargetId}
+                                           onChange={(e) => setEditedTargetId(e.target.value)}
+                                           onKeyDown={(e) => e.key === 'Enter' && handleSaveTarget()}
+                                           className="h-8 w-[160px] text-sm"
+                                           placeholder="New Target Entry ID"
+                                           aria-label="New Target Entry ID"
+                                           disabled={isUpdatingRelationship}
+                                       />
+                                       <Button variant="ghost" size="icon" className="h-8 w-8" onClick={handleSaveTarget} disabled={isUpdatingRelationship} title="Save changes">
+                                           {isUpdatingRelationship ? <Loader2 className="h-4 w-4 animate-spin" /> : <Check className="h-4 w-4" />}
+                                       </Button>
+                                       <Button variant="ghost" size="icon" className="h-8 w-8" onClick={handleCancelEditTarget} disabled={isUpdatingRelationship} title="Cancel">
+                                           <XCircle className="h-4 w-4" />
+                                       </Button>
+                                   </div>
+                               ) : (
+                                   <>
+                                       <Button variant="ghost" size="sm" asChild>
+                                          {/* Link uses string ID */}
+                                          <Link href={entryPath(datasetName, relationship.target_entry_id)} target="_blank" rel="noopener noreferrer">
+                                            View
+                                          </Link>
+                                       </Button>
+                                       <Button
+                                           variant="ghost"
+                                           size="icon"
+                                           className="h-8 w-8"
+                                           onClick={() => handleStartEditTarget(relationship)}
+                                           disabled={isActionPending}
+                                           title="Change target or type"
+                                       >
+                                           <Pencil className="h-4 w-4" />
+                                       </Button>
+                                       <Button
+                                           variant="ghost"
+                                           size="icon"
+                                           className="h-8 w-8 text-destructive hover:text-destructive"
+                                           onClick={() => handleDeleteRelationship(relationship.id)}
+                                           disabled={isActionPending}
+                                           title="Delete relationship"
+                                       >
+                                           <Trash2 className="h-4 w-4" />
+                                       </Button>
+                                   </>
+                               )}
+                            </TableCell>
+                        </TableRow>
+                        );
+                      })
+                     ) : (
+                      <TableRow>
+                        <TableCell colSpan={relatedHeaders.length + 2} className="h-24 text-center">
+                          No relationships defined for this entry yet.
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </TableBody>
+                </Table>
+                <ScrollBar orientation="horizontal" />
+            </ScrollArea>
+        </CardContent>
+      </Card>
+
+      {/* Incoming Relationships Card */}
+      <Card>
+        <CardHeader>
+            <CardTitle>Incoming Relationships</CardTitle>
+            <CardDescription>Entries that link to this entry (Target ID: {entryId}).</CardDescription>
+        </CardHeader>
+        <CardContent>
+            <ScrollArea className="border rounded-md">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                        <TableHead className="whitespace-nowrap">Type</TableHead>
+                        <TableHead className="whitespace-nowrap">Source ID</TableHead>
+                        <TableHead className="whitespace-nowrap">Weight</TableHead>
+                        <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {isLoadingRelationships ? (
+                       <TableRow>
+                            <TableCell colSpan={4} className="h-24 text-center">
+                                <Loader2 className="mx-auto h-6 w-6 animate-spin text-muted-foreground" />
+                            </TableCell>
+                        </TableRow>
+                    ) : incomingRelationships.length > 0 ? (
+                      incomingRelationships.map((relationship) => (
+                        <TableRow key={relationship.id}>
+                           <TableCell className="whitespace-nowrap">
+                               <span title={relationship.properties ? JSON.stringify(relationship.properties) : undefined}>
+                                   <Badge variant="secondary">{relationship.type}</Badge>
+                               </span>
+                           </TableCell>
+                           <TableCell className="whitespace-nowrap max-w-[200px] truncate font-medium">
+                               {relationship.source_entry_id}
+                           </TableCell>
+                           <TableCell className="whitespace-nowrap text-muted-foreground">
+                               {relationship.weight ?? '—'}
+                           </TableCell>
+                           <TableCell className="text-right whitespace-nowrap">
                                <Button variant="ghost" size="sm" asChild>
-                                  {/* Link uses string ID */}
-                                  <Link href={`/data/${entry.id}`} target="_blank" rel="noopener noreferrer">
+                                  <Link href={entryPath(datasetName, relationship.source_entry_id)}>
                                     View
                                   </Link>
-                                </Button>
-                            </TableCell>
+                               </Button>
+                               <Button
+                                   variant="ghost"
+                                   size="icon"
+                                   className="h-8 w-8 text-destructive hover:text-destructive"
+                                   onClick={() => handleDeleteRelationship(relationship.id)}
+                                   disabled={isActionPending}
+                                   title="Delete relationship"
+                               >
+                                   <Trash2 className="h-4 w-4" />
+                               </Button>
+                           </TableCell>
                         </TableRow>
                       ))
-                    ) : relationships.length > 0 ? (
-                        <TableRow>
-                             <TableCell colSpan={relatedHeaders.length + 1} className="h-24 text-center text-muted-foreground">
-                                Related entry data not found or failed to load.
-                             </TableCell>
-                        </TableRow>
-                     ) : (
+                    ) : (
                       <TableRow>
-                        <TableCell colSpan={relatedHeaders.length + 1} className="h-24 text-center">
-                          No relationships defined for this entry yet.
+                        <TableCell colSpan={4} className="h-24 text-center">
+                          No other entries link to this entry.
                         </TableCell>
                       </TableRow>
                     )}
@@ -619,6 +982,11 @@ export function DataDetailView({ initialData, entryId }: DataDetailViewProps) {
             </ScrollArea>
         </CardContent>
       </Card>
+
+      {/* Suggested Relationships, instead of typing target IDs by hand */}
+      <RelationshipSuggestions datasetName={datasetName} entryId={entryId} onAccepted={fetchRelationships} />
+
+      <EntryNeighborhood datasetName={datasetName} entryId={entryId} refreshKey={neighborhoodVersion} />
     </div>
   );
 }
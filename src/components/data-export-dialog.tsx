@@ -0,0 +1,155 @@
+// src/components/data-export-dialog.tsx
+"use client";
+
+import { useState } from "react";
+import { Download } from "lucide-react";
+import type { EntryQuery } from "@/services/types";
+import { EXPORT_FORMATS, exportFileName, type ExportContent, type ExportFormat } from "@/lib/export";
+import { entryViewSearchParams } from "@/lib/entry-query";
+import { datasetApiPath } from "@/lib/paths";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+  DialogClose,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface DataExportDialogProps {
+  datasetName: string | null;
+  view: EntryQuery; // Sort and filters currently applied in the preview
+  disabled?: boolean;
+}
+
+// Starts a browser download of the export route's response
+function download(url: string, fileName: string) {
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+}
+
+/**
+ * Export button and dialog of the data preview: downloads the dataset's entries in the chosen format,
+ * optionally with its relationships (as a separate file, or a second sheet for Excel) and optionally
+ * restricted to the filtered view shown in the preview.
+ */
+export function DataExportDialog({ datasetName, view, disabled }: DataExportDialogProps) {
+  const [format, setFormat] = useState<ExportFormat>("json");
+  const [includeRelationships, setIncludeRelationships] = useState(false);
+  const [onlyFilteredView, setOnlyFilteredView] = useState(false);
+  const hasFilters = !!(view.filters?.length || view.relatedToSourceId);
+
+  const handleExport = () => {
+    if (!datasetName) return;
+    // The preview's sort always applies; its filters only when asked for
+    const params = entryViewSearchParams(onlyFilteredView ? view : { sortField: view.sortField, sortDirection: view.sortDirection });
+    params.set("format", format);
+    if (format === "xlsx" && includeRelationships) params.set("relationships", "true");
+    const urlFor = (content: ExportContent) => {
+      const contentParams = new URLSearchParams(params);
+      contentParams.set("content", content);
+      return `${datasetApiPath(datasetName)}/export?${contentParams}`;
+    };
+
+    download(urlFor("entries"), exportFileName(datasetName, format));
+    if (format !== "xlsx" && includeRelationships) {
+      download(urlFor("relationships"), exportFileName(datasetName, format, "relationships"));
+    }
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button
+          variant="outline"
+          size="icon"
+          disabled={disabled || !datasetName}
+          aria-label="Export Data"
+          title="Download the dataset as JSON, NDJSON, CSV or Excel"
+        >
+          <Download className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Export Data</DialogTitle>
+          <DialogDescription>
+            Download the entries of '{datasetName}'. Large datasets are streamed, except for Excel files.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label htmlFor="export-format">Format</Label>
+            <Select value={format} onValueChange={(value) => setFormat(value as ExportFormat)}>
+              <SelectTrigger id="export-format">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EXPORT_FORMATS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {(format === "csv" || format === "xlsx") && (
+              <p className="text-xs text-muted-foreground">Nested fields become columns such as address.city; arrays are written as JSON text.</p>
+            )}
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="export-relationships"
+              checked={includeRelationships}
+              onCheckedChange={(checked) => setIncludeRelationships(checked === true)}
+            />
+            <Label htmlFor="export-relationships" className="font-normal cursor-pointer">
+              Include relationships {format === "xlsx" ? "(as a second sheet)" : "(as a separate file)"}
+            </Label>
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="export-filtered"
+              checked={onlyFilteredView && hasFilters}
+              onCheckedChange={(checked) => setOnlyFilteredView(checked === true)}
+              disabled={!hasFilters}
+            />
+            <Label htmlFor="export-filtered" className="font-normal cursor-pointer">
+              Only entries matching the current filters{hasFilters ? "" : " (no filters applied)"}
+            </Label>
+          </div>
+          {onlyFilteredView && hasFilters && includeRelationships && (
+            <p className="text-xs text-muted-foreground pl-6">Only relationships between exported entries are included.</p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <DialogClose asChild>
+            <Button variant="outline">Cancel</Button>
+          </DialogClose>
+          <DialogClose asChild>
+            <Button onClick={handleExport} disabled={!datasetName}>
+              <Download className="mr-2 h-4 w-4" /> Download
+            </Button>
+          </DialogClose>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,376 @@
+// src/components/data-graph-view.tsx
+"use client";
+
+import { useEffect, useMemo, useRef, useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { Loader2, Maximize2, ZoomIn, ZoomOut } from "lucide-react";
+import type { DataEntry, RelationshipEntry } from "@/services/types";
+import { addRelationshipAction } from "@/actions/data-actions";
+import { computeForceLayout, GRAPH_LAYOUT_SIZE, type GraphPoint } from "@/lib/graph-layout";
+import { DEFAULT_RELATIONSHIP_TYPE, SUGGESTED_RELATIONSHIP_TYPES } from "@/lib/relationship-types";
+import { entryPath } from "@/lib/paths";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface DataGraphViewProps {
+  data: DataEntry[]; // Nodes
+  relationships: RelationshipEntry[]; // Edges; edges to entries not in data are skipped
+  datasetName: string;
+  onRelationshipCreated?: () => void; // Called after a relationship was created by dragging
+}
+
+interface ViewTransform {
+  x: number;
+  y: number;
+  scale: number;
+}
+
+// Drag state: either panning the canvas or drawing a link from a node
+type DragState =
+  | { kind: "pan"; start: GraphPoint; origin: ViewTransform } // start is in viewBox coordinates
+  | { kind: "link"; sourceId: string; pointer: GraphPoint; moved: boolean };
+
+const NODE_RADIUS = 9;
+const MIN_SCALE = 0.2;
+const MAX_SCALE = 8;
+const NO_COLOR_FIELD = "__none__";
+const NODE_COLORS = ["#2563eb", "#16a34a", "#dc2626", "#d97706", "#7c3aed", "#0891b2", "#db2777", "#65a30d", "#ea580c", "#4f46e5"];
+const OTHER_COLOR = "#9ca3af"; // Values beyond the palette and entries without the field
+const INITIAL_TRANSFORM: ViewTransform = { x: 0, y: 0, scale: 1 };
+
+// Zooms by `factor` while keeping the point at (viewX, viewY) in viewBox coordinates in place
+function zoomTransform(prev: ViewTransform, factor: number, viewX: number, viewY: number): ViewTransform {
+  const scale = Math.min(MAX_SCALE, Math.max(MIN_SCALE, prev.scale * factor));
+  const anchorX = (viewX - prev.x) / prev.scale;
+  const anchorY = (viewY - prev.y) / prev.scale;
+  return { scale, x: viewX - anchorX * scale, y: viewY - anchorY * scale };
+}
+
+// Converts a pointer position to viewBox coordinates (accounts for the letterboxing of the square viewBox)
+function toViewPoint(svg: SVGSVGElement, clientX: number, clientY: number): GraphPoint {
+  const matrix = svg.getScreenCTM();
+  if (!matrix) return { x: 0, y: 0 };
+  const point = new DOMPoint(clientX, clientY).matrixTransform(matrix.inverse());
+  return { x: point.x, y: point.y };
+}
+
+/**
+ * Interactive graph of a dataset: entries are nodes and relationships are directed edges.
+ * Drag the background to pan, scroll to zoom, click a node to open the entry,
+ * and drag from one node onto another to create a relationship.
+ */
+export function DataGraphView({ data, relationships, datasetName, onRelationshipCreated }: DataGraphViewProps) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [transform, setTransform] = useState<ViewTransform>(INITIAL_TRANSFORM);
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [hoveredId, setHoveredId] = useState<string | null>(null);
+  const [colorField, setColorField] = useState<string>(NO_COLOR_FIELD);
+  const [newLinkType, setNewLinkType] = useState<string>(DEFAULT_RELATIONSHIP_TYPE);
+  const [isLinking, startLinkingTransition] = useTransition();
+
+  const nodeIds = useMemo(() => data.map(entry => entry.id), [data]);
+  const edges = useMemo(() => {
+    const known = new Set(nodeIds);
+    return relationships.filter(rel => known.has(rel.source_entry_id) && known.has(rel.target_entry_id));
+  }, [nodeIds, relationships]);
+  const positions = useMemo(
+    () => computeForceLayout(nodeIds, edges.map(rel => ({ source: rel.source_entry_id, target: rel.target_entry_id }))),
+    [nodeIds, edges]
+  );
+
+  // Top-level fields with scalar values can be used for colouring
+  const colorFields = useMemo(() => {
+    const fields = new Set<string>();
+    data.forEach(entry => Object.entries(entry).forEach(([key, value]) => {
+      if (key !== "id" && (value === null || typeof value !== "object")) fields.add(key);
+    }));
+    return Array.from(fields).sort();
+  }, [data]);
+
+  // Assign palette colours to the most frequent values of the chosen field
+  const colorByValue = useMemo(() => {
+    const colors = new Map<string, string>();
+    if (colorField === NO_COLOR_FIELD) return colors;
+    const counts = new Map<string, number>();
+    data.forEach(entry => {
+      if (entry[colorField] === undefined) return;
+      const value = String(entry[colorField]);
+      counts.set(value, (counts.get(value) ?? 0) + 1);
+    });
+    Array.from(counts.entries())
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .slice(0, NODE_COLORS.length)
+      .forEach(([value], index) => colors.set(value, NODE_COLORS[index]));
+    return colors;
+  }, [data, colorField]);
+
+  const nodeColor = (entry: DataEntry): string => {
+    if (colorField === NO_COLOR_FIELD) return NODE_COLORS[0];
+    if (entry[colorField] === undefined) return OTHER_COLOR;
+    return colorByValue.get(String(entry[colorField])) ?? OTHER_COLOR;
+  };
+
+  // Converts a pointer position to layout coordinates (undoing the viewBox scaling and pan/zoom)
+  const toGraphPoint = (clientX: number, clientY: number): GraphPoint => {
+    if (!svgRef.current) return { x: 0, y: 0 };
+    const view = toViewPoint(svgRef.current, clientX, clientY);
+    return { x: (view.x - transform.x) / transform.scale, y: (view.y - transform.y) / transform.scale };
+  };
+
+  const nodeAt = (point: GraphPoint): string | null => {
+    const hitRadius = (NODE_RADIUS + 4) / transform.scale;
+    for (const id of nodeIds) {
+      const position = positions.get(id);
+      if (position && Math.hypot(position.x - point.x, position.y - point.y) <= hitRadius) return id;
+    }
+    return null;
+  };
+
+  const zoomAtCenter = (factor: number) => {
+    setTransform(prev => zoomTransform(prev, factor, GRAPH_LAYOUT_SIZE / 2, GRAPH_LAYOUT_SIZE / 2));
+  };
+
+  // React registers wheel listeners as passive, so attach one manually to be able to prevent page scrolling
+  const isEmpty = data.length === 0;
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const view = toViewPoint(svg, event.clientX, event.clientY);
+      setTransform(prev => zoomTransform(prev, event.deltaY < 0 ? 1.15 : 1 / 1.15, view.x, view.y));
+    };
+    svg.addEventListener("wheel", handleWheel, { passive: false });
+    return () => svg.removeEventListener("wheel", handleWheel);
+  }, [isEmpty]); // The svg is only rendered when there are entries
+
+  const handlePointerDown = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (event.button !== 0 || isLinking) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const point = toGraphPoint(event.clientX, event.clientY);
+    const nodeId = nodeAt(point);
+    setDrag(nodeId
+      ? { kind: "link", sourceId: nodeId, pointer: point, moved: false }
+      : { kind: "pan", start: toViewPoint(event.currentTarget, event.clientX, event.clientY), origin: transform });
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    const point = toGraphPoint(event.clientX, event.clientY);
+    if (!drag) {
+      setHoveredId(nodeAt(point));
+      return;
+    }
+    if (drag.kind === "pan") {
+      const view = toViewPoint(event.currentTarget, event.clientX, event.clientY);
+      setTransform({
+        ...drag.origin,
+        x: drag.origin.x + view.x - drag.start.x,
+        y: drag.origin.y + view.y - drag.start.y,
+      });
+    } else {
+      const source = positions.get(drag.sourceId);
+      const moved = drag.moved || (!!source && Math.hypot(source.x - point.x, source.y - point.y) > NODE_RADIUS / transform.scale);
+      setDrag({ ...drag, pointer: point, moved });
+      setHoveredId(nodeAt(point));
+    }
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<SVGSVGElement>) => {
+    const current = drag;
+    setDrag(null);
+    if (!current || current.kind !== "link") return;
+
+    const targetId = nodeAt(toGraphPoint(event.clientX, event.clientY));
+    if (!current.moved) {
+      // A click (no drag) opens the entry
+      router.push(entryPath(datasetName, current.sourceId));
+      return;
+    }
+    if (!targetId || targetId === current.sourceId) return;
+
+    const sourceId = current.sourceId;
+    startLinkingTransition(async () => {
+      const result = await addRelationshipAction(datasetName, sourceId, targetId, { type: newLinkType });
+      if (result.success) {
+        toast({ title: "Relationship Added", description: result.message || `${sourceId} → ${targetId}` });
+        onRelationshipCreated?.();
+      } else {
+        toast({ variant: "destructive", title: "Relationship Error", description: result.error || "Could not add the relationship." });
+      }
+    });
+  };
+
+  const dragSource = drag?.kind === "link" && drag.moved ? positions.get(drag.sourceId) : undefined;
+  const showLabels = nodeIds.length <= 60 || transform.scale >= 2;
+
+  if (isEmpty) {
+    return (
+      <div className="flex h-48 items-center justify-center rounded-md border text-sm text-muted-foreground">
+        No entries to display.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-col gap-2 sm:flex-row sm:items-end sm:justify-between">
+        <div className="flex flex-col gap-2 sm:flex-row sm:items-end">
+          <div className="space-y-1">
+            <Label htmlFor="graph-color-field">Colour Nodes By</Label>
+            <Select value={colorField} onValueChange={setColorField}>
+              <SelectTrigger id="graph-color-field" className="w-full sm:w-[180px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_COLOR_FIELD}>Nothing</SelectItem>
+                {colorFields.map(field => (
+                  <SelectItem key={field} value={field}>{field}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="graph-link-type">New Link Type</Label>
+            <Input
+              id="graph-link-type"
+              list="graph-link-type-options"
+              value={newLinkType}
+              onChange={(e) => setNewLinkType(e.target.value)}
+              className="w-full sm:w-[160px]"
+            />
+            <datalist id="graph-link-type-options">
+              {Array.from(new Set([...SUGGESTED_RELATIONSHIP_TYPES, ...relationships.map(rel => rel.type)])).map(type => (
+                <option key={type} value={type} />
+              ))}
+            </datalist>
+          </div>
+        </div>
+        <div className="flex items-center gap-1">
+          {isLinking && <Loader2 className="mr-2 h-4 w-4 animate-spin text-muted-foreground" />}
+          <Button variant="outline" size="icon" onClick={() => zoomAtCenter(1.25)} aria-label="Zoom in" title="Zoom in">
+            <ZoomIn className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="icon" onClick={() => zoomAtCenter(0.8)} aria-label="Zoom out" title="Zoom out">
+            <ZoomOut className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="icon" onClick={() => setTransform(INITIAL_TRANSFORM)} aria-label="Reset view" title="Reset view">
+            <Maximize2 className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${GRAPH_LAYOUT_SIZE} ${GRAPH_LAYOUT_SIZE}`}
+        className={`h-[560px] w-full touch-none select-none rounded-md border bg-background ${drag?.kind === "pan" ? "cursor-grabbing" : hoveredId ? "cursor-pointer" : "cursor-grab"}`}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerLeave={() => !drag && setHoveredId(null)}
+        role="img"
+        aria-label={`Graph of ${data.length} entries and ${edges.length} relationships in dataset ${datasetName}`}
+      >
+        <defs>
+          <marker id="graph-arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+            <path d="M 0 0 L 10 5 L 0 10 z" fill="#9ca3af" />
+          </marker>
+        </defs>
+        <g transform={`translate(${transform.x} ${transform.y}) scale(${transform.scale})`}>
+          {edges.map(rel => {
+            const source = positions.get(rel.source_entry_id)!;
+            const target = positions.get(rel.target_entry_id)!;
+            const length = Math.max(Math.hypot(target.x - source.x, target.y - source.y), 0.01);
+            // Stop the line at the target's edge so the arrow head stays visible
+            const inset = NODE_RADIUS / transform.scale;
+            const endX = target.x - ((target.x - source.x) / length) * inset;
+            const endY = target.y - ((target.y - source.y) / length) * inset;
+            const highlighted = hoveredId === rel.source_entry_id || hoveredId === rel.target_entry_id;
+            return (
+              <line
+                key={rel.id}
+                x1={source.x}
+                y1={source.y}
+                x2={endX}
+                y2={endY}
+                stroke={highlighted ? "#4b5563" : "#d1d5db"}
+                strokeWidth={(highlighted ? 2 : 1.2) / transform.scale}
+                markerEnd="url(#graph-arrow)"
+              >
+                <title>{`${rel.source_entry_id} —${rel.type}→ ${rel.target_entry_id}`}</title>
+              </line>
+            );
+          })}
+          {dragSource && drag?.kind === "link" && (
+            <line
+              x1={dragSource.x}
+              y1={dragSource.y}
+              x2={drag.pointer.x}
+              y2={drag.pointer.y}
+              stroke="#2563eb"
+              strokeWidth={2 / transform.scale}
+              strokeDasharray={`${6 / transform.scale} ${4 / transform.scale}`}
+            />
+          )}
+          {data.map(entry => {
+            const position = positions.get(entry.id)!;
+            const active = hoveredId === entry.id || (drag?.kind === "link" && drag.sourceId === entry.id);
+            return (
+              <g key={entry.id}>
+                <circle
+                  cx={position.x}
+                  cy={position.y}
+                  r={NODE_RADIUS / transform.scale}
+                  fill={nodeColor(entry)}
+                  stroke={active ? "#111827" : "#ffffff"}
+                  strokeWidth={(active ? 2.5 : 1.5) / transform.scale}
+                >
+                  <title>{colorField !== NO_COLOR_FIELD ? `${entry.id} (${colorField}: ${String(entry[colorField] ?? '—')})` : entry.id}</title>
+                </circle>
+                {(showLabels || active) && (
+                  <text
+                    x={position.x}
+                    y={position.y + (NODE_RADIUS + 12) / transform.scale}
+                    textAnchor="middle"
+                    fontSize={12 / transform.scale}
+                    className="pointer-events-none fill-foreground"
+                  >
+                    {entry.id}
+                  </text>
+                )}
+              </g>
+            );
+          })}
+        </g>
+      </svg>
+
+      <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-muted-foreground">
+        <span>Drag the background to pan, scroll to zoom, click a node to open it, drag from one node onto another to link them.</span>
+        {colorField !== NO_COLOR_FIELD && (
+          <div className="flex flex-wrap items-center gap-3">
+            {Array.from(colorByValue.entries()).map(([value, color]) => (
+              <span key={value} className="flex items-center gap-1">
+                <span className="inline-block h-2.5 w-2.5 rounded-full" style={{ backgroundColor: color }} />
+                {value}
+              </span>
+            ))}
+            <span className="flex items-center gap-1">
+              <span className="inline-block h-2.5 w-2.5 rounded-full" style={{ backgroundColor: OTHER_COLOR }} />
+              other / missing
+            </span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
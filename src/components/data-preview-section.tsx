@@ -2,12 +2,18 @@
 // src/components/data-preview-section.tsx
 "use client";
 
-import { useState, useTransition, useEffect, useCallback } from "react";
+import { useState, useTransition, useEffect, useRef } from "react";
 import { useRouter } from "next/navigation";
-import { RefreshCw, Filter, X, Database } from "lucide-react"; // Removed BarChartHorizontalBig
+import Link from "next/link";
+import { RefreshCw, Filter, X, Database, Settings2, Table2, Share2, ChevronLeft, ChevronRight, ListChecks, FileText, Network } from "lucide-react";
 
-import type { DataEntry, RelationshipEntry } from "@/services/types";
+import type { EntryPage, EntryQuery, RelationshipEntry } from "@/services/types";
 import { DataPreviewTable } from "@/components/data-preview-table";
+import { DataGraphView } from "@/components/data-graph-view";
+import { EntryQueryControls, type EntrySortAndFilters } from "@/components/entry-query-controls";
+import { DataExportDialog } from "@/components/data-export-dialog";
+import { CleaningJobDialog } from "@/components/cleaning-job-dialog";
+import { queryDataAction } from "@/actions/data-actions";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -21,24 +27,27 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { setActiveDatasetAction } from "@/actions/data-actions";
-// Removed DataVisualization import
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { cleaningRulesPath, datasetInfoPath, datasetPath, relationshipSuggestionsPath } from "@/lib/paths";
+import { DEFAULT_ENTRY_PAGE_SIZE, ENTRY_PAGE_SIZE_OPTIONS } from "@/lib/entry-query";
 
 
 interface DataPreviewSectionProps {
-  initialData: DataEntry[]; // Expects DataEntry with string id
+  initialPage: EntryPage; // First page of entries (default sort, no filters), rendered on the server
   initialRelationships: RelationshipEntry[]; // Expects RelationshipEntry with string ids
-  activeDatasetName: string | null; // Name of the currently active dataset
+  activeDatasetName: string | null; // Name of the dataset in the URL
   allDatasetNames: string[];       // List of all available dataset names
   error: string | null;
+  cleaningModel?: string | null; // AI model batch cleaning jobs run on, shown when starting one
 }
 
 export function DataPreviewSection({
-    initialData,
+    initialPage,
     initialRelationships,
     activeDatasetName: initialActiveName,
     allDatasetNames,
-    error: initialError
+    error: initialError,
+    cleaningModel,
 }: DataPreviewSectionProps) {
   const router = useRouter();
   const [isRefreshing, startRefreshTransition] = useTransition();
@@ -48,30 +57,97 @@ export function DataPreviewSection({
   const [error, setError] = useState<string | null>(initialError);
   const [filterError, setFilterError] = useState<string | null>(null);
   const [filterSourceId, setFilterSourceId] = useState<string>(''); // Filter ID is a string
-  const [displayedData, setDisplayedData] = useState<DataEntry[]>(initialData);
   const [currentActiveName, setCurrentActiveName] = useState<string | null>(initialActiveName);
 
-  // Removed visualization dialog state
+  // --- Paging State ---
+  // Sorting, filtering and paging run on the server; only the current page is held here.
+  const [page, setPage] = useState<EntryPage>(initialPage);
+  const [query, setQuery] = useState<EntryQuery>({}); // Applied sort, filters and page size (without cursor)
+  const [cursor, setCursor] = useState<string | null>(null); // Cursor of the current page (null for the first page)
+  const [previousCursors, setPreviousCursors] = useState<(string | null)[]>([]); // Cursors of the pages before, for "Previous"
+  const [isLoadingPage, startLoadingPageTransition] = useTransition();
+  const displayedData = page.entries;
+  const pageSize = query.limit ?? DEFAULT_ENTRY_PAGE_SIZE;
+
+  // The server-rendered page only matches what is shown while nothing is sorted, filtered or paged
+  const isDefaultViewRef = useRef(true);
+  isDefaultViewRef.current = cursor === null && !query.sortField && !query.sortDirection
+    && !query.filters?.length && !query.relatedToSourceId && pageSize === DEFAULT_ENTRY_PAGE_SIZE;
 
   const { toast } = useToast();
 
   // Update local state when props change
   useEffect(() => {
-    // Only reset displayedData if no filter is active OR if the active dataset name changed
-    if (!filterSourceId || currentActiveName !== initialActiveName) {
-      setDisplayedData(initialData);
-    }
-    // Update local active name if prop changes
     if (currentActiveName !== initialActiveName) {
+        // Another dataset: start over with its first page
         setCurrentActiveName(initialActiveName);
+        setQuery({});
+        setCursor(null);
+        setPreviousCursors([]);
+        setPage(initialPage);
+    } else if (isDefaultViewRef.current) {
+        setPage(initialPage);
     }
     // Clear general error if initialError is null
     setError(initialError);
 
-   }, [initialData, initialError, filterSourceId, initialActiveName, currentActiveName]);
+   }, [initialPage, initialError, initialActiveName, currentActiveName]);
+
+  // Fetches a page from the server and makes it current. Returns null (after reporting the error) on failure.
+  const loadPage = async (nextQuery: EntryQuery, nextCursor: string | null, nextPreviousCursors: (string | null)[]): Promise<EntryPage | null> => {
+    if (!currentActiveName) return null;
+    const result = await queryDataAction(currentActiveName, { ...nextQuery, cursor: nextCursor });
+    if (!result.success || !result.data) {
+      toast({ variant: "destructive", title: "Loading Error", description: result.error || "Failed to load entries." });
+      return null;
+    }
+    const nextPage = result.data as EntryPage;
+    setPage(nextPage);
+    setQuery(nextQuery);
+    setCursor(nextCursor);
+    setPreviousCursors(nextPreviousCursors);
+    return nextPage;
+  };
+
+  // Re-fetches the page being shown, e.g. after entries were changed
+  const reloadCurrentPage = () => {
+    startLoadingPageTransition(async () => {
+      await loadPage(query, cursor, previousCursors);
+    });
+  };
+
+  const handleApplySortAndFilters = (next: EntrySortAndFilters) => {
+    startLoadingPageTransition(async () => {
+      await loadPage({ ...query, ...next }, null, []);
+    });
+  };
+
+  const handleNextPage = () => {
+    if (!page.nextCursor) return;
+    const nextCursor = page.nextCursor;
+    startLoadingPageTransition(async () => {
+      await loadPage(query, nextCursor, [...previousCursors, cursor]);
+    });
+  };
+
+  const handlePreviousPage = () => {
+    if (previousCursors.length === 0) return;
+    const previousCursor = previousCursors[previousCursors.length - 1];
+    startLoadingPageTransition(async () => {
+      await loadPage(query, previousCursor, previousCursors.slice(0, -1));
+    });
+  };
+
+  const handlePageSizeChange = (value: string) => {
+    startLoadingPageTransition(async () => {
+      await loadPage({ ...query, limit: Number(value) }, null, []);
+    });
+  };
+  // --- End Paging State ---
 
 
   // --- Dataset Switching ---
+  // The dataset is part of the URL, so switching is a navigation and never affects other users or tabs.
   const handleDatasetChange = (newDatasetName: string) => {
         if (newDatasetName === currentActiveName) return; // No change needed
 
@@ -79,36 +155,9 @@ export function DataPreviewSection({
         setFilterError(null);
         setFilterSourceId(''); // Clear filter when switching datasets
 
-        startSwitchingDatasetTransition(async () => {
-            try {
-                 console.log(`Switching active dataset to: ${newDatasetName}`);
-                 const result = await setActiveDatasetAction(newDatasetName);
-                 if (result.success) {
-                     toast({
-                         title: "Dataset Switched",
-                         description: result.message || `Dataset '${newDatasetName}' is now active. Refreshing data...`,
-                     });
-                     setCurrentActiveName(newDatasetName); // Update local state immediately
-                     // Trigger a full page refresh to load data for the new active dataset
-                     router.refresh();
-                 } else {
-                      setError(result.error || `Failed to switch to dataset '${newDatasetName}'.`);
-                      toast({
-                         variant: "destructive",
-                         title: "Switch Failed",
-                         description: result.error || `Could not switch to dataset '${newDatasetName}'.`,
-                      });
-                 }
-            } catch (e) {
-                 console.error("Dataset switch failed:", e);
-                 const errorMessage = e instanceof Error ? e.message : "Failed to switch dataset.";
-                 setError(errorMessage);
-                 toast({
-                   variant: "destructive",
-                   title: "Switch Error",
-                   description: errorMessage,
-                 });
-            }
+        startSwitchingDatasetTransition(() => {
+            console.log(`Switching to dataset: ${newDatasetName}`);
+            router.push(datasetPath(newDatasetName));
         });
   };
 
@@ -116,12 +165,14 @@ export function DataPreviewSection({
   const handleRefresh = () => {
     setError(null);
     setFilterError(null);
-    setFilterSourceId('');
     startRefreshTransition(() => {
       try {
         // Refresh the current route; this re-runs the server component (page.tsx)
-        // which fetches data for the *currently active* dataset.
+        // which fetches the relationships and first page for the dataset in the URL.
         router.refresh();
+        if (!isDefaultViewRef.current) {
+          reloadCurrentPage(); // Sorted, filtered or later pages are not part of the server render
+        }
         toast({
           title: "Data Refreshed",
           description: `Data for dataset '${currentActiveName || 'N/A'}' updated.`,
@@ -151,51 +202,28 @@ export function DataPreviewSection({
     setFilterError(null);
     startFilteringTransition(async () => {
       try {
-        // Use relationships from props (which should be for the active dataset)
-        // Filter relationships based on the string source ID
-        const targetIds = new Set(
-            initialRelationships
-            .filter(rel => rel.source_entry_id === sourceIdStr) // Compare strings
-            .map(rel => rel.target_entry_id) // Target IDs are already strings
-        );
-
-        // Check if the source entry exists in the initialData using string comparison
-        const sourceExists = initialData.some(entry => entry.id === sourceIdStr);
-
-        if (!sourceExists) {
-            setFilterError(`Source entry ID ${sourceIdStr} not found in dataset '${currentActiveName || 'N/A'}.`);
-            toast({
-                variant: "destructive",
-                title: "Filter Error",
-                description: `Source entry ID ${sourceIdStr} does not exist in this dataset.`,
-            });
-            setDisplayedData([]);
-            return;
-        }
+        // Only targets of relationships from this source; applied on the server together with the field filters
+        const result = await loadPage({ ...query, relatedToSourceId: sourceIdStr }, null, []);
+        if (!result) return;
 
-        if (targetIds.size > 0) {
-             // Filter initialData based on targetIds (string comparison)
-             const filteredResults = initialData.filter(entry => targetIds.has(entry.id));
-             setDisplayedData(filteredResults);
+        if (result.totalCount > 0) {
              toast({
                title: "Filter Applied",
-               description: `Showing ${filteredResults.length} entries related to source ID ${sourceIdStr} in dataset '${currentActiveName || 'N/A'}'.`,
+               description: `Showing ${result.totalCount} entries related to source ID ${sourceIdStr} in dataset '${currentActiveName || 'N/A'}'.`,
              });
         } else {
-             setFilterError(`No relationships found originating from source ID ${sourceIdStr} in dataset '${currentActiveName || 'N/A'}.`);
+             setFilterError(`No entries related to source ID ${sourceIdStr} in dataset '${currentActiveName || 'N/A'}' (or the entry does not exist).`);
              toast({
                 variant: "default",
                 title: "Filter Applied",
                 description: `No entries related to source ID ${sourceIdStr} in this dataset.`,
              });
-             setDisplayedData([]);
         }
 
       } catch (e) {
         console.error("Filtering failed:", e);
         const errorMessage = e instanceof Error ? e.message : "An unexpected error occurred during filtering.";
         setFilterError(errorMessage);
-        setDisplayedData([]);
         toast({
           variant: "destructive",
           title: "Filter Failed",
@@ -208,14 +236,38 @@ export function DataPreviewSection({
   const handleClearFilter = () => {
     setFilterSourceId('');
     setFilterError(null);
-    setDisplayedData(initialData); // Reset to show all data for the current active dataset
-    toast({
-      title: "Filter Cleared",
-      description: `Showing all data for dataset '${currentActiveName || 'N/A'}'.`,
+    startFilteringTransition(async () => {
+      const result = await loadPage({ ...query, relatedToSourceId: null }, null, []);
+      if (result) {
+        toast({
+          title: "Filter Cleared",
+          description: `Showing all data for dataset '${currentActiveName || 'N/A'}'.`,
+        });
+      }
     });
   };
 
-    const isActionPending = isRefreshing || isFiltering || isSwitchingDataset;
+  // Remove deleted entries right away, then re-fetch so relationships, counts and the page are current
+  const handleEntriesDeleted = (deletedIds: string[]) => {
+    const deleted = new Set(deletedIds);
+    setPage(prev => ({
+      ...prev,
+      entries: prev.entries.filter(entry => !deleted.has(entry.id)),
+      totalCount: Math.max(prev.totalCount - deletedIds.length, 0),
+    }));
+    router.refresh();
+    if (!isDefaultViewRef.current) {
+      reloadCurrentPage();
+    }
+  };
+
+  // Top-level fields of the entries on this page, offered for sorting and filtering
+  const knownFields = Array.from(new Set(displayedData.flatMap(entry => Object.keys(entry))))
+    .filter(field => field !== 'id')
+    .sort();
+  const firstShown = previousCursors.length * pageSize + 1;
+
+    const isActionPending = isRefreshing || isFiltering || isSwitchingDataset || isLoadingPage;
 
 
   return (
@@ -255,8 +307,6 @@ export function DataPreviewSection({
                     </SelectContent>
                 </Select>
 
-                 {/* Removed Visualization Dialog Trigger */}
-
                  {/* Refresh Button */}
               <Button
                 variant="outline"
@@ -268,6 +318,44 @@ export function DataPreviewSection({
               >
                 <RefreshCw className={`h-4 w-4 ${isRefreshing ? 'animate-spin' : ''}`} />
               </Button>
+
+                 {/* Export */}
+              <DataExportDialog datasetName={currentActiveName} view={query} disabled={isActionPending} />
+
+                 {/* Batch AI Cleaning */}
+              <CleaningJobDialog datasetName={currentActiveName} view={query} totalCount={page.totalCount} model={cleaningModel} disabled={isActionPending} />
+
+                 {/* Cleaning Rules Link */}
+              {currentActiveName && (
+                <Button variant="outline" size="icon" asChild>
+                  <Link href={cleaningRulesPath(currentActiveName)} aria-label="Cleaning Rules" title="Define cleaning rules that fix entries without AI">
+                    <ListChecks className="h-4 w-4" />
+                  </Link>
+                </Button>
+              )}
+
+              {currentActiveName && (
+                <Button variant="outline" size="icon" asChild>
+                  <Link href={datasetInfoPath(currentActiveName)} aria-label="Dataset Info" title="Details and documented schema of the dataset">
+                    <FileText className="h-4 w-4" />
+                  </Link>
+                </Button>
+              )}
+
+              {currentActiveName && (
+                <Button variant="outline" size="icon" asChild>
+                  <Link href={relationshipSuggestionsPath(currentActiveName)} aria-label="Suggested Relationships" title="Find relationships between entries from shared values and with AI">
+                    <Network className="h-4 w-4" />
+                  </Link>
+                </Button>
+              )}
+
+                 {/* Dataset Management Link */}
+              <Button variant="outline" size="icon" asChild>
+                <Link href="/datasets" aria-label="Manage Datasets" title="Rename, clone, delete or describe datasets">
+                  <Settings2 className="h-4 w-4" />
+                </Link>
+              </Button>
           </div>
         </div>
       </CardHeader>
@@ -297,6 +385,15 @@ export function DataPreviewSection({
             </div>
          </div>
 
+         {currentActiveName && (
+           <EntryQueryControls
+             value={{ sortField: query.sortField, sortDirection: query.sortDirection, filters: query.filters }}
+             fields={knownFields}
+             onApply={handleApplySortAndFilters}
+             disabled={isActionPending}
+           />
+         )}
+
           {filterError && (
              <Alert variant="destructive">
                <AlertTitle>Filter Error</AlertTitle>
@@ -304,7 +401,7 @@ export function DataPreviewSection({
              </Alert>
           )}
 
-         {/* Data Table */}
+         {/* Data Table / Graph */}
         {error ? (
           <Alert variant="destructive">
             <AlertTitle>Loading Error</AlertTitle>
@@ -316,10 +413,60 @@ export function DataPreviewSection({
                <AlertDescription>Please select or create a dataset using the controls above or the upload form.</AlertDescription>
              </Alert>
         ) : (
-          <DataPreviewTable data={displayedData} relationships={initialRelationships} />
+          <Tabs defaultValue="table">
+            <TabsList>
+              <TabsTrigger value="table"><Table2 className="mr-2 h-4 w-4" /> Table</TabsTrigger>
+              <TabsTrigger value="graph"><Share2 className="mr-2 h-4 w-4" /> Graph</TabsTrigger>
+            </TabsList>
+            <TabsContent value="table">
+              <DataPreviewTable
+                data={displayedData}
+                relationships={initialRelationships}
+                datasetName={currentActiveName}
+                onEntriesDeleted={handleEntriesDeleted}
+              />
+            </TabsContent>
+            <TabsContent value="graph">
+              <DataGraphView
+                data={displayedData}
+                relationships={initialRelationships}
+                datasetName={currentActiveName}
+                onRelationshipCreated={() => router.refresh()}
+              />
+            </TabsContent>
+          </Tabs>
+        )}
+
+         {/* Pagination */}
+        {currentActiveName && !error && (
+          <div className="flex flex-col sm:flex-row items-center justify-between gap-2 text-sm">
+            <span className="text-muted-foreground">
+              {page.totalCount === 0
+                ? 'No matching entries.'
+                : `Showing ${firstShown}–${firstShown + displayedData.length - 1} of ${page.totalCount} entries.`}
+            </span>
+            <div className="flex items-center gap-2">
+              <Select value={String(pageSize)} onValueChange={handlePageSizeChange} disabled={isActionPending}>
+                <SelectTrigger className="w-[130px]" aria-label="Entries per page">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ENTRY_PAGE_SIZE_OPTIONS.map(size => (
+                    <SelectItem key={size} value={String(size)}>{size} per page</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button variant="outline" size="sm" onClick={handlePreviousPage} disabled={isActionPending || previousCursors.length === 0}>
+                <ChevronLeft className="mr-1 h-4 w-4" /> Previous
+              </Button>
+              <Button variant="outline" size="sm" onClick={handleNextPage} disabled={isActionPending || !page.nextCursor}>
+                Next <ChevronRight className="ml-1 h-4 w-4" />
+              </Button>
+            </div>
+          </div>
         )}
         {isActionPending && <p className="text-muted-foreground text-sm mt-2">
-            {isRefreshing ? 'Refreshing data...' : isFiltering ? 'Applying filter...' : isSwitchingDataset ? 'Switching dataset...' : ''}
+            {isRefreshing ? 'Refreshing data...' : isFiltering ? 'Applying filter...' : isSwitchingDataset ? 'Switching dataset...' : isLoadingPage ? 'Loading entries...' : ''}
         </p>}
       </CardContent>
     </Card>
@@ -2,7 +2,8 @@
 // src/components/data-preview-table.tsx
 "use client";
 
-import type { DataEntry, RelationshipEntry } from "@/services/types"; // Updated import path
+import { useEffect, useState, useTransition } from "react";
+import type { DataEntry, DeletionPreview, RelationshipEntry } from "@/services/types"; // Updated import path
 import {
   Table,
   TableBody,
@@ -15,14 +16,88 @@ import {
 import { ScrollArea, ScrollBar } from "@/components/ui/scroll-area";
 import Link from "next/link";
 import { Button } from "@/components/ui/button";
-import { Eye, Edit, Link2 } from "lucide-react";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Eye, Edit, Link2, Loader2, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { deleteDataAction, previewDeleteDataAction } from "@/actions/data-actions";
+import { entryPath } from "@/lib/paths";
 
 interface DataPreviewTableProps {
   data: DataEntry[]; // Expects DataEntry with string id
   relationships: RelationshipEntry[]; // Expects RelationshipEntry with string ids
+  datasetName: string; // Dataset the entries belong to, used for detail links
+  onEntriesDeleted?: (deletedIds: string[]) => void; // Called after entries were deleted
 }
 
-export function DataPreviewTable({ data, relationships }: DataPreviewTableProps) {
+export function DataPreviewTable({ data, relationships, datasetName, onEntriesDeleted }: DataPreviewTableProps) {
+  const { toast } = useToast();
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [pendingDeletion, setPendingDeletion] = useState<DeletionPreview | null>(null);
+  const [isPreparingDeletion, startPreparingDeletionTransition] = useTransition();
+  const [isDeleting, startDeletingTransition] = useTransition();
+
+  // Drop selections of entries that are no longer displayed (filtered out, deleted, dataset switched)
+  useEffect(() => {
+    setSelectedIds(prev => {
+      const visibleIds = new Set(data.map(entry => entry.id));
+      const next = new Set(Array.from(prev).filter(id => visibleIds.has(id)));
+      return next.size === prev.size ? prev : next;
+    });
+  }, [data]);
+
+  const allSelected = data.length > 0 && data.every(entry => selectedIds.has(entry.id));
+  const someSelected = selectedIds.size > 0 && !allSelected;
+
+  const toggleAll = (checked: boolean) => {
+    setSelectedIds(checked ? new Set(data.map(entry => entry.id)) : new Set());
+  };
+
+  const toggleOne = (id: string, checked: boolean) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(id); else next.delete(id);
+      return next;
+    });
+  };
+
+  // Deleting an entry cascades to its relationships, so ask the server what would be removed first
+  const requestDeletion = (ids: string[]) => {
+    startPreparingDeletionTransition(async () => {
+      const result = await previewDeleteDataAction(datasetName, ids);
+      if (result.success && result.data) {
+        setPendingDeletion(result.data as DeletionPreview);
+      } else {
+        toast({ variant: "destructive", title: "Error", description: result.error || "Could not prepare the deletion." });
+      }
+    });
+  };
+
+  const confirmDeletion = () => {
+    if (!pendingDeletion) return;
+    const ids = pendingDeletion.entryIds;
+    startDeletingTransition(async () => {
+      const result = await deleteDataAction(datasetName, ids);
+      if (result.success) {
+        const deletedIds: string[] = result.data ?? ids;
+        toast({ title: "Entries Deleted", description: result.message });
+        setSelectedIds(prev => new Set(Array.from(prev).filter(id => !deletedIds.includes(id))));
+        onEntriesDeleted?.(deletedIds);
+      } else {
+        toast({ variant: "destructive", title: "Delete Failed", description: result.error || "Failed to delete entries." });
+      }
+      setPendingDeletion(null);
+    });
+  };
+
   // Derive headers, ensuring 'id' is handled correctly
   const allKeys = data.reduce((keys, entry) => {
     // Use Object.keys on the entry itself (which includes 'id')
@@ -48,14 +123,35 @@ export function DataPreviewTable({ data, relationships }: DataPreviewTableProps)
   // Define display headers including the new 'Relationships' column
   const displayHeaders = ['id', 'Relationships', ...simpleHeaders.filter(h => h !== 'id'), 'Actions'];
 
-  // Helper to get target IDs for a given source ID (all as strings)
-  const getRelatedTargetIds = (entryId: string): string[] => {
-    return relationships
+  // Helper to get the target IDs of a given source ID, grouped by relationship type (sorted by type)
+  const getRelatedTargetIdsByType = (entryId: string): [string, string[]][] => {
+    const groups = new Map<string, string[]>();
+    relationships
       .filter(rel => rel.source_entry_id === entryId)
-      .map(rel => rel.target_entry_id); // target_entry_id is already a string
+      .forEach(rel => {
+        const targets = groups.get(rel.type) ?? [];
+        targets.push(rel.target_entry_id); // target_entry_id is already a string
+        groups.set(rel.type, targets);
+      });
+    return Array.from(groups.entries()).sort(([a], [b]) => a.localeCompare(b));
   };
 
   return (
+    <div className="space-y-2">
+    {selectedIds.size > 0 && (
+      <div className="flex items-center justify-between gap-2 rounded-md border bg-muted/50 px-3 py-2 text-sm">
+        <span>{selectedIds.size} entr{selectedIds.size === 1 ? 'y' : 'ies'} selected</span>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={() => setSelectedIds(new Set())} disabled={isPreparingDeletion || isDeleting}>
+            Clear Selection
+          </Button>
+          <Button variant="destructive" size="sm" onClick={() => requestDeletion(Array.from(selectedIds))} disabled={isPreparingDeletion || isDeleting}>
+            {isPreparingDeletion ? <Loader2 className="mr-1 h-3 w-3 animate-spin" /> : <Trash2 className="mr-1 h-3 w-3" />}
+            Delete Selected
+          </Button>
+        </div>
+      </div>
+    )}
     <ScrollArea className="rounded-md border w-full">
       <Table className="min-w-full">
         <TableCaption>
@@ -63,6 +159,14 @@ export function DataPreviewTable({ data, relationships }: DataPreviewTableProps)
         </TableCaption>
         <TableHeader>
           <TableRow>
+            <TableHead className="w-[40px] sticky top-0 bg-background z-10">
+              <Checkbox
+                checked={allSelected ? true : someSelected ? "indeterminate" : false}
+                onCheckedChange={(checked) => toggleAll(checked === true)}
+                disabled={data.length === 0}
+                aria-label="Select all entries"
+              />
+            </TableHead>
             {displayHeaders.map((header) => (
               <TableHead key={header} className="whitespace-nowrap sticky top-0 bg-background z-10">
                 {/* Capitalize header, handle 'ID' case */}
@@ -75,21 +179,34 @@ export function DataPreviewTable({ data, relationships }: DataPreviewTableProps)
           {data.length > 0 ? (
             data.map((entry, index) => {
                // entry.id is guaranteed to be a string by the type
-               const relatedIds = getRelatedTargetIds(entry.id);
+               const relatedGroups = getRelatedTargetIdsByType(entry.id);
                return (
-                 <TableRow key={entry.id}>
+                 <TableRow key={entry.id} data-state={selectedIds.has(entry.id) ? "selected" : undefined}>
+                   {/* Selection Column */}
+                   <TableCell>
+                     <Checkbox
+                       checked={selectedIds.has(entry.id)}
+                       onCheckedChange={(checked) => toggleOne(entry.id, checked === true)}
+                       aria-label={`Select entry ${entry.id}`}
+                     />
+                   </TableCell>
                    {/* ID Column */}
                    <TableCell className="whitespace-nowrap max-w-[150px] truncate font-medium">
                       {entry.id}
                    </TableCell>
                    {/* Relationships Column */}
                    <TableCell className="whitespace-nowrap max-w-[200px]">
-                    {relatedIds.length > 0 ? (
-                      <div className="flex flex-wrap gap-1">
-                        {relatedIds.map(targetId => (
-                          <Link key={targetId} href={`/data/${targetId}`} className="text-xs bg-secondary text-secondary-foreground px-1.5 py-0.5 rounded hover:bg-accent hover:text-accent-foreground transition-colors">
-                            {targetId}
-                          </Link>
+                    {relatedGroups.length > 0 ? (
+                      <div className="space-y-1">
+                        {relatedGroups.map(([type, targetIds]) => (
+                          <div key={type} className="flex flex-wrap items-center gap-1">
+                            <span className="text-[10px] font-medium uppercase tracking-wide text-muted-foreground">{type}</span>
+                            {targetIds.map(targetId => (
+                              <Link key={targetId} href={entryPath(datasetName, targetId)} className="text-xs bg-secondary text-secondary-foreground px-1.5 py-0.5 rounded hover:bg-accent hover:text-accent-foreground transition-colors">
+                                {targetId}
+                              </Link>
+                            ))}
+                          </div>
                         ))}
                       </div>
                     ) : (
@@ -106,19 +223,30 @@ export function DataPreviewTable({ data, relationships }: DataPreviewTableProps)
                     </TableCell>
                   ))}
                   {/* Actions Column */}
-                  <TableCell className="whitespace-nowrap text-right">
+                  <TableCell className="whitespace-nowrap text-right space-x-1">
                     <Button variant="outline" size="sm" asChild>
-                      <Link href={`/data/${entry.id}`}>
+                      <Link href={entryPath(datasetName, entry.id)}>
                         <Edit className="mr-1 h-3 w-3" /> View / Clean
                       </Link>
                     </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-destructive hover:text-destructive"
+                      onClick={() => requestDeletion([entry.id])}
+                      disabled={isPreparingDeletion || isDeleting}
+                      aria-label={`Delete entry ${entry.id}`}
+                      title="Delete entry"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
                   </TableCell>
                  </TableRow>
                );
             })
           ) : (
             <TableRow>
-              <TableCell colSpan={displayHeaders.length} className="h-24 text-center">
+              <TableCell colSpan={displayHeaders.length + 1} className="h-24 text-center">
                 No data to display matching the current filter or criteria.
               </TableCell>
             </TableRow>
@@ -127,5 +255,36 @@ export function DataPreviewTable({ data, relationships }: DataPreviewTableProps)
       </Table>
       <ScrollBar orientation="horizontal" />
     </ScrollArea>
+
+    {/* Delete Confirmation with cascade preview */}
+    <AlertDialog open={pendingDeletion !== null} onOpenChange={(open) => !open && !isDeleting && setPendingDeletion(null)}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>
+            Delete {pendingDeletion?.entryIds.length ?? 0} entr{pendingDeletion?.entryIds.length === 1 ? 'y' : 'ies'}?
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            {pendingDeletion && pendingDeletion.relationshipCount > 0
+              ? `This also removes ${pendingDeletion.relationshipCount} relationship${pendingDeletion.relationshipCount === 1 ? '' : 's'} from or to these entries. `
+              : 'No relationships are affected. '}
+            This cannot be undone.
+            {pendingDeletion && pendingDeletion.missingIds.length > 0 &&
+              ` ${pendingDeletion.missingIds.length} selected entr${pendingDeletion.missingIds.length === 1 ? 'y no longer exists' : 'ies no longer exist'} and will be skipped.`}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={isDeleting}>Cancel</AlertDialogCancel>
+          <Button
+            variant="destructive"
+            onClick={confirmDeletion}
+            disabled={isDeleting || !pendingDeletion || pendingDeletion.entryIds.length === 0}
+          >
+            {isDeleting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Delete
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+    </div>
   );
 }
@@ -2,10 +2,10 @@
 // src/components/data-upload-confirmation-dialog.tsx
 "use client";
 
-import { useState, useTransition, useEffect } from "react";
+import { useState, useTransition, useEffect, useMemo } from "react";
 import { useRouter } from "next/navigation";
 import type { DataEntry } from "@/services/types"; // Import type
-import { uploadDataAction, updateDataAction, createNewDatasetAction } from "@/actions/data-actions"; // Use createNewDatasetAction
+import { uploadDataAction, updateDataAction, patchDataAction, createNewDatasetAction, getDataByIdsAction } from "@/actions/data-actions"; // Use createNewDatasetAction
 import { useToast } from "@/hooks/use-toast";
 import {
   Dialog,
@@ -18,18 +18,34 @@ import {
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Loader2, Save, PlusCircle, Edit, FilePlus2 } from "lucide-react";
+import { datasetPath } from "@/lib/paths";
+import { DATASET_NAME_PATTERN } from "@/lib/utils";
+import type { ColumnType, DelimitedDialect } from "@/lib/csv";
+import { detectDialect, parseDelimitedTable, tableToEntries } from "@/lib/csv";
+import { DelimitedImportPreview } from "@/components/delimited-import-preview";
+import { classifyUpload } from "@/lib/json-diff";
+import { UploadDiffPreview } from "@/components/upload-diff-preview";
+
+// A CSV/TSV file read in the browser; it is parsed and converted to entries in the dialog
+export interface DelimitedFile {
+  name: string;
+  text: string;
+}
 
 interface DataUploadConfirmationDialogProps {
   isOpen: boolean;
   onClose: () => void;
   data: DataEntry | DataEntry[] | null; // Data can be single entry or array
+  delimitedFile?: DelimitedFile | null; // When set, the entries are built from this file instead of `data`
   onProcessingChange: (isProcessing: boolean) => void;
   allDatasetNames: string[]; // Added prop to receive existing names
+  activeDatasetName: string | null; // Dataset that Add/Update and Amend operate on
 }
 
 type UploadAction = "addNew" | "amend" | "createNew";
@@ -37,27 +53,93 @@ type UploadAction = "addNew" | "amend" | "createNew";
 export function DataUploadConfirmationDialog({
   isOpen,
   onClose,
-  data,
+  data: jsonData,
+  delimitedFile = null,
   onProcessingChange,
   allDatasetNames, // Use the prop
+  activeDatasetName,
 }: DataUploadConfirmationDialogProps) {
   const router = useRouter();
   const { toast } = useToast();
   const [isPending, startTransition] = useTransition();
   const [actionType, setActionType] = useState<UploadAction>("addNew");
   const [amendTargetId, setAmendTargetId] = useState<string>(""); // Amend target ID is a string
+  const [amendReplacesEntry, setAmendReplacesEntry] = useState(false); // Amend merges into the entry unless set
   const [newDatasetName, setNewDatasetName] = useState<string>(""); // State for new dataset name
   const [error, setError] = useState<string | null>(null);
+  const [dialect, setDialect] = useState<DelimitedDialect | null>(null); // Delimiter/quote/header of delimitedFile
+  const [columnTypeOverrides, setColumnTypeOverrides] = useState<Record<string, ColumnType>>({}); // Keyed by column name
+  const [storedEntries, setStoredEntries] = useState<DataEntry[] | null>(null); // Entries of the active set with uploaded IDs, for the dry run
+  const [diffError, setDiffError] = useState<string | null>(null);
+  const [selectedIndices, setSelectedIndices] = useState<Set<number>>(new Set()); // Uploaded entries to write with Add/Update
 
   // Reset state when dialog opens or data changes
   useEffect(() => {
     if (isOpen) {
-      setActionType("addNew");
+      setActionType(activeDatasetName ? "addNew" : "createNew");
       setAmendTargetId("");
+      setAmendReplacesEntry(false);
       setNewDatasetName(""); // Reset new dataset name
       setError(null);
+      setDialect(delimitedFile ? detectDialect(delimitedFile.text) : null);
+      setColumnTypeOverrides({});
+    }
+  }, [isOpen, activeDatasetName, delimitedFile]);
+
+  const delimitedTable = useMemo(
+    () => (delimitedFile && dialect ? parseDelimitedTable(delimitedFile.text, dialect) : null),
+    [delimitedFile, dialect]
+  );
+  const columnTypes = useMemo(
+    () => delimitedTable?.headers.map((header, index) => columnTypeOverrides[header] ?? delimitedTable.inferredTypes[index]) ?? [],
+    [delimitedTable, columnTypeOverrides]
+  );
+  // Entries to save: converted from the file with the chosen column types, or the uploaded JSON
+  const data = useMemo(
+    () => (delimitedTable ? tableToEntries(delimitedTable, columnTypes) : jsonData),
+    [delimitedTable, columnTypes, jsonData]
+  );
+
+  // Dry run of Add/Update: load the stored entries that the upload would overwrite and compare them
+  const uploadedEntries = useMemo(() => (Array.isArray(data) ? data : data ? [data] : []), [data]);
+  const uploadedIdsKey = useMemo(
+    () => JSON.stringify(Array.from(new Set(uploadedEntries.filter(entry => entry.id).map(entry => String(entry.id))))),
+    [uploadedEntries]
+  );
+  const showDiff = isOpen && actionType === "addNew" && !!activeDatasetName && uploadedEntries.length > 0;
+
+  useEffect(() => {
+    if (!showDiff || !activeDatasetName) return;
+    let cancelled = false;
+    const ids: string[] = JSON.parse(uploadedIdsKey);
+    setStoredEntries(null);
+    setDiffError(null);
+    if (ids.length === 0) {
+      setStoredEntries([]);
+      return;
     }
-  }, [isOpen]);
+    getDataByIdsAction(activeDatasetName, ids).then(result => {
+      if (cancelled) return;
+      if (result.success && Array.isArray(result.data)) {
+        setStoredEntries(result.data);
+      } else {
+        setDiffError(result.error || "Failed to compare the upload with the current set.");
+      }
+    });
+    return () => { cancelled = true; };
+  }, [showDiff, activeDatasetName, uploadedIdsKey]);
+
+  const uploadDiff = useMemo(
+    () => (showDiff && storedEntries ? classifyUpload(uploadedEntries, storedEntries) : null),
+    [showDiff, storedEntries, uploadedEntries]
+  );
+
+  // Entries that would not change anything start deselected
+  useEffect(() => {
+    if (uploadDiff) {
+      setSelectedIndices(new Set(uploadDiff.filter(item => item.status !== "unchanged").map(item => item.index)));
+    }
+  }, [uploadDiff]);
 
 
   const handleConfirm = () => {
@@ -68,6 +150,11 @@ export function DataUploadConfirmationDialog({
 
     setError(null); // Clear previous errors
 
+    if (actionType !== "createNew" && !activeDatasetName) {
+        setError("No dataset selected. Create a new data set instead.");
+        return;
+    }
+
     // Validation for 'amend' action
     if (actionType === "amend") {
       if (!amendTargetId.trim()) {
@@ -97,7 +184,7 @@ export function DataUploadConfirmationDialog({
             return;
         }
         // Basic validation for potentially problematic characters (optional)
-        if (/[^a-zA-Z0-9-_ ]/.test(trimmedName)) {
+        if (!DATASET_NAME_PATTERN.test(trimmedName)) {
              setError("Dataset name contains invalid characters. Use letters, numbers, spaces, hyphens, or underscores.");
              toast({ variant: "destructive", title: "Invalid Name", description: "Dataset name has invalid characters." });
              return;
@@ -115,19 +202,25 @@ export function DataUploadConfirmationDialog({
 
     startTransition(async () => {
       let result: { success: boolean; message?: string; error?: string };
+      let navigateTo: string | null = null;
 
       try {
         if (actionType === "addNew") {
           console.log("Dialog: Calling uploadDataAction (Add New to active dataset)");
+          // Only the entries selected in the dry run; all of them if it could not be run
+          const chosenEntries = uploadDiff ? uploadedEntries.filter((_, index) => selectedIndices.has(index)) : uploadedEntries;
           // Prepare data for addNew - ensuring string IDs if present
-          const dataToSend = Array.isArray(data)
-            ? data.map(entry => ({ ...entry, id: entry.id ? String(entry.id) : undefined }))
-            : { ...data, id: data.id ? String(data.id) : undefined };
-          result = await uploadDataAction(dataToSend); // Adds/updates in the currently active dataset
+          const dataToSend = chosenEntries.map(entry => ({ ...entry, id: entry.id ? String(entry.id) : undefined }));
+          result = await uploadDataAction(activeDatasetName!, dataToSend); // Adds/updates in the current dataset
         } else if (actionType === "amend"){
-          console.log(`Dialog: Calling updateDataAction (Amend ID: ${amendTargetId.trim()} in active dataset)`);
           // Data for amend should not have 'id', pass the target ID separately
-          result = await updateDataAction(amendTargetId.trim(), data as Omit<DataEntry, 'id'>);
+          if (amendReplacesEntry) {
+            console.log(`Dialog: Calling updateDataAction (Amend ID: ${amendTargetId.trim()} in dataset '${activeDatasetName}')`);
+            result = await updateDataAction(activeDatasetName!, amendTargetId.trim(), data as Omit<DataEntry, 'id'>, "upload");
+          } else {
+            console.log(`Dialog: Calling patchDataAction (Merge into ID: ${amendTargetId.trim()} in dataset '${activeDatasetName}')`);
+            result = await patchDataAction(activeDatasetName!, amendTargetId.trim(), { type: "merge", patch: data as Omit<DataEntry, 'id'> }, "upload");
+          }
         } else { // actionType === "createNew"
             // Prepare data, ensuring string IDs if present, or generating new ones
             const dataArray = Array.isArray(data) ? data : [data];
@@ -137,7 +230,8 @@ export function DataUploadConfirmationDialog({
             }));
             const datasetName = newDatasetName.trim();
             console.log(`Dialog: Calling createNewDatasetAction (Create/Replace: ${datasetName})`);
-            result = await createNewDatasetAction(datasetName, processedData); // Creates/replaces and sets as active
+            result = await createNewDatasetAction(datasetName, processedData); // Creates/replaces the dataset
+            navigateTo = datasetPath(datasetName); // Open the new dataset once created
         }
 
         if (result.success) {
@@ -145,7 +239,11 @@ export function DataUploadConfirmationDialog({
             title: "Success",
             description: result.message || "Data processed successfully.",
           });
-          router.refresh(); // Refresh to show changes (e.g., new active dataset, updated preview)
+          if (navigateTo) {
+            router.push(navigateTo); // Show the newly created dataset
+          } else {
+            router.refresh(); // Refresh to show changes in the updated preview
+          }
           onClose(); // Close the dialog on success
         } else {
           setError(result.error || "Failed to process data.");
@@ -179,8 +277,8 @@ export function DataUploadConfirmationDialog({
   const getConfirmButtonLabel = () => {
     if (isPending) return "Processing...";
     switch (actionType) {
-        case "addNew": return "Confirm Add/Update in Active Set"; // Updated label
-        case "amend": return "Confirm Amend in Active Set"; // Updated label
+        case "addNew": return uploadDiff ? `Confirm Add/Update of ${selectedIndices.size} Entries` : "Confirm Add/Update in Current Set"; // Updated label
+        case "amend": return "Confirm Amend in Current Set"; // Updated label
         case "createNew": return "Confirm Create/Replace Set"; // Updated label
         default: return "Confirm";
     }
@@ -198,6 +296,8 @@ export function DataUploadConfirmationDialog({
 
   const isConfirmDisabled = () => {
      if (isPending || !data) return true;
+     if (actionType !== 'createNew' && !activeDatasetName) return true; // Add/Amend need a dataset
+     if (actionType === 'addNew' && !diffError && (!uploadDiff || selectedIndices.size === 0)) return true; // Wait for the dry run; something must be selected
      if (actionType === 'amend' && (!amendTargetId.trim() || Array.isArray(data) || (data && typeof data === 'object' && 'id' in data) )) return true; // Disable if amending array or if data has ID
      if (actionType === 'createNew' && !newDatasetName.trim()) return true; // Disable if name is empty
      return false;
@@ -206,7 +306,7 @@ export function DataUploadConfirmationDialog({
 
   return (
     <Dialog open={isOpen} onOpenChange={handleOpenChange}>
-      <DialogContent className="sm:max-w-[600px] max-h-[90vh] flex flex-col">
+      <DialogContent className={`${delimitedFile ? "sm:max-w-[900px]" : "sm:max-w-[600px]"} max-h-[90vh] flex flex-col`}>
         <DialogHeader>
           <DialogTitle>Confirm Data Upload</DialogTitle>
           <DialogDescription>
@@ -215,10 +315,42 @@ export function DataUploadConfirmationDialog({
         </DialogHeader>
 
         <ScrollArea className="flex-grow border rounded-md p-4 my-4 bg-muted/50 overflow-auto">
+          {delimitedFile && dialect && delimitedTable ? (
+             <DelimitedImportPreview
+                fileName={delimitedFile.name}
+                table={delimitedTable}
+                dialect={dialect}
+                onDialectChange={(next) => {
+                  setDialect(next);
+                  setColumnTypeOverrides({}); // Columns may change with the delimiter or header row
+                }}
+                columnTypes={columnTypes}
+                onColumnTypeChange={(header, type) => setColumnTypeOverrides(prev => ({ ...prev, [header]: type }))}
+                disabled={isPending}
+             />
+          ) : (
+            <>
              <Label>Uploaded Data Preview (JSON)</Label>
              <pre className="mt-2 text-xs font-mono whitespace-pre-wrap break-words">
                 {data ? JSON.stringify(data, null, 2) : "No data loaded."}
              </pre>
+            </>
+          )}
+          {showDiff && (
+            <div className="mt-4 border-t pt-4">
+              {diffError ? (
+                <p className="text-sm text-destructive">{diffError} All entries will be written.</p>
+              ) : (
+                <UploadDiffPreview
+                  datasetName={activeDatasetName!}
+                  items={uploadDiff}
+                  selected={selectedIndices}
+                  onSelectionChange={setSelectedIndices}
+                  disabled={isPending}
+                />
+              )}
+            </div>
+          )}
         </ScrollArea>
 
         <div className="space-y-4">
@@ -230,21 +362,21 @@ export function DataUploadConfirmationDialog({
           >
             {/* Add New Option */}
             <div className="flex items-center space-x-3 space-y-0">
-              <RadioGroupItem value="addNew" id="r1" />
+              <RadioGroupItem value="addNew" id="r1" disabled={!activeDatasetName} />
               <Label htmlFor="r1" className="font-normal cursor-pointer flex items-center gap-2">
-                <PlusCircle className="h-4 w-4 text-green-600" /> Add/Update in Active Set
+                <PlusCircle className="h-4 w-4 text-green-600" /> Add/Update in Current Set
               </Label>
             </div>
-             <p className="text-xs text-muted-foreground pl-8">Adds new entries or updates existing entries (based on ID) in the current data set.</p>
+             <p className="text-xs text-muted-foreground pl-8">Adds new entries or updates existing entries (based on ID) in the current data set{activeDatasetName ? ` ('${activeDatasetName}')` : ''}.</p>
 
             {/* Amend Option */}
             <div className="flex items-center space-x-3 space-y-0 mt-2">
-              <RadioGroupItem value="amend" id="r2" />
+              <RadioGroupItem value="amend" id="r2" disabled={!activeDatasetName} />
               <Label htmlFor="r2" className="font-normal cursor-pointer flex items-center gap-2">
                  <Edit className="h-4 w-4 text-blue-600" /> Amend Specific Entry
               </Label>
             </div>
-            <p className="text-xs text-muted-foreground pl-8">Replaces the data of a specific entry ID in the active data set (requires single object upload, without an 'id' field in the JSON).</p>
+            <p className="text-xs text-muted-foreground pl-8">Merges the uploaded fields into a specific entry ID in the current data set; fields not in the upload are kept and fields set to null are removed (requires single object upload, without an 'id' field in the JSON).</p>
 
 
             {/* Create New Option */}
@@ -254,7 +386,7 @@ export function DataUploadConfirmationDialog({
                  <FilePlus2 className="h-4 w-4 text-orange-600" /> Create/Replace Data Set
               </Label>
             </div>
-             <p className="text-xs text-muted-foreground pl-8">Creates a new data set with the uploaded data or replaces an existing one with the same name. Sets it as active.</p>
+             <p className="text-xs text-muted-foreground pl-8">Creates a new data set with the uploaded data or replaces an existing one with the same name, then opens it.</p>
           </RadioGroup>
 
            {/* Conditional Inputs */}
@@ -265,7 +397,7 @@ export function DataUploadConfirmationDialog({
                    <Input
                      id="amend-id"
                      type="text"
-                     placeholder="Enter the ID of the entry to replace"
+                     placeholder="Enter the ID of the entry to amend"
                      value={amendTargetId}
                      onChange={(e) => setAmendTargetId(e.target.value)}
                      disabled={isPending}
@@ -277,6 +409,17 @@ export function DataUploadConfirmationDialog({
                   {Array.isArray(data) && (
                        <p className="text-xs text-destructive">Cannot amend with an array of objects.</p>
                   )}
+                  <div className="flex items-center space-x-2 pt-1">
+                    <Checkbox
+                      id="amend-replace"
+                      checked={amendReplacesEntry}
+                      onCheckedChange={(checked) => setAmendReplacesEntry(checked === true)}
+                      disabled={isPending}
+                    />
+                    <Label htmlFor="amend-replace" className="font-normal cursor-pointer text-xs">
+                      Replace the whole entry instead (fields not in the upload are removed)
+                    </Label>
+                  </div>
                  </div>
                )}
 
@@ -5,7 +5,7 @@
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
-import { useState } from "react";
+import { useRef, useState, type ChangeEvent } from "react";
 
 import { Button } from "@/components/ui/button";
 import {
@@ -16,11 +16,15 @@ import {
   FormLabel,
   FormMessage,
 } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
-import { Upload } from "lucide-react";
+import { FileUp, Upload } from "lucide-react";
 import type { DataEntry } from "@/services/types"; // Import DataEntry type
-import { DataUploadConfirmationDialog } from "@/components/data-upload-confirmation-dialog";
+import { DataUploadConfirmationDialog, type DelimitedFile } from "@/components/data-upload-confirmation-dialog";
+import { WorkbookImportDialog } from "@/components/workbook-import-dialog";
+import { StreamingImportDialog } from "@/components/streaming-import-dialog";
+import { readWorkbook, WORKBOOK_FILE_EXTENSIONS, type WorkbookSheet } from "@/lib/xlsx";
 
 // Basic schema, allows arbitrary key-value pairs via JSON input
 const formSchema = z.object({
@@ -41,16 +45,26 @@ const formSchema = z.object({
 
 type FormData = z.infer<typeof formSchema>;
 
+const DELIMITED_FILE_EXTENSIONS = [".csv", ".tsv", ".txt"];
+const NDJSON_FILE_EXTENSIONS = [".ndjson", ".jsonl"];
+const STREAMING_THRESHOLD_BYTES = 5 * 1024 * 1024; // Larger JSON files are streamed to the import route
+const EMPTY_SHEETS: WorkbookSheet[] = []; // Stable reference while no workbook is loaded
+
 interface DataUploadFormProps {
     allDatasetNames: string[]; // Receive all dataset names
+    activeDatasetName: string | null; // Dataset in the URL that Add/Amend operate on
 }
 
-export function DataUploadForm({ allDatasetNames }: DataUploadFormProps) {
+export function DataUploadForm({ allDatasetNames, activeDatasetName }: DataUploadFormProps) {
   const { toast } = useToast();
   const [isProcessing, setIsProcessing] = useState(false);
   const [parsedData, setParsedData] = useState<DataEntry | DataEntry[] | null>(null);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [delimitedFile, setDelimitedFile] = useState<DelimitedFile | null>(null);
+  const [workbook, setWorkbook] = useState<{ fileName: string; sheets: WorkbookSheet[] } | null>(null);
+  const [streamingFile, setStreamingFile] = useState<File | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   const form = useForm<FormData>({
     resolver: zodResolver(formSchema),
@@ -62,9 +76,55 @@ export function DataUploadForm({ allDatasetNames }: DataUploadFormProps) {
   const handleDialogClose = () => {
     setIsDialogOpen(false);
     setParsedData(null);
+    setDelimitedFile(null);
+    setWorkbook(null);
+    setStreamingFile(null);
     form.reset();
   };
 
+  // Small JSON files are loaded into the text area; CSV/TSV files go straight to the confirmation dialog,
+  // workbooks to the sheet mapping dialog, and NDJSON or large JSON files to the streaming import
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ""; // Allow picking the same file again
+    if (!file) return;
+    setError(null);
+    try {
+      const lowerName = file.name.toLowerCase();
+      if (NDJSON_FILE_EXTENSIONS.some(extension => lowerName.endsWith(extension))
+          || (lowerName.endsWith(".json") && file.size > STREAMING_THRESHOLD_BYTES)) {
+        console.log(`Streaming import selected for '${file.name}' (${file.size} bytes)`);
+        setStreamingFile(file);
+        setIsDialogOpen(true);
+        return;
+      }
+      if (WORKBOOK_FILE_EXTENSIONS.some(extension => lowerName.endsWith(extension))) {
+        const sheets = await readWorkbook(await file.arrayBuffer());
+        console.log(`Loaded workbook '${file.name}' with sheets: ${sheets.map(sheet => sheet.name).join(", ")}`);
+        setWorkbook({ fileName: file.name, sheets });
+        setIsDialogOpen(true);
+        return;
+      }
+      const text = await file.text();
+      if (DELIMITED_FILE_EXTENSIONS.some(extension => lowerName.endsWith(extension))) {
+        console.log(`Loaded delimited file '${file.name}' (${file.size} bytes)`);
+        setDelimitedFile({ name: file.name, text });
+        setIsDialogOpen(true);
+      } else {
+        form.setValue("jsonData", text, { shouldValidate: true });
+      }
+    } catch (error) {
+      console.error("Reading file failed:", error);
+      const errorMessage = error instanceof Error ? error.message : "Could not read the file.";
+      setError(errorMessage);
+      toast({
+        variant: "destructive",
+        title: "Invalid File",
+        description: errorMessage,
+      });
+    }
+  };
+
   async function onSubmit(values: FormData) {
     setIsProcessing(true);
     setError(null);
@@ -123,20 +183,58 @@ export function DataUploadForm({ allDatasetNames }: DataUploadFormProps) {
               </FormItem>
             )}
           />
-          <Button type="submit" disabled={isProcessing || isDialogOpen}>
-            <Upload className="mr-2 h-4 w-4" />
-            {isProcessing ? "Processing..." : isDialogOpen ? "Confirming..." : "Upload Data"}
-          </Button>
+          <div className="flex flex-wrap items-center gap-2">
+            <Button type="submit" disabled={isProcessing || isDialogOpen}>
+              <Upload className="mr-2 h-4 w-4" />
+              {isProcessing ? "Processing..." : isDialogOpen ? "Confirming..." : "Upload Data"}
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isProcessing || isDialogOpen}
+            >
+              <FileUp className="mr-2 h-4 w-4" /> Upload File
+            </Button>
+            <Input
+              aria-label="Data file"
+              ref={fileInputRef}
+              type="file"
+              accept=".json,.ndjson,.jsonl,.csv,.tsv,.txt,.xlsx,.xls,application/json,text/csv,text/tab-separated-values"
+              className="hidden"
+              onChange={handleFileChange}
+            />
+            <span className="text-sm text-muted-foreground">JSON, NDJSON, CSV, TSV or Excel</span>
+          </div>
         </form>
       </Form>
 
       {/* Render the confirmation dialog, passing dataset names */}
        <DataUploadConfirmationDialog
-          isOpen={isDialogOpen}
+          isOpen={isDialogOpen && !workbook && !streamingFile}
           onClose={handleDialogClose}
           data={parsedData}
+          delimitedFile={delimitedFile}
           onProcessingChange={setIsProcessing}
           allDatasetNames={allDatasetNames} // Pass the list of names
+          activeDatasetName={activeDatasetName}
+       />
+       <StreamingImportDialog
+          isOpen={isDialogOpen && !!streamingFile}
+          onClose={handleDialogClose}
+          file={streamingFile}
+          onProcessingChange={setIsProcessing}
+          allDatasetNames={allDatasetNames}
+          activeDatasetName={activeDatasetName}
+       />
+       <WorkbookImportDialog
+          isOpen={isDialogOpen && !!workbook}
+          onClose={handleDialogClose}
+          fileName={workbook?.fileName ?? ""}
+          sheets={workbook?.sheets ?? EMPTY_SHEETS}
+          onProcessingChange={setIsProcessing}
+          allDatasetNames={allDatasetNames}
+          activeDatasetName={activeDatasetName}
        />
     </>
   );
@@ -0,0 +1,387 @@
+// src/components/dataset-management.tsx
+"use client";
+
+import { useState, useTransition } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { ArchiveRestore, Copy, Database, FileText, HardDriveDownload, Loader2, Pencil, TextCursorInput, Trash2 } from "lucide-react";
+
+import type { DatasetInfo } from "@/services/types";
+import {
+  cloneDatasetAction,
+  deleteDatasetAction,
+  getAllDatasetsAction,
+  renameDatasetAction,
+  updateDatasetMetadataAction,
+} from "@/actions/data-actions";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { DatasetRestoreDialog } from "@/components/dataset-restore-dialog";
+import { datasetApiPath, datasetInfoPath, datasetPath } from "@/lib/paths";
+import { DATASET_NAME_HINT, DATASET_NAME_PATTERN } from "@/lib/utils";
+
+interface DatasetManagementProps {
+  initialDatasets: DatasetInfo[];
+  error: string | null;
+}
+
+// Which dialog is open, and for which dataset
+type DialogState =
+  | { kind: "edit"; dataset: DatasetInfo }
+  | { kind: "rename"; dataset: DatasetInfo }
+  | { kind: "clone"; dataset: DatasetInfo }
+  | { kind: "delete"; dataset: DatasetInfo }
+  | null;
+
+function formatTimestamp(value: Date | string): string {
+  return new Date(value).toLocaleString();
+}
+
+export function DatasetManagement({ initialDatasets, error: initialError }: DatasetManagementProps) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [datasets, setDatasets] = useState<DatasetInfo[]>(initialDatasets);
+  const [error, setError] = useState<string | null>(initialError);
+  const [dialog, setDialog] = useState<DialogState>(null);
+  const [isRestoreOpen, setIsRestoreOpen] = useState(false);
+  const [isPending, startTransition] = useTransition();
+
+  // Form state shared by the dialogs; reset whenever a dialog opens
+  const [description, setDescription] = useState("");
+  const [owner, setOwner] = useState("");
+  const [tags, setTags] = useState("");
+  const [nameInput, setNameInput] = useState("");
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const openDialog = (next: NonNullable<DialogState>) => {
+    setFormError(null);
+    setDescription(next.dataset.description ?? "");
+    setOwner(next.dataset.owner ?? "");
+    setTags(next.dataset.tags.join(", "));
+    setNameInput(next.kind === "clone" ? `${next.dataset.name} copy` : next.kind === "rename" ? next.dataset.name : "");
+    setDialog(next);
+  };
+
+  const closeDialog = () => {
+    if (!isPending) setDialog(null);
+  };
+
+  const reloadDatasets = async () => {
+    const result = await getAllDatasetsAction();
+    if (result.success && Array.isArray(result.data)) {
+      setDatasets(result.data);
+      setError(null);
+    } else {
+      setError(result.error || "Failed to reload datasets.");
+    }
+    router.refresh();
+  };
+
+  const runAction = (action: () => Promise<{ success: boolean; message?: string; error?: string }>, successTitle: string) => {
+    setFormError(null);
+    startTransition(async () => {
+      const result = await action();
+      if (result.success) {
+        toast({ title: successTitle, description: result.message });
+        setDialog(null);
+        await reloadDatasets();
+      } else {
+        setFormError(result.error || "The operation failed.");
+        toast({ variant: "destructive", title: "Error", description: result.error || "The operation failed." });
+      }
+    });
+  };
+
+  const handleSaveMetadata = () => {
+    if (dialog?.kind !== "edit") return;
+    const name = dialog.dataset.name;
+    runAction(
+      () => updateDatasetMetadataAction(name, {
+        description,
+        owner,
+        tags: tags.split(","),
+      }),
+      "Details Saved"
+    );
+  };
+
+  const handleRenameOrClone = () => {
+    if (dialog?.kind !== "rename" && dialog?.kind !== "clone") return;
+    const trimmedName = nameInput.trim();
+    if (!trimmedName) {
+      setFormError("Please enter a dataset name.");
+      return;
+    }
+    if (!DATASET_NAME_PATTERN.test(trimmedName)) {
+      setFormError(DATASET_NAME_HINT);
+      return;
+    }
+    const name = dialog.dataset.name;
+    if (dialog.kind === "rename") {
+      runAction(() => renameDatasetAction(name, trimmedName), "Dataset Renamed");
+    } else {
+      runAction(() => cloneDatasetAction(name, trimmedName), "Dataset Cloned");
+    }
+  };
+
+  const handleDelete = () => {
+    if (dialog?.kind !== "delete") return;
+    const name = dialog.dataset.name;
+    runAction(() => deleteDatasetAction(name, nameInput), "Dataset Deleted");
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div>
+          <CardTitle>Datasets</CardTitle>
+          <CardDescription className="mt-1 flex items-center gap-1">
+            <Database className="h-4 w-4 text-muted-foreground" />
+            <span>Describe, rename, clone, back up or delete your datasets.</span>
+          </CardDescription>
+        </div>
+        <Button variant="outline" onClick={() => setIsRestoreOpen(true)}>
+          <ArchiveRestore className="mr-2 h-4 w-4" /> Restore Backup
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertTitle>Error</AlertTitle>
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {datasets.length === 0 && !error ? (
+          <p className="text-center text-muted-foreground py-4">
+            No datasets yet. <Link href="/" className="text-primary hover:underline">Upload data</Link> to create one.
+          </p>
+        ) : (
+          <div className="rounded-md border overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Description</TableHead>
+                  <TableHead>Owner</TableHead>
+                  <TableHead>Tags</TableHead>
+                  <TableHead className="text-right">Entries</TableHead>
+                  <TableHead className="text-right">Relationships</TableHead>
+                  <TableHead>Last Modified</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {datasets.map((dataset) => (
+                  <TableRow key={dataset.name}>
+                    <TableCell className="font-medium whitespace-nowrap">
+                      <Link href={datasetPath(dataset.name)} className="text-primary hover:underline">
+                        {dataset.name}
+                      </Link>
+                    </TableCell>
+                    <TableCell className="max-w-[300px] truncate" title={dataset.description ?? undefined}>
+                      {dataset.description || <span className="text-muted-foreground">-</span>}
+                    </TableCell>
+                    <TableCell>{dataset.owner || <span className="text-muted-foreground">-</span>}</TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {dataset.tags.map((tag) => (
+                          <Badge key={tag} variant="secondary">{tag}</Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">{dataset.entry_count}</TableCell>
+                    <TableCell className="text-right">{dataset.relationship_count}</TableCell>
+                    <TableCell className="whitespace-nowrap text-xs text-muted-foreground">
+                      {formatTimestamp(dataset.updated_at)}
+                    </TableCell>
+                    <TableCell className="text-right whitespace-nowrap">
+                      <Button variant="ghost" size="icon" title="Info and schema" asChild>
+                        <Link href={datasetInfoPath(dataset.name)}>
+                          <FileText className="h-4 w-4" />
+                        </Link>
+                      </Button>
+                      <Button variant="ghost" size="icon" title="Edit details" onClick={() => openDialog({ kind: "edit", dataset })}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" title="Rename" onClick={() => openDialog({ kind: "rename", dataset })}>
+                        <TextCursorInput className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" title="Clone" onClick={() => openDialog({ kind: "clone", dataset })}>
+                        <Copy className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" title="Back up (entries, relationships and details)" asChild>
+                        <a href={`${datasetApiPath(dataset.name)}/backup`} download>
+                          <HardDriveDownload className="h-4 w-4" />
+                        </a>
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Delete"
+                        className="text-destructive hover:text-destructive"
+                        onClick={() => openDialog({ kind: "delete", dataset })}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+
+      {/* Edit Metadata Dialog */}
+      <Dialog open={dialog?.kind === "edit"} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>Edit Details</DialogTitle>
+            <DialogDescription>
+              Describe dataset <span className="font-medium">{dialog?.dataset.name}</span>.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label htmlFor="dataset-description">Description</Label>
+              <Textarea
+                id="dataset-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                disabled={isPending}
+                rows={4}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="dataset-owner">Owner</Label>
+              <Input id="dataset-owner" value={owner} onChange={(e) => setOwner(e.target.value)} disabled={isPending} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="dataset-tags">Tags</Label>
+              <Input
+                id="dataset-tags"
+                placeholder="Comma-separated, e.g. customers, 2024"
+                value={tags}
+                onChange={(e) => setTags(e.target.value)}
+                disabled={isPending}
+              />
+            </div>
+            {formError && <p className="text-sm text-destructive">{formError}</p>}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={closeDialog} disabled={isPending}>Cancel</Button>
+            <Button onClick={handleSaveMetadata} disabled={isPending}>
+              {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Rename / Clone Dialog */}
+      <Dialog open={dialog?.kind === "rename" || dialog?.kind === "clone"} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent className="sm:max-w-[450px]">
+          <DialogHeader>
+            <DialogTitle>{dialog?.kind === "clone" ? "Clone Dataset" : "Rename Dataset"}</DialogTitle>
+            <DialogDescription>
+              {dialog?.kind === "clone"
+                ? <>Copy all entries and relationships of <span className="font-medium">{dialog?.dataset.name}</span> into a new dataset.</>
+                : <>Entries and relationships of <span className="font-medium">{dialog?.dataset.name}</span> keep their IDs.</>}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-1">
+            <Label htmlFor="dataset-new-name">New Name</Label>
+            <Input
+              id="dataset-new-name"
+              value={nameInput}
+              onChange={(e) => setNameInput(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleRenameOrClone()}
+              disabled={isPending}
+            />
+            {formError && <p className="text-sm text-destructive">{formError}</p>}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={closeDialog} disabled={isPending}>Cancel</Button>
+            <Button onClick={handleRenameOrClone} disabled={isPending}>
+              {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {dialog?.kind === "clone" ? "Clone" : "Rename"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <DatasetRestoreDialog
+        isOpen={isRestoreOpen}
+        onClose={() => setIsRestoreOpen(false)}
+        existingDatasetNames={datasets.map(dataset => dataset.name)}
+        onRestored={reloadDatasets}
+      />
+
+      {/* Delete Confirmation */}
+      <AlertDialog open={dialog?.kind === "delete"} onOpenChange={(open) => !open && closeDialog()}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete dataset "{dialog?.dataset.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This permanently deletes {dialog?.dataset.entry_count ?? 0} entries and {dialog?.dataset.relationship_count ?? 0} relationships.
+              Type the dataset name to confirm.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="space-y-1">
+            <Input
+              aria-label="Dataset name confirmation"
+              placeholder={dialog?.dataset.name}
+              value={nameInput}
+              onChange={(e) => setNameInput(e.target.value)}
+              disabled={isPending}
+            />
+            {formError && <p className="text-sm text-destructive">{formError}</p>}
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isPending}>Cancel</AlertDialogCancel>
+            <Button
+              variant="destructive"
+              onClick={handleDelete}
+              disabled={isPending || nameInput !== dialog?.dataset.name}
+            >
+              {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Delete
+            </Button>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
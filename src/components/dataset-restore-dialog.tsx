@@ -0,0 +1,248 @@
+// src/components/dataset-restore-dialog.tsx
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { ArchiveRestore, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import type { RestoreCollisionMode, RestoreSummary } from "@/services/types";
+import { ARCHIVE_FILE_EXTENSION, readArchiveHeader, type ArchiveHeader } from "@/lib/dataset-archive";
+import { datasetApiPath } from "@/lib/paths";
+import { DATASET_NAME_HINT, DATASET_NAME_PATTERN, formatBytes } from "@/lib/utils";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+
+interface DatasetRestoreDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  existingDatasetNames: string[];
+  onRestored: () => Promise<void> | void;
+}
+
+// Response envelope of the restore route
+interface RestoreResponse {
+  success: boolean;
+  message?: string;
+  error?: string;
+  data?: RestoreSummary;
+}
+
+const COLLISION_OPTIONS: { value: RestoreCollisionMode; label: string; description: string }[] = [
+  { value: "skip", label: "Skip", description: "Keep existing entries; archived entries with the same ID are left out." },
+  { value: "overwrite", label: "Overwrite", description: "Replace existing entries (and the dataset details) with the archived ones." },
+  { value: "remap", label: "Remap", description: "Restore colliding entries under new IDs; their relationships follow." },
+];
+
+/**
+ * Restores a backup archive (downloaded with the Back Up button) into a new or existing dataset.
+ * The archive's first line is read in the browser to suggest the target name; the file itself is
+ * uploaded to the restore route, which writes it in one transaction.
+ */
+export function DatasetRestoreDialog({ isOpen, onClose, existingDatasetNames, onRestored }: DatasetRestoreDialogProps) {
+  const { toast } = useToast();
+  const requestRef = useRef<XMLHttpRequest | null>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [header, setHeader] = useState<ArchiveHeader | null>(null);
+  const [targetName, setTargetName] = useState("");
+  const [collision, setCollision] = useState<RestoreCollisionMode>("skip");
+  const [uploadedBytes, setUploadedBytes] = useState(0);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setFile(null);
+      setHeader(null);
+      setTargetName("");
+      setCollision("skip");
+      setUploadedBytes(0);
+      setError(null);
+    }
+  }, [isOpen]);
+
+  const trimmedTarget = targetName.trim();
+  const targetExists = existingDatasetNames.includes(trimmedTarget);
+  const percent = file && file.size > 0 ? Math.min(100, Math.round((uploadedBytes / file.size) * 100)) : 0;
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0] ?? null;
+    setFile(selected);
+    setHeader(null);
+    setError(null);
+    if (!selected) return;
+    try {
+      const archiveHeader = await readArchiveHeader(selected.stream());
+      setHeader(archiveHeader);
+      setTargetName(archiveHeader.dataset.name);
+    } catch (e) {
+      console.error("Failed to read backup archive:", e);
+      setError(e instanceof Error ? e.message : "The file is not a DataHarbor backup archive.");
+    }
+  };
+
+  const finish = (nextError: string | null) => {
+    requestRef.current = null;
+    setIsRestoring(false);
+    setError(nextError);
+  };
+
+  const handleRestore = () => {
+    if (!file || !header) return;
+    if (!trimmedTarget) {
+      setError("Please enter a dataset name.");
+      return;
+    }
+    if (!DATASET_NAME_PATTERN.test(trimmedTarget)) {
+      setError(DATASET_NAME_HINT);
+      return;
+    }
+
+    setError(null);
+    setUploadedBytes(0);
+    setIsRestoring(true);
+    console.log(`Restoring backup '${file.name}' into dataset '${trimmedTarget}' (collision: ${collision})`);
+
+    const request = new XMLHttpRequest();
+    requestRef.current = request;
+    request.open("POST", `${datasetApiPath(trimmedTarget)}/restore?collision=${collision}`);
+    request.setRequestHeader("Content-Type", file.name.toLowerCase().endsWith(".gz") ? "application/gzip" : "application/x-ndjson");
+    request.responseType = "json";
+    request.upload.onprogress = (event) => setUploadedBytes(event.loaded);
+    request.onload = async () => {
+      const response = request.response as RestoreResponse | null;
+      if (request.status >= 200 && request.status < 300 && response?.success) {
+        finish(null);
+        const summary = response.data;
+        const details = summary && (summary.entriesSkipped > 0 || summary.entriesRemapped > 0 || summary.entriesOverwritten > 0)
+          ? ` ${summary.entriesOverwritten} overwritten, ${summary.entriesSkipped} skipped, ${summary.entriesRemapped} remapped.`
+          : "";
+        toast({ title: "Backup Restored", description: `${response.message ?? ""}${details}` });
+        onClose();
+        await onRestored();
+      } else {
+        const message = response?.error || `Restore failed (HTTP ${request.status}).`;
+        finish(message);
+        toast({ variant: "destructive", title: "Restore Failed", description: message });
+      }
+    };
+    request.onerror = () => finish("Network error while uploading the archive. Nothing was restored.");
+    request.onabort = () => finish("Upload cancelled. Nothing was restored.");
+    request.send(file);
+  };
+
+  const handleCancel = () => {
+    if (requestRef.current) {
+      requestRef.current.abort(); // The restore runs in one transaction, so aborting leaves the dataset unchanged
+      return;
+    }
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { if (!open && !isRestoring) onClose(); }}>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle>Restore Backup</DialogTitle>
+          <DialogDescription>
+            Restore a dataset with its entries, relationships and details from a {ARCHIVE_FILE_EXTENSION} archive.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label htmlFor="restore-file">Backup Archive</Label>
+            <Input
+              id="restore-file"
+              type="file"
+              accept=".gz,.ndjson"
+              onChange={handleFileChange}
+              disabled={isRestoring}
+            />
+            {header && file && (
+              <p className="text-xs text-muted-foreground">
+                Backup of '{header.dataset.name}' from {new Date(header.exported_at).toLocaleString()}: {header.entry_count} entries,{" "}
+                {header.relationship_count} relationships ({formatBytes(file.size)}).
+              </p>
+            )}
+          </div>
+
+          {header && (
+            <div className="space-y-1">
+              <Label htmlFor="restore-target">Restore Into</Label>
+              <Input
+                id="restore-target"
+                value={targetName}
+                onChange={(e) => setTargetName(e.target.value)}
+                disabled={isRestoring}
+              />
+              <p className="text-xs text-muted-foreground">
+                {targetExists
+                  ? "This dataset exists; the archive is merged into it."
+                  : "A new dataset is created."}
+              </p>
+            </div>
+          )}
+
+          {header && targetExists && (
+            <div className="space-y-2">
+              <Label>Entries With an Existing ID</Label>
+              <RadioGroup
+                value={collision}
+                onValueChange={(value: string) => setCollision(value as RestoreCollisionMode)}
+                disabled={isRestoring}
+                className="space-y-1"
+              >
+                {COLLISION_OPTIONS.map(option => (
+                  <div key={option.value} className="flex items-start space-x-3 space-y-0">
+                    <RadioGroupItem value={option.value} id={`restore-${option.value}`} className="mt-0.5" />
+                    <Label htmlFor={`restore-${option.value}`} className="font-normal cursor-pointer">
+                      <span className="font-medium">{option.label}</span>
+                      <span className="block text-xs text-muted-foreground">{option.description}</span>
+                    </Label>
+                  </div>
+                ))}
+              </RadioGroup>
+            </div>
+          )}
+
+          {isRestoring && (
+            <div className="space-y-2">
+              <Progress value={percent} aria-label="Restore progress" />
+              <p className="text-xs text-muted-foreground">
+                {percent < 100 ? `Uploading and restoring... ${percent}%` : "Writing the last rows and committing..."}
+              </p>
+            </div>
+          )}
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertTitle>Error</AlertTitle>
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleCancel}>
+            {isRestoring ? "Cancel Upload" : "Cancel"}
+          </Button>
+          <Button onClick={handleRestore} disabled={isRestoring || !header || !trimmedTarget}>
+            {isRestoring ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <ArchiveRestore className="mr-2 h-4 w-4" />}
+            {isRestoring ? "Restoring..." : "Restore"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,315 @@
+// src/components/dataset-schema-editor.tsx
+"use client";
+
+import { useRef, useState, useTransition } from "react";
+import { Loader2, Plus, Save, Sparkles, Trash2 } from "lucide-react";
+import type { DatasetSchema, DatasetSchemaField, DatasetSchemaFieldType } from "@/services/types";
+import { inferDatasetSchemaAction, saveDatasetSchemaAction } from "@/actions/data-actions";
+import { useToast } from "@/hooks/use-toast";
+import {
+  DATASET_SCHEMA_FIELD_TYPE_LABELS,
+  DATASET_SCHEMA_FIELD_TYPES,
+  DEFAULT_SCHEMA_SAMPLE_SIZE,
+  EMPTY_DATASET_SCHEMA,
+  MAX_SCHEMA_FIELDS,
+  MAX_SCHEMA_SAMPLE_SIZE,
+  clampSchemaSampleSize,
+  datasetSchemaError,
+} from "@/lib/dataset-schema";
+import { isDeepEqual } from "@/lib/json-diff";
+import { formatModelName } from "@/lib/ai-models";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+
+interface DatasetSchemaEditorProps {
+  datasetName: string;
+  initialSchema: DatasetSchema | null;
+  entryCount: number;
+  inferenceModel: string | null; // Model schema inference runs on; null if the configuration is invalid
+}
+
+// A field being edited, with a stable key so inputs keep their state when fields are removed
+interface EditableField {
+  key: number;
+  field: DatasetSchemaField;
+}
+
+/** Parses the comma-separated allowed values of a field; numbers stay numbers for numeric fields. */
+function parseEnum(value: string, type: DatasetSchemaFieldType): (string | number)[] | undefined {
+  const values = value.split(",").map(item => item.trim()).filter(Boolean);
+  if (values.length === 0) return undefined;
+  const numeric = type === "number" || type === "integer";
+  return Array.from(new Set(values.map(item => (numeric && Number.isFinite(Number(item)) ? Number(item) : item))));
+}
+
+/**
+ * Editor of a dataset's documented schema: what an entry represents, and for each field its type, whether it may be
+ * missing, its allowed values and format, and what it means. The schema can be inferred by the AI model from a
+ * random sample of entries and then corrected by hand.
+ */
+export function DatasetSchemaEditor({ datasetName, initialSchema, entryCount, inferenceModel }: DatasetSchemaEditorProps) {
+  const { toast } = useToast();
+  const nextKey = useRef(0);
+  const toItems = (fields: DatasetSchemaField[]) => fields.map(field => ({ key: nextKey.current++, field }));
+  const [savedSchema, setSavedSchema] = useState<DatasetSchema | null>(initialSchema);
+  const [description, setDescription] = useState(initialSchema?.description ?? "");
+  const [items, setItems] = useState<EditableField[]>(() => toItems(initialSchema?.fields ?? []));
+  const [inferredBy, setInferredBy] = useState(initialSchema?.inferred_by ?? null);
+  const [sampleSize, setSampleSize] = useState(DEFAULT_SCHEMA_SAMPLE_SIZE);
+  const [isSaving, startSavingTransition] = useTransition();
+  const [isInferring, startInferringTransition] = useTransition();
+
+  const schema: DatasetSchema = { description, fields: items.map(item => item.field), inferred_by: inferredBy };
+  const schemaError = datasetSchemaError(schema);
+  const isDirty = !isDeepEqual(schema, savedSchema ?? EMPTY_DATASET_SCHEMA);
+  const isPending = isSaving || isInferring;
+
+  const loadSchema = (loaded: DatasetSchema) => {
+    setSavedSchema(loaded);
+    setDescription(loaded.description);
+    setItems(toItems(loaded.fields));
+    setInferredBy(loaded.inferred_by);
+  };
+
+  const handleFieldChange = (index: number, changes: Partial<DatasetSchemaField>) => {
+    setItems(current => current.map((item, i) => {
+      if (i !== index) return item;
+      const field = { ...item.field, ...changes };
+      // Optional properties are left out rather than stored empty
+      if (field.enum === undefined || field.enum.length === 0) delete field.enum;
+      if (!field.format) delete field.format;
+      return { ...item, field };
+    }));
+  };
+
+  const handleAddField = () => {
+    setItems(current => [...current, { key: nextKey.current++, field: { path: "", type: "string", optional: true, description: "" } }]);
+  };
+
+  const handleRemoveField = (index: number) => {
+    setItems(current => current.filter((_, i) => i !== index));
+  };
+
+  const handleSave = () => {
+    startSavingTransition(async () => {
+      const result = await saveDatasetSchemaAction(datasetName, schema);
+      if (result.success) {
+        setSavedSchema(schema);
+        toast({ title: "Schema Saved", description: result.message });
+      } else {
+        toast({ variant: "destructive", title: "Save Failed", description: result.error || "The schema could not be saved." });
+      }
+    });
+  };
+
+  const handleInfer = () => {
+    startInferringTransition(async () => {
+      const result = await inferDatasetSchemaAction(datasetName, sampleSize);
+      if (result.success && result.data) {
+        loadSchema(result.data.schema as DatasetSchema);
+        toast({ title: "Schema Inferred", description: result.message });
+      } else {
+        toast({ variant: "destructive", title: "Inference Failed", description: result.error || "The schema could not be inferred." });
+      }
+    });
+  };
+
+  const inferButton = (
+    <Button variant="secondary" disabled={isPending || entryCount === 0 || !inferenceModel} onClick={savedSchema ? undefined : handleInfer}>
+      {isInferring ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Sparkles className="mr-2 h-4 w-4" />}
+      Infer with AI
+    </Button>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Schema</CardTitle>
+        <CardDescription>
+          Documents the entries of '{datasetName}'. Fields are dot-separated paths into the entry (e.g. address.city);
+          * stands for the items of a list (e.g. tags.*). The AI model can propose a schema from a random sample of
+          entries{inferenceModel ? ` (using ${formatModelName(inferenceModel)})` : ""}; the proposal replaces the
+          current schema and can then be corrected here.
+        </CardDescription>
+        {inferredBy && (
+          <p className="text-xs text-muted-foreground">
+            Inferred by {formatModelName(inferredBy.model)} from {inferredBy.sample_size} entries on {new Date(inferredBy.inferred_at).toLocaleString()}.
+          </p>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-1">
+          <Label htmlFor="schema-description">What one entry represents</Label>
+          <Textarea
+            id="schema-description"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="e.g. A customer with their contact details and account status."
+            disabled={isPending}
+          />
+        </div>
+        {items.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No fields documented yet. {entryCount > 0 ? "Infer them with AI or add them below." : "Add them below."}
+          </p>
+        ) : (
+          <div className="overflow-x-auto rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="min-w-[160px]">Field</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Optional</TableHead>
+                  <TableHead className="min-w-[160px]">Allowed Values</TableHead>
+                  <TableHead className="min-w-[110px]">Format</TableHead>
+                  <TableHead className="min-w-[240px]">Description</TableHead>
+                  <TableHead><span className="sr-only">Actions</span></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {items.map(({ key, field }, index) => (
+                  <TableRow key={key} className="align-top">
+                    <TableCell>
+                      <Input
+                        value={field.path}
+                        onChange={(e) => handleFieldChange(index, { path: e.target.value.trim() })}
+                        className="font-mono"
+                        aria-label="Field path"
+                        disabled={isPending}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Select value={field.type} onValueChange={(type) => handleFieldChange(index, { type: type as DatasetSchemaFieldType })} disabled={isPending}>
+                        <SelectTrigger className="w-[140px]" aria-label={`Type of ${field.path}`}><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          {DATASET_SCHEMA_FIELD_TYPES.map(type => (
+                            <SelectItem key={type} value={type}>{DATASET_SCHEMA_FIELD_TYPE_LABELS[type]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      <Checkbox
+                        checked={field.optional}
+                        onCheckedChange={(checked) => handleFieldChange(index, { optional: checked === true })}
+                        className="mt-2.5"
+                        aria-label={`${field.path} is optional`}
+                        disabled={isPending}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        defaultValue={field.enum?.join(", ") ?? ""}
+                        onBlur={(e) => handleFieldChange(index, { enum: parseEnum(e.target.value, field.type) })}
+                        placeholder="Any"
+                        aria-label={`Allowed values of ${field.path} (comma-separated)`}
+                        disabled={isPending}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        value={field.format ?? ""}
+                        onChange={(e) => handleFieldChange(index, { format: e.target.value.trim() || undefined })}
+                        placeholder="-"
+                        className="font-mono"
+                        aria-label={`Format of ${field.path}`}
+                        disabled={isPending}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Textarea
+                        value={field.description}
+                        onChange={(e) => handleFieldChange(index, { description: e.target.value })}
+                        className="min-h-[40px]"
+                        aria-label={`Description of ${field.path}`}
+                        disabled={isPending}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Button variant="ghost" size="icon" onClick={() => handleRemoveField(index)} disabled={isPending} aria-label="Remove field">
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+        <Button variant="outline" onClick={handleAddField} disabled={isPending || items.length >= MAX_SCHEMA_FIELDS}>
+          <Plus className="mr-2 h-4 w-4" /> Add Field
+        </Button>
+        {schemaError && <p className="text-sm text-destructive">{schemaError}</p>}
+      </CardContent>
+      <CardFooter className="flex flex-wrap items-center justify-end gap-2">
+        <div className="flex items-center gap-2 mr-auto">
+          <Label htmlFor="schema-sample-size" className="font-normal whitespace-nowrap">Sample size</Label>
+          <Input
+            id="schema-sample-size"
+            type="number"
+            min={1}
+            max={MAX_SCHEMA_SAMPLE_SIZE}
+            value={sampleSize}
+            onChange={(e) => setSampleSize(clampSchemaSampleSize(Number(e.target.value)))}
+            className="w-[90px]"
+            disabled={isPending}
+          />
+        </div>
+        {savedSchema ? (
+          <AlertDialog>
+            <AlertDialogTrigger asChild>{inferButton}</AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Replace the Schema?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  The AI model will propose a schema from up to {sampleSize} random entries of '{datasetName}'. It replaces
+                  the current schema{isDirty ? ", and your unsaved changes are lost" : ""}.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction onClick={handleInfer}>Infer Schema</AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        ) : (
+          inferButton
+        )}
+        <Button onClick={handleSave} disabled={isPending || !!schemaError || !isDirty}>
+          {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+          Save Schema
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
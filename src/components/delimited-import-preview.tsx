@@ -0,0 +1,141 @@
+// src/components/delimited-import-preview.tsx
+"use client";
+
+import type { ColumnType, DelimitedDialect, DelimitedTable } from "@/lib/csv";
+import { COLUMN_TYPES, DELIMITER_OPTIONS, convertCell } from "@/lib/csv";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+const PREVIEW_ROWS = 10;
+
+interface DelimitedImportPreviewProps {
+  fileName: string;
+  table: DelimitedTable;
+  dialect: DelimitedDialect;
+  onDialectChange: (dialect: DelimitedDialect) => void;
+  columnTypes: ColumnType[]; // Effective type per column (inferred unless overridden)
+  onColumnTypeChange: (header: string, type: ColumnType) => void;
+  disabled?: boolean;
+}
+
+function formatValue(value: unknown): string {
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+/**
+ * Preview of a CSV/TSV file before upload: the detected delimiter and header row (both adjustable),
+ * and the first rows converted with the type chosen for each column.
+ */
+export function DelimitedImportPreview({
+  fileName,
+  table,
+  dialect,
+  onDialectChange,
+  columnTypes,
+  onColumnTypeChange,
+  disabled,
+}: DelimitedImportPreviewProps) {
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="space-y-1">
+          <Label htmlFor="delimited-delimiter">Delimiter</Label>
+          <Select
+            value={dialect.delimiter}
+            onValueChange={(delimiter) => onDialectChange({ ...dialect, delimiter })}
+            disabled={disabled}
+          >
+            <SelectTrigger id="delimited-delimiter" className="w-[160px] bg-background">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DELIMITER_OPTIONS.map(option => (
+                <SelectItem key={option.label} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex items-center space-x-2 pb-2">
+          <Checkbox
+            id="delimited-has-header"
+            checked={dialect.hasHeader}
+            onCheckedChange={(checked) => onDialectChange({ ...dialect, hasHeader: checked === true })}
+            disabled={disabled}
+          />
+          <Label htmlFor="delimited-has-header" className="font-normal cursor-pointer">First row is a header</Label>
+        </div>
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        {fileName}: {table.rows.length} row{table.rows.length === 1 ? "" : "s"}, {table.headers.length} column{table.headers.length === 1 ? "" : "s"}.
+        Types are inferred from the values; change a column's type to convert it differently. A column named 'id' sets the entry ID.
+      </p>
+
+      <div className="border rounded-md overflow-x-auto bg-background">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              {table.headers.map((header, index) => (
+                <TableHead key={header} className="align-top py-2 min-w-[130px]">
+                  <div className="font-medium text-foreground truncate" title={header}>{header}</div>
+                  {header === "id" ? (
+                    <div className="text-xs text-muted-foreground py-2">Entry ID</div>
+                  ) : (
+                    <Select
+                      value={columnTypes[index]}
+                      onValueChange={(type) => onColumnTypeChange(header, type as ColumnType)}
+                      disabled={disabled}
+                    >
+                      <SelectTrigger className="h-7 mt-1 text-xs" aria-label={`Type of column ${header}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {COLUMN_TYPES.map(type => (
+                          <SelectItem key={type} value={type}>
+                            {type}{type === table.inferredTypes[index] ? " (inferred)" : ""}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {table.rows.slice(0, PREVIEW_ROWS).map((row, rowIndex) => (
+              <TableRow key={rowIndex}>
+                {row.map((cell, index) => {
+                  const value = table.headers[index] === "id" ? cell : convertCell(cell, columnTypes[index]);
+                  return (
+                    <TableCell key={index} className="font-mono text-xs max-w-[200px] truncate" title={cell}>
+                      {value === null ? <span className="italic text-muted-foreground">null</span> : formatValue(value)}
+                    </TableCell>
+                  );
+                })}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+      {table.rows.length > PREVIEW_ROWS && (
+        <p className="text-xs text-muted-foreground">Showing the first {PREVIEW_ROWS} rows.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+// src/components/entry-history.tsx
+"use client";
+
+import { useEffect, useState, useTransition } from 'react';
+import { History, Loader2, RotateCcw } from 'lucide-react';
+import type { DataEntry, EntryVersion } from '@/services/types';
+import { getEntryVersionsAction, restoreEntryVersionAction } from '@/actions/data-actions';
+import { useToast } from '@/hooks/use-toast';
+import { diffObjects } from '@/lib/json-diff';
+import { MUTATION_SOURCE_LABELS } from '@/lib/mutation-context';
+import { FieldChangeLine } from '@/components/upload-diff-preview';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+interface EntryHistoryProps {
+  datasetName: string;
+  entryId: string;
+  currentData: DataEntry; // Versions are compared with this
+  refreshKey?: number; // Changing this re-fetches the history (e.g. after the entry was saved)
+  onRestored: (entry: DataEntry) => void;
+}
+
+/**
+ * Lists the previous contents of an entry, with who replaced them and how. A selected version is shown
+ * side by side with the current content, and can be restored with one click.
+ */
+export function EntryHistory({ datasetName, entryId, currentData, refreshKey, onRestored }: EntryHistoryProps) {
+  const { toast } = useToast();
+  const [versions, setVersions] = useState<EntryVersion[]>([]);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, startLoadingTransition] = useTransition();
+  const [isRestoring, startRestoringTransition] = useTransition();
+
+  useEffect(() => {
+    startLoadingTransition(async () => {
+      const result = await getEntryVersionsAction(datasetName, entryId);
+      if (result.success && Array.isArray(result.data)) {
+        setVersions(result.data as EntryVersion[]);
+        setError(null);
+      } else {
+        setVersions([]);
+        setError(result.error || 'Failed to load the entry history.');
+      }
+    });
+  }, [datasetName, entryId, refreshKey]);
+
+  const { id: ignoredId, ...current } = currentData;
+  const selected = versions.find(version => version.id === selectedId) ?? null;
+  const changes = selected ? diffObjects(selected.data, current) : [];
+
+  const handleRestore = (version: EntryVersion) => {
+    startRestoringTransition(async () => {
+      const result = await restoreEntryVersionAction(datasetName, entryId, version.id);
+      if (result.success && result.data) {
+        toast({ title: 'Version Restored', description: `The content replaced on ${new Date(version.recorded_at).toLocaleString()} is back.` });
+        setSelectedId(null);
+        onRestored(result.data as DataEntry);
+      } else {
+        toast({ variant: 'destructive', title: 'Restore Failed', description: result.error || 'Could not restore the version.' });
+      }
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>History</CardTitle>
+        <CardDescription>
+          Previous contents of this entry, recorded every time it was overwritten. Restoring a version keeps the current content in the history.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertTitle>History Error</AlertTitle>
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="whitespace-nowrap">Replaced At</TableHead>
+              <TableHead>By</TableHead>
+              <TableHead>Source</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={4} className="h-24 text-center">
+                  <Loader2 className="mx-auto h-6 w-6 animate-spin text-muted-foreground" />
+                </TableCell>
+              </TableRow>
+            ) : versions.length > 0 ? (
+              versions.map(version => (
+                <TableRow key={version.id} data-state={version.id === selectedId ? 'selected' : undefined}>
+                  <TableCell className="whitespace-nowrap">{new Date(version.recorded_at).toLocaleString()}</TableCell>
+                  <TableCell className="font-medium">{version.actor}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className="font-normal">{MUTATION_SOURCE_LABELS[version.source] ?? version.source}</Badge>
+                  </TableCell>
+                  <TableCell className="text-right whitespace-nowrap">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setSelectedId(version.id === selectedId ? null : version.id)}
+                    >
+                      <History className="mr-1 h-4 w-4" /> {version.id === selectedId ? 'Hide' : 'Compare'}
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => handleRestore(version)} disabled={isRestoring}>
+                      {isRestoring ? <Loader2 className="mr-1 h-4 w-4 animate-spin" /> : <RotateCcw className="mr-1 h-4 w-4" />}
+                      Restore
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))
+            ) : (
+              <TableRow>
+                <TableCell colSpan={4} className="h-24 text-center">
+                  This entry has not been changed since it was created.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+
+        {selected && (
+          <div className="space-y-3">
+            {changes.length > 0 ? (
+              <ul className="space-y-0.5">
+                <li className="text-sm">Changed since this version:</li>
+                {changes.map(change => <FieldChangeLine key={change.path} change={change} />)}
+              </ul>
+            ) : (
+              <p className="text-sm text-muted-foreground">This version has the same content as the current entry.</p>
+            )}
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-1">
+                <p className="text-sm font-medium">Version (replaced {new Date(selected.recorded_at).toLocaleString()})</p>
+                <ScrollArea className="h-[300px] rounded-md border bg-muted/30 p-3">
+                  <pre className="text-xs font-mono whitespace-pre-wrap break-all">{JSON.stringify(selected.data, null, 2)}</pre>
+                </ScrollArea>
+              </div>
+              <div className="space-y-1">
+                <p className="text-sm font-medium">Current</p>
+                <ScrollArea className="h-[300px] rounded-md border bg-muted/30 p-3">
+                  <pre className="text-xs font-mono whitespace-pre-wrap break-all">{JSON.stringify(current, null, 2)}</pre>
+                </ScrollArea>
+              </div>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,154 @@
+// src/components/entry-neighborhood.tsx
+"use client";
+
+import { useEffect, useState, useTransition } from 'react';
+import Link from 'next/link';
+import { Loader2 } from 'lucide-react';
+import type { Neighborhood } from '@/services/types';
+import { getNeighborhoodAction } from '@/actions/data-actions';
+import { MAX_NEIGHBORHOOD_DEPTH } from '@/lib/relationship-types';
+import { entryPath } from '@/lib/paths';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+interface EntryNeighborhoodProps {
+  datasetName: string;
+  entryId: string;
+  refreshKey?: number; // Changing this re-fetches the neighborhood (e.g. after relationships changed)
+}
+
+const DEPTH_OPTIONS = Array.from({ length: MAX_NEIGHBORHOOD_DEPTH }, (_, index) => index + 1);
+
+/**
+ * Lists the entries reachable from an entry within a selectable number of hops,
+ * following relationships in both directions.
+ */
+export function EntryNeighborhood({ datasetName, entryId, refreshKey }: EntryNeighborhoodProps) {
+  const [depth, setDepth] = useState(1);
+  const [neighborhood, setNeighborhood] = useState<Neighborhood | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, startLoadingTransition] = useTransition();
+
+  useEffect(() => {
+    startLoadingTransition(async () => {
+      const result = await getNeighborhoodAction(datasetName, entryId, depth);
+      if (result.success && result.data) {
+        setNeighborhood(result.data as Neighborhood);
+        setError(null);
+      } else {
+        setNeighborhood(null);
+        setError(result.error || 'Failed to load the neighborhood.');
+      }
+    });
+  }, [datasetName, entryId, depth, refreshKey]);
+
+  // Every node except the entry itself, with the relationships that touch it inside the neighborhood
+  const neighbors = (neighborhood?.nodes ?? [])
+    .filter(node => node.distance > 0)
+    .map(node => ({
+      ...node,
+      links: neighborhood!.relationships.filter(
+        rel => rel.source_entry_id === node.entry.id || rel.target_entry_id === node.entry.id
+      ),
+    }));
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col gap-2 sm:flex-row sm:items-start sm:justify-between">
+          <div>
+            <CardTitle>Neighborhood</CardTitle>
+            <CardDescription>
+              Entries connected to this entry through incoming or outgoing relationships.
+              {neighborhood && ` ${neighbors.length} entr${neighbors.length === 1 ? 'y' : 'ies'}, ${neighborhood.relationships.length} relationship${neighborhood.relationships.length === 1 ? '' : 's'}.`}
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Label htmlFor="neighborhood-depth" className="whitespace-nowrap">Depth</Label>
+            <Select value={String(depth)} onValueChange={(value) => setDepth(Number(value))}>
+              <SelectTrigger id="neighborhood-depth" className="w-[110px]" aria-label="Neighborhood depth">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DEPTH_OPTIONS.map(option => (
+                  <SelectItem key={option} value={String(option)}>
+                    {option} hop{option === 1 ? '' : 's'}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {error && (
+          <Alert variant="destructive" className="mb-4">
+            <AlertTitle>Neighborhood Error</AlertTitle>
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="whitespace-nowrap">Entry ID</TableHead>
+              <TableHead className="whitespace-nowrap">Hops</TableHead>
+              <TableHead>Links</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={3} className="h-24 text-center">
+                  <Loader2 className="mx-auto h-6 w-6 animate-spin text-muted-foreground" />
+                </TableCell>
+              </TableRow>
+            ) : neighbors.length > 0 ? (
+              neighbors.map(({ entry, distance, links }) => (
+                <TableRow key={entry.id}>
+                  <TableCell className="whitespace-nowrap font-medium">
+                    <Link href={entryPath(datasetName, entry.id)} className="hover:underline">
+                      {entry.id}
+                    </Link>
+                  </TableCell>
+                  <TableCell>{distance}</TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {links.map(rel => (
+                        <Badge key={rel.id} variant="outline" className="font-normal">
+                          {rel.source_entry_id} —{rel.type}→ {rel.target_entry_id}
+                        </Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))
+            ) : (
+              <TableRow>
+                <TableCell colSpan={3} className="h-24 text-center">
+                  No connected entries within {depth} hop{depth === 1 ? '' : 's'}.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
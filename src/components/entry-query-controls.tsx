@@ -0,0 +1,242 @@
+// src/components/entry-query-controls.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import { ArrowDownWideNarrow, ArrowUpNarrowWide, Plus, SlidersHorizontal, X } from "lucide-react";
+import type { EntryFilter, EntryFilterOperator, EntryQuery } from "@/services/types";
+import { ENTRY_FILTER_OPERATORS, ENTRY_ID_SORT_FIELD } from "@/lib/entry-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+// Sort and filters as edited here; paging and the relationship filter are handled by the preview section
+export type EntrySortAndFilters = Pick<EntryQuery, "sortField" | "sortDirection" | "filters">;
+
+interface EntryQueryControlsProps {
+  value: EntrySortAndFilters; // Currently applied sort and filters
+  fields: string[]; // Known top-level fields, offered as suggestions
+  onApply: (next: EntrySortAndFilters) => void;
+  disabled?: boolean;
+}
+
+// Filter rows keep every input as text while editing
+interface DraftFilter {
+  field: string;
+  operator: EntryFilterOperator;
+  value: string;
+  min: string;
+  max: string;
+}
+
+const CREATED_SORT = "__created__";
+
+function toDraft(filter: EntryFilter): DraftFilter {
+  return {
+    field: filter.field,
+    operator: filter.operator,
+    value: filter.value === undefined ? "" : String(filter.value),
+    min: filter.min === undefined ? "" : String(filter.min),
+    max: filter.max === undefined ? "" : String(filter.max),
+  };
+}
+
+function fromDraft(draft: DraftFilter): EntryFilter {
+  const field = draft.field.trim();
+  switch (draft.operator) {
+    case "range":
+      return {
+        field,
+        operator: "range",
+        ...(draft.min.trim() ? { min: draft.min.trim() } : {}),
+        ...(draft.max.trim() ? { max: draft.max.trim() } : {}),
+      };
+    case "exists":
+      return { field, operator: "exists" };
+    default:
+      return { field, operator: draft.operator, value: draft.value };
+  }
+}
+
+function isComplete(draft: DraftFilter): boolean {
+  if (!draft.field.trim()) return false;
+  if (draft.operator === "range") return !!(draft.min.trim() || draft.max.trim());
+  if (draft.operator === "contains") return draft.value !== "";
+  return true;
+}
+
+/**
+ * Sort and field-filter controls for the entry listing. Filters are evaluated on the server
+ * against the top-level fields of each entry's JSON data and combined with AND.
+ */
+export function EntryQueryControls({ value, fields, onApply, disabled }: EntryQueryControlsProps) {
+  const [sortField, setSortField] = useState<string>(value.sortField ?? "");
+  const [sortDirection, setSortDirection] = useState<"asc" | "desc" | undefined>(value.sortDirection);
+  const [drafts, setDrafts] = useState<DraftFilter[]>((value.filters ?? []).map(toDraft));
+
+  // Follow the applied value when it is reset from outside (e.g. after switching datasets)
+  useEffect(() => {
+    setSortField(value.sortField ?? "");
+    setSortDirection(value.sortDirection);
+    setDrafts((value.filters ?? []).map(toDraft));
+  }, [value]);
+
+  const effectiveDirection = sortDirection ?? (sortField ? "asc" : "desc");
+  const incompleteCount = drafts.filter(draft => !isComplete(draft)).length;
+
+  const updateDraft = (index: number, changes: Partial<DraftFilter>) => {
+    setDrafts(prev => prev.map((draft, i) => (i === index ? { ...draft, ...changes } : draft)));
+  };
+
+  const handleApply = () => {
+    onApply({
+      sortField: sortField.trim() || null,
+      sortDirection,
+      filters: drafts.filter(isComplete).map(fromDraft),
+    });
+  };
+
+  const handleReset = () => {
+    setSortField("");
+    setSortDirection(undefined);
+    setDrafts([]);
+    onApply({ sortField: null, sortDirection: undefined, filters: [] });
+  };
+
+  return (
+    <div className="space-y-3 p-4 border rounded-md bg-muted/50">
+      <datalist id="entry-field-options">
+        {fields.map(field => <option key={field} value={field} />)}
+      </datalist>
+
+      {/* Sort */}
+      <div className="flex flex-col sm:flex-row sm:items-end gap-2">
+        <div className="space-y-1 w-full sm:w-[240px]">
+          <Label htmlFor="entry-sort-field">Sort By</Label>
+          <Select
+            value={sortField === "" ? CREATED_SORT : fields.includes(sortField) || sortField === ENTRY_ID_SORT_FIELD ? sortField : "__custom__"}
+            onValueChange={(next) => {
+              setSortField(next === CREATED_SORT ? "" : next === "__custom__" ? sortField : next);
+              setSortDirection(undefined);
+            }}
+            disabled={disabled}
+          >
+            <SelectTrigger id="entry-sort-field" className="bg-background">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={CREATED_SORT}>Created (newest first)</SelectItem>
+              <SelectItem value={ENTRY_ID_SORT_FIELD}>ID</SelectItem>
+              {fields.filter(field => field !== ENTRY_ID_SORT_FIELD).map(field => (
+                <SelectItem key={field} value={field}>{field}</SelectItem>
+              ))}
+              {sortField && !fields.includes(sortField) && sortField !== ENTRY_ID_SORT_FIELD && (
+                <SelectItem value="__custom__">{sortField}</SelectItem>
+              )}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button
+          variant="outline"
+          className="bg-background"
+          onClick={() => setSortDirection(effectiveDirection === "asc" ? "desc" : "asc")}
+          disabled={disabled}
+          title="Toggle sort direction"
+        >
+          {effectiveDirection === "asc"
+            ? <><ArrowUpNarrowWide className="mr-2 h-4 w-4" /> Ascending</>
+            : <><ArrowDownWideNarrow className="mr-2 h-4 w-4" /> Descending</>}
+        </Button>
+      </div>
+
+      {/* Field Filters */}
+      {drafts.map((draft, index) => (
+        <div key={index} className="flex flex-col sm:flex-row sm:items-end gap-2">
+          <div className="space-y-1 w-full sm:w-[200px]">
+            <Label htmlFor={`entry-filter-field-${index}`}>Field</Label>
+            <Input
+              id={`entry-filter-field-${index}`}
+              list="entry-field-options"
+              placeholder="e.g. status"
+              value={draft.field}
+              onChange={(e) => updateDraft(index, { field: e.target.value })}
+              disabled={disabled}
+              className="bg-background"
+            />
+          </div>
+          <div className="space-y-1 w-full sm:w-[140px]">
+            <Label htmlFor={`entry-filter-operator-${index}`}>Condition</Label>
+            <Select value={draft.operator} onValueChange={(next) => updateDraft(index, { operator: next as EntryFilterOperator })} disabled={disabled}>
+              <SelectTrigger id={`entry-filter-operator-${index}`} className="bg-background">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ENTRY_FILTER_OPERATORS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {draft.operator === "range" ? (
+            <>
+              <div className="space-y-1 flex-grow">
+                <Label htmlFor={`entry-filter-min-${index}`}>From</Label>
+                <Input id={`entry-filter-min-${index}`} placeholder="Min (optional)" value={draft.min} onChange={(e) => updateDraft(index, { min: e.target.value })} disabled={disabled} className="bg-background" />
+              </div>
+              <div className="space-y-1 flex-grow">
+                <Label htmlFor={`entry-filter-max-${index}`}>To</Label>
+                <Input id={`entry-filter-max-${index}`} placeholder="Max (optional)" value={draft.max} onChange={(e) => updateDraft(index, { max: e.target.value })} disabled={disabled} className="bg-background" />
+              </div>
+            </>
+          ) : draft.operator !== "exists" ? (
+            <div className="space-y-1 flex-grow">
+              <Label htmlFor={`entry-filter-value-${index}`}>Value</Label>
+              <Input id={`entry-filter-value-${index}`} value={draft.value} onChange={(e) => updateDraft(index, { value: e.target.value })} disabled={disabled} className="bg-background" />
+            </div>
+          ) : (
+            <div className="flex-grow" />
+          )}
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setDrafts(prev => prev.filter((_, i) => i !== index))}
+            disabled={disabled}
+            aria-label="Remove filter"
+            title="Remove filter"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          className="bg-background"
+          onClick={() => setDrafts(prev => [...prev, { field: "", operator: "equals", value: "", min: "", max: "" }])}
+          disabled={disabled}
+        >
+          <Plus className="mr-2 h-4 w-4" /> Add Field Filter
+        </Button>
+        <Button size="sm" onClick={handleApply} disabled={disabled}>
+          <SlidersHorizontal className="mr-2 h-4 w-4" /> Apply
+        </Button>
+        <Button variant="ghost" size="sm" onClick={handleReset} disabled={disabled}>
+          Reset
+        </Button>
+        {incompleteCount > 0 && (
+          <span className="text-xs text-muted-foreground">
+            {incompleteCount} incomplete filter{incompleteCount === 1 ? ' is' : 's are'} ignored.
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
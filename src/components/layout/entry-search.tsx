@@ -0,0 +1,125 @@
+// src/components/layout/entry-search.tsx
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { useParams, useRouter } from "next/navigation";
+import { Loader2, Search } from "lucide-react";
+import type { SearchResult } from "@/services/types";
+import { searchDataAction } from "@/actions/data-actions";
+import { entryPath } from "@/lib/paths";
+import { Input } from "@/components/ui/input";
+
+const SEARCH_DELAY_MS = 300;
+
+/**
+ * Header search box: full-text search over the entries of the dataset in the URL, with results as you type.
+ */
+export function EntrySearch() {
+  const params = useParams<{ name?: string }>();
+  const router = useRouter();
+  const datasetName = params?.name ? decodeURIComponent(params.name) : null;
+  const [searchText, setSearchText] = useState("");
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [isOpen, setIsOpen] = useState(false);
+  const latestRequest = useRef(0); // Ignore responses of searches that were superseded while in flight
+
+  useEffect(() => {
+    const trimmed = searchText.trim();
+    if (!datasetName || !trimmed) {
+      setResults([]);
+      setError(null);
+      setIsSearching(false);
+      return;
+    }
+    const requestId = ++latestRequest.current;
+    setIsSearching(true);
+    const timer = setTimeout(async () => {
+      const result = await searchDataAction(datasetName, trimmed);
+      if (requestId !== latestRequest.current) return;
+      if (result.success && Array.isArray(result.data)) {
+        setResults(result.data);
+        setError(null);
+      } else {
+        setResults([]);
+        setError(result.error || "Search failed.");
+      }
+      setIsSearching(false);
+    }, SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [datasetName, searchText]);
+
+  // Start over when switching datasets
+  useEffect(() => {
+    setSearchText("");
+    setIsOpen(false);
+  }, [datasetName]);
+
+  if (!datasetName) {
+    return null;
+  }
+
+  const openResult = (id: string) => {
+    setIsOpen(false);
+    router.push(entryPath(datasetName, id));
+  };
+
+  return (
+    <div className="relative w-full max-w-sm">
+      <Search className="pointer-events-none absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+      <Input
+        type="search"
+        placeholder={`Search ${datasetName}...`}
+        value={searchText}
+        onChange={(e) => {
+          setSearchText(e.target.value);
+          setIsOpen(true);
+        }}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setIsOpen(false)}
+        onKeyDown={(e) => {
+          if (e.key === "Escape") setIsOpen(false);
+          if (e.key === "Enter" && results.length > 0) openResult(results[0].entry.id);
+        }}
+        className="bg-background pl-8 text-foreground"
+        aria-label={`Search entries in dataset ${datasetName}`}
+      />
+      {isOpen && searchText.trim() && (
+        <div
+          className="absolute right-0 z-50 mt-1 max-h-[420px] w-full min-w-[320px] overflow-y-auto rounded-md border bg-popover p-1 text-popover-foreground shadow-md"
+          onMouseDown={(e) => e.preventDefault()} // Keep the input focused so the list stays open while clicking
+        >
+          {isSearching ? (
+            <div className="flex items-center justify-center gap-2 p-3 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" /> Searching...
+            </div>
+          ) : error ? (
+            <p className="p-3 text-sm text-destructive">{error}</p>
+          ) : results.length === 0 ? (
+            <p className="p-3 text-sm text-muted-foreground">No matching entries.</p>
+          ) : (
+            results.map(({ entry, snippet }) => (
+              <Link
+                key={entry.id}
+                href={entryPath(datasetName, entry.id)}
+                onClick={() => setIsOpen(false)}
+                className="block rounded-sm px-2 py-1.5 text-sm hover:bg-accent hover:text-accent-foreground"
+              >
+                <span className="block truncate font-medium">{entry.id}</span>
+                {snippet.length > 0 && (
+                  <span className="line-clamp-2 text-xs text-muted-foreground">
+                    {snippet.map((part, index) => part.highlighted
+                      ? <mark key={index} className="rounded-sm bg-yellow-200 px-0.5 text-foreground">{part.text}</mark>
+                      : <span key={index}>{part.text}</span>)}
+                  </span>
+                )}
+              </Link>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,15 +1,26 @@
 import { Database } from "lucide-react";
 import Link from "next/link";
+import { EntrySearch } from "@/components/layout/entry-search";
 
 export function Header() {
   return (
     <header className="bg-primary text-primary-foreground shadow-md">
-      <div className="container mx-auto flex h-16 items-center justify-between px-4">
+      <div className="container mx-auto flex h-16 items-center justify-between gap-4 px-4">
         <Link href="/" className="flex items-center gap-2">
           <Database className="h-6 w-6" />
           <span className="text-xl font-semibold">DataHarbor</span>
         </Link>
-        {/* Add Navigation or User Profile section here if needed */}
+        <div className="flex flex-1 justify-end">
+          <EntrySearch />
+        </div>
+        <nav className="flex items-center gap-4 text-sm font-medium">
+          <Link href="/datasets" className="hover:underline">
+            Datasets
+          </Link>
+          <Link href="/audit" className="hover:underline">
+            Audit Log
+          </Link>
+        </nav>
       </div>
     </header>
   );
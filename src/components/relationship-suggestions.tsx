@@ -0,0 +1,179 @@
+// src/components/relationship-suggestions.tsx
+"use client";
+
+import { useState, useTransition } from "react";
+import Link from "next/link";
+import { Check, Loader2, Network } from "lucide-react";
+import type { RelationshipSuggestion, RelationshipSuggestionResult } from "@/services/types";
+import { acceptRelationshipSuggestionsAction, suggestRelationshipsAction } from "@/actions/data-actions";
+import { useToast } from "@/hooks/use-toast";
+import { entryPath } from "@/lib/paths";
+import { formatModelName } from "@/lib/ai-models";
+import { LIKELY_RELATIONSHIP_SUGGESTION_SCORE, relationshipSuggestionKey } from "@/lib/relationship-suggestions";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+
+interface RelationshipSuggestionsProps {
+  datasetName: string;
+  entryId: string | null; // Suggest relationships of this entry; null for the whole dataset
+  onAccepted?: () => void; // Called after accepted suggestions were created, e.g. to reload relationships
+}
+
+/** The suggestions selected before the user reviews them: the likely ones. */
+function defaultSuggestionSelection(suggestions: RelationshipSuggestion[]): Set<string> {
+  return new Set(suggestions.filter(s => s.score >= LIKELY_RELATIONSHIP_SUGGESTION_SCORE).map(relationshipSuggestionKey));
+}
+
+/**
+ * Proposes relationships that do not exist yet, from fields holding another entry's ID, shared values and
+ * (optionally) the AI model, each with a score and a reason. The selected suggestions are created on accept.
+ */
+export function RelationshipSuggestions({ datasetName, entryId, onAccepted }: RelationshipSuggestionsProps) {
+  const { toast } = useToast();
+  const [useAi, setUseAi] = useState(true);
+  const [result, setResult] = useState<RelationshipSuggestionResult | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [isSuggesting, startSuggestingTransition] = useTransition();
+  const [isAccepting, startAcceptingTransition] = useTransition();
+  const isPending = isSuggesting || isAccepting;
+  const suggestions = result?.suggestions ?? [];
+  const switchId = `suggest-with-ai-${entryId ?? "dataset"}`;
+
+  const handleSuggest = () => {
+    startSuggestingTransition(async () => {
+      const response = await suggestRelationshipsAction(datasetName, entryId, useAi);
+      if (response.success && response.data) {
+        const loaded = response.data as RelationshipSuggestionResult;
+        setResult(loaded);
+        setSelected(defaultSuggestionSelection(loaded.suggestions));
+      } else {
+        toast({ variant: "destructive", title: "Suggestions Failed", description: response.error || "Relationships could not be suggested." });
+      }
+    });
+  };
+
+  const handleAccept = () => {
+    const accepted = suggestions.filter(s => selected.has(relationshipSuggestionKey(s)));
+    startAcceptingTransition(async () => {
+      const response = await acceptRelationshipSuggestionsAction(
+        datasetName,
+        accepted.map(({ source_entry_id, target_entry_id, type }) => ({ source_entry_id, target_entry_id, type }))
+      );
+      if (response.success) {
+        const acceptedKeys = new Set(accepted.map(relationshipSuggestionKey));
+        setResult(current => current && { ...current, suggestions: current.suggestions.filter(s => !acceptedKeys.has(relationshipSuggestionKey(s))) });
+        setSelected(new Set());
+        toast({ title: "Relationships Added", description: response.message });
+        onAccepted?.();
+      } else {
+        toast({ variant: "destructive", title: "Accept Failed", description: response.error || "The relationships could not be added." });
+      }
+    });
+  };
+
+  const toggle = (key: string, checked: boolean) => {
+    setSelected(current => {
+      const next = new Set(current);
+      if (checked) next.add(key);
+      else next.delete(key);
+      return next;
+    });
+  };
+
+  const entryLink = (id: string) => (
+    id === entryId
+      ? <span className="font-mono">{id}</span>
+      : <Link href={entryPath(datasetName, id)} className="font-mono underline underline-offset-2">{id}</Link>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Suggested Relationships</CardTitle>
+        <CardDescription>
+          Finds relationships {entryId ? "of this entry" : "between entries of this dataset"} that do not exist yet: fields
+          that hold another entry&apos;s ID, distinctive values entries share and, if enabled, links the AI model spots.
+          Select the ones to keep and accept them.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-4">
+          <Button variant="secondary" onClick={handleSuggest} disabled={isPending}>
+            {isSuggesting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Network className="mr-2 h-4 w-4" />}
+            {result ? "Suggest Again" : "Suggest Relationships"}
+          </Button>
+          <div className="flex items-center space-x-2">
+            <Switch id={switchId} checked={useAi} onCheckedChange={setUseAi} disabled={isPending} />
+            <Label htmlFor={switchId} className="font-normal cursor-pointer">Ask the AI model too</Label>
+          </div>
+        </div>
+        {result && (
+          <p className="text-xs text-muted-foreground">
+            Searched {result.examined} entries{result.model ? ` with ${formatModelName(result.model)}` : ""}.
+          </p>
+        )}
+        {result?.aiError && (
+          <p className="text-sm text-destructive">AI unavailable, showing heuristic suggestions only: {result.aiError}</p>
+        )}
+        {result && suggestions.length === 0 && (
+          <p className="text-sm text-muted-foreground">No new relationships found.</p>
+        )}
+        {suggestions.length > 0 && (
+          <div className="space-y-2">
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id={`${switchId}-all`}
+                checked={suggestions.every(s => selected.has(relationshipSuggestionKey(s)))}
+                onCheckedChange={(checked) => setSelected(checked === true ? new Set(suggestions.map(relationshipSuggestionKey)) : new Set())}
+                disabled={isPending}
+              />
+              <Label htmlFor={`${switchId}-all`} className="font-normal cursor-pointer">
+                Select all ({selected.size} of {suggestions.length} selected)
+              </Label>
+            </div>
+            <ul className="space-y-2">
+              {suggestions.map((suggestion) => {
+                const key = relationshipSuggestionKey(suggestion);
+                return (
+                  <li key={key} className="flex items-start gap-3 rounded-md border bg-background p-2">
+                    <Checkbox
+                      checked={selected.has(key)}
+                      onCheckedChange={(checked) => toggle(key, checked === true)}
+                      disabled={isPending}
+                      className="mt-1"
+                      aria-label={`Accept ${suggestion.source_entry_id} ${suggestion.type} ${suggestion.target_entry_id}`}
+                    />
+                    <div className="min-w-0 flex-1 space-y-1">
+                      <div className="flex flex-wrap items-center gap-2 text-sm break-all">
+                        {entryLink(suggestion.source_entry_id)}
+                        <Badge variant="outline" className="font-normal">{suggestion.type}</Badge>
+                        {entryLink(suggestion.target_entry_id)}
+                        <Badge variant="secondary" className="font-normal">{Math.round(suggestion.score * 100)}%</Badge>
+                        <Badge variant={suggestion.origin === "ai" ? "default" : "outline"} className="font-normal">
+                          {suggestion.origin === "ai" ? "AI" : "Heuristic"}
+                        </Badge>
+                      </div>
+                      {suggestion.reason && <p className="text-xs text-muted-foreground">{suggestion.reason}</p>}
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+      {suggestions.length > 0 && (
+        <CardFooter>
+          <Button onClick={handleAccept} disabled={isPending || selected.size === 0}>
+            {isAccepting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Check className="mr-2 h-4 w-4" />}
+            Accept Selected ({selected.size})
+          </Button>
+        </CardFooter>
+      )}
+    </Card>
+  );
+}
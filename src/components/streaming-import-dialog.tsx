@@ -0,0 +1,222 @@
+// src/components/streaming-import-dialog.tsx
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useRouter } from "next/navigation";
+import { FilePlus2, Loader2, PlusCircle, Upload } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import type { ImportMode } from "@/services/types";
+import { datasetApiPath, datasetPath } from "@/lib/paths";
+import { DATASET_NAME_HINT, DATASET_NAME_PATTERN, formatBytes } from "@/lib/utils";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+
+interface StreamingImportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  file: File | null; // NDJSON or JSON-array file, sent as-is to the import route
+  onProcessingChange: (isProcessing: boolean) => void;
+  allDatasetNames: string[];
+  activeDatasetName: string | null;
+}
+
+// Response envelope of the import route
+interface ImportResponse {
+  success: boolean;
+  message?: string;
+  error?: string;
+  data?: { count: number };
+}
+
+type ImportPhase = "idle" | "uploading" | "finishing";
+
+/**
+ * Uploads a large JSON/NDJSON file to the streaming import route instead of a Server Action.
+ * The server parses and writes entries while the file is still arriving, so the upload progress
+ * shown here also tracks how far the import has got.
+ */
+export function StreamingImportDialog({
+  isOpen,
+  onClose,
+  file,
+  onProcessingChange,
+  allDatasetNames,
+  activeDatasetName,
+}: StreamingImportDialogProps) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [mode, setMode] = useState<ImportMode>("append");
+  const [newDatasetName, setNewDatasetName] = useState("");
+  const [phase, setPhase] = useState<ImportPhase>("idle");
+  const [uploadedBytes, setUploadedBytes] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const requestRef = useRef<XMLHttpRequest | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setMode(activeDatasetName ? "append" : "replace");
+      setNewDatasetName("");
+      setPhase("idle");
+      setUploadedBytes(0);
+      setError(null);
+    }
+  }, [isOpen, activeDatasetName]);
+
+  const isBusy = phase !== "idle";
+  const totalBytes = file?.size ?? 0;
+  const percent = totalBytes > 0 ? Math.min(100, Math.round((uploadedBytes / totalBytes) * 100)) : 0;
+  const targetName = mode === "append" ? activeDatasetName ?? "" : newDatasetName.trim();
+
+  const finish = (nextError: string | null) => {
+    requestRef.current = null;
+    setPhase("idle");
+    setError(nextError);
+    onProcessingChange(false);
+  };
+
+  const handleStart = () => {
+    if (!file) return;
+    if (!targetName) {
+      setError(mode === "append" ? "No dataset selected. Create a new data set instead." : "New Data Set Name is required.");
+      return;
+    }
+    if (mode === "replace" && !DATASET_NAME_PATTERN.test(targetName)) {
+      setError(DATASET_NAME_HINT);
+      return;
+    }
+
+    setError(null);
+    setUploadedBytes(0);
+    setPhase("uploading");
+    onProcessingChange(true);
+    console.log(`Streaming import: '${file.name}' (${formatBytes(file.size)}) -> dataset '${targetName}' (mode: ${mode})`);
+
+    const request = new XMLHttpRequest();
+    requestRef.current = request;
+    request.open("POST", `${datasetApiPath(targetName)}/import?mode=${mode}`);
+    request.setRequestHeader("Content-Type", file.name.toLowerCase().endsWith(".json") ? "application/json" : "application/x-ndjson");
+    request.responseType = "json";
+
+    request.upload.onprogress = (event) => setUploadedBytes(event.loaded);
+    // The server commits after the last bytes arrive
+    request.upload.onload = () => {
+      setUploadedBytes(totalBytes);
+      setPhase("finishing");
+    };
+    request.onload = () => {
+      const response = request.response as ImportResponse | null;
+      if (request.status >= 200 && request.status < 300 && response?.success) {
+        finish(null);
+        toast({ title: "Import Complete", description: response.message || `Imported ${response.data?.count ?? 0} entries.` });
+        if (mode === "replace" && targetName !== activeDatasetName) {
+          router.push(datasetPath(targetName));
+        } else {
+          router.refresh();
+        }
+        onClose();
+      } else {
+        const message = response?.error || `Import failed (HTTP ${request.status}).`;
+        finish(message);
+        toast({ variant: "destructive", title: "Import Failed", description: message });
+      }
+    };
+    request.onerror = () => finish("Network error while uploading the file. Nothing was imported.");
+    request.onabort = () => finish("Upload cancelled. Nothing was imported.");
+    request.send(file);
+  };
+
+  const handleCancel = () => {
+    if (requestRef.current) {
+      requestRef.current.abort(); // The import runs in one transaction, so aborting leaves the dataset unchanged
+      return;
+    }
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { if (!open && !isBusy) onClose(); }}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>Import Large File</DialogTitle>
+          <DialogDescription>
+            {file ? `${file.name} (${formatBytes(file.size)})` : "No file selected."} is streamed to the server and imported in batches.
+            Use a JSON array of objects or NDJSON (one JSON object per line).
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <RadioGroup value={mode} onValueChange={(value: string) => setMode(value as ImportMode)} disabled={isBusy} className="flex flex-col space-y-1">
+            <div className="flex items-center space-x-3 space-y-0">
+              <RadioGroupItem value="append" id="import-append" disabled={!activeDatasetName} />
+              <Label htmlFor="import-append" className="font-normal cursor-pointer flex items-center gap-2">
+                <PlusCircle className="h-4 w-4 text-green-600" /> Add/Update in Current Set{activeDatasetName ? ` ('${activeDatasetName}')` : ""}
+              </Label>
+            </div>
+            <div className="flex items-center space-x-3 space-y-0 mt-2">
+              <RadioGroupItem value="replace" id="import-replace" />
+              <Label htmlFor="import-replace" className="font-normal cursor-pointer flex items-center gap-2">
+                <FilePlus2 className="h-4 w-4 text-orange-600" /> Create/Replace Data Set
+              </Label>
+            </div>
+          </RadioGroup>
+
+          {mode === "replace" && (
+            <div className="grid w-full max-w-sm items-center gap-1.5 pl-8">
+              <Label htmlFor="import-dataset-name">Data Set Name</Label>
+              <Input
+                id="import-dataset-name"
+                placeholder="Enter name (will replace if exists)"
+                value={newDatasetName}
+                onChange={(e) => setNewDatasetName(e.target.value)}
+                disabled={isBusy}
+              />
+              {allDatasetNames.some(name => name.toLowerCase() === newDatasetName.trim().toLowerCase()) && (
+                <p className="text-xs text-orange-600">Note: A data set with this name exists and will be replaced.</p>
+              )}
+            </div>
+          )}
+
+          {isBusy && (
+            <div className="space-y-2">
+              <Progress value={percent} aria-label="Import progress" />
+              <p className="text-xs text-muted-foreground">
+                {phase === "uploading"
+                  ? `Uploading and importing... ${percent}% (${formatBytes(uploadedBytes)} of ${formatBytes(totalBytes)})`
+                  : "Writing the last entries and committing..."}
+              </p>
+            </div>
+          )}
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertTitle>Error</AlertTitle>
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleCancel} disabled={phase === "finishing"}>
+            {phase === "uploading" ? "Cancel Upload" : "Cancel"}
+          </Button>
+          <Button onClick={handleStart} disabled={isBusy || !file || !targetName}>
+            {isBusy ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+            {isBusy ? "Importing..." : "Start Import"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
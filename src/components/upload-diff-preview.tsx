@@ -0,0 +1,127 @@
+// src/components/upload-diff-preview.tsx
+"use client";
+
+import { useState } from "react";
+import { Loader2 } from "lucide-react";
+import { formatDiffValue, type FieldChange, type UploadEntryStatus, type UploadPreviewItem } from "@/lib/json-diff";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+
+interface UploadDiffPreviewProps {
+  datasetName: string;
+  items: UploadPreviewItem[] | null; // null while the stored entries are being loaded
+  selected: Set<number>; // Indices of the uploaded entries to write
+  onSelectionChange: (selected: Set<number>) => void;
+  disabled?: boolean;
+}
+
+const MAX_PREVIEW_ROWS = 200; // Larger uploads list only the first rows; the rest keep their selection
+
+const STATUS_STYLES: Record<UploadEntryStatus, { label: string; className: string }> = {
+  new: { label: "New", className: "bg-green-100 text-green-800 border-green-200" },
+  modified: { label: "Modified", className: "bg-orange-100 text-orange-800 border-orange-200" },
+  unchanged: { label: "Unchanged", className: "bg-muted text-muted-foreground" },
+};
+
+/** One field change: the old value struck through and the new one, or a note that the field was removed. */
+export function FieldChangeLine({ change }: { change: FieldChange }) {
+  return (
+    <li className="font-mono text-xs break-all">
+      <span className="font-semibold">{change.path}</span>:{" "}
+      {change.kind !== "added" && <span className="text-destructive line-through">{formatDiffValue(change.before)}</span>}
+      {change.kind === "changed" && " → "}
+      {change.kind !== "removed" && <span className="text-green-700">{formatDiffValue(change.after)}</span>}
+      {change.kind === "removed" && <span className="text-muted-foreground"> (removed)</span>}
+    </li>
+  );
+}
+
+/**
+ * Dry run of an Add/Update upload: lists which uploaded entries are new, unchanged or modified in the
+ * dataset, with the field changes of modified ones, and lets the user leave out individual entries.
+ */
+export function UploadDiffPreview({ datasetName, items, selected, onSelectionChange, disabled }: UploadDiffPreviewProps) {
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  if (items === null) {
+    return (
+      <p className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" /> Comparing with '{datasetName}'...
+      </p>
+    );
+  }
+
+  const counts = { new: 0, modified: 0, unchanged: 0 };
+  items.forEach(item => counts[item.status]++);
+  const visibleItems = items.filter(item => showUnchanged || item.status !== "unchanged");
+  const allSelected = items.length > 0 && items.every(item => selected.has(item.index));
+
+  const toggle = (index: number, checked: boolean) => {
+    const next = new Set(selected);
+    if (checked) next.add(index);
+    else next.delete(index);
+    onSelectionChange(next);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm">
+          Changes in '{datasetName}': <span className="text-green-700">{counts.new} new</span>,{" "}
+          <span className="text-orange-700">{counts.modified} modified</span>, {counts.unchanged} unchanged.{" "}
+          <span className="text-muted-foreground">{selected.size} of {items.length} selected.</span>
+        </p>
+        <div className="flex items-center gap-4">
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="diff-select-all"
+              checked={allSelected}
+              onCheckedChange={(checked) => onSelectionChange(checked === true ? new Set(items.map(item => item.index)) : new Set())}
+              disabled={disabled}
+            />
+            <Label htmlFor="diff-select-all" className="font-normal cursor-pointer text-xs">Select all</Label>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="diff-show-unchanged"
+              checked={showUnchanged}
+              onCheckedChange={(checked) => setShowUnchanged(checked === true)}
+            />
+            <Label htmlFor="diff-show-unchanged" className="font-normal cursor-pointer text-xs">Show unchanged</Label>
+          </div>
+        </div>
+      </div>
+
+      <ul className="space-y-2">
+        {visibleItems.slice(0, MAX_PREVIEW_ROWS).map(item => (
+          <li key={item.index} className="rounded-md border bg-background p-2">
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id={`diff-row-${item.index}`}
+                checked={selected.has(item.index)}
+                onCheckedChange={(checked) => toggle(item.index, checked === true)}
+                disabled={disabled}
+                aria-label={`Include entry ${item.id ?? item.index + 1}`}
+              />
+              <Badge variant="outline" className={STATUS_STYLES[item.status].className}>{STATUS_STYLES[item.status].label}</Badge>
+              <span className="font-mono text-xs truncate">
+                {item.id ?? <span className="text-muted-foreground">row {item.index + 1} (new ID)</span>}
+              </span>
+            </div>
+            {item.changes.length > 0 && (
+              <ul className="mt-1 pl-8 space-y-0.5">
+                {item.changes.map(change => <FieldChangeLine key={change.path} change={change} />)}
+              </ul>
+            )}
+          </li>
+        ))}
+      </ul>
+      {visibleItems.length > MAX_PREVIEW_ROWS && (
+        <p className="text-xs text-muted-foreground">
+          {visibleItems.length - MAX_PREVIEW_ROWS} more entries are not listed here; "Select all" includes or leaves out all of them.
+        </p>
+      )}
+    </div>
+  );
+}
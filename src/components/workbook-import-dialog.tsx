@@ -0,0 +1,314 @@
+// src/components/workbook-import-dialog.tsx
+"use client";
+
+import { useEffect, useMemo, useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { FileSpreadsheet, Loader2 } from "lucide-react";
+import type { WorkbookSheet } from "@/lib/xlsx";
+import { cellToJson, sheetColumnNames, sheetToEntries } from "@/lib/xlsx";
+import { uploadDataAction, createNewDatasetAction } from "@/actions/data-actions";
+import { useToast } from "@/hooks/use-toast";
+import { datasetPath } from "@/lib/paths";
+import { DATASET_NAME_HINT, DATASET_NAME_PATTERN } from "@/lib/utils";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+  DialogClose,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+const HEADER_ROW_CHOICES = 10; // Rows offered as the header row
+const NO_HEADER = "none";
+
+type SheetTarget = "active" | "new";
+
+// How one sheet is imported
+interface SheetMapping {
+  include: boolean;
+  target: SheetTarget;
+  newDatasetName: string;
+  headerRow: string; // 0-based row index, or NO_HEADER
+}
+
+interface WorkbookImportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  fileName: string;
+  sheets: WorkbookSheet[];
+  onProcessingChange: (isProcessing: boolean) => void;
+  allDatasetNames: string[];
+  activeDatasetName: string | null; // Dataset that sheets can be added to
+}
+
+function toDatasetName(sheetName: string): string {
+  return sheetName.replace(/[^a-zA-Z0-9-_ ]/g, "_").trim();
+}
+
+function rowSummary(row: WorkbookSheet["rows"][number]): string {
+  const text = row.map(cell => cellToJson(cell)).filter(value => value !== null).map(String).join(", ");
+  return text.length > 60 ? `${text.slice(0, 60)}...` : text || "(empty)";
+}
+
+function headerRowIndex(mapping: SheetMapping): number | null {
+  return mapping.headerRow === NO_HEADER ? null : Number(mapping.headerRow);
+}
+
+function entryCount(sheet: WorkbookSheet, mapping: SheetMapping): number {
+  const headerIndex = headerRowIndex(mapping);
+  return headerIndex === null ? sheet.rows.length : Math.max(sheet.rows.length - headerIndex - 1, 0);
+}
+
+/**
+ * Maps the sheets of an uploaded workbook to datasets: each selected sheet is either added to the active
+ * dataset (addData) or written to a new dataset that replaces any dataset of the same name (createOrReplaceDataset).
+ */
+export function WorkbookImportDialog({
+  isOpen,
+  onClose,
+  fileName,
+  sheets,
+  onProcessingChange,
+  allDatasetNames,
+  activeDatasetName,
+}: WorkbookImportDialogProps) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [isPending, startTransition] = useTransition();
+  const [mappings, setMappings] = useState<SheetMapping[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reset the mapping whenever a workbook is opened
+  useEffect(() => {
+    if (isOpen) {
+      setMappings(sheets.map(sheet => ({
+        include: sheet.rows.length > 0,
+        // A single sheet most likely belongs in the dataset being viewed; several sheets get a dataset each
+        target: sheets.length === 1 && activeDatasetName ? "active" : "new",
+        newDatasetName: toDatasetName(sheet.name),
+        headerRow: sheet.rows.length > 1 ? "0" : NO_HEADER,
+      })));
+      setError(null);
+    }
+  }, [isOpen, sheets, activeDatasetName]);
+
+  const updateMapping = (index: number, changes: Partial<SheetMapping>) => {
+    setMappings(prev => prev.map((mapping, i) => (i === index ? { ...mapping, ...changes } : mapping)));
+  };
+
+  // Problems that block the import, in sheet order
+  const validationError = useMemo(() => {
+    const included = mappings.filter(mapping => mapping.include);
+    if (included.length === 0) return "Select at least one sheet to import.";
+    const newNames = new Set<string>();
+    for (const [index, mapping] of mappings.entries()) {
+      if (!mapping.include) continue;
+      const sheetName = sheets[index]?.name;
+      if (entryCount(sheets[index], mapping) === 0) return `Sheet '${sheetName}': there are no rows below the header row.`;
+      if (mapping.target === "active") {
+        if (!activeDatasetName) return `Sheet '${sheetName}': no dataset is open; import it into a new dataset instead.`;
+        continue;
+      }
+      const name = mapping.newDatasetName.trim();
+      if (!name) return `Sheet '${sheetName}': enter a name for the new dataset.`;
+      if (!DATASET_NAME_PATTERN.test(name)) return `Sheet '${sheetName}': ${DATASET_NAME_HINT}`;
+      if (newNames.has(name.toLowerCase())) return `Sheet '${sheetName}': another sheet is already imported into '${name}'.`;
+      if (activeDatasetName && included.some(other => other.target === "active") && name.toLowerCase() === activeDatasetName.toLowerCase()) {
+        return `Sheet '${sheetName}': '${name}' is the active dataset, which other sheets are added to.`;
+      }
+      newNames.add(name.toLowerCase());
+    }
+    return null;
+  }, [mappings, sheets, activeDatasetName]);
+
+  const handleImport = () => {
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    setError(null);
+    onProcessingChange(true);
+
+    startTransition(async () => {
+      const imported: string[] = [];
+      const createdDatasets: string[] = [];
+      try {
+        for (const [index, mapping] of mappings.entries()) {
+          if (!mapping.include) continue;
+          const sheet = sheets[index];
+          const entries = sheetToEntries(sheet.rows, headerRowIndex(mapping));
+          const datasetName = mapping.target === "active" ? activeDatasetName! : mapping.newDatasetName.trim();
+          console.log(`Workbook import: sheet '${sheet.name}' (${entries.length} entries) -> ${mapping.target === "active" ? "add to" : "create/replace"} dataset '${datasetName}'`);
+
+          const result = mapping.target === "active"
+            ? await uploadDataAction(datasetName, entries)
+            : await createNewDatasetAction(datasetName, entries);
+          if (!result.success) {
+            const done = imported.length > 0 ? ` Already imported: ${imported.join(", ")}.` : "";
+            throw new Error(`Sheet '${sheet.name}': ${result.error || "Import failed."}${done}`);
+          }
+          imported.push(`'${sheet.name}' → '${datasetName}'`);
+          if (mapping.target === "new") createdDatasets.push(datasetName);
+        }
+
+        toast({
+          title: "Workbook Imported",
+          description: `Imported ${imported.length} sheet${imported.length === 1 ? "" : "s"}: ${imported.join(", ")}.`,
+        });
+        // Open the first new dataset unless the dataset being viewed received data
+        const activeUpdated = mappings.some(mapping => mapping.include && mapping.target === "active");
+        if (!activeUpdated && createdDatasets.length > 0) {
+          router.push(datasetPath(createdDatasets[0]));
+        } else {
+          router.refresh();
+        }
+        onClose();
+      } catch (err) {
+        console.error("Error importing workbook:", err);
+        const message = err instanceof Error ? err.message : "An unexpected error occurred.";
+        setError(message);
+        toast({ variant: "destructive", title: "Import Error", description: message });
+        if (imported.length > 0) router.refresh();
+      } finally {
+        onProcessingChange(false);
+      }
+    });
+  };
+
+  const includedCount = mappings.filter(mapping => mapping.include).length;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="sm:max-w-[760px] max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Import Workbook</DialogTitle>
+          <DialogDescription>
+            Choose which sheets of {fileName} to import, where each one goes, and which row holds its column names.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="flex-grow border rounded-md my-2 bg-muted/50 overflow-auto">
+          <div className="p-4 space-y-4">
+            {sheets.map((sheet, index) => {
+              const mapping = mappings[index];
+              if (!mapping) return null;
+              const headerIndex = headerRowIndex(mapping);
+              const columns = sheetColumnNames(sheet.rows, headerIndex);
+              const entries = entryCount(sheet, mapping);
+              const replacesExisting = mapping.target === "new"
+                && allDatasetNames.some(name => name.toLowerCase() === mapping.newDatasetName.trim().toLowerCase());
+              return (
+                <div key={sheet.name} className="space-y-3 p-3 border rounded-md bg-background">
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`sheet-include-${index}`}
+                      checked={mapping.include}
+                      onCheckedChange={(checked) => updateMapping(index, { include: checked === true })}
+                      disabled={isPending || sheet.rows.length === 0}
+                    />
+                    <Label htmlFor={`sheet-include-${index}`} className="cursor-pointer flex items-center gap-2">
+                      <FileSpreadsheet className="h-4 w-4 text-green-600" /> {sheet.name}
+                    </Label>
+                    <span className="text-xs text-muted-foreground">
+                      {sheet.rows.length === 0 ? "Empty sheet" : `${entries} entr${entries === 1 ? "y" : "ies"}, ${columns.length} column${columns.length === 1 ? "" : "s"}`}
+                    </span>
+                  </div>
+
+                  {mapping.include && (
+                    <div className="pl-6 space-y-3">
+                      <div className="flex flex-col sm:flex-row gap-3">
+                        <div className="space-y-1 w-full sm:w-[260px]">
+                          <Label htmlFor={`sheet-header-${index}`}>Header Row</Label>
+                          <Select value={mapping.headerRow} onValueChange={(headerRow) => updateMapping(index, { headerRow })} disabled={isPending}>
+                            <SelectTrigger id={`sheet-header-${index}`}>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={NO_HEADER}>No header row</SelectItem>
+                              {sheet.rows.slice(0, HEADER_ROW_CHOICES).map((row, rowIndex) => (
+                                <SelectItem key={rowIndex} value={String(rowIndex)}>
+                                  Row {rowIndex + 1}: {rowSummary(row)}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        <div className="space-y-1 w-full sm:w-[220px]">
+                          <Label htmlFor={`sheet-target-${index}`}>Import Into</Label>
+                          <Select value={mapping.target} onValueChange={(target) => updateMapping(index, { target: target as SheetTarget })} disabled={isPending}>
+                            <SelectTrigger id={`sheet-target-${index}`}>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="active" disabled={!activeDatasetName}>
+                                {activeDatasetName ? `Current set ('${activeDatasetName}')` : "Current set (none open)"}
+                              </SelectItem>
+                              <SelectItem value="new">New / replaced set</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        {mapping.target === "new" && (
+                          <div className="space-y-1 flex-grow">
+                            <Label htmlFor={`sheet-dataset-${index}`}>Data Set Name</Label>
+                            <Input
+                              id={`sheet-dataset-${index}`}
+                              value={mapping.newDatasetName}
+                              onChange={(e) => updateMapping(index, { newDatasetName: e.target.value })}
+                              disabled={isPending}
+                            />
+                          </div>
+                        )}
+                      </div>
+                      <p className="text-xs text-muted-foreground break-words">
+                        Columns: {columns.length > 0 ? columns.join(", ") : "none"}
+                        {headerIndex !== null && headerIndex > 0 ? ` (rows above row ${headerIndex + 1} are skipped)` : ""}
+                      </p>
+                      {mapping.target === "active" && (
+                        <p className="text-xs text-muted-foreground">Adds new entries or updates existing entries (based on an 'id' column).</p>
+                      )}
+                      {replacesExisting && (
+                        <p className="text-xs text-orange-600">Note: A data set with this name exists and will be replaced.</p>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </ScrollArea>
+
+        {(error || validationError) && (
+          <Alert variant="destructive">
+            <AlertTitle>{error ? "Error" : "Check the mapping"}</AlertTitle>
+            <AlertDescription>{error || validationError}</AlertDescription>
+          </Alert>
+        )}
+
+        <DialogFooter>
+          <DialogClose asChild>
+            <Button variant="outline" disabled={isPending}>Cancel</Button>
+          </DialogClose>
+          <Button onClick={handleImport} disabled={isPending || !!validationError}>
+            {isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <FileSpreadsheet className="mr-2 h-4 w-4" />}
+            {isPending ? "Importing..." : `Import ${includedCount} Sheet${includedCount === 1 ? "" : "s"}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,21 @@
+// src/lib/ai-models.ts
+// Display names of the AI model providers, shared by server code and UI. Model names have the form '<provider>/<model>'.
+
+export const AI_MODEL_PROVIDERS = ['googleai', 'local', 'fake'] as const;
+
+export type AiModelProvider = typeof AI_MODEL_PROVIDERS[number];
+
+export const AI_MODEL_PROVIDER_LABELS: Record<AiModelProvider, string> = {
+  googleai: 'Google AI',
+  local: 'Local (OpenAI-compatible)',
+  fake: 'Fake (offline)',
+};
+
+/** Readable form of a model name, e.g. 'Local (OpenAI-compatible): llama3.1'. Unknown providers are shown as they are. */
+export function formatModelName(name: string): string {
+  const separator = name.indexOf('/');
+  const provider = name.slice(0, separator) as AiModelProvider;
+  return separator > 0 && AI_MODEL_PROVIDER_LABELS[provider]
+    ? `${AI_MODEL_PROVIDER_LABELS[provider]}: ${name.slice(separator + 1)}`
+    : name;
+}
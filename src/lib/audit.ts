@@ -0,0 +1,27 @@
+// src/lib/audit.ts
+// Limits and labels for the audit log, shared by the database service, server actions, API routes and UI.
+
+import type { AuditAction } from '@/services/types';
+
+export const DEFAULT_AUDIT_PAGE_SIZE = 100;
+export const MAX_AUDIT_PAGE_SIZE = 500;
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  'dataset.create': 'Dataset created',
+  'dataset.replace': 'Dataset replaced',
+  'dataset.update': 'Dataset details changed',
+  'dataset.rename': 'Dataset renamed',
+  'dataset.clone': 'Dataset cloned',
+  'dataset.delete': 'Dataset deleted',
+  'dataset.import': 'Entries imported',
+  'dataset.restore': 'Backup restored',
+  'entry.add': 'Entry added',
+  'entry.update': 'Entry updated',
+  'entry.clean': 'Cleaning applied',
+  'entry.delete': 'Entry deleted',
+  'relationship.add': 'Relationship added',
+  'relationship.update': 'Relationship changed',
+  'relationship.delete': 'Relationship deleted',
+};
+
+export const AUDIT_ACTIONS = Object.keys(AUDIT_ACTION_LABELS) as AuditAction[];
@@ -0,0 +1,123 @@
+// src/lib/cleaning-changes.ts
+// Field-level cleaning suggestions: checking the changes the AI model reports against the entry, combining them
+// with the changes of cleaning rules, and turning the accepted ones into a JSON Patch.
+
+import { z } from 'zod';
+import type { CleaningChange, CleaningChangeCategory, JsonPatchOperation } from '@/services/types';
+import { isDeepEqual } from '@/lib/json-diff';
+import { applyEntryPatch, getPointerValue, parseJsonPointer } from '@/lib/json-patch';
+
+export const CLEANING_CHANGE_CATEGORY_LABELS: Record<CleaningChangeCategory, string> = {
+  trim: 'Whitespace',
+  typo: 'Typo',
+  boolean: 'Boolean',
+  date: 'Date',
+  casing: 'Casing',
+  other: 'Other',
+  rule: 'Cleaning rule',
+};
+
+// The categories the AI model may report
+export const AI_CLEANING_CHANGE_CATEGORIES = ['trim', 'typo', 'boolean', 'date', 'casing', 'other'] as const;
+
+// Suggestions below this confidence are not selected by default in the review
+export const LOW_CLEANING_CONFIDENCE = 0.5;
+
+/**
+ * Shape of the reviewed changes a client sends back to apply.
+ */
+export const CleaningChangesSchema = z.array(z.object({
+  path: z.string(),
+  before: z.unknown(),
+  after: z.unknown(),
+  category: z.enum([...AI_CLEANING_CHANGE_CATEGORIES, 'rule']),
+  rationale: z.string(),
+  confidence: z.number(),
+})).min(1, 'No changes selected.');
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function toPointer(tokens: string[]): string {
+  return tokens.map(token => `/${token.replace(/~/g, '~0').replace(/\//g, '~1')}`).join('');
+}
+
+/** Whether `path` is `ancestor` or lies below it. */
+function isWithin(path: string, ancestor: string): boolean {
+  return path === ancestor || path.startsWith(`${ancestor}/`);
+}
+
+/**
+ * Keeps the changes that can be applied to the entry content: the path must exist (and not be the entry ID),
+ * `before` must match the stored value, `after` must differ from it, and no two changes may touch the same value.
+ * Models sometimes report changes that do not match the input; those are dropped rather than trusted.
+ */
+export function validCleaningChanges(data: Record<string, unknown>, changes: CleaningChange[]): CleaningChange[] {
+  const valid: CleaningChange[] = [];
+  for (const change of changes) {
+    try {
+      const tokens = parseJsonPointer(change.path);
+      if (tokens.length === 0 || (tokens.length === 1 && tokens[0] === 'id')) continue;
+      if (!isDeepEqual(getPointerValue(data, change.path), change.before)) continue;
+    } catch {
+      continue; // Not a pointer, or nothing at the path
+    }
+    if (isDeepEqual(change.before, change.after)) continue;
+    if (valid.some(kept => isWithin(change.path, kept.path) || isWithin(kept.path, change.path))) continue;
+    const confidence = Number.isFinite(change.confidence) ? Math.min(Math.max(change.confidence, 0), 1) : 0;
+    valid.push({ ...change, confidence });
+  }
+  return valid;
+}
+
+/**
+ * Lists the values cleaning rules changed, as changes of category 'rule'. Rules only rewrite values,
+ * never the structure, so the content before and after has the same shape.
+ */
+export function ruleCleaningChanges(before: unknown, after: unknown, tokens: string[] = []): CleaningChange[] {
+  if (Array.isArray(before) && Array.isArray(after)) {
+    return before.flatMap((item, index) => ruleCleaningChanges(item, after[index], [...tokens, String(index)]));
+  }
+  if (isPlainObject(before) && isPlainObject(after)) {
+    return Object.keys(before).flatMap(key => ruleCleaningChanges(before[key], after[key], [...tokens, key]));
+  }
+  if (isDeepEqual(before, after)) return [];
+  return [{ path: toPointer(tokens), before, after, category: 'rule', rationale: 'Changed by the cleaning rules of the dataset.', confidence: 1 }];
+}
+
+/**
+ * Combines the changes of the cleaning rules (made to `data`) with the AI model's changes (made to the
+ * rule-cleaned content) into one list against `data`. Where the model changed a value the rules already changed,
+ * its change replaces the rules' one; a model change that restores the stored value removes both.
+ * Model changes inside a value a mapping rule produced are dropped, as they have no counterpart in `data`.
+ */
+export function combineCleaningChanges(data: Record<string, unknown>, ruleChanges: CleaningChange[], aiChanges: CleaningChange[]): CleaningChange[] {
+  const combined = ruleChanges.filter(ruleChange => !aiChanges.some(aiChange => isWithin(ruleChange.path, aiChange.path)));
+  for (const aiChange of aiChanges) {
+    let before: unknown;
+    try {
+      before = getPointerValue(data, aiChange.path);
+    } catch {
+      continue; // Inside a value a rule mapped to; the rule's change is kept
+    }
+    if (!isDeepEqual(before, aiChange.after)) combined.push({ ...aiChange, before });
+  }
+  return combined;
+}
+
+/**
+ * JSON Patch applying the given changes. Each change is preceded by a 'test' of its `before` value,
+ * so the patch fails instead of overwriting an entry that changed since the suggestion was made.
+ */
+export function cleaningChangesPatch(changes: CleaningChange[]): JsonPatchOperation[] {
+  return changes.flatMap<JsonPatchOperation>(change => [
+    { op: 'test', path: change.path, value: change.before },
+    { op: 'replace', path: change.path, value: change.after },
+  ]);
+}
+
+/** Applies changes to entry content (without 'id'), returning the cleaned content. */
+export function applyCleaningChanges(data: Record<string, unknown>, changes: CleaningChange[]): Record<string, unknown> {
+  return applyEntryPatch(data, { type: 'json-patch', operations: cleaningChangesPatch(changes) });
+}
@@ -0,0 +1,40 @@
+// src/lib/cleaning-jobs.ts
+// Limits and labels for batch AI cleaning jobs, shared by the database service, the job runner, server actions, API routes and UI.
+
+import type { CleaningItemStatus, CleaningJobStatus } from '@/services/types';
+
+export const DEFAULT_CLEANING_CONCURRENCY = 4;
+export const MAX_CLEANING_CONCURRENCY = 16;
+
+// Model calls per entry before it is marked as failed, and the delay before the first retry (doubled for each further one)
+export const MAX_CLEANING_ATTEMPTS = 3;
+export const CLEANING_RETRY_DELAY_MS = 2000;
+
+export const DEFAULT_CLEANING_ITEM_PAGE_SIZE = 50;
+export const MAX_CLEANING_ITEM_PAGE_SIZE = 200;
+
+// How often the review page refreshes the progress of a running job
+export const CLEANING_PROGRESS_POLL_MS = 3000;
+
+/** The requested concurrency of a job, limited to 1..MAX_CLEANING_CONCURRENCY (default DEFAULT_CLEANING_CONCURRENCY). */
+export function clampCleaningConcurrency(value?: number | null): number {
+  return Math.min(Math.max(Math.trunc(value ?? DEFAULT_CLEANING_CONCURRENCY) || DEFAULT_CLEANING_CONCURRENCY, 1), MAX_CLEANING_CONCURRENCY);
+}
+
+export const CLEANING_JOB_STATUS_LABELS: Record<CleaningJobStatus, string> = {
+  running: 'Running',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+};
+
+export const CLEANING_ITEM_STATUS_LABELS: Record<CleaningItemStatus, string> = {
+  pending: 'Pending',
+  proposed: 'To review',
+  unchanged: 'No changes',
+  failed: 'Failed',
+  accepted: 'Accepted',
+  rejected: 'Rejected',
+  stale: 'Outdated',
+};
+
+export const CLEANING_ITEM_STATUSES = Object.keys(CLEANING_ITEM_STATUS_LABELS) as CleaningItemStatus[];
@@ -0,0 +1,178 @@
+// src/lib/cleaning-rules.ts
+// Deterministic, rule-based cleaning of entry content. The same rules always give the same result, so they
+// handle the mechanical fixes (whitespace, casing, types, dates, placeholders) and leave only fuzzy cases to the AI flow.
+
+import { format as formatDate, isValid, parse as parseDate } from 'date-fns';
+import type { CleaningRule, CleaningRuleType } from '@/services/types';
+
+export const CLEANING_RULE_LABELS: Record<CleaningRuleType, string> = {
+  trim: 'Trim whitespace',
+  case: 'Normalize case',
+  'regex-replace': 'Regex replace',
+  coerce: 'Convert type',
+  date: 'Parse dates',
+  map: 'Map values',
+  null: 'Normalize empty values',
+};
+
+export const CLEANING_RULE_TYPES = Object.keys(CLEANING_RULE_LABELS) as CleaningRuleType[];
+
+export const MAX_CLEANING_RULES = 100;
+
+// Sensible starting point for a new rule of each type
+export const DEFAULT_CLEANING_RULES: Record<CleaningRuleType, CleaningRule> = {
+  trim: { type: 'trim' },
+  case: { type: 'case', mode: 'lower', fields: ['email'] },
+  'regex-replace': { type: 'regex-replace', pattern: '\\s+', flags: 'g', replacement: ' ' },
+  coerce: { type: 'coerce', to: 'boolean', fields: [] },
+  date: { type: 'date', formats: ['dd/MM/yyyy', 'yyyy-MM-dd HH:mm:ss'], output: 'datetime', fields: [] },
+  map: { type: 'map', mapping: { yes: true, no: false }, caseInsensitive: true, fields: [] },
+  null: { type: 'null', values: ['', 'N/A', 'n/a', 'null', 'none', '-'] },
+};
+
+const TRUE_STRINGS = new Set(['true', 'yes', 'y', '1', 'on']);
+const FALSE_STRINGS = new Set(['false', 'no', 'n', '0', 'off']);
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Whether a field path (segments) matches one of the patterns; '*' matches any single segment. */
+function matchesField(path: string[], patterns: string[][]): boolean {
+  return patterns.some(pattern =>
+    pattern.length === path.length && pattern.every((segment, index) => segment === '*' || segment === path[index])
+  );
+}
+
+function toTitleCase(value: string): string {
+  return value.toLowerCase().replace(/(^|[\s\-_'])(\p{L})/gu, (match, separator: string, letter: string) => separator + letter.toUpperCase());
+}
+
+/**
+ * Returns the new value of one scalar under a rule, or the value itself if the rule does not apply to it.
+ * `regex` is the rule's compiled expression for 'regex-replace'.
+ */
+function applyRuleToValue(rule: CleaningRule, value: unknown, regex: RegExp | null): unknown {
+  switch (rule.type) {
+    case 'trim':
+      return typeof value === 'string' ? value.trim() : value;
+    case 'case':
+      if (typeof value !== 'string') return value;
+      if (rule.mode === 'lower') return value.toLowerCase();
+      if (rule.mode === 'upper') return value.toUpperCase();
+      return toTitleCase(value);
+    case 'regex-replace':
+      return typeof value === 'string' && regex ? value.replace(regex, rule.replacement) : value;
+    case 'coerce':
+      if (rule.to === 'string') {
+        return typeof value === 'number' || typeof value === 'boolean' ? String(value) : value;
+      }
+      if (rule.to === 'number') {
+        if (typeof value !== 'string' || value.trim() === '') return value;
+        const number = Number(value.trim());
+        return Number.isFinite(number) ? number : value;
+      }
+      if (typeof value === 'number' && (value === 0 || value === 1)) return value === 1;
+      if (typeof value === 'string') {
+        const normalized = value.trim().toLowerCase();
+        if (TRUE_STRINGS.has(normalized)) return true;
+        if (FALSE_STRINGS.has(normalized)) return false;
+      }
+      return value;
+    case 'date': {
+      if (typeof value !== 'string' || value.trim() === '') return value;
+      for (const dateFormat of rule.formats) {
+        if (!dateFormat.trim()) continue;
+        // Parts missing from the format (e.g. the time) come from a local midnight reference date
+        const parsed = parseDate(value.trim(), dateFormat, new Date(2000, 0, 1));
+        if (isValid(parsed)) {
+          return rule.output === 'date' ? formatDate(parsed, 'yyyy-MM-dd') : parsed.toISOString();
+        }
+      }
+      return value;
+    }
+    case 'map': {
+      if (typeof value !== 'string' && typeof value !== 'number' && typeof value !== 'boolean') return value;
+      const key = String(value);
+      if (Object.prototype.hasOwnProperty.call(rule.mapping, key)) return rule.mapping[key];
+      if (rule.caseInsensitive) {
+        const match = Object.keys(rule.mapping).find(candidate => candidate.toLowerCase() === key.toLowerCase());
+        if (match !== undefined) return rule.mapping[match];
+      }
+      return value;
+    }
+    case 'null': {
+      if (typeof value !== 'string') return value;
+      const normalized = value.trim().toLowerCase();
+      return rule.values.some(placeholder => placeholder.trim().toLowerCase() === normalized) ? null : value;
+    }
+  }
+}
+
+/** Applies one rule to every matching scalar below `value`, returning a new value (the input is not modified). */
+function applyRule(rule: CleaningRule, value: unknown, path: string[], patterns: string[][] | null, regex: RegExp | null): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item, index) => applyRule(rule, item, [...path, String(index)], patterns, regex));
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, applyRule(rule, item, [...path, key], patterns, regex)])
+    );
+  }
+  if (patterns && !matchesField(path, patterns)) return value;
+  return applyRuleToValue(rule, value, regex);
+}
+
+/**
+ * Checks a rule for errors that would make it fail or do nothing: an invalid regular expression,
+ * a date rule without formats, and so on. Returns a message, or null if the rule is usable.
+ */
+export function cleaningRuleError(rule: CleaningRule): string | null {
+  switch (rule.type) {
+    case 'regex-replace':
+      if (!rule.pattern) return 'A regex replace rule needs a pattern.';
+      try {
+        new RegExp(rule.pattern, rule.flags ?? 'g');
+      } catch (error) {
+        return `Invalid regular expression: ${error instanceof Error ? error.message : String(error)}`;
+      }
+      return null;
+    case 'date':
+      return rule.formats.some(dateFormat => dateFormat.trim()) ? null : 'A date rule needs at least one format.';
+    case 'map':
+      return Object.keys(rule.mapping).length > 0 ? null : 'A mapping rule needs at least one value to map.';
+    case 'null':
+      return rule.values.length > 0 ? null : 'An empty-value rule needs at least one placeholder value.';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Checks a rule set; returns the first error (prefixed with the rule's position), or null if every rule is usable.
+ */
+export function cleaningRulesError(rules: CleaningRule[]): string | null {
+  if (rules.length > MAX_CLEANING_RULES) return `A rule set can have at most ${MAX_CLEANING_RULES} rules.`;
+  for (const [index, rule] of rules.entries()) {
+    const error = cleaningRuleError(rule);
+    if (error) return `Rule ${index + 1} (${CLEANING_RULE_LABELS[rule.type]}): ${error}`;
+  }
+  return null;
+}
+
+/**
+ * Runs a rule set over entry content, rule by rule in order, and returns the cleaned content.
+ * The input is not modified. Disabled and unusable rules are skipped.
+ * @param data Entry content without 'id'.
+ */
+export function applyCleaningRules<T extends Record<string, unknown>>(data: T, rules: CleaningRule[]): T {
+  let result: unknown = data;
+  for (const rule of rules) {
+    if (rule.enabled === false || cleaningRuleError(rule)) continue;
+    const fields = rule.fields?.map(field => field.trim()).filter(Boolean) ?? [];
+    const patterns = fields.length > 0 ? fields.map(field => field.split('.')) : null;
+    const regex = rule.type === 'regex-replace' ? new RegExp(rule.pattern, rule.flags ?? 'g') : null;
+    result = applyRule(rule, result, [], patterns, regex);
+  }
+  return result as T;
+}
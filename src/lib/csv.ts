@@ -0,0 +1,244 @@
+// src/lib/csv.ts
+// Parsing of delimited text files (CSV, TSV, ...) into entries: dialect and header detection,
+// per-column type inference, and conversion of cell text into JSON values. Runs in the browser.
+
+import type { DataEntry } from '@/services/types';
+
+export type ColumnType = 'string' | 'number' | 'boolean' | 'date' | 'null';
+
+export const COLUMN_TYPES: ColumnType[] = ['string', 'number', 'boolean', 'date', 'null'];
+
+export interface DelimitedDialect {
+  delimiter: string;
+  quote: string;
+  hasHeader: boolean;
+}
+
+export interface DelimitedTable {
+  headers: string[];
+  rows: string[][]; // Data rows only; every row has headers.length cells
+  inferredTypes: ColumnType[];
+}
+
+export const DELIMITER_OPTIONS: { value: string; label: string }[] = [
+  { value: ',', label: 'Comma (,)' },
+  { value: '\t', label: 'Tab' },
+  { value: ';', label: 'Semicolon (;)' },
+  { value: '|', label: 'Pipe (|)' },
+];
+
+const QUOTE_CANDIDATES = ['"', "'"];
+const SAMPLE_LINES = 20; // Lines looked at when detecting the dialect
+const SAMPLE_CHARS = 64 * 1024; // Upper bound on the text scanned for those lines
+const NULL_TOKENS = new Set(['', 'null', 'NULL', 'Null', 'NA', 'N/A', 'n/a']);
+const BOOLEAN_VALUES: Record<string, boolean> = { true: true, false: false, TRUE: true, FALSE: false, True: true, False: false };
+// No leading zeros (except "0" and "0.x"), so codes like "00123" stay strings
+const NUMBER_PATTERN = /^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+/**
+ * Splits delimited text into rows of cells. Handles quoted cells containing delimiters,
+ * line breaks and doubled quotes, CRLF line endings and a leading byte order mark.
+ */
+export function parseDelimited(text: string, delimiter: string, quote: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === quote) {
+        if (input[i + 1] === quote) {
+          cell += quote;
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        cell += char;
+      }
+    } else if (char === quote && cell === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  // Drop blank lines
+  return rows.filter(cells => cells.length > 1 || cells[0].trim() !== '');
+}
+
+/**
+ * Detects how a file is delimited: the delimiter that splits the first lines into the same number (> 1)
+ * of cells most consistently, the quote character that most often encloses a whole cell,
+ * and whether the first line is a header.
+ */
+export function detectDialect(text: string): DelimitedDialect {
+  const sample = text.slice(0, SAMPLE_CHARS).split(/\r?\n/).slice(0, SAMPLE_LINES).join('\n');
+
+  const quote = QUOTE_CANDIDATES
+    .map(candidate => {
+      // A quoted cell starts after a delimiter or line start and ends before one
+      const enclosed = sample.match(new RegExp(`(^|[,;|\\t])${candidate}[^${candidate}\\n]*${candidate}(?=[,;|\\t]|$)`, 'gm'));
+      return { candidate, count: enclosed?.length ?? 0 };
+    })
+    .sort((a, b) => b.count - a.count)[0];
+
+  let best = { delimiter: ',', score: -1 };
+  for (const { value: delimiter } of DELIMITER_OPTIONS) {
+    const rows = parseDelimited(sample, delimiter, quote.count > 0 ? quote.candidate : '"');
+    if (rows.length === 0) continue;
+    const counts = rows.map(cells => cells.length);
+    const mostCommon = mode(counts);
+    if (mostCommon < 2) continue;
+    // Share of lines with the most common cell count, weighted by that count
+    const consistency = counts.filter(count => count === mostCommon).length / counts.length;
+    const score = consistency * 100 + mostCommon;
+    if (score > best.score) best = { delimiter, score };
+  }
+  const detectedQuote = quote.count > 0 ? quote.candidate : '"';
+  return {
+    delimiter: best.delimiter,
+    quote: detectedQuote,
+    hasHeader: detectHeader(parseDelimited(sample, best.delimiter, detectedQuote)),
+  };
+}
+
+function mode(values: number[]): number {
+  const counts = new Map<number, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) ?? 0) + 1));
+  return Array.from(counts.entries()).sort((a, b) => b[1] - a[1] || b[0] - a[0])[0]?.[0] ?? 0;
+}
+
+function valueType(raw: string): ColumnType {
+  const value = raw.trim();
+  if (NULL_TOKENS.has(value)) return 'null';
+  if (NUMBER_PATTERN.test(value)) return 'number';
+  if (value in BOOLEAN_VALUES) return 'boolean';
+  if (DATE_PATTERN.test(value) && !Number.isNaN(Date.parse(value.replace(' ', 'T')))) return 'date';
+  return 'string';
+}
+
+/**
+ * Infers the type of a column from its values: the single type shared by all non-empty values,
+ * 'string' if they disagree, or 'null' if every value is empty.
+ */
+export function inferColumnType(values: string[]): ColumnType {
+  const types = new Set(values.map(valueType));
+  types.delete('null');
+  if (types.size === 0) return 'null';
+  return types.size === 1 ? Array.from(types)[0] : 'string';
+}
+
+/**
+ * Guesses whether the first row holds column names: it does if, in some column, the first cell's type
+ * differs from the type of the rest of the column, or if all its cells are distinct non-empty texts
+ * while the columns below hold other types or repeated values.
+ */
+export function detectHeader(rows: string[][]): boolean {
+  if (rows.length < 2) return false;
+  const [first, ...rest] = rows;
+  if (first.some(cell => cell.trim() === '') || new Set(first).size !== first.length) return false;
+
+  let votes = 0;
+  first.forEach((cell, column) => {
+    const columnValues = rest.map(row => row[column] ?? '');
+    const columnType = inferColumnType(columnValues);
+    if (columnType !== 'string' && columnType !== 'null') {
+      votes += valueType(cell) === 'string' ? 1 : -1;
+    } else if (columnValues.includes(cell)) {
+      votes -= 1; // A header name rarely repeats as a value
+    }
+  });
+  if (votes !== 0) return votes > 0;
+  // All-text table: assume a header when the first row contains no value-like cells
+  return first.every(cell => valueType(cell) === 'string');
+}
+
+/**
+ * Names columnCount columns after the cells of a header row: blank or missing names become column_1,
+ * column_2, ... and repeated names get a numeric suffix (name_2, name_3, ...).
+ */
+export function toColumnNames(headerRow: string[], columnCount: number): string[] {
+  const used = new Set<string>();
+  return Array.from({ length: columnCount }, (_, index) => {
+    const base = headerRow[index]?.trim() || `column_${index + 1}`;
+    let name = base;
+    for (let suffix = 2; used.has(name); suffix++) name = `${base}_${suffix}`;
+    used.add(name);
+    return name;
+  });
+}
+
+/**
+ * Parses delimited text with the given dialect into a table with one name and inferred type per column.
+ * Columns without a header (or when hasHeader is false) are named column_1, column_2, ...
+ */
+export function parseDelimitedTable(text: string, dialect: DelimitedDialect): DelimitedTable {
+  const allRows = parseDelimited(text, dialect.delimiter, dialect.quote);
+  const headerRow = dialect.hasHeader ? allRows[0] ?? [] : [];
+  const dataRows = dialect.hasHeader ? allRows.slice(1) : allRows;
+  const columnCount = dataRows.reduce((max, row) => Math.max(max, row.length), headerRow.length);
+
+  const headers = toColumnNames(headerRow, columnCount);
+  const rows = dataRows.map(row => Array.from({ length: columnCount }, (_, index) => row[index] ?? ''));
+  const inferredTypes = headers.map((_, index) => inferColumnType(rows.map(row => row[index])));
+  return { headers, rows, inferredTypes };
+}
+
+/**
+ * Converts one cell to a JSON value of the given column type. Empty and null-like cells become null,
+ * except in string columns; cells that do not fit the type are kept as strings.
+ * Dates stay strings in ISO 8601 form, as JSON has no date type.
+ */
+export function convertCell(raw: string, type: ColumnType): unknown {
+  const value = raw.trim();
+  if (type === 'string') return raw;
+  if (NULL_TOKENS.has(value) || type === 'null') return null;
+  switch (type) {
+    case 'number': {
+      const number = Number(value);
+      return value !== '' && Number.isFinite(number) ? number : raw;
+    }
+    case 'boolean':
+      return value in BOOLEAN_VALUES ? BOOLEAN_VALUES[value] : raw;
+    case 'date': {
+      if (/^\d{4}-\d{2}-\d{2}$/.test(value)) return value;
+      const time = Date.parse(value.replace(' ', 'T'));
+      return Number.isNaN(time) ? raw : new Date(time).toISOString();
+    }
+  }
+}
+
+/**
+ * Builds entries from a parsed table, converting each column to its chosen type.
+ * A column named 'id' becomes the entry ID (as a string); empty IDs are left for the database to assign.
+ */
+export function tableToEntries(table: DelimitedTable, types: ColumnType[]): DataEntry[] {
+  return table.rows.map(row => {
+    const entry: Record<string, unknown> = {};
+    table.headers.forEach((header, index) => {
+      if (header === 'id') {
+        if (row[index].trim()) entry.id = row[index].trim();
+        return;
+      }
+      entry[header] = convertCell(row[index], types[index] ?? 'string');
+    });
+    return entry as DataEntry;
+  });
+}
@@ -0,0 +1,204 @@
+// src/lib/dataset-archive.ts
+// Dataset backups: a gzip-compressed NDJSON file. The first line describes the dataset (metadata, schema
+// and counts), followed by one line per entry and then one line per relationship, so an archive can be
+// written and restored as a stream, and restored into the same or another DataHarbor instance.
+
+import { z } from 'zod';
+import type { DatasetSchema } from '@/services/types';
+import { decodeTextStream, INVALID_UPLOAD_PREFIX, parseJsonStream } from '@/lib/json-stream';
+import { DatasetSchemaSchema } from '@/lib/dataset-schema';
+
+export const ARCHIVE_FORMAT = 'dataharbor-dataset-archive';
+export const ARCHIVE_VERSION = 1;
+export const ARCHIVE_FILE_EXTENSION = '.dataharbor.ndjson.gz';
+
+export interface ArchiveHeader {
+  kind: 'dataset';
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exported_at: string;
+  dataset: {
+    name: string;
+    description: string | null;
+    owner: string | null;
+    tags: string[];
+    created_at: string | null;
+    schema: DatasetSchema | null; // Documented schema of the entries, if the dataset has one
+  };
+  entry_count: number;
+  relationship_count: number;
+}
+
+export interface ArchiveEntry {
+  kind: 'entry';
+  id: string;
+  data: Record<string, unknown>;
+  created_at: string | null;
+}
+
+export interface ArchiveRelationship {
+  kind: 'relationship';
+  source_entry_id: string;
+  target_entry_id: string;
+  type: string;
+  properties: Record<string, unknown> | null;
+  weight: number | null;
+  created_at: string | null;
+}
+
+export type ArchiveRecord = ArchiveHeader | ArchiveEntry | ArchiveRelationship;
+
+const TimestampSchema = z.string().datetime({ offset: true }).nullable().default(null);
+
+const ArchiveHeaderSchema = z.object({
+  kind: z.literal('dataset'),
+  format: z.literal(ARCHIVE_FORMAT),
+  version: z.number().int().min(1).max(ARCHIVE_VERSION, 'the archive was written by a newer version of DataHarbor'),
+  exported_at: z.string(),
+  dataset: z.object({
+    name: z.string().min(1),
+    description: z.string().nullable().default(null),
+    owner: z.string().nullable().default(null),
+    tags: z.array(z.string()).default([]),
+    created_at: TimestampSchema,
+    schema: DatasetSchemaSchema.nullable().default(null),
+  }),
+  entry_count: z.number().int().min(0),
+  relationship_count: z.number().int().min(0),
+});
+
+const ArchiveEntrySchema = z.object({
+  kind: z.literal('entry'),
+  id: z.string().min(1),
+  data: z.record(z.string(), z.unknown()),
+  created_at: TimestampSchema,
+});
+
+const ArchiveRelationshipSchema = z.object({
+  kind: z.literal('relationship'),
+  source_entry_id: z.string().min(1),
+  target_entry_id: z.string().min(1),
+  type: z.string().min(1),
+  properties: z.record(z.string(), z.unknown()).nullable().default(null),
+  weight: z.number().finite().nullable().default(null),
+  created_at: TimestampSchema,
+});
+
+function invalidArchive(message: string): Error {
+  return new Error(`${INVALID_UPLOAD_PREFIX}: ${message}`);
+}
+
+function describeIssue(error: z.ZodError): string {
+  const issue = error.issues[0];
+  return issue ? `${issue.path.length ? `${issue.path.join('.')}: ` : ''}${issue.message}` : 'invalid content';
+}
+
+/** e.g. "customers.dataharbor.ndjson.gz" */
+export function archiveFileName(datasetName: string): string {
+  return `${datasetName.trim().replace(/\s+/g, '_')}${ARCHIVE_FILE_EXTENSION}`;
+}
+
+/** Serializes archive records as NDJSON lines. */
+export async function* archiveChunks(records: AsyncIterable<ArchiveRecord>): AsyncGenerator<string> {
+  for await (const record of records) {
+    yield `${JSON.stringify(record)}\n`;
+  }
+}
+
+/**
+ * Returns the byte stream of an archive file, decompressed if it is gzip-compressed
+ * (recognized by its magic bytes), so uncompressed NDJSON archives are accepted as well.
+ */
+export async function decompressArchive(stream: ReadableStream<Uint8Array>): Promise<ReadableStream<Uint8Array>> {
+  const reader = stream.getReader();
+  const first = await reader.read();
+  const rest = new ReadableStream<Uint8Array>({
+    start(controller) {
+      if (!first.done) controller.enqueue(first.value);
+    },
+    async pull(controller) {
+      const { done, value } = await reader.read();
+      if (done) controller.close();
+      else controller.enqueue(value);
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+  const isGzip = !first.done && first.value.length >= 2 && first.value[0] === 0x1f && first.value[1] === 0x8b;
+  return isGzip ? rest.pipeThrough(new DecompressionStream('gzip')) : rest;
+}
+
+/**
+ * Validates the values of an archive and yields them as typed records. Checks that the archive starts with
+ * the dataset line, that entry IDs are unique, that relationships come after the entries and only link
+ * archived entries, and that the counts match the header (so a truncated file is rejected).
+ */
+export async function* parseArchiveRecords(values: AsyncIterable<unknown>): AsyncGenerator<ArchiveRecord> {
+  let header: ArchiveHeader | null = null;
+  const entryIds = new Set<string>();
+  let relationshipCount = 0;
+  let line = 0;
+
+  for await (const value of values) {
+    line++;
+    if (header === null) {
+      const parsed = ArchiveHeaderSchema.safeParse(value);
+      if (!parsed.success) {
+        throw invalidArchive(`not a DataHarbor dataset archive (line 1: ${describeIssue(parsed.error)}).`);
+      }
+      header = parsed.data as ArchiveHeader;
+      yield header;
+      continue;
+    }
+
+    const kind = (value as { kind?: unknown } | null)?.kind;
+    if (kind === 'entry') {
+      const parsed = ArchiveEntrySchema.safeParse(value);
+      if (!parsed.success) throw invalidArchive(`line ${line} is not a valid entry (${describeIssue(parsed.error)}).`);
+      if (relationshipCount > 0) throw invalidArchive(`line ${line}: entries must come before the relationships.`);
+      if (entryIds.has(parsed.data.id)) throw invalidArchive(`line ${line}: entry ID '${parsed.data.id}' occurs more than once.`);
+      entryIds.add(parsed.data.id);
+      yield parsed.data as ArchiveEntry;
+    } else if (kind === 'relationship') {
+      const parsed = ArchiveRelationshipSchema.safeParse(value);
+      if (!parsed.success) throw invalidArchive(`line ${line} is not a valid relationship (${describeIssue(parsed.error)}).`);
+      for (const endpoint of [parsed.data.source_entry_id, parsed.data.target_entry_id]) {
+        if (!entryIds.has(endpoint)) throw invalidArchive(`line ${line}: the relationship links entry '${endpoint}', which is not in the archive.`);
+      }
+      relationshipCount++;
+      yield parsed.data as ArchiveRelationship;
+    } else {
+      throw invalidArchive(`line ${line} is neither an entry nor a relationship.`);
+    }
+  }
+
+  if (header === null) {
+    throw invalidArchive('the archive is empty.');
+  }
+  if (entryIds.size !== header.entry_count || relationshipCount !== header.relationship_count) {
+    throw invalidArchive(
+      `the archive should hold ${header.entry_count} entries and ${header.relationship_count} relationships, ` +
+      `but has ${entryIds.size} and ${relationshipCount} (the file may be truncated).`
+    );
+  }
+}
+
+/** Reads and validates an archive file (compressed or not) as a stream of records. */
+export async function* readArchive(stream: ReadableStream<Uint8Array>): AsyncGenerator<ArchiveRecord> {
+  yield* parseArchiveRecords(parseJsonStream(decodeTextStream(await decompressArchive(stream))));
+}
+
+/**
+ * Reads only the dataset line of an archive file, e.g. to show what a backup contains before restoring it.
+ */
+export async function readArchiveHeader(stream: ReadableStream<Uint8Array>): Promise<ArchiveHeader> {
+  const records = readArchive(stream);
+  try {
+    const first = await records.next();
+    if (first.done || first.value.kind !== 'dataset') throw invalidArchive('the archive is empty.');
+    return first.value;
+  } finally {
+    await records.return(undefined); // Stops reading the rest of the file
+  }
+}
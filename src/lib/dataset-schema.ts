@@ -0,0 +1,263 @@
+// src/lib/dataset-schema.ts
+// Documented schemas of datasets: profiling sample entries (types, presence and values of every field), merging the
+// schema the AI model proposes with what the sample shows, and checking schemas edited by hand.
+
+import { z } from 'zod';
+import type { DatasetSchema, DatasetSchemaField, DatasetSchemaFieldType } from '@/services/types';
+
+export const DATASET_SCHEMA_FIELD_TYPES = ['string', 'number', 'integer', 'boolean', 'object', 'array', 'null', 'mixed'] as const satisfies readonly DatasetSchemaFieldType[];
+
+export const DATASET_SCHEMA_FIELD_TYPE_LABELS: Record<DatasetSchemaFieldType, string> = {
+  string: 'Text',
+  number: 'Number',
+  integer: 'Integer',
+  boolean: 'Boolean',
+  object: 'Object',
+  array: 'List',
+  null: 'Always empty',
+  mixed: 'Mixed',
+};
+
+// String formats recognised in samples; schemas may name other formats
+export const DATASET_SCHEMA_FORMATS = ['email', 'uri', 'uuid', 'date', 'date-time'] as const;
+
+export const DEFAULT_SCHEMA_SAMPLE_SIZE = 50;
+export const MAX_SCHEMA_SAMPLE_SIZE = 500;
+export const MAX_SCHEMA_FIELDS = 500;
+
+export const EMPTY_DATASET_SCHEMA: DatasetSchema = { description: '', fields: [], inferred_by: null };
+
+const MAX_PROFILE_DEPTH = 6; // Nesting levels below which values are not profiled
+const MAX_PROFILE_VALUES = 20; // Distinct values kept per field
+const MAX_ENUM_VALUES = 10; // Fields with more distinct values are not offered as enums
+
+const FORMAT_PATTERNS: Record<typeof DATASET_SCHEMA_FORMATS[number], RegExp> = {
+  email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  uri: /^[a-z][a-z0-9+.-]*:\/\/\S+$/i,
+  uuid: /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+  date: /^\d{4}-\d{2}-\d{2}$/,
+  'date-time': /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/,
+};
+
+type ObservedType = Exclude<DatasetSchemaFieldType, 'mixed'>;
+
+/**
+ * What a sample shows about one field: how often each type occurs, how often the field has a value
+ * out of the places it could have one (entries, parent objects or array items), and its first distinct values.
+ */
+export interface FieldProfile {
+  path: string;
+  types: Partial<Record<ObservedType, number>>;
+  present: number; // Values other than null
+  occurrences: number; // Entries, parent objects or array items the field belongs to
+  values: (string | number)[]; // Distinct string and number values, up to MAX_PROFILE_VALUES
+  moreValues: boolean; // Whether there are more distinct values than `values` holds
+  formats: string[] | null; // Formats every string value matches; null if there were no strings
+}
+
+export interface SchemaProfile {
+  sampleSize: number;
+  fields: FieldProfile[]; // In order of first appearance
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function observedType(value: unknown): ObservedType {
+  if (value === null || value === undefined) return 'null';
+  if (Array.isArray(value)) return 'array';
+  switch (typeof value) {
+    case 'number':
+      return Number.isInteger(value) ? 'integer' : 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'object':
+      return 'object';
+    default:
+      return 'string';
+  }
+}
+
+function joinPath(path: string, segment: string): string {
+  return path ? `${path}.${segment}` : segment;
+}
+
+/**
+ * Profiles sample entries (content without 'id'). Nested objects are profiled field by field ('address.city'),
+ * array items under '<array>.*'. At most MAX_SCHEMA_FIELDS fields are profiled.
+ */
+export function profileEntries(entries: Record<string, unknown>[]): SchemaProfile {
+  const fields = new Map<string, FieldProfile & { container: string }>();
+  const containers = new Map<string, number>(); // Objects or array items seen per container, keyed by its path
+
+  const visit = (value: unknown, path: string, container: string, depth: number) => {
+    let field = fields.get(path);
+    if (!field) {
+      if (fields.size >= MAX_SCHEMA_FIELDS) return;
+      field = { path, container, types: {}, present: 0, occurrences: 0, values: [], moreValues: false, formats: null };
+      fields.set(path, field);
+    }
+    const type = observedType(value);
+    field.types[type] = (field.types[type] ?? 0) + 1;
+    if (type === 'null') return;
+    field.present++;
+
+    if (typeof value === 'string' || typeof value === 'number') {
+      if (!field.values.includes(value)) {
+        if (field.values.length < MAX_PROFILE_VALUES) field.values.push(value);
+        else field.moreValues = true;
+      }
+      if (typeof value === 'string') {
+        const matching = DATASET_SCHEMA_FORMATS.filter(format => FORMAT_PATTERNS[format].test(value));
+        field.formats = field.formats ? field.formats.filter(format => (matching as string[]).includes(format)) : matching;
+      }
+    }
+    if (depth >= MAX_PROFILE_DEPTH) return;
+    if (Array.isArray(value)) {
+      const itemContainer = `${path}[]`;
+      for (const item of value) {
+        containers.set(itemContainer, (containers.get(itemContainer) ?? 0) + 1);
+        visit(item, joinPath(path, '*'), itemContainer, depth + 1);
+      }
+    } else if (isPlainObject(value)) {
+      containers.set(path, (containers.get(path) ?? 0) + 1);
+      for (const [key, child] of Object.entries(value)) visit(child, joinPath(path, key), path, depth + 1);
+    }
+  };
+
+  for (const entry of entries) {
+    containers.set('', (containers.get('') ?? 0) + 1);
+    for (const [key, value] of Object.entries(entry)) {
+      if (key !== 'id') visit(value, key, '', 1);
+    }
+  }
+
+  return {
+    sampleSize: entries.length,
+    fields: Array.from(fields.values()).map(({ container, ...field }) => ({ ...field, occurrences: containers.get(container) ?? 0 })),
+  };
+}
+
+/** The type a profiled field's values have: integers and other numbers together are numbers; several other types are 'mixed'. */
+export function profiledFieldType(field: FieldProfile): DatasetSchemaFieldType {
+  const types = (Object.keys(field.types) as ObservedType[]).filter(type => type !== 'null');
+  if (types.length === 0) return 'null';
+  if (types.length === 1) return types[0];
+  return types.every(type => type === 'number' || type === 'integer') ? 'number' : 'mixed';
+}
+
+/** Whether a profiled field is missing or null in some of the places it belongs to. */
+export function isProfiledFieldOptional(field: FieldProfile): boolean {
+  return field.present < field.occurrences;
+}
+
+/** The values of a text field that looks like a fixed set: few distinct values, each seen more than once on average. */
+export function profiledEnumCandidates(field: FieldProfile): string[] | null {
+  if (profiledFieldType(field) !== 'string' || field.moreValues || field.formats?.length) return null;
+  if (field.values.length === 0 || field.values.length > MAX_ENUM_VALUES || field.present < field.values.length * 2) return null;
+  return field.values as string[];
+}
+
+/** The schema field a profile shows on its own, without a description. */
+export function profiledSchemaField(field: FieldProfile): DatasetSchemaField {
+  const enumValues = profiledEnumCandidates(field);
+  const format = field.formats?.[0];
+  return {
+    path: field.path,
+    type: profiledFieldType(field),
+    optional: isProfiledFieldOptional(field),
+    ...(enumValues ? { enum: enumValues } : {}),
+    ...(format ? { format } : {}),
+    description: '',
+  };
+}
+
+/** Whether a proposed type agrees with the observed one: the same, a number for integers, or anything if there were only nulls. */
+function isCompatibleType(observed: DatasetSchemaFieldType, proposed: DatasetSchemaFieldType): boolean {
+  return proposed === observed || observed === 'null' || proposed === 'mixed' || (proposed === 'number' && observed === 'integer');
+}
+
+/**
+ * Merges the schema the AI model proposes with the profile of the sample it was shown. The profile decides which
+ * fields exist and in what order: proposed fields the sample does not have are dropped, and fields the model left out
+ * are documented from the profile alone. A proposed type, enum or optionality the sample contradicts is corrected.
+ */
+export function mergeSchemaProposal(
+  profile: SchemaProfile,
+  proposal: { description?: string; fields?: Partial<DatasetSchemaField>[] }
+): Omit<DatasetSchema, 'inferred_by'> {
+  const proposedFields = new Map((proposal.fields ?? []).filter(field => typeof field.path === 'string').map(field => [field.path!.trim(), field]));
+  const fields = profile.fields.map(fieldProfile => {
+    const observed = profiledSchemaField(fieldProfile);
+    const proposed = proposedFields.get(fieldProfile.path);
+    if (!proposed) return observed;
+
+    const type = proposed.type && (DATASET_SCHEMA_FIELD_TYPES as readonly string[]).includes(proposed.type) && isCompatibleType(observed.type, proposed.type)
+      ? proposed.type
+      : observed.type;
+    const enumValues = Array.isArray(proposed.enum)
+      ? Array.from(new Set(proposed.enum.filter(value => typeof value === 'string' || typeof value === 'number')))
+      : [];
+    const enumMatches = enumValues.length > 0 && !fieldProfile.moreValues && fieldProfile.values.every(value => enumValues.includes(value));
+    const format = type === 'string' ? (typeof proposed.format === 'string' && proposed.format.trim()) || observed.format : undefined;
+    return {
+      path: fieldProfile.path,
+      type,
+      optional: observed.optional || proposed.optional === true,
+      ...(enumMatches ? { enum: enumValues } : {}),
+      ...(format ? { format } : {}),
+      description: typeof proposed.description === 'string' ? proposed.description.trim() : '',
+    };
+  });
+  return { description: typeof proposal.description === 'string' ? proposal.description.trim() : '', fields };
+}
+
+/**
+ * Shape of a schema sent to the REST API or read from a backup archive; the content is checked with datasetSchemaError.
+ */
+export const DatasetSchemaSchema = z.object({
+  description: z.string().default(''),
+  fields: z.array(z.object({
+    path: z.string(),
+    type: z.enum(DATASET_SCHEMA_FIELD_TYPES),
+    optional: z.boolean().default(false),
+    enum: z.array(z.union([z.string(), z.number()])).optional(),
+    format: z.string().optional(),
+    description: z.string().default(''),
+  })),
+  inferred_by: z.object({ model: z.string(), sample_size: z.number().int(), inferred_at: z.string() }).nullable().default(null),
+}).superRefine((schema, ctx) => {
+  const error = datasetSchemaError(schema);
+  if (error) ctx.addIssue({ code: z.ZodIssueCode.custom, message: error });
+});
+
+/**
+ * Checks a schema; returns the first error (prefixed with the field's position), or null if it can be stored.
+ */
+export function datasetSchemaError(schema: DatasetSchema): string | null {
+  if (typeof schema.description !== 'string') return 'The schema description must be text.';
+  if (!Array.isArray(schema.fields)) return 'The schema must list its fields.';
+  if (schema.fields.length > MAX_SCHEMA_FIELDS) return `A schema can document at most ${MAX_SCHEMA_FIELDS} fields.`;
+  const paths = new Set<string>();
+  for (const [index, field] of schema.fields.entries()) {
+    const prefix = `Field ${index + 1}${field.path ? ` (${field.path})` : ''}`;
+    if (typeof field.path !== 'string' || !field.path.trim()) return `${prefix}: The path cannot be empty.`;
+    if (field.path.split('.').some(segment => !segment.trim())) return `${prefix}: The path has an empty segment.`;
+    if (paths.has(field.path)) return `${prefix}: The field is documented twice.`;
+    paths.add(field.path);
+    if (!(DATASET_SCHEMA_FIELD_TYPES as readonly string[]).includes(field.type)) return `${prefix}: Unknown type '${field.type}'.`;
+    if (typeof field.optional !== 'boolean') return `${prefix}: Optionality must be true or false.`;
+    if (field.enum !== undefined && (!Array.isArray(field.enum) || field.enum.some(value => typeof value !== 'string' && typeof value !== 'number'))) {
+      return `${prefix}: Allowed values must be a list of text or numbers.`;
+    }
+    if (field.format !== undefined && typeof field.format !== 'string') return `${prefix}: The format must be text.`;
+    if (typeof field.description !== 'string') return `${prefix}: The description must be text.`;
+  }
+  return null;
+}
+
+/** The requested sample size of a schema inference, limited to 1..MAX_SCHEMA_SAMPLE_SIZE (default DEFAULT_SCHEMA_SAMPLE_SIZE). */
+export function clampSchemaSampleSize(value?: number | null): number {
+  return Math.min(Math.max(Math.trunc(value ?? DEFAULT_SCHEMA_SAMPLE_SIZE) || DEFAULT_SCHEMA_SAMPLE_SIZE, 1), MAX_SCHEMA_SAMPLE_SIZE);
+}
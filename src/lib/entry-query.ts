@@ -0,0 +1,31 @@
+// src/lib/entry-query.ts
+// Limits and labels for paginated, sorted and filtered entry listings, shared by the database service, server actions, API routes and UI.
+
+import type { EntryFilterOperator, EntryQuery } from '@/services/types';
+
+export const DEFAULT_ENTRY_PAGE_SIZE = 50;
+export const MAX_ENTRY_PAGE_SIZE = 500;
+export const ENTRY_PAGE_SIZE_OPTIONS = [25, 50, 100, 250];
+
+export const ENTRY_FILTER_OPERATORS: { value: EntryFilterOperator; label: string }[] = [
+  { value: 'equals', label: 'equals' },
+  { value: 'contains', label: 'contains' },
+  { value: 'range', label: 'between' },
+  { value: 'exists', label: 'exists' },
+];
+
+// Sorting by this pseudo-field orders entries by their ID instead of a JSON field
+export const ENTRY_ID_SORT_FIELD = 'id';
+
+/**
+ * The sort and filters of a query as API query parameters (?sort=, ?order=, ?filters=, ?sourceId=),
+ * as read by the entry listing and export routes. Paging (limit and cursor) is left out.
+ */
+export function entryViewSearchParams(query: EntryQuery): URLSearchParams {
+  const params = new URLSearchParams();
+  if (query.sortField) params.set('sort', query.sortField);
+  if (query.sortDirection) params.set('order', query.sortDirection);
+  if (query.filters?.length) params.set('filters', JSON.stringify(query.filters));
+  if (query.relatedToSourceId) params.set('sourceId', query.relatedToSourceId);
+  return params;
+}
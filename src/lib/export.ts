@@ -0,0 +1,101 @@
+// src/lib/export.ts
+// Export formats for entries and relationships, shared by the export route and the export dialog.
+// Text formats are produced as chunks so a download can stream while the dataset is being read.
+
+import type { RelationshipEntry } from '@/services/types';
+
+export type ExportFormat = 'json' | 'ndjson' | 'csv' | 'xlsx';
+export type ExportContent = 'entries' | 'relationships';
+
+export const EXPORT_FORMATS: { value: ExportFormat; label: string; extension: string; contentType: string }[] = [
+  { value: 'json', label: 'JSON', extension: 'json', contentType: 'application/json; charset=utf-8' },
+  { value: 'ndjson', label: 'NDJSON', extension: 'ndjson', contentType: 'application/x-ndjson; charset=utf-8' },
+  { value: 'csv', label: 'CSV (nested fields as dot paths)', extension: 'csv', contentType: 'text/csv; charset=utf-8' },
+  { value: 'xlsx', label: 'Excel (.xlsx)', extension: 'xlsx', contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' },
+];
+
+export const XLSX_MAX_ROWS = 1_048_575; // Excel's row limit, minus the header row
+
+export function exportFormatInfo(format: ExportFormat) {
+  return EXPORT_FORMATS.find(option => option.value === format) ?? EXPORT_FORMATS[0];
+}
+
+/** e.g. "customers.json", "customers-relationships.csv" */
+export function exportFileName(datasetName: string, format: ExportFormat, content: ExportContent = 'entries'): string {
+  const base = datasetName.trim().replace(/\s+/g, '_');
+  return `${base}${content === 'relationships' ? '-relationships' : ''}.${exportFormatInfo(format).extension}`;
+}
+
+/**
+ * Flattens nested objects into one level with dot-path keys ({ a: { b: 1 } } becomes { 'a.b': 1 }).
+ * Arrays are kept whole as JSON text, and empty objects become '{}', so no value is lost.
+ */
+export function flattenObject(value: Record<string, unknown>, prefix = '', target: Record<string, unknown> = {}): Record<string, unknown> {
+  for (const [key, child] of Object.entries(value)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (Array.isArray(child)) {
+      target[path] = JSON.stringify(child);
+    } else if (child !== null && typeof child === 'object') {
+      if (Object.keys(child).length === 0) target[path] = '{}';
+      else flattenObject(child as Record<string, unknown>, path, target);
+    } else {
+      target[path] = child;
+    }
+  }
+  return target;
+}
+
+/** A relationship as one flat row: its columns, then its properties as properties.* dot paths. */
+export function relationshipToRow(relationship: RelationshipEntry): Record<string, unknown> {
+  const { properties, created_at, ...columns } = relationship;
+  return {
+    ...columns,
+    created_at: created_at instanceof Date ? created_at.toISOString() : created_at,
+    ...(properties ? flattenObject(properties, 'properties') : {}),
+  };
+}
+
+// Spreadsheet programs run text cells starting with one of these as formulas
+const CSV_FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * One CSV cell. Text that a spreadsheet would run as a formula (e.g. '=HYPERLINK(...)' from uploaded data) is
+ * prefixed with an apostrophe, so it opens as text; numbers, including negative ones, are written as they are.
+ */
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const raw = typeof value === 'string' ? value : value instanceof Date ? value.toISOString() : String(value);
+  const text = typeof value === 'string' && CSV_FORMULA_PREFIX.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) || text !== text.trim() ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** One CSV line (RFC 4180 quoting), including the line break. */
+export function csvLine(values: unknown[]): string {
+  return `${values.map(csvCell).join(',')}\r\n`;
+}
+
+/** Streams values as a pretty JSON array, one value per line. */
+export async function* jsonArrayChunks(values: AsyncIterable<unknown>): AsyncGenerator<string> {
+  let first = true;
+  yield '[';
+  for await (const value of values) {
+    yield `${first ? '\n' : ',\n'}${JSON.stringify(value)}`;
+    first = false;
+  }
+  yield first ? ']\n' : '\n]\n';
+}
+
+/** Streams values as NDJSON, one value per line. */
+export async function* ndjsonChunks(values: AsyncIterable<unknown>): AsyncGenerator<string> {
+  for await (const value of values) {
+    yield `${JSON.stringify(value)}\n`;
+  }
+}
+
+/** Streams flat rows as CSV with the given columns; values of other keys are left out. */
+export async function* csvChunks(columns: string[], rows: AsyncIterable<Record<string, unknown>>): AsyncGenerator<string> {
+  yield csvLine(columns);
+  for await (const row of rows) {
+    yield csvLine(columns.map(column => row[column]));
+  }
+}
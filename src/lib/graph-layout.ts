@@ -0,0 +1,97 @@
+// src/lib/graph-layout.ts
+// Deterministic force-directed layout for the dataset graph view. Pure functions, no DOM access.
+
+export interface GraphPoint {
+  x: number;
+  y: number;
+}
+
+export interface GraphLayoutEdge {
+  source: string;
+  target: string;
+}
+
+// Side length of the square the layout is computed in; the view scales it to fit.
+export const GRAPH_LAYOUT_SIZE = 1000;
+
+/**
+ * Places nodes with a Fruchterman-Reingold simulation: all nodes repel each other and edges pull
+ * their ends together. Nodes start on a circle in the given order, so the same input always yields
+ * the same layout. The number of iterations shrinks for large graphs to bound the O(n²) work.
+ */
+export function computeForceLayout(nodeIds: string[], edges: GraphLayoutEdge[]): Map<string, GraphPoint> {
+  const positions = new Map<string, GraphPoint>();
+  const count = nodeIds.length;
+  if (count === 0) return positions;
+
+  const center = GRAPH_LAYOUT_SIZE / 2;
+  const radius = GRAPH_LAYOUT_SIZE * 0.4;
+  nodeIds.forEach((id, index) => {
+    const angle = (2 * Math.PI * index) / count;
+    positions.set(id, { x: center + radius * Math.cos(angle), y: center + radius * Math.sin(angle) });
+  });
+  if (count === 1) {
+    positions.set(nodeIds[0], { x: center, y: center });
+    return positions;
+  }
+
+  const points = nodeIds.map(id => positions.get(id)!);
+  const indexById = new Map(nodeIds.map((id, index) => [id, index]));
+  const links = edges
+    .map(edge => [indexById.get(edge.source), indexById.get(edge.target)] as const)
+    .filter((link): link is readonly [number, number] => link[0] !== undefined && link[1] !== undefined && link[0] !== link[1]);
+
+  const idealDistance = Math.sqrt((GRAPH_LAYOUT_SIZE * GRAPH_LAYOUT_SIZE) / count);
+  const iterations = Math.max(30, Math.min(300, Math.floor(60000 / count)));
+  let temperature = GRAPH_LAYOUT_SIZE / 10;
+  const cooling = temperature / (iterations + 1);
+  const dx = new Float64Array(count);
+  const dy = new Float64Array(count);
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    dx.fill(0);
+    dy.fill(0);
+
+    for (let i = 0; i < count; i++) {
+      for (let j = i + 1; j < count; j++) {
+        let deltaX = points[i].x - points[j].x;
+        let deltaY = points[i].y - points[j].y;
+        let distance = Math.hypot(deltaX, deltaY);
+        if (distance < 0.01) {
+          // Nudge coincident nodes apart deterministically
+          deltaX = 0.01 * (i - j);
+          deltaY = 0.01;
+          distance = Math.hypot(deltaX, deltaY);
+        }
+        const force = (idealDistance * idealDistance) / distance;
+        dx[i] += (deltaX / distance) * force;
+        dy[i] += (deltaY / distance) * force;
+        dx[j] -= (deltaX / distance) * force;
+        dy[j] -= (deltaY / distance) * force;
+      }
+    }
+
+    for (const [i, j] of links) {
+      const deltaX = points[i].x - points[j].x;
+      const deltaY = points[i].y - points[j].y;
+      const distance = Math.max(Math.hypot(deltaX, deltaY), 0.01);
+      const force = (distance * distance) / idealDistance;
+      dx[i] -= (deltaX / distance) * force;
+      dy[i] -= (deltaY / distance) * force;
+      dx[j] += (deltaX / distance) * force;
+      dy[j] += (deltaY / distance) * force;
+    }
+
+    for (let i = 0; i < count; i++) {
+      const displacement = Math.hypot(dx[i], dy[i]);
+      if (displacement > 0) {
+        const step = Math.min(displacement, temperature);
+        points[i].x = Math.min(GRAPH_LAYOUT_SIZE, Math.max(0, points[i].x + (dx[i] / displacement) * step));
+        points[i].y = Math.min(GRAPH_LAYOUT_SIZE, Math.max(0, points[i].y + (dy[i] / displacement) * step));
+      }
+    }
+    temperature -= cooling;
+  }
+
+  return positions;
+}
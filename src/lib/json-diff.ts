@@ -0,0 +1,95 @@
+// src/lib/json-diff.ts
+// Field-level differences between JSON objects, used to preview what an Add/Update upload would change
+// before anything is written.
+
+import type { DataEntry } from '@/services/types';
+
+export type FieldChangeKind = 'added' | 'removed' | 'changed';
+
+/** One differing field. Nested objects are compared field by field; arrays and other values as a whole. */
+export interface FieldChange {
+  path: string; // Dot path of the field, e.g. 'address.city'
+  kind: FieldChangeKind;
+  before?: unknown; // Missing for 'added'
+  after?: unknown; // Missing for 'removed'
+}
+
+/**
+ * What upserting an uploaded entry would do: 'new' creates an entry (no ID, or an ID not in the dataset),
+ * 'unchanged' rewrites identical content, 'modified' replaces content that differs.
+ */
+export type UploadEntryStatus = 'new' | 'unchanged' | 'modified';
+
+export interface UploadPreviewItem {
+  index: number; // Position in the upload
+  id: string | null; // null if the entry has no ID and will get a generated one
+  status: UploadEntryStatus;
+  changes: FieldChange[]; // Only for 'modified'
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Structural equality of JSON values; key order does not matter. */
+export function isDeepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => isDeepEqual(item, b[index]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every(key => key in b && isDeepEqual(a[key], b[key]));
+  }
+  return false;
+}
+
+/**
+ * Lists the fields that differ between two objects, in the order of `before`'s keys followed by
+ * the keys only `after` has.
+ */
+export function diffObjects(before: Record<string, unknown>, after: Record<string, unknown>, prefix = ''): FieldChange[] {
+  const changes: FieldChange[] = [];
+  const keys = [...Object.keys(before), ...Object.keys(after).filter(key => !(key in before))];
+  for (const key of keys) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (!(key in after)) {
+      changes.push({ path, kind: 'removed', before: before[key] });
+    } else if (!(key in before)) {
+      changes.push({ path, kind: 'added', after: after[key] });
+    } else if (isPlainObject(before[key]) && isPlainObject(after[key])) {
+      changes.push(...diffObjects(before[key] as Record<string, unknown>, after[key] as Record<string, unknown>, path));
+    } else if (!isDeepEqual(before[key], after[key])) {
+      changes.push({ path, kind: 'changed', before: before[key], after: after[key] });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Classifies each uploaded entry against the stored entries with the same IDs. An upsert replaces the whole
+ * entry, so fields missing from the upload count as removed. Uploaded entries are compared in order,
+ * so an ID that occurs twice is compared with its earlier occurrence, as the upsert would apply them.
+ */
+export function classifyUpload(incoming: DataEntry[], existing: DataEntry[]): UploadPreviewItem[] {
+  const current = new Map<string, Record<string, unknown>>();
+  for (const { id, ...data } of existing) current.set(String(id), data);
+
+  return incoming.map((entry, index) => {
+    const { id: rawId, ...data } = entry;
+    const id = rawId ? String(rawId) : null; // Like addData: a falsy ID gets a generated one
+    if (id === null) return { index, id, status: 'new', changes: [] };
+
+    const before = current.get(id);
+    current.set(id, data);
+    if (!before) return { index, id, status: 'new', changes: [] };
+    const changes = diffObjects(before, data);
+    return { index, id, status: changes.length > 0 ? 'modified' : 'unchanged', changes };
+  });
+}
+
+/** Short display form of a JSON value in a diff. */
+export function formatDiffValue(value: unknown, maxLength = 80): string {
+  const text = JSON.stringify(value) ?? 'undefined';
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+}
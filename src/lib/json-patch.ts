@@ -0,0 +1,162 @@
+// src/lib/json-patch.ts
+// Partial updates of entry content: RFC 7396 JSON Merge Patch and RFC 6902 JSON Patch.
+// Both work on copies; the document passed in is never modified.
+
+import type { EntryPatch, JsonPatchOperation } from '@/services/types';
+import { isDeepEqual } from '@/lib/json-diff';
+
+// Errors about a patch that cannot be applied start with this prefix, so routes can answer 422 instead of 500
+export const INVALID_PATCH_PREFIX = 'Invalid patch';
+
+function invalidPatch(message: string): Error {
+  return new Error(`${INVALID_PATCH_PREFIX}: ${message}`);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * Applies an RFC 7396 JSON Merge Patch: objects in the patch are merged into the target recursively,
+ * null removes a field, and any other value (including arrays) replaces the target's value.
+ */
+export function applyMergePatch(target: unknown, patch: unknown): unknown {
+  if (!isPlainObject(patch)) return clone(patch);
+  const result: Record<string, unknown> = isPlainObject(target) ? clone(target) : {};
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === null) delete result[key];
+    else result[key] = applyMergePatch(result[key], value);
+  }
+  return result;
+}
+
+/** Splits an RFC 6901 JSON Pointer into its unescaped reference tokens ('' is the whole document). */
+export function parseJsonPointer(pointer: string): string[] {
+  if (pointer === '') return [];
+  if (!pointer.startsWith('/')) throw invalidPatch(`'${pointer}' is not a JSON Pointer (it must start with '/').`);
+  return pointer.slice(1).split('/').map(token => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+function arrayIndex(token: string, length: number, allowEnd: boolean, pointer: string): number {
+  if (allowEnd && token === '-') return length;
+  if (!/^(0|[1-9][0-9]*)$/.test(token)) throw invalidPatch(`'${token}' in '${pointer}' is not an array index.`);
+  const index = Number(token);
+  if (index > length || (!allowEnd && index === length)) throw invalidPatch(`index ${index} in '${pointer}' is out of bounds.`);
+  return index;
+}
+
+/** Returns the value at a pointer, or throws if it does not exist. */
+export function getPointerValue(document: unknown, pointer: string): unknown {
+  let current = document;
+  for (const token of parseJsonPointer(pointer)) {
+    if (Array.isArray(current)) {
+      current = current[arrayIndex(token, current.length, false, pointer)];
+    } else if (isPlainObject(current) && Object.prototype.hasOwnProperty.call(current, token)) {
+      current = current[token];
+    } else {
+      throw invalidPatch(`'${pointer}' does not exist.`);
+    }
+  }
+  return current;
+}
+
+/** Resolves the container holding the last token of a pointer. */
+function getParent(document: unknown, pointer: string): { parent: Record<string, unknown> | unknown[]; token: string } {
+  const tokens = parseJsonPointer(pointer);
+  const token = tokens.pop() as string;
+  const parentPointer = tokens.map(part => `/${part.replace(/~/g, '~0').replace(/\//g, '~1')}`).join('');
+  const parent = getPointerValue(document, parentPointer);
+  if (!Array.isArray(parent) && !isPlainObject(parent)) throw invalidPatch(`the parent of '${pointer}' is not an object or array.`);
+  return { parent, token };
+}
+
+function addValue(document: unknown, pointer: string, value: unknown): unknown {
+  if (pointer === '') return value;
+  const { parent, token } = getParent(document, pointer);
+  if (Array.isArray(parent)) parent.splice(arrayIndex(token, parent.length, true, pointer), 0, value);
+  else parent[token] = value;
+  return document;
+}
+
+function removeValue(document: unknown, pointer: string): unknown {
+  if (pointer === '') throw invalidPatch('the whole document cannot be removed.');
+  getPointerValue(document, pointer); // Must exist
+  const { parent, token } = getParent(document, pointer);
+  if (Array.isArray(parent)) parent.splice(arrayIndex(token, parent.length, false, pointer), 1);
+  else delete parent[token];
+  return document;
+}
+
+/**
+ * Applies an RFC 6902 JSON Patch. The operations are applied in order to a copy of the document;
+ * if one of them fails (including a failed 'test'), an error is thrown and nothing is changed.
+ */
+export function applyJsonPatch(document: unknown, operations: JsonPatchOperation[]): unknown {
+  let result = clone(document);
+  operations.forEach((operation, index) => {
+    const position = `operation ${index + 1} (${operation.op} ${operation.path})`;
+    try {
+      switch (operation.op) {
+        case 'add':
+          result = addValue(result, operation.path, clone(operation.value));
+          break;
+        case 'remove':
+          result = removeValue(result, operation.path);
+          break;
+        case 'replace':
+          getPointerValue(result, operation.path); // Must exist
+          result = operation.path === ''
+            ? clone(operation.value)
+            : addValue(removeValue(result, operation.path), operation.path, clone(operation.value));
+          break;
+        case 'move': {
+          if (operation.path.startsWith(`${operation.from}/`)) throw invalidPatch(`'${operation.from}' cannot be moved into itself.`);
+          const value = getPointerValue(result, operation.from);
+          result = addValue(removeValue(result, operation.from), operation.path, value);
+          break;
+        }
+        case 'copy':
+          result = addValue(result, operation.path, clone(getPointerValue(result, operation.from)));
+          break;
+        case 'test':
+          if (!isDeepEqual(getPointerValue(result, operation.path), operation.value)) {
+            throw invalidPatch(`the value at '${operation.path}' is not the expected one.`);
+          }
+          break;
+        default:
+          throw invalidPatch(`unknown operation '${(operation as { op: string }).op}'.`);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw invalidPatch(`${position} failed: ${message.replace(`${INVALID_PATCH_PREFIX}: `, '')}`);
+    }
+  });
+  return result;
+}
+
+/**
+ * Applies an entry patch to entry content (without its 'id'). The result must still be a JSON object,
+ * and the entry ID cannot be changed by a patch.
+ */
+export function applyEntryPatch(data: Record<string, unknown>, patch: EntryPatch): Record<string, unknown> {
+  let result: unknown;
+  if (patch.type === 'merge') {
+    const { id: ignoredId, ...changes } = patch.patch;
+    result = applyMergePatch(data, changes);
+  } else if (patch.type === 'fields') {
+    const { id: ignoredId, ...changes } = patch.fields;
+    result = { ...data, ...changes };
+  } else {
+    const idOperation = patch.operations.find(operation =>
+      [operation.path, 'from' in operation ? operation.from : ''].some(path => path === '/id' || path.startsWith('/id/'))
+    );
+    if (idOperation) throw invalidPatch("the entry ID cannot be changed by a patch ('/id').");
+    result = applyJsonPatch(data, patch.operations);
+  }
+  if (!isPlainObject(result)) throw invalidPatch('the patched entry content must be a JSON object.');
+  return result;
+}
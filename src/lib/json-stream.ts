@@ -0,0 +1,142 @@
+// src/lib/json-stream.ts
+// Incremental parsing of large uploads: a JSON array of entries or NDJSON (one entry per line),
+// read chunk by chunk so the whole file never has to be held in memory.
+
+import type { DataEntry } from '@/services/types';
+
+// Errors about the uploaded content start with this prefix, so routes can answer 400 instead of 500
+export const INVALID_UPLOAD_PREFIX = 'Invalid upload';
+
+function invalidUpload(message: string): Error {
+  return new Error(`${INVALID_UPLOAD_PREFIX}: ${message}`);
+}
+
+function parseValue(text: string, position: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    throw invalidUpload(`${position} is not valid JSON (${error instanceof Error ? error.message : 'parse error'}).`);
+  }
+}
+
+/**
+ * Decodes a byte stream (e.g. a request body) as UTF-8 text, chunk by chunk.
+ */
+export async function* decodeTextStream(stream: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const decoder = new TextDecoder('utf-8');
+  const reader = stream.getReader();
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      const text = decoder.decode(value, { stream: true });
+      if (text) yield text;
+    }
+    const rest = decoder.decode();
+    if (rest) yield rest;
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Yields the top-level values of streamed JSON text as soon as each one is complete.
+ * Text starting with '[' is read as a JSON array; anything else as NDJSON, where blank lines are skipped.
+ */
+export async function* parseJsonStream(chunks: AsyncIterable<string>): AsyncGenerator<unknown> {
+  let format: 'array' | 'ndjson' | null = null;
+  let buffer = '';
+  let count = 0; // Values yielded so far, for error positions
+  let lineNumber = 0; // NDJSON lines read so far, including blank ones
+
+  // State of the array scanner; buffer holds the text from the start of the current element
+  let scanIndex = 0;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let arrayClosed = false;
+
+  for await (const chunk of chunks) {
+    buffer += chunk;
+
+    if (format === null) {
+      buffer = buffer.trimStart(); // Also drops a byte order mark
+      if (buffer === '') continue;
+      format = buffer[0] === '[' ? 'array' : 'ndjson';
+      if (format === 'array') buffer = buffer.slice(1);
+    }
+
+    if (format === 'ndjson') {
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? ''; // Last line may be incomplete
+      for (const line of lines) {
+        lineNumber++;
+        if (line.trim() === '') continue;
+        count++;
+        yield parseValue(line, `Line ${lineNumber}`);
+      }
+      continue;
+    }
+
+    let start = 0;
+    for (let i = scanIndex; i < buffer.length; i++) {
+      const char = buffer[i];
+      if (arrayClosed) {
+        if (!/\s/.test(char)) throw invalidUpload('unexpected content after the end of the JSON array.');
+        continue;
+      }
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (char === '\\') escaped = true;
+        else if (char === '"') inString = false;
+        continue;
+      }
+      if (char === '"') {
+        inString = true;
+      } else if (char === '{' || char === '[') {
+        depth++;
+      } else if (depth > 0 && (char === '}' || char === ']')) {
+        depth--;
+      } else if (depth === 0 && (char === ',' || char === ']')) {
+        const element = buffer.slice(start, i).trim();
+        start = i + 1;
+        if (char === ']') {
+          arrayClosed = true;
+          if (element === '') continue; // Empty array, or the end right after the last element
+        } else if (element === '') {
+          throw invalidUpload(`item ${count + 1} of the JSON array is empty.`);
+        }
+        count++;
+        yield parseValue(element, `Item ${count} of the JSON array`);
+      }
+    }
+    buffer = buffer.slice(start);
+    scanIndex = buffer.length;
+  }
+
+  if (format === 'ndjson' && buffer.trim() !== '') {
+    yield parseValue(buffer, `Line ${lineNumber + 1}`);
+  }
+  if (format === 'array' && !arrayClosed) {
+    throw invalidUpload('the JSON array is not closed (the file may be truncated).');
+  }
+}
+
+/**
+ * Yields the entries of a streamed upload, checking that each value is a JSON object.
+ * Numeric IDs are converted to strings, as everywhere else.
+ */
+export async function* parseEntryStream(chunks: AsyncIterable<string>): AsyncGenerator<DataEntry> {
+  let index = 0;
+  for await (const value of parseJsonStream(chunks)) {
+    index++;
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw invalidUpload(`entry ${index} is not a JSON object.`);
+    }
+    const entry = value as Record<string, unknown>;
+    if (entry.id !== undefined && entry.id !== null && typeof entry.id !== 'string' && typeof entry.id !== 'number') {
+      throw invalidUpload(`entry ${index} has an 'id' that is not a string or number.`);
+    }
+    yield { ...entry, id: entry.id === undefined || entry.id === null || entry.id === '' ? undefined : String(entry.id) } as DataEntry;
+  }
+}
@@ -0,0 +1,45 @@
+// src/lib/mutation-context.ts
+// Who is making a change. There is no login, so the actor is whatever name the client (or a proxy in front
+// of the app) sends in the actor header or cookie; it is recorded with entry versions, not verified.
+
+import { z } from 'zod';
+import type { MutationSource } from '@/services/types';
+
+export const ACTOR_HEADER = 'x-dataharbor-actor';
+export const ACTOR_COOKIE = 'dataharbor_actor';
+export const ANONYMOUS_ACTOR = 'anonymous';
+
+const MAX_ACTOR_LENGTH = 200;
+
+export const MUTATION_SOURCE_LABELS: Record<MutationSource, string> = {
+  manual: 'Manual edit',
+  'ai-clean': 'AI clean',
+  'rule-clean': 'Cleaning rules',
+  suggestion: 'Accepted suggestion',
+  upload: 'Upload',
+  api: 'API',
+};
+
+export const MUTATION_SOURCES = Object.keys(MUTATION_SOURCE_LABELS) as MutationSource[];
+
+// The sources a client may name for content it writes itself. Cleaning and accepted suggestions are labelled
+// by the server actions that apply them, so a plain edit cannot be recorded as one.
+export const EditSourceSchema = z.enum(['manual', 'upload']);
+export type EditSource = z.infer<typeof EditSourceSchema>;
+
+/** Picks the actor from the header (preferred) or the cookie, falling back to 'anonymous'. */
+export function resolveActor(headerValue: string | null | undefined, cookieValue: string | null | undefined): string {
+  for (const value of [headerValue, cookieValue]) {
+    const actor = value ? safeDecode(value).trim().slice(0, MAX_ACTOR_LENGTH) : '';
+    if (actor) return actor;
+  }
+  return ANONYMOUS_ACTOR;
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value); // Cookies hold the name URI-encoded
+  } catch {
+    return value;
+  }
+}
@@ -0,0 +1,35 @@
+// src/lib/paths.ts
+// URL builders for dataset-scoped pages and API routes.
+// The dataset is always part of the URL, so two tabs can work on different datasets.
+
+export function datasetPath(datasetName: string): string {
+  return `/datasets/${encodeURIComponent(datasetName)}`;
+}
+
+export function entryPath(datasetName: string, entryId: string): string {
+  return `${datasetPath(datasetName)}/data/${encodeURIComponent(entryId)}`;
+}
+
+export function datasetApiPath(datasetName: string): string {
+  return `/api/data/datasets/${encodeURIComponent(datasetName)}`;
+}
+
+export function cleaningJobsPath(datasetName: string): string {
+  return `${datasetPath(datasetName)}/cleaning`;
+}
+
+export function cleaningJobPath(datasetName: string, jobId: number): string {
+  return `${cleaningJobsPath(datasetName)}/${jobId}`;
+}
+
+export function cleaningRulesPath(datasetName: string): string {
+  return `${datasetPath(datasetName)}/rules`;
+}
+
+export function datasetInfoPath(datasetName: string): string {
+  return `${datasetPath(datasetName)}/info`;
+}
+
+export function relationshipSuggestionsPath(datasetName: string): string {
+  return `${datasetPath(datasetName)}/suggestions`;
+}
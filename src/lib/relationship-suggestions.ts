@@ -0,0 +1,192 @@
+// src/lib/relationship-suggestions.ts
+// Deterministic relationship suggestions: fields that hold another entry's ID, and distinctive values two entries
+// share. They need no AI model, so they are always available and serve as the fallback when the model fails.
+
+import type { DataEntry, RelationshipEntry, RelationshipSuggestion } from '@/services/types';
+import { DEFAULT_RELATIONSHIP_TYPE, normalizeRelationshipType, RELATIONSHIP_TYPE_PATTERN } from '@/lib/relationship-types';
+
+export const MAX_RELATIONSHIP_SUGGESTIONS = 50;
+export const MIN_RELATIONSHIP_SUGGESTION_SCORE = 0.3;
+export const LIKELY_RELATIONSHIP_SUGGESTION_SCORE = 0.7; // Suggestions scoring at least this start out selected
+
+const MAX_SHARED_VALUE_GROUP = 5; // Values shared by more entries are too common to link them
+const MIN_SHARED_STRING_LENGTH = 3;
+const MIN_SHARED_NUMBER = 1000; // Smaller numbers (counts, ages, flags) are shared by chance
+const MIN_UNNAMED_REFERENCE_LENGTH = 8; // An ID in a field not named like a reference must be this long to count
+
+// Field names like 'customer_id', 'customerId', 'parent-ref' or 'related_ids'; the group is the part before the suffix
+const REFERENCE_FIELD_PATTERN = /^(.*?)[_-]?(?:id|ids|ref|refs)$/i;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** The string and number values of entry content, with their dot paths ('*' for array items). */
+function scalarValues(value: unknown, path = ''): [string, string | number][] {
+  if (typeof value === 'string' || typeof value === 'number') return path ? [[path, value]] : [];
+  if (Array.isArray(value)) return value.flatMap(item => scalarValues(item, path ? `${path}.*` : '*'));
+  if (isPlainObject(value)) {
+    return Object.entries(value).flatMap(([key, child]) => (path || key !== 'id' ? scalarValues(child, path ? `${path}.${key}` : key) : []));
+  }
+  return [];
+}
+
+/** The last named segment of a path, e.g. 'customer_id' for 'order.customer_id' or 'tag_ids' for 'tag_ids.*'. */
+function fieldName(path: string): string {
+  return path.split('.').filter(segment => segment !== '*').pop() ?? path;
+}
+
+/** What a field named like a reference means for the relationship from its entry to the referenced one. */
+function referenceType(path: string): string {
+  const match = REFERENCE_FIELD_PATTERN.exec(fieldName(path));
+  const group = match?.[1]?.toLowerCase().replace(/[_-]+$/, '') ?? '';
+  if (group === 'parent') return 'child_of';
+  if (group === 'child' || group === 'children') return 'parent_of';
+  if (group.startsWith('duplicate')) return 'duplicates';
+  return 'references';
+}
+
+function formatValue(value: string | number): string {
+  return typeof value === 'string' ? `"${value.length > 40 ? `${value.slice(0, 40)}…` : value}"` : String(value);
+}
+
+export function relationshipSuggestionKey(suggestion: Pick<RelationshipSuggestion, 'source_entry_id' | 'target_entry_id' | 'type'>): string {
+  return JSON.stringify([suggestion.source_entry_id, suggestion.target_entry_id, suggestion.type]);
+}
+
+/**
+ * Drops suggestions for relationships that already exist. A suggestion of a typed link (e.g. 'references') is only
+ * dropped if the same link exists; a 'related_to' or 'duplicates' one if the two entries are linked in any way.
+ */
+export function withoutExistingRelationships(suggestions: RelationshipSuggestion[], existing: RelationshipEntry[]): RelationshipSuggestion[] {
+  const links = new Set(existing.map(relationshipSuggestionKey));
+  const linkedPairs = new Set(existing.flatMap(r => [`${r.source_entry_id}\n${r.target_entry_id}`, `${r.target_entry_id}\n${r.source_entry_id}`]));
+  return suggestions.filter(suggestion => {
+    if (links.has(relationshipSuggestionKey(suggestion))) return false;
+    const symmetric = suggestion.type === DEFAULT_RELATIONSHIP_TYPE || suggestion.type === 'duplicates';
+    return !(symmetric && linkedPairs.has(`${suggestion.source_entry_id}\n${suggestion.target_entry_id}`));
+  });
+}
+
+/**
+ * Combines suggestion lists: the same relationship suggested twice is kept once, with the higher score. The result
+ * is sorted by score and cut to MAX_RELATIONSHIP_SUGGESTIONS.
+ */
+export function mergeRelationshipSuggestions(...lists: RelationshipSuggestion[][]): RelationshipSuggestion[] {
+  const merged = new Map<string, RelationshipSuggestion>();
+  for (const suggestion of lists.flat()) {
+    const key = relationshipSuggestionKey(suggestion);
+    const current = merged.get(key);
+    if (!current || suggestion.score > current.score) merged.set(key, suggestion);
+  }
+  return Array.from(merged.values())
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_RELATIONSHIP_SUGGESTIONS);
+}
+
+/**
+ * Suggests relationships from the entries alone:
+ * - references: a field holds the ID of another entry. Fields named like references ('customer_id', 'parentRef',
+ *   'tag_ids') score 0.95; other fields only count for long IDs and score 0.7. 'parent_id' suggests 'child_of',
+ *   'child_id' 'parent_of', 'duplicate_of' 'duplicates', anything else 'references'.
+ * - shared values: two entries have the same distinctive value in a field (strings of at least 3 characters compared
+ *   case-insensitively, numbers of at least 1000). The fewer entries share a value and the more fields two entries
+ *   share, the higher the score; entries sharing at least half of their values are suggested as 'duplicates'.
+ * @param focusId Only suggest relationships from or to this entry; null for the whole dataset.
+ */
+export function heuristicRelationshipSuggestions(entries: DataEntry[], existing: RelationshipEntry[], focusId: string | null): RelationshipSuggestion[] {
+  const ids = new Set(entries.map(entry => entry.id));
+  const order = new Map(entries.map((entry, index) => [entry.id, index]));
+  const valuesById = new Map(entries.map(entry => [entry.id, scalarValues(entry)]));
+  const suggestions: RelationshipSuggestion[] = [];
+
+  // References: field values that are the ID of another entry
+  const sharedGroups = new Map<string, { path: string; value: string | number; ids: Set<string> }>();
+  for (const [id, values] of valuesById) {
+    for (const [path, value] of values) {
+      const text = String(value);
+      const namedReference = REFERENCE_FIELD_PATTERN.test(fieldName(path));
+      if (text !== id && ids.has(text) && (namedReference || text.length >= MIN_UNNAMED_REFERENCE_LENGTH)) {
+        if (focusId === null || id === focusId || text === focusId) {
+          suggestions.push({
+            source_entry_id: id,
+            target_entry_id: text,
+            type: referenceType(path),
+            score: namedReference ? 0.95 : 0.7,
+            reason: `Field '${path}' of ${id} holds the ID of ${text}.`,
+            origin: 'heuristic',
+          });
+        }
+        continue;
+      }
+      if (namedReference) continue; // IDs of things outside the dataset say nothing about how entries relate
+      const distinctive = typeof value === 'string' ? value.trim().length >= MIN_SHARED_STRING_LENGTH : Math.abs(value) >= MIN_SHARED_NUMBER;
+      if (!distinctive) continue;
+      const groupKey = JSON.stringify([path, typeof value === 'string' ? value.trim().toLowerCase() : value]);
+      const group = sharedGroups.get(groupKey) ?? { path, value, ids: new Set<string>() };
+      group.ids.add(id);
+      sharedGroups.set(groupKey, group);
+    }
+  }
+
+  // Shared values: collect the fields each pair of entries shares, weighted by how rare the value is
+  const pairs = new Map<string, { a: string; b: string; shared: { path: string; value: string | number; weight: number }[] }>();
+  for (const group of sharedGroups.values()) {
+    if (group.ids.size < 2 || group.ids.size > MAX_SHARED_VALUE_GROUP) continue;
+    const members = Array.from(group.ids).sort((x, y) => order.get(x)! - order.get(y)!);
+    for (let i = 0; i < members.length; i++) {
+      for (let j = i + 1; j < members.length; j++) {
+        if (focusId !== null && members[i] !== focusId && members[j] !== focusId) continue;
+        // Relationships from the focus entry point away from it; otherwise from the entry that comes first in `entries`
+        const [a, b] = members[j] === focusId ? [members[j], members[i]] : [members[i], members[j]];
+        const key = `${a}\n${b}`;
+        const pair = pairs.get(key) ?? { a, b, shared: [] };
+        if (!pair.shared.some(shared => shared.path === group.path)) {
+          pair.shared.push({ path: group.path, value: group.value, weight: 1 / (group.ids.size - 1) });
+        }
+        pairs.set(key, pair);
+      }
+    }
+  }
+  // Entries one of which references the other are already suggested with a more telling type
+  const referencingPairs = new Set(suggestions.flatMap(s => [`${s.source_entry_id}\n${s.target_entry_id}`, `${s.target_entry_id}\n${s.source_entry_id}`]));
+  for (const [key, { a, b, shared }] of pairs) {
+    if (referencingPairs.has(key)) continue;
+    const score = Math.min(0.9, 1 - shared.reduce((remaining, { weight }) => remaining * (1 - 0.45 * weight), 1));
+    if (score < MIN_RELATIONSHIP_SUGGESTION_SCORE) continue;
+    const smallerSize = Math.min(valuesById.get(a)!.length, valuesById.get(b)!.length);
+    const isDuplicate = shared.length >= 2 && shared.length * 2 >= smallerSize;
+    const listed = shared.slice(0, 3).map(({ path, value }) => `${path} ${formatValue(value)}`).join(', ');
+    suggestions.push({
+      source_entry_id: a,
+      target_entry_id: b,
+      type: isDuplicate ? 'duplicates' : DEFAULT_RELATIONSHIP_TYPE,
+      score: Math.round(score * 100) / 100,
+      reason: `Both have ${listed}${shared.length > 3 ? ` and ${shared.length - 3} more shared values` : ''}.`,
+      origin: 'heuristic',
+    });
+  }
+
+  return mergeRelationshipSuggestions(withoutExistingRelationships(suggestions, existing));
+}
+
+/**
+ * Keeps the suggestions of the AI model that can be created: both entries must be among those it was shown (one of
+ * them the focus entry, if any), they must differ, and the type must be valid. Scores are limited to 0..1.
+ */
+export function validRelationshipSuggestions(
+  suggestions: Omit<RelationshipSuggestion, 'origin'>[],
+  shownIds: Set<string>,
+  focusId: string | null
+): RelationshipSuggestion[] {
+  return suggestions.flatMap(suggestion => {
+    const source = String(suggestion.source_entry_id ?? '');
+    const target = String(suggestion.target_entry_id ?? '');
+    const type = normalizeRelationshipType(suggestion.type);
+    if (source === target || !shownIds.has(source) || !shownIds.has(target)) return [];
+    if (focusId !== null && source !== focusId && target !== focusId) return [];
+    if (!RELATIONSHIP_TYPE_PATTERN.test(type)) return [];
+    const score = Number.isFinite(suggestion.score) ? Math.min(Math.max(suggestion.score, 0), 1) : 0;
+    return [{ source_entry_id: source, target_entry_id: target, type, score, reason: String(suggestion.reason ?? '').trim(), origin: 'ai' as const }];
+  });
+}
@@ -0,0 +1,22 @@
+// src/lib/relationship-types.ts
+// Relationship type labels and graph limits, shared by the database service, server actions, API routes and UI.
+
+// Type given to relationships created without one (and to relationships created before types existed).
+export const DEFAULT_RELATIONSHIP_TYPE = 'related_to';
+
+// Offered as suggestions in the UI; any label matching RELATIONSHIP_TYPE_PATTERN is accepted.
+export const SUGGESTED_RELATIONSHIP_TYPES = [DEFAULT_RELATIONSHIP_TYPE, 'parent_of', 'child_of', 'duplicates', 'references'];
+
+export const RELATIONSHIP_TYPE_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+export const RELATIONSHIP_TYPE_HINT = 'Relationship type may only contain letters, numbers, hyphens, or underscores (max. 64 characters).';
+
+/**
+ * Trims a relationship type label and falls back to the default type when it is empty.
+ */
+export function normalizeRelationshipType(type: string | null | undefined): string {
+  const trimmed = type?.trim();
+  return trimmed ? trimmed : DEFAULT_RELATIONSHIP_TYPE;
+}
+
+// Neighborhood queries walk at most this many hops away from the starting entry.
+export const MAX_NEIGHBORHOOD_DEPTH = 5;
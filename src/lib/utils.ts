@@ -4,3 +4,15 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// Dataset names are used in URLs and shown in the UI; keep them to a simple, readable character set.
+export const DATASET_NAME_PATTERN = /^[a-zA-Z0-9-_ ]+$/
+export const DATASET_NAME_HINT = "Dataset name may only contain letters, numbers, spaces, hyphens, or underscores."
+
+// File sizes for upload dialogs, e.g. "12.3 MB"
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`
+}
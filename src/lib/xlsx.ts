@@ -0,0 +1,95 @@
+// src/lib/xlsx.ts
+// Excel workbooks. Uploads (.xlsx/.xls) are read in the browser: each sheet becomes a grid of cell values,
+// which is turned into entries once the user has picked the header row. Exports are written on the server.
+
+import type { DataEntry } from '@/services/types';
+import { toColumnNames } from '@/lib/csv';
+
+export type SheetCell = string | number | boolean | Date | null;
+
+export interface WorkbookSheet {
+  name: string;
+  rows: SheetCell[][]; // Non-empty rows, top to bottom
+}
+
+export const WORKBOOK_FILE_EXTENSIONS = ['.xlsx', '.xls'];
+
+/**
+ * Parses a workbook file into its sheets, in workbook order. The xlsx library is loaded on demand
+ * so it is only downloaded when a workbook is actually uploaded.
+ */
+export async function readWorkbook(data: ArrayBuffer): Promise<WorkbookSheet[]> {
+  const XLSX = await import('xlsx');
+  const workbook = XLSX.read(data, { type: 'array', cellDates: true });
+  return workbook.SheetNames.map(name => ({
+    name,
+    rows: XLSX.utils.sheet_to_json<SheetCell[]>(workbook.Sheets[name], {
+      header: 1, // Arrays of cells instead of objects keyed by the first row
+      raw: true,
+      defval: null,
+      blankrows: false,
+    }),
+  }));
+}
+
+function formatDate(date: Date): string {
+  // Dates without a time of day are kept as plain dates
+  if (date.getHours() === 0 && date.getMinutes() === 0 && date.getSeconds() === 0 && date.getMilliseconds() === 0) {
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  }
+  return date.toISOString();
+}
+
+/** Converts a cell to a JSON value: dates become ISO 8601 strings and empty text becomes null. */
+export function cellToJson(cell: SheetCell | undefined): unknown {
+  if (cell === undefined || cell === null) return null;
+  if (cell instanceof Date) return Number.isNaN(cell.getTime()) ? null : formatDate(cell);
+  if (typeof cell === 'string' && cell.trim() === '') return null;
+  return cell;
+}
+
+/**
+ * Names the columns of a sheet after its header row (a 0-based row index, or null when the sheet has
+ * no header row, in which case the columns are named column_1, column_2, ...).
+ */
+export function sheetColumnNames(rows: SheetCell[][], headerRowIndex: number | null): string[] {
+  const dataRows = headerRowIndex === null ? rows : rows.slice(headerRowIndex + 1);
+  const headerRow = headerRowIndex === null ? [] : (rows[headerRowIndex] ?? []).map(cell => String(cellToJson(cell) ?? ''));
+  const columnCount = dataRows.reduce((max, row) => Math.max(max, row.length), headerRow.length);
+  return toColumnNames(headerRow, columnCount);
+}
+
+/**
+ * Builds entries from the rows below the header row (all rows when there is none); rows above it are skipped.
+ * A column named 'id' becomes the entry ID (as a string); rows without one get an ID from the database.
+ */
+export function sheetToEntries(rows: SheetCell[][], headerRowIndex: number | null): DataEntry[] {
+  const headers = sheetColumnNames(rows, headerRowIndex);
+  const dataRows = headerRowIndex === null ? rows : rows.slice(headerRowIndex + 1);
+  return dataRows.map(row => {
+    const entry: Record<string, unknown> = {};
+    headers.forEach((header, index) => {
+      const value = cellToJson(row[index]);
+      if (header === 'id') {
+        if (value !== null) entry.id = String(value).trim();
+        return;
+      }
+      entry[header] = value;
+    });
+    return entry as DataEntry;
+  });
+}
+
+/**
+ * Writes flat rows to an .xlsx workbook, one sheet per entry of `sheets`. Columns follow the order in which
+ * keys first appear. Unlike the text export formats, the workbook is built in memory.
+ */
+export async function writeWorkbook(sheets: { name: string; rows: Record<string, unknown>[] }[]): Promise<Uint8Array> {
+  const XLSX = await import('xlsx');
+  const workbook = XLSX.utils.book_new();
+  for (const sheet of sheets) {
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(sheet.rows), sheet.name.slice(0, 31)); // Sheet names are limited to 31 characters
+  }
+  return new Uint8Array(XLSX.write(workbook, { type: 'array', bookType: 'xlsx', compression: true }) as ArrayBuffer);
+}
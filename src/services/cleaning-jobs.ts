@@ -0,0 +1,146 @@
+// src/services/cleaning-jobs.ts
+// Runs batch AI cleaning jobs in the background of the server process. All progress is stored in the database
+// (see the Cleaning Jobs section of database.ts), so closing the browser does not affect a job, and a job
+// interrupted by a server restart can be resumed where it stopped. Also home to suggestCleaningChanges, which
+// cleans one entry the same way for the job runner and the detail page.
+
+import { cleanDataFlow, type CleanDataOutput } from '@/ai/flows/clean-data-flow';
+import { completeCleaningJob, getCleaningItemEntry, getPendingCleaningItemIds, recordCleaningResult } from '@/services/database';
+import { CLEANING_RETRY_DELAY_MS, MAX_CLEANING_ATTEMPTS } from '@/lib/cleaning-jobs';
+import { applyCleaningRules } from '@/lib/cleaning-rules';
+import { applyCleaningChanges, combineCleaningChanges, ruleCleaningChanges } from '@/lib/cleaning-changes';
+import type { CleaningChange, CleaningJob, CleaningRule, DataEntry } from '@/services/types';
+
+interface JobControl {
+    cancelled: boolean;
+    done?: Promise<void>;
+}
+
+// Jobs this process is working on. A job stored as 'running' but missing here was interrupted.
+const activeJobs = new Map<number, JobControl>();
+
+function delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Suggests field-level changes for one entry: the dataset's cleaning rules fix the mechanical issues first,
+ * then the AI model handles what they leave. The changes are relative to the entry as stored.
+ * @throws {Error} If the model call fails.
+ */
+export async function suggestCleaningChanges(entry: DataEntry, rules: CleaningRule[]): Promise<CleaningChange[]> {
+    const { id, ...original } = entry;
+    const ruleCleaned = applyCleaningRules(original, rules);
+    const { changes } = await cleanDataFlow({ id, ...ruleCleaned }) as CleanDataOutput;
+    return combineCleaningChanges(original, ruleCleaningChanges(original, ruleCleaned), changes);
+}
+
+/**
+ * Whether this server process is currently working on the job.
+ */
+export function isCleaningJobActive(jobId: number): boolean {
+    return activeJobs.has(jobId);
+}
+
+/**
+ * Adds whether this process is working on the job, so the UI can offer to resume an interrupted one.
+ */
+export function withRunnerState(job: CleaningJob): CleaningJob {
+    return { ...job, active: activeJobs.has(job.id) };
+}
+
+/**
+ * Starts working through the pending entries of a job in the background and returns immediately.
+ * If the job is already being worked on nothing happens, except right after a cancel: then it restarts once the
+ * model calls still in flight are done.
+ * @param concurrency How many entries are sent to the model at the same time.
+ */
+export function startCleaningJob(jobId: number, concurrency: number): void {
+    const current = activeJobs.get(jobId);
+    if (current) {
+        if (current.cancelled) {
+            // Resumed right after a cancel: start again once the in-flight model calls are done
+            current.done?.then(() => startCleaningJob(jobId, concurrency));
+        } else {
+            console.log(`[Cleaning Job ${jobId}] Already running.`);
+        }
+        return;
+    }
+    const control: JobControl = { cancelled: false };
+    activeJobs.set(jobId, control);
+    control.done = runCleaningJob(jobId, concurrency, control)
+        .catch(error => console.error(`[Cleaning Job ${jobId}] Stopped by an unexpected error:`, error))
+        .finally(() => activeJobs.delete(jobId));
+}
+
+/**
+ * Stops handing out entries of a running job. Model calls already in flight finish and their suggestions are kept.
+ */
+export function stopCleaningJob(jobId: number): void {
+    const control = activeJobs.get(jobId);
+    if (control) {
+        control.cancelled = true;
+        console.log(`[Cleaning Job ${jobId}] Cancellation requested.`);
+    }
+}
+
+async function runCleaningJob(jobId: number, concurrency: number, control: JobControl): Promise<void> {
+    const entryIds = await getPendingCleaningItemIds(jobId);
+    console.log(`[Cleaning Job ${jobId}] Cleaning ${entryIds.length} pending entries, ${concurrency} at a time.`);
+
+    // Each worker takes the next pending entry until none are left
+    let next = 0;
+    const worker = async () => {
+        while (!control.cancelled && next < entryIds.length) {
+            const entryId = entryIds[next++];
+            await cleanJobEntry(jobId, entryId, control);
+        }
+    };
+    await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, entryIds.length)) }, worker));
+
+    if (control.cancelled) {
+        console.log(`[Cleaning Job ${jobId}] Cancelled after ${next} of ${entryIds.length} entries.`);
+        return;
+    }
+    await completeCleaningJob(jobId);
+    console.log(`[Cleaning Job ${jobId}] Finished.`);
+}
+
+/**
+ * Runs the dataset's cleaning rules over one entry and sends the result to the model, retrying with exponential backoff on errors, and stores the outcome.
+ * An entry whose outcome cannot be stored stays pending and is picked up again when the job is resumed.
+ */
+async function cleanJobEntry(jobId: number, entryId: string, control: JobControl): Promise<void> {
+    try {
+        const item = await getCleaningItemEntry(jobId, entryId);
+        if (!item) {
+            await recordCleaningResult(jobId, entryId, { status: 'failed', error: 'The entry no longer exists.', attempts: 0 });
+            return;
+        }
+        const { id: ignoredId, ...original } = item.entry;
+
+        let changes: CleaningChange[] | null = null;
+        let attempts = 0;
+        let lastError = 'The AI model did not return a result.';
+        while (!changes && attempts < MAX_CLEANING_ATTEMPTS) {
+            attempts++;
+            try {
+                changes = await suggestCleaningChanges(item.entry, item.cleaningRules);
+            } catch (error) {
+                lastError = error instanceof Error ? error.message : 'An unexpected error occurred during data cleaning.';
+                console.warn(`[Cleaning Job ${jobId}] Attempt ${attempts} of ${MAX_CLEANING_ATTEMPTS} failed for entry ${entryId}: ${lastError}`);
+                if (control.cancelled) return; // Left pending, so resuming the job tries it again
+                if (attempts < MAX_CLEANING_ATTEMPTS) await delay(CLEANING_RETRY_DELAY_MS * 2 ** (attempts - 1));
+            }
+        }
+
+        if (!changes) {
+            await recordCleaningResult(jobId, entryId, { status: 'failed', original, error: lastError, attempts });
+            return;
+        }
+        const proposed = applyCleaningChanges(original, changes);
+        await recordCleaningResult(jobId, entryId, { status: changes.length > 0 ? 'proposed' : 'unchanged', original, proposed, attempts });
+    } catch (error) {
+        console.error(`[Cleaning Job ${jobId}] Could not store the result for entry ${entryId}:`, error);
+    }
+}
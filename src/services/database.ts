@@ -3,9 +3,19 @@
 import client from '@/services/db/client';
 // src/services/database.ts
 //import { Pool, type QueryResult } from 'pg';
-import type { DataEntry, RelationshipEntry } from './types';
+import type { AuditAction, AuditPage, AuditQuery, CleaningItemStatus, CleaningJob, CleaningJobItemPage, CleaningReviewSummary, CleaningRule, DataEntry, DatasetInfo, DatasetRenameResult, DatasetSchema, DatasetMetadata, DeletionPreview, EntryFilter, EntryPatch, EntryPage, EntryQuery, EntryVersion, ImportMode, MutationContext, Neighborhood, RelationshipAttributes, RelationshipBatchSummary, RelationshipEntry, RestoreCollisionMode, RestoreSummary, RuleCleaningSummary, SearchResult, SearchSnippetPart } from './types';
+import { DEFAULT_RELATIONSHIP_TYPE, MAX_NEIGHBORHOOD_DEPTH, normalizeRelationshipType } from '@/lib/relationship-types';
+import { DEFAULT_ENTRY_PAGE_SIZE, ENTRY_ID_SORT_FIELD, MAX_ENTRY_PAGE_SIZE } from '@/lib/entry-query';
+import { DEFAULT_AUDIT_PAGE_SIZE, MAX_AUDIT_PAGE_SIZE } from '@/lib/audit';
+import { DEFAULT_CLEANING_ITEM_PAGE_SIZE, MAX_CLEANING_ITEM_PAGE_SIZE } from '@/lib/cleaning-jobs';
+import { INVALID_UPLOAD_PREFIX } from '@/lib/json-stream';
+import { applyEntryPatch, INVALID_PATCH_PREFIX } from '@/lib/json-patch';
+import { applyCleaningRules } from '@/lib/cleaning-rules';
+import { isDeepEqual } from '@/lib/json-diff';
+import { MUTATION_SOURCES } from '@/lib/mutation-context';
+import { ARCHIVE_FORMAT, ARCHIVE_VERSION, type ArchiveEntry, type ArchiveRecord, type ArchiveRelationship } from '@/lib/dataset-archive';
 import { v4 as uuidv4 } from 'uuid';
-import { Pool, QueryResult } from 'pg';
+import { Pool, PoolClient, QueryResult } from 'pg';
 
 // ========================================================================
 // ==                       PostgreSQL Implementation                    ==
@@ -117,39 +127,336 @@ function getPool(): Pool {
 }
 
 // --- Schema Initialization ---
+// Full-text search document of an entry: its ID (weighted highest) plus every string and number in its data.
+// 'simple' does no stemming or stop-word removal, as entry content can be in any language.
+const SEARCH_VECTOR_EXPRESSION = `setweight(to_tsvector('simple', entry_id), 'A') || jsonb_to_tsvector('simple', data, '["string", "numeric"]')`;
+
 const CREATE_DATASETS_TABLE = `
 CREATE TABLE IF NOT EXISTS datasets (
     name TEXT PRIMARY KEY,
-    created_at TIMESTAMPTZ DEFAULT NOW()
+    description TEXT,
+    owner TEXT,
+    tags TEXT[] NOT NULL DEFAULT '{}',
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
 );`;
 
 const CREATE_DATA_ENTRIES_TABLE = `
 CREATE TABLE IF NOT EXISTS data_entries (
     internal_id SERIAL PRIMARY KEY,
-    dataset_name TEXT NOT NULL REFERENCES datasets(name) ON DELETE CASCADE,
+    dataset_name TEXT NOT NULL REFERENCES datasets(name) ON DELETE CASCADE ON UPDATE CASCADE,
     entry_id TEXT NOT NULL,
     data JSONB NOT NULL,
     created_at TIMESTAMPTZ DEFAULT NOW(),
+    search_vector TSVECTOR GENERATED ALWAYS AS (${SEARCH_VECTOR_EXPRESSION}) STORED,
     UNIQUE (dataset_name, entry_id)
 );`;
 
 const CREATE_RELATIONSHIPS_TABLE = `
 CREATE TABLE IF NOT EXISTS relationships (
     id SERIAL PRIMARY KEY,
-    dataset_name TEXT NOT NULL REFERENCES datasets(name) ON DELETE CASCADE,
+    dataset_name TEXT NOT NULL REFERENCES datasets(name) ON DELETE CASCADE ON UPDATE CASCADE,
     source_entry_id TEXT NOT NULL,
     target_entry_id TEXT NOT NULL,
+    type TEXT NOT NULL DEFAULT '${DEFAULT_RELATIONSHIP_TYPE}',
+    properties JSONB,
+    weight DOUBLE PRECISION,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    CONSTRAINT relationships_unique_typed_link UNIQUE (dataset_name, source_entry_id, target_entry_id, type),
+    FOREIGN KEY (dataset_name, source_entry_id) REFERENCES data_entries (dataset_name, entry_id) ON DELETE CASCADE ON UPDATE CASCADE,
+    FOREIGN KEY (dataset_name, target_entry_id) REFERENCES data_entries (dataset_name, entry_id) ON DELETE CASCADE ON UPDATE CASCADE
+);`;
+
+// Previous contents of entries, recorded whenever an entry is overwritten. Removed with the entry.
+const CREATE_ENTRY_VERSIONS_TABLE = `
+CREATE TABLE IF NOT EXISTS entry_versions (
+    id SERIAL PRIMARY KEY,
+    dataset_name TEXT NOT NULL,
+    entry_id TEXT NOT NULL,
+    data JSONB NOT NULL,
+    actor TEXT NOT NULL,
+    source TEXT NOT NULL,
+    recorded_at TIMESTAMPTZ DEFAULT NOW(),
+    FOREIGN KEY (dataset_name, entry_id) REFERENCES data_entries (dataset_name, entry_id) ON DELETE CASCADE ON UPDATE CASCADE
+);`;
+
+// Append-only trail of every change. It has no foreign keys, so events outlive renamed and deleted datasets and entries.
+const CREATE_AUDIT_LOG_TABLE = `
+CREATE TABLE IF NOT EXISTS audit_log (
+    id BIGSERIAL PRIMARY KEY,
+    recorded_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    actor TEXT NOT NULL,
+    source TEXT NOT NULL,
+    action TEXT NOT NULL,
+    dataset_name TEXT NOT NULL,
+    target_id TEXT,
+    before_hash TEXT,
+    after_hash TEXT,
+    details JSONB
+);`;
+
+// Batch AI cleaning jobs and their per-entry progress and suggestions. Removed with the dataset.
+const CREATE_CLEANING_JOBS_TABLE = `
+CREATE TABLE IF NOT EXISTS cleaning_jobs (
+    id SERIAL PRIMARY KEY,
+    dataset_name TEXT NOT NULL REFERENCES datasets(name) ON DELETE CASCADE ON UPDATE CASCADE,
+    status TEXT NOT NULL DEFAULT 'running',
+    query JSONB,
+    concurrency INT NOT NULL,
+    actor TEXT NOT NULL,
     created_at TIMESTAMPTZ DEFAULT NOW(),
-    UNIQUE (dataset_name, source_entry_id, target_entry_id),
-    FOREIGN KEY (dataset_name, source_entry_id) REFERENCES data_entries (dataset_name, entry_id) ON DELETE CASCADE,
-    FOREIGN KEY (dataset_name, target_entry_id) REFERENCES data_entries (dataset_name, entry_id) ON DELETE CASCADE
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);`;
+
+// Items have no foreign key to their entry: a suggestion for an entry deleted meanwhile is kept and reported as stale.
+const CREATE_CLEANING_JOB_ITEMS_TABLE = `
+CREATE TABLE IF NOT EXISTS cleaning_job_items (
+    job_id INT NOT NULL REFERENCES cleaning_jobs(id) ON DELETE CASCADE,
+    entry_id TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending',
+    original JSONB,
+    proposed JSONB,
+    error TEXT,
+    attempts INT NOT NULL DEFAULT 0,
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    PRIMARY KEY (job_id, entry_id)
 );`;
 
-// Store the name of the active dataset in memory for simplicity
-// NOTE: In a stateless or distributed environment, this should be stored elsewhere
-// (e.g., user session, separate config table, Redis)
-let activeDatasetName: string | null = null;
+// Builds an idempotent statement that re-creates a foreign key with ON UPDATE CASCADE
+// if a database created by an older version still has it without.
+function cascadeForeignKey(table: string, constraint: string, definition: string): string {
+    return `
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_constraint WHERE conname = '${constraint}' AND confupdtype <> 'c') THEN
+        ALTER TABLE ${table} DROP CONSTRAINT ${constraint};
+        ALTER TABLE ${table} ADD CONSTRAINT ${constraint} ${definition};
+    END IF;
+END $$;`;
+}
+
+/**
+ * Limits the `source` column of a table to the known mutation sources. The constraint is recreated on every
+ * startup, so sources added later are accepted. It is NOT VALID: new rows are checked, rows recorded before it
+ * existed are kept as they are (the audit log cannot be changed anyway).
+ */
+function mutationSourceCheck(table: string): string {
+    const constraint = `${table}_source_check`;
+    const sources = MUTATION_SOURCES.map(source => `'${source}'`).join(', ');
+    return `
+ALTER TABLE ${table} DROP CONSTRAINT IF EXISTS ${constraint};
+ALTER TABLE ${table} ADD CONSTRAINT ${constraint} CHECK (source IN (${sources})) NOT VALID;`;
+}
+
+// Idempotent migrations for databases created before a column or constraint existed.
+// They run on every startup after the CREATE TABLE statements; append new ones at the end.
+const SCHEMA_MIGRATIONS = [
+    // Dataset metadata
+    `ALTER TABLE datasets ADD COLUMN IF NOT EXISTS description TEXT;`,
+    `ALTER TABLE datasets ADD COLUMN IF NOT EXISTS owner TEXT;`,
+    `ALTER TABLE datasets ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}';`,
+    `ALTER TABLE datasets ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ DEFAULT NOW();`,
+    // Renaming a dataset cascades to its entries and relationships
+    cascadeForeignKey('data_entries', 'data_entries_dataset_name_fkey',
+        'FOREIGN KEY (dataset_name) REFERENCES datasets(name) ON DELETE CASCADE ON UPDATE CASCADE'),
+    cascadeForeignKey('relationships', 'relationships_dataset_name_fkey',
+        'FOREIGN KEY (dataset_name) REFERENCES datasets(name) ON DELETE CASCADE ON UPDATE CASCADE'),
+    cascadeForeignKey('relationships', 'relationships_dataset_name_source_entry_id_fkey',
+        'FOREIGN KEY (dataset_name, source_entry_id) REFERENCES data_entries (dataset_name, entry_id) ON DELETE CASCADE ON UPDATE CASCADE'),
+    cascadeForeignKey('relationships', 'relationships_dataset_name_target_entry_id_fkey',
+        'FOREIGN KEY (dataset_name, target_entry_id) REFERENCES data_entries (dataset_name, entry_id) ON DELETE CASCADE ON UPDATE CASCADE'),
+    // Typed relationships: two entries may be linked once per type
+    `ALTER TABLE relationships ADD COLUMN IF NOT EXISTS type TEXT NOT NULL DEFAULT '${DEFAULT_RELATIONSHIP_TYPE}';`,
+    `ALTER TABLE relationships ADD COLUMN IF NOT EXISTS properties JSONB;`,
+    `ALTER TABLE relationships ADD COLUMN IF NOT EXISTS weight DOUBLE PRECISION;`,
+    `ALTER TABLE relationships DROP CONSTRAINT IF EXISTS relationships_dataset_name_source_entry_id_target_entry_id_key;`,
+    `
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'relationships_unique_typed_link') THEN
+        ALTER TABLE relationships ADD CONSTRAINT relationships_unique_typed_link
+            UNIQUE (dataset_name, source_entry_id, target_entry_id, type);
+    END IF;
+END $$;`,
+    `CREATE INDEX IF NOT EXISTS relationships_type_idx ON relationships (dataset_name, type);`,
+    // Paginated listing: keyset order on creation time, and JSONB field predicates
+    `CREATE INDEX IF NOT EXISTS data_entries_created_at_idx ON data_entries (dataset_name, created_at, entry_id);`,
+    `CREATE INDEX IF NOT EXISTS data_entries_data_idx ON data_entries USING GIN (data);`,
+    // Full-text search
+    `ALTER TABLE data_entries ADD COLUMN IF NOT EXISTS search_vector TSVECTOR GENERATED ALWAYS AS (${SEARCH_VECTOR_EXPRESSION}) STORED;`,
+    `CREATE INDEX IF NOT EXISTS data_entries_search_idx ON data_entries USING GIN (search_vector);`,
+    // Entry version history, newest first per entry
+    `CREATE INDEX IF NOT EXISTS entry_versions_entry_idx ON entry_versions (dataset_name, entry_id, id DESC);`,
+    // Audit log: one index per filter of the viewer, and a trigger that rejects changing or removing recorded events
+    `CREATE INDEX IF NOT EXISTS audit_log_dataset_idx ON audit_log (dataset_name, id DESC);`,
+    `CREATE INDEX IF NOT EXISTS audit_log_actor_idx ON audit_log (actor, id DESC);`,
+    `CREATE INDEX IF NOT EXISTS audit_log_action_idx ON audit_log (action, id DESC);`,
+    `
+CREATE OR REPLACE FUNCTION audit_log_append_only() RETURNS trigger AS $$
+BEGIN
+    RAISE EXCEPTION 'audit_log is append-only';
+END $$ LANGUAGE plpgsql;`,
+    `
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'audit_log_append_only') THEN
+        CREATE TRIGGER audit_log_append_only BEFORE UPDATE OR DELETE OR TRUNCATE ON audit_log
+            FOR EACH STATEMENT EXECUTE FUNCTION audit_log_append_only();
+    END IF;
+END $$;`,
+    // Cleaning jobs: newest first per dataset, and the review queue filtered by status
+    `CREATE INDEX IF NOT EXISTS cleaning_jobs_dataset_idx ON cleaning_jobs (dataset_name, id DESC);`,
+    `CREATE INDEX IF NOT EXISTS cleaning_job_items_status_idx ON cleaning_job_items (job_id, status, entry_id);`,
+    // Per-dataset cleaning rule sets
+    `ALTER TABLE datasets ADD COLUMN IF NOT EXISTS cleaning_rules JSONB NOT NULL DEFAULT '[]'::jsonb;`,
+    // AI model a cleaning job runs on (NULL for jobs started before models were configurable)
+    `ALTER TABLE cleaning_jobs ADD COLUMN IF NOT EXISTS model TEXT;`,
+    // Documented schema of the entries (NULL until one is inferred or written)
+    `ALTER TABLE datasets ADD COLUMN IF NOT EXISTS documented_schema JSONB;`,
+    // Entry versions and audit events only record known sources, so the viewers can label every one
+    mutationSourceCheck('entry_versions'),
+    mutationSourceCheck('audit_log'),
+];
+
+// Columns returned for every RelationshipEntry
+const RELATIONSHIP_COLUMNS = 'id, source_entry_id, target_entry_id, type, properties, weight, created_at';
+
+const DATASET_INFO_COLUMNS = `
+    d.name, d.description, d.owner, d.tags, d.created_at, d.updated_at,
+    (SELECT COUNT(*)::int FROM data_entries e WHERE e.dataset_name = d.name) AS entry_count,
+    (SELECT COUNT(*)::int FROM relationships r WHERE r.dataset_name = d.name) AS relationship_count`;
+
+/**
+ * Marks a dataset as modified. Called by every function that changes entries or relationships.
+ */
+async function touchDataset(client: PoolClient, datasetName: string): Promise<void> {
+    await client.query('UPDATE datasets SET updated_at = NOW() WHERE name = $1', [datasetName]);
+}
+
+/**
+ * Validates the dataset name passed to a service function.
+ * Every data and relationship operation is scoped to an explicit dataset (taken from the
+ * request URL), so concurrent requests working on different datasets never interfere.
+ */
+function requireDatasetName(datasetName: string, caller: string): string {
+    const trimmedName = datasetName?.trim();
+    if (!trimmedName) {
+        console.error(`[${caller} Service] No dataset specified.`);
+        throw new Error('No dataset specified.');
+    }
+    return trimmedName;
+}
+
+// PostgreSQL unique_violation, raised e.g. when a dataset name is taken by a concurrent transaction.
+function isUniqueViolation(error: unknown): boolean {
+    return (error as { code?: string } | null)?.code === '23505';
+}
+
+// SQL for the hex SHA-256 of a JSONB value. jsonb has a single text form (normalised key order, no insignificant
+// whitespace), so equal content hashes the same whether it comes from the application or from a table.
+function jsonbHashSql(expression: string): string {
+    return `encode(sha256(convert_to((${expression})::text, 'UTF8')), 'hex')`;
+}
+
+// The audited payload of a relationship: everything but its ID and creation time
+function relationshipPayloadSql(alias: string): string {
+    return `jsonb_build_object('source_entry_id', ${alias}.source_entry_id, 'target_entry_id', ${alias}.target_entry_id, 'type', ${alias}.type, 'properties', ${alias}.properties, 'weight', ${alias}.weight)`;
+}
+
+function relationshipPayload(relationship: RelationshipEntry): Record<string, unknown> {
+    const { source_entry_id, target_entry_id, type, properties, weight } = relationship;
+    return { source_entry_id, target_entry_id, type, properties: properties ?? null, weight: weight ?? null };
+}
+
+// The audited payload of a dataset: its editable details
+function datasetPayload(dataset: Partial<DatasetMetadata>): Record<string, unknown> {
+    return { description: dataset.description ?? null, owner: dataset.owner ?? null, tags: dataset.tags ?? [] };
+}
+
+interface AuditRecord {
+    action: AuditAction;
+    datasetName: string;
+    targetId?: string | number | null;
+    before?: unknown; // Payload before the change (hashed, not stored); omitted if there was none
+    after?: unknown; // Payload after the change; omitted if there is none
+    details?: Record<string, unknown>;
+}
+
+/**
+ * Appends one event to the audit log. Called inside the transaction that makes the change,
+ * so an event is recorded exactly when the change is committed.
+ */
+async function recordAudit(client: PoolClient, record: AuditRecord, context: MutationContext): Promise<void> {
+    await client.query(
+        `INSERT INTO audit_log (actor, source, action, dataset_name, target_id, before_hash, after_hash, details)
+         VALUES ($1, $2, $3, $4, $5, ${jsonbHashSql('$6::jsonb')}, ${jsonbHashSql('$7::jsonb')}, $8)`,
+        [
+            context.actor,
+            context.source,
+            record.action,
+            record.datasetName,
+            record.targetId != null ? String(record.targetId) : null,
+            record.before != null ? JSON.stringify(record.before) : null,
+            record.after != null ? JSON.stringify(record.after) : null,
+            record.details ? JSON.stringify(record.details) : null,
+        ]
+    );
+}
+
+/**
+ * Records what writing new content to entries changes: the current content of entries that are overwritten
+ * (as entry versions, so it can be restored later) and an audit event per added or changed entry.
+ * Called inside the transaction that writes the new content, before writing it. Entries whose content
+ * does not change get neither.
+ * @param changes The new content (as JSON text) of each entry that will be written, keyed by entry ID.
+ */
+async function recordEntryWrites(client: PoolClient, datasetName: string, changes: Map<string, string>, context: MutationContext): Promise<void> {
+    if (changes.size === 0) return;
+    const params = [datasetName, Array.from(changes.keys()), Array.from(changes.values()), context.actor, context.source];
+    await client.query(
+        `INSERT INTO entry_versions (dataset_name, entry_id, data, actor, source)
+         SELECT e.dataset_name, e.entry_id, e.data, $4, $5
+         FROM data_entries e
+         JOIN unnest($2::text[], $3::jsonb[]) AS incoming(entry_id, data) ON incoming.entry_id = e.entry_id
+         WHERE e.dataset_name = $1 AND e.data IS DISTINCT FROM incoming.data`,
+        params
+    );
+    await client.query(
+        `INSERT INTO audit_log (actor, source, action, dataset_name, target_id, before_hash, after_hash)
+         SELECT $4, $5,
+                CASE WHEN e.entry_id IS NULL THEN 'entry.add' WHEN $5 IN ('ai-clean', 'rule-clean') THEN 'entry.clean' ELSE 'entry.update' END,
+                $1, incoming.entry_id, ${jsonbHashSql('e.data')}, ${jsonbHashSql('incoming.data')}
+         FROM unnest($2::text[], $3::jsonb[]) AS incoming(entry_id, data)
+         LEFT JOIN data_entries e ON e.dataset_name = $1 AND e.entry_id = incoming.entry_id
+         WHERE e.data IS DISTINCT FROM incoming.data`,
+        params
+    );
+}
 
+/**
+ * Records an audit event for each entry that is about to be deleted and for each relationship removed with it.
+ * Called inside the deleting transaction, before deleting.
+ * @param entryIds The entries to be deleted, or null for all entries of the dataset.
+ */
+async function recordEntryDeletes(client: PoolClient, datasetName: string, entryIds: string[] | null, context: MutationContext): Promise<void> {
+    const params = [datasetName, entryIds, context.actor, context.source];
+    await client.query(
+        `INSERT INTO audit_log (actor, source, action, dataset_name, target_id, before_hash, details)
+         SELECT $3, $4, 'relationship.delete', $1, r.id::text, ${jsonbHashSql(relationshipPayloadSql('r'))}, '{"cascade": true}'::jsonb
+         FROM relationships r
+         WHERE r.dataset_name = $1 AND ($2::text[] IS NULL OR r.source_entry_id = ANY($2::text[]) OR r.target_entry_id = ANY($2::text[]))
+         ORDER BY r.id`,
+        params
+    );
+    await client.query(
+        `INSERT INTO audit_log (actor, source, action, dataset_name, target_id, before_hash)
+         SELECT $3, $4, 'entry.delete', $1, e.entry_id, ${jsonbHashSql('e.data')}
+         FROM data_entries e
+         WHERE e.dataset_name = $1 AND ($2::text[] IS NULL OR e.entry_id = ANY($2::text[]))
+         ORDER BY e.internal_id`,
+        params
+    );
+}
 
 async function initializeSchema(): Promise<void> {
     console.log('[Database Service] Initializing database schema if needed...');
@@ -167,6 +474,13 @@ async function initializeSchema(): Promise<void> {
         await client.query(CREATE_DATASETS_TABLE);
         await client.query(CREATE_DATA_ENTRIES_TABLE);
         await client.query(CREATE_RELATIONSHIPS_TABLE);
+        await client.query(CREATE_ENTRY_VERSIONS_TABLE);
+        await client.query(CREATE_AUDIT_LOG_TABLE);
+        await client.query(CREATE_CLEANING_JOBS_TABLE);
+        await client.query(CREATE_CLEANING_JOB_ITEMS_TABLE);
+        for (const migration of SCHEMA_MIGRATIONS) {
+            await client.query(migration);
+        }
 
         // Check if 'default' dataset exists, create if not
         const res = await client.query('SELECT name FROM datasets WHERE name = $1', ['default']);
@@ -183,12 +497,6 @@ async function initializeSchema(): Promise<void> {
         await client.query('COMMIT');
         console.log('[Database Service] Schema initialization check complete.');
 
-        // Set active dataset if not already set
-        if (!activeDatasetName) {
-            activeDatasetName = 'default';
-            console.log(`[Database Service] Setting active dataset to '${activeDatasetName}'`);
-        }
-
     } catch (err) {
         console.error('[Database Service] Error during schema initialization transaction:', err);
         try {
@@ -251,28 +559,6 @@ async function populateDefaultData(client: any): Promise<void> {
 
 // --- Public API ---
 
-/**
- * Sets the active dataset name in memory.
- * NOTE: Does NOT check if the dataset exists in the DB here. Operations will fail later if it doesn't.
- * @param name The name of the dataset to activate.
- * @returns True (as validation happens during operations).
- */
-export async function setActiveDataset(name: string): Promise<boolean> {
-    console.log(`[setActiveDataset Service] Attempting to set active dataset to: ${name}`);
-    activeDatasetName = name;
-    console.log(`[setActiveDataset Service] Active dataset is now: ${activeDatasetName}`);
-    return true; // Assume success, actual validation happens in operations
-}
-
-/**
- * Gets the name of the currently active dataset stored in memory.
- * @returns The name of the active dataset or null if none is active.
- */
-export async function getActiveDatasetName(): Promise<string | null> {
-    console.log(`[getActiveDatasetName Service] Returning active dataset name: ${activeDatasetName}`);
-    return activeDatasetName;
-}
-
 /**
  * Gets the names of all available datasets from the database.
  * @returns A promise resolving to an array of dataset names.
@@ -294,15 +580,34 @@ export async function getAllDatasetNames(): Promise<string[]> {
 }
 
 /**
- * Creates a new dataset entry in the database. If the dataset already exists, it does nothing.
- * Sets the newly created dataset as the active one.
+ * Checks whether a dataset with the given name exists.
+ * @param name The dataset name.
+ * @returns A promise resolving to true if the dataset exists.
+ */
+export async function datasetExists(name: string): Promise<boolean> {
+    console.log(`[datasetExists Service] Checking dataset: ${name}`);
+    const client = await getPool().connect();
+    try {
+        const result = await client.query('SELECT 1 FROM datasets WHERE name = $1', [name]);
+        return (result.rowCount ?? 0) > 0;
+    } catch (error) {
+        console.error(`[datasetExists Service] Error checking dataset '${name}':`, error);
+        throw new Error(`Failed to check dataset '${name}' in database: ${(error as Error).message}`);
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * Creates a new dataset in the database. If the dataset already exists, its entries and relationships are replaced.
  * Populates the dataset with the provided initial data.
  *
  * @param name The name for the new dataset.
  * @param initialData The initial array of DataEntry objects for the dataset.
+ * @param context Who is creating the dataset and how; recorded in the audit log.
  * @returns A promise resolving to true if creation/population was successful, false otherwise.
  */
-export async function createOrReplaceDataset(name: string, initialData: DataEntry[]): Promise<boolean> {
+export async function createOrReplaceDataset(name: string, initialData: DataEntry[], context: MutationContext): Promise<boolean> {
     const trimmedName = name.trim();
     console.log(`[createOrReplaceDataset Service] Called for name: ${trimmedName}. Initial data count: ${initialData.length}`);
     if (!trimmedName) {
@@ -314,25 +619,28 @@ export async function createOrReplaceDataset(name: string, initialData: DataEntr
     try {
         await client.query('BEGIN');
 
+        const existing = await client.query('SELECT 1 FROM datasets WHERE name = $1', [trimmedName]);
+        const replacing = (existing.rowCount ?? 0) > 0;
+
         // Create dataset entry (ignore if exists)
-        await client.query('INSERT INTO datasets (name) VALUES ($1) ON CONFLICT (name) DO NOTHING', [trimmedName]);
+        await client.query('INSERT INTO datasets (name) VALUES ($1) ON CONFLICT (name) DO UPDATE SET updated_at = NOW()', [trimmedName]);
         console.log(`[createOrReplaceDataset Service] Ensured dataset '${trimmedName}' exists.`);
+        await recordAudit(client, { action: replacing ? 'dataset.replace' : 'dataset.create', datasetName: trimmedName, details: { entries: initialData.length } }, context);
 
         // Clear existing data and relationships for this dataset before adding new ones
         console.log(`[createOrReplaceDataset Service] Clearing existing data and relationships for dataset '${trimmedName}'...`);
+        if (replacing) await recordEntryDeletes(client, trimmedName, null, context);
         await client.query('DELETE FROM relationships WHERE dataset_name = $1', [trimmedName]);
         await client.query('DELETE FROM data_entries WHERE dataset_name = $1', [trimmedName]);
         console.log(`[createOrReplaceDataset Service] Existing entries and relationships cleared for '${trimmedName}'.`);
 
+        // Assign a UUID if id is missing, otherwise use provided id (converted to string),
+        // and remove 'id' from the data to be stored in JSONB, if it exists
+        const rows = initialData.map(({ id, ...dataToStore }): [string, string] => [id ? String(id) : uuidv4(), JSON.stringify(dataToStore)]);
+        await recordEntryWrites(client, trimmedName, new Map(rows), context);
 
         // Insert new data entries
-        for (const entryData of initialData) {
-            // Assign a UUID if id is missing, otherwise use provided id (converted to string)
-            const entryId = entryData.id ? String(entryData.id) : uuidv4();
-            // Remove 'id' from the data to be stored in JSONB, if it exists
-            const { id, ...dataToStore } = entryData;
-            const dataJson = JSON.stringify(dataToStore);
-
+        for (const [entryId, dataJson] of rows) {
             await client.query(
                 'INSERT INTO data_entries (dataset_name, entry_id, data) VALUES ($1, $2, $3)',
                 [trimmedName, entryId, dataJson]
@@ -341,21 +649,14 @@ export async function createOrReplaceDataset(name: string, initialData: DataEntr
         }
 
         await client.query('COMMIT');
-        activeDatasetName = trimmedName; // Set the new dataset as active
 
-        console.log(`[createOrReplaceDataset Service] Dataset '${trimmedName}' created/replaced and set as active.`);
+        console.log(`[createOrReplaceDataset Service] Dataset '${trimmedName}' created/replaced.`);
         console.log(`[createOrReplaceDataset Service] Inserted ${initialData.length} new entries.`);
         return true;
 
     } catch (error) {
         await client.query('ROLLBACK');
         console.error(`[createOrReplaceDataset Service] Error creating/replacing dataset '${trimmedName}':`, error);
-        // Attempt to reset active dataset name if the failed one was set
-        if (activeDatasetName === trimmedName) {
-            const names = await getAllDatasetNames(); // Fetch existing names again
-            activeDatasetName = names.length > 0 ? names[0] : null; // Reset to first or null
-            console.warn(`[createOrReplaceDataset Service] Reset active dataset name to '${activeDatasetName}' due to error.`);
-        }
         return false;
     } finally {
         client.release();
@@ -364,18 +665,16 @@ export async function createOrReplaceDataset(name: string, initialData: DataEntr
 
 
 /**
- * Asynchronously adds one or more data entries to the *active* dataset in PostgreSQL.
+ * Asynchronously adds one or more data entries to the given dataset in PostgreSQL.
  *
+ * @param datasetName The name of the dataset to operate on.
  * @param data The data entry or array of entries to add.
+ * @param context Who is adding the entries; recorded in the audit log and with the versions of entries that are overwritten.
  * @returns A promise that resolves to true if the operation was successful, false otherwise.
  */
-export async function addData(data: DataEntry | DataEntry[]): Promise<boolean> {
-    const currentActiveDataset = activeDatasetName; // Capture at the start
-    if (!currentActiveDataset) {
-        console.error('[addData Service] Cannot add data, no active dataset selected.');
-        return false;
-    }
-    console.log(`[addData Service - Active: ${currentActiveDataset}] Called.`);
+export async function addData(datasetName: string, data: DataEntry | DataEntry[], context: MutationContext): Promise<boolean> {
+    const currentDataset = requireDatasetName(datasetName, 'addData');
+    console.log(`[addData Service - Dataset: ${currentDataset}] Called.`);
 
     const client = await getPool().connect();
     try {
@@ -389,6 +688,7 @@ export async function addData(data: DataEntry | DataEntry[]): Promise<boolean> {
             // Remove 'id' from the data to be stored in JSONB, if it exists
             const { id, ...dataToStore } = entry;
             const dataJson = JSON.stringify(dataToStore);
+            await recordEntryWrites(client, currentDataset, new Map([[entryId, dataJson]]), context);
 
             // Use ON CONFLICT to handle potential duplicate entry_id within the same dataset
             // This effectively makes addData behave like an upsert based on entry_id
@@ -398,41 +698,139 @@ export async function addData(data: DataEntry | DataEntry[]): Promise<boolean> {
                 ON CONFLICT (dataset_name, entry_id)
                 DO UPDATE SET data = EXCLUDED.data;
             `;
-            await client.query(query, [currentActiveDataset, entryId, dataJson]);
-            console.log(`[addData Service - Active: ${currentActiveDataset}] Added/Updated entry with ID: ${entryId}`);
+            await client.query(query, [currentDataset, entryId, dataJson]);
+            console.log(`[addData Service - Dataset: ${currentDataset}] Added/Updated entry with ID: ${entryId}`);
         }
 
+        await touchDataset(client, currentDataset);
         await client.query('COMMIT');
-        console.log(`[addData Service - Active: ${currentActiveDataset}] Successfully added/updated ${entriesToAdd.length} entries.`);
+        console.log(`[addData Service - Dataset: ${currentDataset}] Successfully added/updated ${entriesToAdd.length} entries.`);
         return true;
 
     } catch (error) {
         await client.query('ROLLBACK');
-        console.error(`[addData Service - Active: ${currentActiveDataset}] Error adding data:`, error);
+        console.error(`[addData Service - Dataset: ${currentDataset}] Error adding data:`, error);
         return false;
     } finally {
         client.release();
     }
 }
 
+// --- Bulk Import ---
+
+const IMPORT_BATCH_SIZE = 1000; // Rows per multi-row INSERT; 3 parameters each stays far below PostgreSQL's 65535 limit
+
+/**
+ * Inserts or updates one batch of entries with a single multi-row INSERT and returns the number of rows written.
+ * The batch is keyed by entry ID, so an ID occurs at most once per statement (ON CONFLICT requires that).
+ */
+async function insertEntryBatch(client: PoolClient, datasetName: string, batch: Map<string, string>): Promise<number> {
+    const values: string[] = [];
+    const params: unknown[] = [datasetName];
+    for (const [entryId, dataJson] of batch) {
+        params.push(entryId, dataJson);
+        values.push(`($1, $${params.length - 1}, $${params.length}::jsonb)`);
+    }
+    const result = await client.query(
+        `INSERT INTO data_entries (dataset_name, entry_id, data)
+         VALUES ${values.join(', ')}
+         ON CONFLICT (dataset_name, entry_id)
+         DO UPDATE SET data = EXCLUDED.data`,
+        params
+    );
+    return result.rowCount ?? 0;
+}
+
 /**
- * Asynchronously fetches all data entries from the *active* dataset in PostgreSQL.
+ * Writes a stream of entries to a dataset in one transaction, in batches of IMPORT_BATCH_SIZE rows,
+ * so uploads far larger than a Server Action payload can be imported while they are still being received.
+ * Entries with an existing ID are replaced; entries without an ID get a new UUID.
  *
- * @returns A promise that resolves to an array of DataEntry objects.
- * @throws {Error} If the operation fails or no dataset is active.
+ * @param datasetName The name of the dataset to import into.
+ * @param entries The entries, typically parsed incrementally from a request body.
+ * @param mode 'append' to add to an existing dataset, 'replace' to create or replace the dataset.
+ * @param context Who is importing; recorded in the audit log and with the versions of entries that are overwritten.
+ * @returns A promise that resolves to the number of rows written (an ID repeated within a batch counts once),
+ *   or null if appending to a dataset that does not exist.
+ * @throws {Error} If reading the entries or writing them fails; nothing is imported in that case.
  */
-export async function getAllData(): Promise<DataEntry[]> {
-    const currentActiveDataset = activeDatasetName; // Capture at the start
-    if (!currentActiveDataset) {
-        console.error('[getAllData Service] No active dataset selected.');
-        throw new Error('No active dataset selected.');
+export async function importEntries(datasetName: string, entries: AsyncIterable<DataEntry>, mode: ImportMode, context: MutationContext): Promise<number | null> {
+    const currentDataset = requireDatasetName(datasetName, 'importEntries');
+    console.log(`[importEntries Service - Dataset: ${currentDataset}] Called. Mode: ${mode}`);
+
+    const client = await getPool().connect();
+    try {
+        await client.query('BEGIN');
+
+        let createdDataset = false;
+        if (mode === 'replace') {
+            const created = await client.query('INSERT INTO datasets (name) VALUES ($1) ON CONFLICT (name) DO NOTHING', [currentDataset]);
+            createdDataset = (created.rowCount ?? 0) > 0;
+            await recordEntryDeletes(client, currentDataset, null, context);
+            await client.query('DELETE FROM relationships WHERE dataset_name = $1', [currentDataset]);
+            await client.query('DELETE FROM data_entries WHERE dataset_name = $1', [currentDataset]);
+            console.log(`[importEntries Service - Dataset: ${currentDataset}] Existing entries and relationships cleared.`);
+        } else {
+            const exists = await client.query('SELECT 1 FROM datasets WHERE name = $1', [currentDataset]);
+            if (exists.rowCount === 0) {
+                await client.query('ROLLBACK');
+                console.warn(`[importEntries Service - Dataset: ${currentDataset}] Dataset not found.`);
+                return null;
+            }
+        }
+
+        let read = 0;
+        let total = 0;
+        let batch = new Map<string, string>();
+        for await (const entry of entries) {
+            const entryId = entry.id ? String(entry.id) : uuidv4();
+            const { id, ...dataToStore } = entry;
+            batch.set(entryId, JSON.stringify(dataToStore)); // A repeated ID within the batch keeps its latest data
+            read++;
+            if (batch.size >= IMPORT_BATCH_SIZE) {
+                await recordEntryWrites(client, currentDataset, batch, context);
+                total += await insertEntryBatch(client, currentDataset, batch);
+                console.log(`[importEntries Service - Dataset: ${currentDataset}] Wrote batch of ${batch.size} entries (${read} read so far).`);
+                batch = new Map();
+            }
+        }
+        if (batch.size > 0) {
+            await recordEntryWrites(client, currentDataset, batch, context);
+            total += await insertEntryBatch(client, currentDataset, batch);
+        }
+
+        await recordAudit(client, { action: 'dataset.import', datasetName: currentDataset, details: { mode, entries: total, createdDataset } }, context);
+        await touchDataset(client, currentDataset);
+        await client.query('COMMIT');
+        console.log(`[importEntries Service - Dataset: ${currentDataset}] Imported ${total} entries (${read} read).`);
+        return total;
+    } catch (error) {
+        await client.query('ROLLBACK');
+        console.error(`[importEntries Service - Dataset: ${currentDataset}] Error importing entries:`, error);
+        const message = (error as Error).message;
+        // Problems with the uploaded content are reported as they are
+        if (message.startsWith(INVALID_UPLOAD_PREFIX)) throw error;
+        throw new Error(`Failed to import entries: ${message}`);
+    } finally {
+        client.release();
     }
-    console.log(`[getAllData Service - Active: ${currentActiveDataset}] Called.`);
+}
+
+/**
+ * Asynchronously fetches all data entries from the given dataset in PostgreSQL.
+ *
+ * @param datasetName The name of the dataset to operate on.
+ * @returns A promise that resolves to an array of DataEntry objects.
+ * @throws {Error} If the operation fails or no dataset is specified.
+ */
+export async function getAllData(datasetName: string): Promise<DataEntry[]> {
+    const currentDataset = requireDatasetName(datasetName, 'getAllData');
+    console.log(`[getAllData Service - Dataset: ${currentDataset}] Called.`);
     const client = await getPool().connect();
     try {
         const result: QueryResult<{ entry_id: string; data: any }> = await client.query(
             'SELECT entry_id, data FROM data_entries WHERE dataset_name = $1 ORDER BY created_at DESC',
-            [currentActiveDataset]
+            [currentDataset]
         );
 
         // Combine entry_id back into the data object
@@ -441,41 +839,248 @@ export async function getAllData(): Promise<DataEntry[]> {
             ...row.data        // Spread the JSONB data
         }));
 
-        console.log(`[getAllData Service - Active: ${currentActiveDataset}] Returning ${entries.length} entries.`);
+        console.log(`[getAllData Service - Dataset: ${currentDataset}] Returning ${entries.length} entries.`);
         return entries;
     } catch (error) {
-        console.error(`[getAllData Service - Active: ${currentActiveDataset}] Error fetching data:`, error);
+        console.error(`[getAllData Service - Dataset: ${currentDataset}] Error fetching data:`, error);
         throw new Error(`Failed to fetch data from database: ${error.message}`);
     } finally {
         client.release();
     }
 }
 
+// Position of the last entry of a page: its sort key (as text) and ID, plus the sort it belongs to
+interface EntryCursor {
+    sortField: string | null;
+    direction: 'asc' | 'desc';
+    key: string | null;
+    id: string;
+}
+
+function encodeEntryCursor(cursor: EntryCursor): string {
+    return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+function decodeEntryCursor(raw: string, sortField: string | null, direction: 'asc' | 'desc'): EntryCursor {
+    let cursor: EntryCursor;
+    try {
+        cursor = JSON.parse(Buffer.from(raw, 'base64url').toString('utf8'));
+    } catch {
+        throw new Error('Invalid page cursor.');
+    }
+    if (typeof cursor?.id !== 'string' || cursor.sortField !== sortField || cursor.direction !== direction) {
+        throw new Error('Invalid page cursor: it belongs to a different sort order.');
+    }
+    return cursor;
+}
+
+// Escapes the LIKE wildcards in user input
+function escapeLikePattern(value: string): string {
+    return value.replace(/[\\%_]/g, match => `\\${match}`);
+}
+
+/**
+ * Translates entry filters into SQL conditions on data_entries.data. Values are always bound as
+ * parameters through `param`, which appends a value and returns its placeholder.
+ */
+function buildEntryFilterConditions(filters: EntryFilter[], param: (value: unknown) => string): string[] {
+    return filters.map(filter => {
+        const field = filter.field?.trim();
+        if (!field) {
+            throw new Error('Every filter needs a field.');
+        }
+        const fieldParam = `${param(field)}::text`;
+        switch (filter.operator) {
+            case 'equals':
+                if (filter.value === undefined) throw new Error(`Filter on '${field}' needs a value.`);
+                return `data ->> ${fieldParam} = ${param(String(filter.value))}`;
+            case 'contains': {
+                if (filter.value === undefined || filter.value === '') throw new Error(`Filter on '${field}' needs a value.`);
+                const pattern = param(`%${escapeLikePattern(String(filter.value))}%`);
+                return `(CASE WHEN jsonb_typeof(data -> ${fieldParam}) = 'array'
+                    THEN EXISTS (SELECT 1 FROM jsonb_array_elements_text(data -> ${fieldParam}) AS element WHERE element ILIKE ${pattern})
+                    ELSE data ->> ${fieldParam} ILIKE ${pattern} END)`;
+            }
+            case 'range': {
+                const bounds = [filter.min, filter.max].filter(bound => bound !== undefined && bound !== '');
+                if (bounds.length === 0) throw new Error(`Range filter on '${field}' needs a minimum or maximum.`);
+                // Compare numerically when the bounds are numbers, otherwise as text (e.g. ISO dates)
+                const numeric = bounds.every(bound => Number.isFinite(Number(bound)));
+                const value = numeric
+                    ? `(CASE WHEN jsonb_typeof(data -> ${fieldParam}) = 'number' THEN (data ->> ${fieldParam})::numeric END)`
+                    : `(data ->> ${fieldParam})`;
+                const cast = numeric ? '::numeric' : '::text';
+                const conditions: string[] = [];
+                if (filter.min !== undefined && filter.min !== '') conditions.push(`${value} >= ${param(String(filter.min))}${cast}`);
+                if (filter.max !== undefined && filter.max !== '') conditions.push(`${value} <= ${param(String(filter.max))}${cast}`);
+                return `(${conditions.join(' AND ')})`;
+            }
+            case 'exists':
+                return `data ? ${fieldParam}`;
+            default:
+                throw new Error(`Unknown filter operator '${(filter as EntryFilter).operator}'.`);
+        }
+    });
+}
+
+/**
+ * Asynchronously fetches one page of entries from the given dataset in PostgreSQL, sorted and filtered in SQL.
+ * Uses keyset pagination on (sort key, entry_id), so every page costs the same regardless of its position.
+ *
+ * @param datasetName The name of the dataset to operate on.
+ * @param query Page size, cursor, sort and filters. Sorting by a JSON field orders values by their JSONB order (missing fields first).
+ * @returns A promise resolving to the page of entries, the cursor of the next page and the number of matching entries.
+ * @throws {Error} If a filter or the cursor is invalid, the operation fails, or no dataset is specified.
+ */
+export async function queryData(datasetName: string, query: EntryQuery = {}): Promise<EntryPage> {
+    const currentDataset = requireDatasetName(datasetName, 'queryData');
+    console.log(`[queryData Service - Dataset: ${currentDataset}] Called. limit: ${query.limit ?? DEFAULT_ENTRY_PAGE_SIZE}, sort: ${query.sortField?.trim() || 'created_at'} ${query.sortDirection ?? 'default'}, filters: ${query.filters?.length ?? 0}${query.cursor ? ', with cursor' : ''}`);
+
+    const client = await getPool().connect();
+    try {
+        const page = await fetchEntryPage(client, currentDataset, query, true);
+        console.log(`[queryData Service - Dataset: ${currentDataset}] Returning ${page.entries.length} of ${page.totalCount} matching entries.`);
+        return { ...page, totalCount: page.totalCount ?? 0 };
+    } catch (error) {
+        console.error(`[queryData Service - Dataset: ${currentDataset}] Error querying data:`, error);
+        throw new Error(`Failed to query data from database: ${(error as Error).message}`);
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * Iterates over all entries matching the query's sort, filters and relationship filter (limit and cursor are ignored),
+ * reading them page by page so exports of large datasets never hold every entry at once.
+ *
+ * @param datasetName The name of the dataset to operate on.
+ * @param query Sort and filters, as for queryData.
+ * @returns An async generator of entries in sort order.
+ * @throws {Error} If a query fails or no dataset is specified.
+ */
+export async function* streamData(datasetName: string, query: EntryQuery = {}): AsyncGenerator<DataEntry> {
+    const currentDataset = requireDatasetName(datasetName, 'streamData');
+    console.log(`[streamData Service - Dataset: ${currentDataset}] Called. sort: ${query.sortField?.trim() || 'created_at'}, filters: ${query.filters?.length ?? 0}`);
+
+    const client = await getPool().connect();
+    let count = 0;
+    try {
+        let cursor: string | null = null;
+        do {
+            const page = await fetchEntryPage(client, currentDataset, { ...query, limit: MAX_ENTRY_PAGE_SIZE, cursor: cursor ?? undefined }, false);
+            for (const entry of page.entries) {
+                count++;
+                yield entry;
+            }
+            cursor = page.nextCursor;
+        } while (cursor);
+        console.log(`[streamData Service - Dataset: ${currentDataset}] Streamed ${count} entries.`);
+    } catch (error) {
+        console.error(`[streamData Service - Dataset: ${currentDataset}] Error reading entries after ${count}:`, error);
+        throw new Error(`Failed to read data from database: ${(error as Error).message}`);
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * Runs one page of an entry listing: filters, relationship filter, sort and keyset pagination.
+ * Counting all matches is optional, as walking through every page (streamData) does not need it.
+ */
+async function fetchEntryPage(
+    client: PoolClient,
+    currentDataset: string,
+    query: EntryQuery,
+    withCount: boolean
+): Promise<{ entries: DataEntry[]; nextCursor: string | null; totalCount: number | null }> {
+    const limit = Math.min(Math.max(Math.trunc(query.limit ?? DEFAULT_ENTRY_PAGE_SIZE) || DEFAULT_ENTRY_PAGE_SIZE, 1), MAX_ENTRY_PAGE_SIZE);
+    const sortField = query.sortField?.trim() || null;
+    const direction = query.sortDirection ?? (sortField ? 'asc' : 'desc');
+    const filters = query.filters ?? [];
+
+    const params: unknown[] = [currentDataset];
+    const param = (value: unknown) => {
+        params.push(value);
+        return `$${params.length}`;
+    };
+
+    const conditions = ['dataset_name = $1', ...buildEntryFilterConditions(filters, param)];
+    if (query.relatedToSourceId) {
+        conditions.push(`entry_id IN (SELECT target_entry_id FROM relationships WHERE dataset_name = $1 AND source_entry_id = ${param(query.relatedToSourceId)})`);
+    }
+    const filterParamCount = params.length; // The count query only needs the filter parameters
+
+    let sortExpression = 'created_at';
+    let sortCast = '::timestamptz';
+    if (sortField === ENTRY_ID_SORT_FIELD) {
+        sortExpression = 'entry_id';
+        sortCast = '::text';
+    } else if (sortField) {
+        sortExpression = `COALESCE(data -> ${param(sortField)}::text, 'null'::jsonb)`;
+        sortCast = '::jsonb';
+    }
+
+    const pageConditions = [...conditions];
+    if (query.cursor) {
+        const cursor = decodeEntryCursor(query.cursor, sortField, direction);
+        const comparison = direction === 'asc' ? '>' : '<';
+        pageConditions.push(`(${sortExpression}, entry_id) ${comparison} (${param(cursor.key)}${sortCast}, ${param(cursor.id)})`);
+    }
+    const order = direction === 'asc' ? 'ASC' : 'DESC';
+
+    let totalCount: number | null = null;
+    if (withCount) {
+        const countResult: QueryResult<{ count: number }> = await client.query(
+            `SELECT COUNT(*)::int AS count FROM data_entries WHERE ${conditions.join(' AND ')}`,
+            params.slice(0, filterParamCount)
+        );
+        totalCount = countResult.rows[0].count;
+    }
+    // Fetch one extra row to know whether there is a next page
+    const pageResult: QueryResult<{ entry_id: string; data: any; sort_key: string | null }> = await client.query(
+        `SELECT entry_id, data, (${sortExpression})::text AS sort_key
+         FROM data_entries
+         WHERE ${pageConditions.join(' AND ')}
+         ORDER BY ${sortExpression} ${order}, entry_id ${order}
+         LIMIT ${limit + 1}`,
+        params
+    );
+
+    const rows = pageResult.rows.slice(0, limit);
+    const last = rows[rows.length - 1];
+    const nextCursor = pageResult.rows.length > limit && last
+        ? encodeEntryCursor({ sortField, direction, key: last.sort_key, id: last.entry_id })
+        : null;
+
+    return {
+        entries: rows.map(row => ({ id: row.entry_id, ...row.data })),
+        nextCursor,
+        totalCount,
+    };
+}
+
 /**
- * Asynchronously fetches a single data entry by its ID from the *active* dataset in PostgreSQL.
+ * Asynchronously fetches a single data entry by its ID from the given dataset in PostgreSQL.
  *
+ * @param datasetName The name of the dataset to operate on.
  * @param id The entry_id of the data entry to fetch.
  * @returns A promise that resolves to the DataEntry object or null if not found.
- * @throws {Error} If the operation fails or no dataset is active.
+ * @throws {Error} If the operation fails or no dataset is specified.
  */
-export async function getDataById(id: number | string): Promise<DataEntry | null> {
-    const currentActiveDataset = activeDatasetName; // Capture at the start
-    if (!currentActiveDataset) {
-        console.error(`[getDataById Service] No active dataset selected.`);
-        throw new Error('No active dataset selected.');
-    }
+export async function getDataById(datasetName: string, id: number | string): Promise<DataEntry | null> {
+    const currentDataset = requireDatasetName(datasetName, 'getDataById');
     const searchId = String(id);
-    console.log(`[getDataById Service - Active: ${currentActiveDataset}] Called for ID: ${searchId}`);
+    console.log(`[getDataById Service - Dataset: ${currentDataset}] Called for ID: ${searchId}`);
 
     const client = await getPool().connect();
     try {
         const result: QueryResult<{ entry_id: string; data: any }> = await client.query(
             'SELECT entry_id, data FROM data_entries WHERE dataset_name = $1 AND entry_id = $2',
-            [currentActiveDataset, searchId]
+            [currentDataset, searchId]
         );
 
         if (result.rowCount === 0) {
-            console.warn(`[getDataById Service - Active: ${currentActiveDataset}] Entry not found for ID ${searchId}.`);
+            console.warn(`[getDataById Service - Dataset: ${currentDataset}] Entry not found for ID ${searchId}.`);
             return null;
         }
 
@@ -484,11 +1089,11 @@ export async function getDataById(id: number | string): Promise<DataEntry | null
             id: row.entry_id,
             ...row.data
         };
-        console.log(`[getDataById Service - Active: ${currentActiveDataset}] Found entry for ID ${searchId}.`);
+        console.log(`[getDataById Service - Dataset: ${currentDataset}] Found entry for ID ${searchId}.`);
         return entry;
 
     } catch (error) {
-        console.error(`[getDataById Service - Active: ${currentActiveDataset}] Error fetching data for ID ${searchId}:`, error);
+        console.error(`[getDataById Service - Dataset: ${currentDataset}] Error fetching data for ID ${searchId}:`, error);
         throw new Error(`Failed to fetch data for ID ${searchId} from database: ${error.message}`);
     } finally {
         client.release();
@@ -497,23 +1102,20 @@ export async function getDataById(id: number | string): Promise<DataEntry | null
 
 
 /**
- * Asynchronously fetches multiple data entries by their IDs from the *active* dataset in PostgreSQL.
+ * Asynchronously fetches multiple data entries by their IDs from the given dataset in PostgreSQL.
  *
+ * @param datasetName The name of the dataset to operate on.
  * @param ids An array of entry_ids of the data entries to fetch.
  * @returns A promise that resolves to an array of DataEntry objects found.
- * @throws {Error} If the operation fails or no dataset is active.
+ * @throws {Error} If the operation fails or no dataset is specified.
  */
-export async function getDataByIds(ids: (number | string)[]): Promise<DataEntry[]> {
-    const currentActiveDataset = activeDatasetName; // Capture at the start
-    if (!currentActiveDataset) {
-        console.error(`[getDataByIds Service] No active dataset selected.`);
-        throw new Error('No active dataset selected.');
-    }
+export async function getDataByIds(datasetName: string, ids: (number | string)[]): Promise<DataEntry[]> {
+    const currentDataset = requireDatasetName(datasetName, 'getDataByIds');
     const searchIds = ids.map(String);
     if (searchIds.length === 0) {
         return []; // Return empty array if no IDs are provided
     }
-    console.log(`[getDataByIds Service - Active: ${currentActiveDataset}] Called for IDs: [${searchIds.join(', ')}]`);
+    console.log(`[getDataByIds Service - Dataset: ${currentDataset}] Called for IDs: [${searchIds.join(', ')}]`);
 
     const client = await getPool().connect();
     try {
@@ -522,17 +1124,17 @@ export async function getDataByIds(ids: (number | string)[]): Promise<DataEntry[
             FROM data_entries
             WHERE dataset_name = $1 AND entry_id = ANY($2::text[])
         `;
-        const result: QueryResult<{ entry_id: string; data: any }> = await client.query(query, [currentActiveDataset, searchIds]);
+        const result: QueryResult<{ entry_id: string; data: any }> = await client.query(query, [currentDataset, searchIds]);
 
         const entries = result.rows.map(row => ({
             id: row.entry_id,
             ...row.data
         }));
 
-        console.log(`[getDataByIds Service - Active: ${currentActiveDataset}] Found ${entries.length} entries for IDs [${searchIds.join(', ')}].`);
+        console.log(`[getDataByIds Service - Dataset: ${currentDataset}] Found ${entries.length} entries for IDs [${searchIds.join(', ')}].`);
         return entries;
     } catch (error) {
-        console.error(`[getDataByIds Service - Active: ${currentActiveDataset}] Error fetching data for IDs [${searchIds.join(', ')}]:`, error);
+        console.error(`[getDataByIds Service - Dataset: ${currentDataset}] Error fetching data for IDs [${searchIds.join(', ')}]:`, error);
         throw new Error(`Failed to fetch multiple data entries from database: ${error.message}`);
     } finally {
         client.release();
@@ -540,75 +1142,218 @@ export async function getDataByIds(ids: (number | string)[]): Promise<DataEntry[
 }
 
 /**
- * Asynchronously updates a data entry by its ID in the *active* dataset in PostgreSQL.
+ * Asynchronously updates a data entry by its ID in the given dataset in PostgreSQL.
  *
+ * @param datasetName The name of the dataset to operate on.
  * @param id The entry_id of the data entry to update.
  * @param updatedData The partial or full data object. The 'id' field within this object is ignored.
+ * @param context Who is updating the entry and how; recorded in the audit log and with the version the update replaces.
  * @returns A promise that resolves to true if the update was successful (row found and updated), false otherwise.
- * @throws {Error} If the operation fails or no dataset is active.
+ * @throws {Error} If the operation fails or no dataset is specified.
  */
-export async function updateDataById(id: number | string, updatedData: Partial<DataEntry>): Promise<boolean> {
-    const currentActiveDataset = activeDatasetName; // Capture at the start
-    if (!currentActiveDataset) {
-        console.error(`[updateDataById Service] Cannot update data, no active dataset.`);
-        throw new Error('No active dataset selected.');
-    }
+export async function updateDataById(datasetName: string, id: number | string, updatedData: Partial<DataEntry>, context: MutationContext): Promise<boolean> {
+    const currentDataset = requireDatasetName(datasetName, 'updateDataById');
     const updateId = String(id);
     // Remove 'id' property from the data to be stored/merged in JSONB
     const { id: ignoredId, ...dataToUpdate } = updatedData;
     const dataJson = JSON.stringify(dataToUpdate);
 
-    console.log(`[updateDataById Service - Active: ${currentActiveDataset}] Called for ID: ${updateId}`);
+    console.log(`[updateDataById Service - Dataset: ${currentDataset}] Called for ID: ${updateId}`);
 
     const client = await getPool().connect();
     try {
-        // We update the entire JSONB column with the new data.
-        // For merging/partial updates, JSONB operators could be used, but replacing is simpler here.
+        await client.query('BEGIN');
+        await recordEntryWrites(client, currentDataset, new Map([[updateId, dataJson]]), context);
+        // Replaces the entire JSONB column; partial updates go through patchDataById
         const query = `
             UPDATE data_entries
             SET data = $3
             WHERE dataset_name = $1 AND entry_id = $2
         `;
-        const result = await client.query(query, [currentActiveDataset, updateId, dataJson]);
+        const result = await client.query(query, [currentDataset, updateId, dataJson]);
 
         if (result.rowCount === 0) {
-            console.warn(`[updateDataById Service - Active: ${currentActiveDataset}] Entry not found for update (ID: ${updateId}).`);
+            await client.query('ROLLBACK');
+            console.warn(`[updateDataById Service - Dataset: ${currentDataset}] Entry not found for update (ID: ${updateId}).`);
             return false;
         }
 
-        console.log(`[updateDataById Service - Active: ${currentActiveDataset}] Successfully updated entry ID ${updateId}.`);
+        await touchDataset(client, currentDataset);
+        await client.query('COMMIT');
+        console.log(`[updateDataById Service - Dataset: ${currentDataset}] Successfully updated entry ID ${updateId}.`);
         return true;
     } catch (error) {
-        console.error(`[updateDataById Service - Active: ${currentActiveDataset}] Error updating data for ID ${updateId}:`, error);
+        await client.query('ROLLBACK');
+        console.error(`[updateDataById Service - Dataset: ${currentDataset}] Error updating data for ID ${updateId}:`, error);
         throw new Error(`Failed to update data for ID ${updateId} in database: ${error.message}`);
     } finally {
         client.release();
     }
 }
 
+/**
+ * Applies a partial update to an entry's content: an RFC 7396 JSON Merge Patch or an RFC 6902 JSON Patch.
+ * The entry row is locked while the patch is applied, so concurrent patches do not overwrite each other's fields.
+ *
+ * @param datasetName The name of the dataset to operate on.
+ * @param id The entry_id of the data entry to patch.
+ * @param patch The merge patch or JSON Patch operations.
+ * @param context Who is patching the entry and how; recorded in the audit log and with the version the patch replaces.
+ * @returns A promise that resolves to the patched entry, or null if the entry does not exist.
+ * @throws {Error} If the patch cannot be applied (message starting with INVALID_PATCH_PREFIX) or the operation fails.
+ */
+export async function patchDataById(datasetName: string, id: number | string, patch: EntryPatch, context: MutationContext): Promise<DataEntry | null> {
+    const currentDataset = requireDatasetName(datasetName, 'patchDataById');
+    const patchId = String(id);
+    console.log(`[patchDataById Service - Dataset: ${currentDataset}] Called for ID: ${patchId} (${patch.type})`);
+
+    const client = await getPool().connect();
+    try {
+        await client.query('BEGIN');
+        const existing: QueryResult<{ data: Record<string, unknown> }> = await client.query(
+            'SELECT data FROM data_entries WHERE dataset_name = $1 AND entry_id = $2 FOR UPDATE',
+            [currentDataset, patchId]
+        );
+        if (existing.rowCount === 0) {
+            await client.query('ROLLBACK');
+            console.warn(`[patchDataById Service - Dataset: ${currentDataset}] Entry not found for patch (ID: ${patchId}).`);
+            return null;
+        }
+
+        const patched = applyEntryPatch(existing.rows[0].data, patch);
+        const patchedJson = JSON.stringify(patched);
+        await recordEntryWrites(client, currentDataset, new Map([[patchId, patchedJson]]), context);
+        await client.query(
+            'UPDATE data_entries SET data = $3 WHERE dataset_name = $1 AND entry_id = $2',
+            [currentDataset, patchId, patchedJson]
+        );
+        await touchDataset(client, currentDataset);
+        await client.query('COMMIT');
+        console.log(`[patchDataById Service - Dataset: ${currentDataset}] Successfully patched entry ID ${patchId}.`);
+        return { ...patched, id: patchId };
+    } catch (error) {
+        await client.query('ROLLBACK');
+        console.error(`[patchDataById Service - Dataset: ${currentDataset}] Error patching data for ID ${patchId}:`, error);
+        const message = (error as Error).message;
+        // Patches that do not apply are reported as they are
+        if (message.startsWith(INVALID_PATCH_PREFIX)) throw error;
+        throw new Error(`Failed to patch data for ID ${patchId} in database: ${message}`);
+    } finally {
+        client.release();
+    }
+}
+
+// --- Entry Versions ---
+
+/**
+ * Lists the recorded previous contents of an entry, newest first.
+ *
+ * @param datasetName The name of the dataset to operate on.
+ * @param entryId The entry_id of the entry.
+ * @returns A promise that resolves to the entry's versions (empty if it was never overwritten or does not exist).
+ * @throws {Error} If the operation fails or no dataset is specified.
+ */
+export async function getEntryVersions(datasetName: string, entryId: number | string): Promise<EntryVersion[]> {
+    const currentDataset = requireDatasetName(datasetName, 'getEntryVersions');
+    const searchId = String(entryId);
+    console.log(`[getEntryVersions Service - Dataset: ${currentDataset}] Called for ID: ${searchId}`);
+
+    const client = await getPool().connect();
+    try {
+        const result: QueryResult<EntryVersion> = await client.query(
+            `SELECT id, entry_id, data, actor, source, recorded_at
+             FROM entry_versions
+             WHERE dataset_name = $1 AND entry_id = $2
+             ORDER BY id DESC`,
+            [currentDataset, searchId]
+        );
+        console.log(`[getEntryVersions Service - Dataset: ${currentDataset}] Found ${result.rowCount} versions for ID ${searchId}.`);
+        return result.rows;
+    } catch (error) {
+        console.error(`[getEntryVersions Service - Dataset: ${currentDataset}] Error fetching versions for ID ${searchId}:`, error);
+        throw new Error(`Failed to fetch versions for ID ${searchId} from database: ${(error as Error).message}`);
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * Puts a recorded version back as the entry's content. The content being replaced is recorded as a version
+ * itself, so a restore can be undone like any other change.
+ *
+ * @param datasetName The name of the dataset to operate on.
+ * @param entryId The entry_id of the entry.
+ * @param versionId The ID of the version to restore; it must belong to the entry.
+ * @param context Who is restoring the version and how.
+ * @returns A promise that resolves to the restored entry, or null if the entry or the version does not exist.
+ * @throws {Error} If the operation fails or no dataset is specified.
+ */
+export async function restoreEntryVersion(datasetName: string, entryId: number | string, versionId: number, context: MutationContext): Promise<DataEntry | null> {
+    const currentDataset = requireDatasetName(datasetName, 'restoreEntryVersion');
+    const restoreId = String(entryId);
+    console.log(`[restoreEntryVersion Service - Dataset: ${currentDataset}] Called for ID: ${restoreId}, version ${versionId}`);
+
+    const client = await getPool().connect();
+    try {
+        await client.query('BEGIN');
+        const version: QueryResult<{ data: Record<string, unknown> }> = await client.query(
+            'SELECT data FROM entry_versions WHERE dataset_name = $1 AND entry_id = $2 AND id = $3',
+            [currentDataset, restoreId, versionId]
+        );
+        if (version.rowCount === 0) {
+            await client.query('ROLLBACK');
+            console.warn(`[restoreEntryVersion Service - Dataset: ${currentDataset}] Version ${versionId} not found for ID ${restoreId}.`);
+            return null;
+        }
+
+        const dataJson = JSON.stringify(version.rows[0].data);
+        await recordEntryWrites(client, currentDataset, new Map([[restoreId, dataJson]]), context);
+        await client.query(
+            'UPDATE data_entries SET data = $3 WHERE dataset_name = $1 AND entry_id = $2',
+            [currentDataset, restoreId, dataJson]
+        );
+        await touchDataset(client, currentDataset);
+        await client.query('COMMIT');
+        console.log(`[restoreEntryVersion Service - Dataset: ${currentDataset}] Restored version ${versionId} of entry ID ${restoreId}.`);
+        return { ...version.rows[0].data, id: restoreId };
+    } catch (error) {
+        await client.query('ROLLBACK');
+        console.error(`[restoreEntryVersion Service - Dataset: ${currentDataset}] Error restoring version ${versionId} of ID ${restoreId}:`, error);
+        throw new Error(`Failed to restore version ${versionId} of ID ${restoreId} in database: ${(error as Error).message}`);
+    } finally {
+        client.release();
+    }
+}
+
 // --- Relationship Operations ---
 
 /**
- * Asynchronously adds a relationship between two data entries in the *active* dataset in PostgreSQL.
- * Does nothing if the relationship already exists.
+ * Asynchronously adds a typed relationship from one data entry to another in the given dataset in PostgreSQL.
+ * Does nothing if a relationship of the same type between the two entries already exists.
  *
+ * @param datasetName The name of the dataset to operate on.
  * @param sourceEntryId The ID of the source entry.
  * @param targetEntryId The ID of the target entry.
+ * @param attributes Optional type label (defaults to DEFAULT_RELATIONSHIP_TYPE), properties and weight.
+ * @param context Who is adding the relationship and how; recorded in the audit log.
  * @returns A promise that resolves to the newly created or existing RelationshipEntry or null if source/target not found or self-reference.
- * @throws {Error} If the database operation fails or no dataset is active.
+ * @throws {Error} If the database operation fails or no dataset is specified.
  */
-export async function addRelationship(sourceEntryId: number | string, targetEntryId: number | string): Promise<RelationshipEntry | null> {
-    const currentActiveDataset = activeDatasetName; // Capture at the start
-    if (!currentActiveDataset) {
-        console.error(`[addRelationship Service] Cannot add relationship, no active dataset.`);
-        throw new Error('No active dataset selected.');
-    }
+export async function addRelationship(
+    datasetName: string,
+    sourceEntryId: number | string,
+    targetEntryId: number | string,
+    attributes: RelationshipAttributes,
+    context: MutationContext
+): Promise<RelationshipEntry | null> {
+    const currentDataset = requireDatasetName(datasetName, 'addRelationship');
     const sourceIdStr = String(sourceEntryId);
     const targetIdStr = String(targetEntryId);
-    console.log(`[addRelationship Service - Active: ${currentActiveDataset}] Called: Source ${sourceIdStr}, Target ${targetIdStr}`);
+    const type = normalizeRelationshipType(attributes.type);
+    console.log(`[addRelationship Service - Dataset: ${currentDataset}] Called: Source ${sourceIdStr}, Target ${targetIdStr}, Type ${type}`);
 
     if (sourceIdStr === targetIdStr) {
-        console.warn(`[addRelationship Service - Active: ${currentActiveDataset}] Failed: Cannot add self-referencing relationship for ID ${sourceIdStr}.`);
+        console.warn(`[addRelationship Service - Dataset: ${currentDataset}] Failed: Cannot add self-referencing relationship for ID ${sourceIdStr}.`);
         return null;
     }
 
@@ -616,92 +1361,177 @@ export async function addRelationship(sourceEntryId: number | string, targetEntr
     try {
         await client.query('BEGIN');
 
-        // Check if source and target entries exist in the active dataset
-        const checkSource = await client.query('SELECT 1 FROM data_entries WHERE dataset_name = $1 AND entry_id = $2', [currentActiveDataset, sourceIdStr]);
-        const checkTarget = await client.query('SELECT 1 FROM data_entries WHERE dataset_name = $1 AND entry_id = $2', [currentActiveDataset, targetIdStr]);
+        // Check if source and target entries exist in the dataset
+        const checkSource = await client.query('SELECT 1 FROM data_entries WHERE dataset_name = $1 AND entry_id = $2', [currentDataset, sourceIdStr]);
+        const checkTarget = await client.query('SELECT 1 FROM data_entries WHERE dataset_name = $1 AND entry_id = $2', [currentDataset, targetIdStr]);
 
         if (checkSource.rowCount === 0) {
-            console.warn(`[addRelationship Service - Active: ${currentActiveDataset}] Failed: Source ID ${sourceIdStr} not found.`);
+            console.warn(`[addRelationship Service - Dataset: ${currentDataset}] Failed: Source ID ${sourceIdStr} not found.`);
             await client.query('ROLLBACK');
             return null;
         }
         if (checkTarget.rowCount === 0) {
-            console.warn(`[addRelationship Service - Active: ${currentActiveDataset}] Failed: Target ID ${targetIdStr} not found.`);
+            console.warn(`[addRelationship Service - Dataset: ${currentDataset}] Failed: Target ID ${targetIdStr} not found.`);
             await client.query('ROLLBACK');
             return null;
         }
 
-        // Insert the relationship, ignoring if it already exists
+        // Insert the relationship, ignoring if one of the same type already exists
         const insertQuery = `
-            INSERT INTO relationships (dataset_name, source_entry_id, target_entry_id)
-            VALUES ($1, $2, $3)
-            ON CONFLICT (dataset_name, source_entry_id, target_entry_id) DO NOTHING
-            RETURNING id, source_entry_id, target_entry_id, created_at;
+            INSERT INTO relationships (dataset_name, source_entry_id, target_entry_id, type, properties, weight)
+            VALUES ($1, $2, $3, $4, $5, $6)
+            ON CONFLICT (dataset_name, source_entry_id, target_entry_id, type) DO NOTHING
+            RETURNING ${RELATIONSHIP_COLUMNS};
         `;
-        const insertResult = await client.query(insertQuery, [currentActiveDataset, sourceIdStr, targetIdStr]);
+        const insertResult = await client.query(insertQuery, [
+            currentDataset,
+            sourceIdStr,
+            targetIdStr,
+            type,
+            attributes.properties ? JSON.stringify(attributes.properties) : null,
+            attributes.weight ?? null,
+        ]);
 
         let relationship: RelationshipEntry | null = null;
         if (insertResult.rowCount > 0) {
             relationship = insertResult.rows[0];
-            console.log(`[addRelationship Service - Active: ${currentActiveDataset}] Successfully added relationship:`, relationship);
+            console.log(`[addRelationship Service - Dataset: ${currentDataset}] Successfully added relationship:`, relationship);
         } else {
             // Relationship already existed, fetch it
-            console.log(`[addRelationship Service - Active: ${currentActiveDataset}] Relationship ${sourceIdStr} -> ${targetIdStr} already exists. Fetching...`);
+            console.log(`[addRelationship Service - Dataset: ${currentDataset}] Relationship ${sourceIdStr} -[${type}]-> ${targetIdStr} already exists. Fetching...`);
              const selectResult = await client.query(
-                 'SELECT id, source_entry_id, target_entry_id, created_at FROM relationships WHERE dataset_name = $1 AND source_entry_id = $2 AND target_entry_id = $3',
-                 [currentActiveDataset, sourceIdStr, targetIdStr]
+                 `SELECT ${RELATIONSHIP_COLUMNS} FROM relationships WHERE dataset_name = $1 AND source_entry_id = $2 AND target_entry_id = $3 AND type = $4`,
+                 [currentDataset, sourceIdStr, targetIdStr, type]
              );
              if (selectResult.rowCount > 0) {
                  relationship = selectResult.rows[0];
              } else {
                  // Should not happen if ON CONFLICT worked correctly, but handle defensively
-                 console.error(`[addRelationship Service - Active: ${currentActiveDataset}] Could not find existing relationship ${sourceIdStr} -> ${targetIdStr} after ON CONFLICT.`);
+                 console.error(`[addRelationship Service - Dataset: ${currentDataset}] Could not find existing relationship ${sourceIdStr} -> ${targetIdStr} after ON CONFLICT.`);
              }
         }
 
+        if (insertResult.rowCount) {
+            await recordAudit(client, { action: 'relationship.add', datasetName: currentDataset, targetId: insertResult.rows[0].id, after: relationshipPayload(insertResult.rows[0]) }, context);
+            await touchDataset(client, currentDataset);
+        }
         await client.query('COMMIT');
         return relationship;
 
     } catch (error) {
         await client.query('ROLLBACK');
-        console.error(`[addRelationship Service - Active: ${currentActiveDataset}] Error adding relationship ${sourceIdStr} -> ${targetIdStr}:`, error);
+        console.error(`[addRelationship Service - Dataset: ${currentDataset}] Error adding relationship ${sourceIdStr} -> ${targetIdStr}:`, error);
         throw new Error(`Failed to add relationship ${sourceIdStr} -> ${targetIdStr} in database: ${error.message}`);
     } finally {
         client.release();
     }
 }
 
+/**
+ * Adds several typed relationships in one transaction: either all of them are added or, if one fails, none.
+ * Links of which an entry does not exist are skipped; links that already exist with the same type are left as
+ * they are and reported separately.
+ *
+ * @param datasetName The name of the dataset to operate on.
+ * @param links The source, target and type (defaults to DEFAULT_RELATIONSHIP_TYPE) of each relationship.
+ * @param context Who is adding the relationships and how; recorded in the audit log.
+ * @returns A promise that resolves to the created and already existing relationships and the number skipped.
+ * @throws {Error} If the database operation fails or no dataset is specified.
+ */
+export async function addRelationships(
+    datasetName: string,
+    links: Pick<RelationshipEntry, 'source_entry_id' | 'target_entry_id' | 'type'>[],
+    context: MutationContext
+): Promise<RelationshipBatchSummary> {
+    const currentDataset = requireDatasetName(datasetName, 'addRelationships');
+    console.log(`[addRelationships Service - Dataset: ${currentDataset}] Called for ${links.length} relationships`);
+
+    const client = await getPool().connect();
+    try {
+        await client.query('BEGIN');
+
+        // Entries are locked against deletion until the relationships are added
+        const ids = Array.from(new Set(links.flatMap(link => [String(link.source_entry_id), String(link.target_entry_id)])));
+        const found: QueryResult<{ entry_id: string }> = await client.query(
+            'SELECT entry_id FROM data_entries WHERE dataset_name = $1 AND entry_id = ANY($2::text[]) FOR SHARE',
+            [currentDataset, ids]
+        );
+        const foundIds = new Set(found.rows.map(row => row.entry_id));
+
+        const summary: RelationshipBatchSummary = { created: [], existing: [], skipped: 0 };
+        for (const link of links) {
+            const sourceIdStr = String(link.source_entry_id);
+            const targetIdStr = String(link.target_entry_id);
+            const type = normalizeRelationshipType(link.type);
+            if (sourceIdStr === targetIdStr || !foundIds.has(sourceIdStr) || !foundIds.has(targetIdStr)) {
+                console.warn(`[addRelationships Service - Dataset: ${currentDataset}] Skipping ${sourceIdStr} -[${type}]-> ${targetIdStr}: self-reference or missing entry.`);
+                summary.skipped++;
+                continue;
+            }
+            const inserted: QueryResult<RelationshipEntry> = await client.query(
+                `INSERT INTO relationships (dataset_name, source_entry_id, target_entry_id, type)
+                 VALUES ($1, $2, $3, $4)
+                 ON CONFLICT (dataset_name, source_entry_id, target_entry_id, type) DO NOTHING
+                 RETURNING ${RELATIONSHIP_COLUMNS}`,
+                [currentDataset, sourceIdStr, targetIdStr, type]
+            );
+            if (inserted.rowCount) {
+                summary.created.push(inserted.rows[0]);
+                await recordAudit(client, { action: 'relationship.add', datasetName: currentDataset, targetId: inserted.rows[0].id, after: relationshipPayload(inserted.rows[0]) }, context);
+            } else {
+                const existing: QueryResult<RelationshipEntry> = await client.query(
+                    `SELECT ${RELATIONSHIP_COLUMNS} FROM relationships WHERE dataset_name = $1 AND source_entry_id = $2 AND target_entry_id = $3 AND type = $4`,
+                    [currentDataset, sourceIdStr, targetIdStr, type]
+                );
+                summary.existing.push(...existing.rows);
+            }
+        }
+
+        if (summary.created.length > 0) {
+            await touchDataset(client, currentDataset);
+        }
+        await client.query('COMMIT');
+        console.log(`[addRelationships Service - Dataset: ${currentDataset}] Added ${summary.created.length}, ${summary.existing.length} already existed, ${summary.skipped} skipped.`);
+        return summary;
+    } catch (error) {
+        await client.query('ROLLBACK');
+        console.error(`[addRelationships Service - Dataset: ${currentDataset}] Error adding ${links.length} relationships:`, error);
+        throw new Error(`Failed to add relationships in database: ${(error as Error).message}`);
+    } finally {
+        client.release();
+    }
+}
+
 
 /**
- * Asynchronously fetches all relationships originating from a specific source ID in the *active* dataset from PostgreSQL.
+ * Asynchronously fetches all relationships originating from a specific source ID in the given dataset from PostgreSQL.
  *
+ * @param datasetName The name of the dataset to operate on.
  * @param sourceEntryId The ID of the source entry.
+ * @param type Optional relationship type; if given, only relationships of this type are returned.
  * @returns A promise resolving to an array of RelationshipEntry objects.
- * @throws {Error} If the operation fails or no dataset is active.
+ * @throws {Error} If the operation fails or no dataset is specified.
  */
-export async function getRelationshipsBySourceId(sourceEntryId: number | string): Promise<RelationshipEntry[]> {
-    const currentActiveDataset = activeDatasetName; // Capture at the start
-    if (!currentActiveDataset) {
-        console.error(`[getRelationshipsBySourceId Service] No active dataset selected.`);
-        throw new Error('No active dataset selected.');
-    }
+export async function getRelationshipsBySourceId(datasetName: string, sourceEntryId: number | string, type?: string): Promise<RelationshipEntry[]> {
+    const currentDataset = requireDatasetName(datasetName, 'getRelationshipsBySourceId');
     const sourceIdStr = String(sourceEntryId);
-    console.log(`[getRelationshipsBySourceId Service - Active: ${currentActiveDataset}] Called for source ID: ${sourceIdStr}`);
+    const typeFilter = type?.trim() || null;
+    console.log(`[getRelationshipsBySourceId Service - Dataset: ${currentDataset}] Called for source ID: ${sourceIdStr}${typeFilter ? `, type: ${typeFilter}` : ''}`);
 
     const client = await getPool().connect();
     try {
         const query = `
-            SELECT id, source_entry_id, target_entry_id, created_at
+            SELECT ${RELATIONSHIP_COLUMNS}
             FROM relationships
-            WHERE dataset_name = $1 AND source_entry_id = $2
+            WHERE dataset_name = $1 AND source_entry_id = $2 AND ($3::text IS NULL OR type = $3)
             ORDER BY created_at DESC;
         `;
-        const result: QueryResult<RelationshipEntry> = await client.query(query, [currentActiveDataset, sourceIdStr]);
+        const result: QueryResult<RelationshipEntry> = await client.query(query, [currentDataset, sourceIdStr, typeFilter]);
 
-        console.log(`[getRelationshipsBySourceId Service - Active: ${currentActiveDataset}] Found ${result.rowCount} relationships for source ${sourceIdStr}.`);
+        console.log(`[getRelationshipsBySourceId Service - Dataset: ${currentDataset}] Found ${result.rowCount} relationships for source ${sourceIdStr}.`);
         return result.rows;
     } catch (error) {
-        console.error(`[getRelationshipsBySourceId Service - Active: ${currentActiveDataset}] Error fetching relationships for source ID ${sourceIdStr}:`, error);
+        console.error(`[getRelationshipsBySourceId Service - Dataset: ${currentDataset}] Error fetching relationships for source ID ${sourceIdStr}:`, error);
         throw new Error(`Failed to fetch relationships for ID ${sourceIdStr} from database: ${error.message}`);
     } finally {
         client.release();
@@ -709,43 +1539,1880 @@ export async function getRelationshipsBySourceId(sourceEntryId: number | string)
 }
 
 /**
- * Asynchronously fetches all relationships from the *active* dataset in PostgreSQL.
+ * Asynchronously fetches all relationships pointing at a specific target ID in the given dataset from PostgreSQL.
  *
- * @returns A promise resolving to an array of all RelationshipEntry objects in the active dataset.
- * @throws {Error} If the operation fails or no dataset is active.
+ * @param datasetName The name of the dataset to operate on.
+ * @param targetEntryId The ID of the target entry.
+ * @param type Optional relationship type; if given, only relationships of this type are returned.
+ * @returns A promise resolving to an array of RelationshipEntry objects.
+ * @throws {Error} If the operation fails or no dataset is specified.
+ */
+export async function getRelationshipsByTargetId(datasetName: string, targetEntryId: number | string, type?: string): Promise<RelationshipEntry[]> {
+    const currentDataset = requireDatasetName(datasetName, 'getRelationshipsByTargetId');
+    const targetIdStr = String(targetEntryId);
+    const typeFilter = type?.trim() || null;
+    console.log(`[getRelationshipsByTargetId Service - Dataset: ${currentDataset}] Called for target ID: ${targetIdStr}${typeFilter ? `, type: ${typeFilter}` : ''}`);
+
+    const client = await getPool().connect();
+    try {
+        const query = `
+            SELECT ${RELATIONSHIP_COLUMNS}
+            FROM relationships
+            WHERE dataset_name = $1 AND target_entry_id = $2 AND ($3::text IS NULL OR type = $3)
+            ORDER BY created_at DESC;
+        `;
+        const result: QueryResult<RelationshipEntry> = await client.query(query, [currentDataset, targetIdStr, typeFilter]);
+
+        console.log(`[getRelationshipsByTargetId Service - Dataset: ${currentDataset}] Found ${result.rowCount} relationships for target ${targetIdStr}.`);
+        return result.rows;
+    } catch (error) {
+        console.error(`[getRelationshipsByTargetId Service - Dataset: ${currentDataset}] Error fetching relationships for target ID ${targetIdStr}:`, error);
+        throw new Error(`Failed to fetch incoming relationships for ID ${targetIdStr} from database: ${(error as Error).message}`);
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * Asynchronously fetches the entries within `depth` hops of an entry, following relationships in both directions,
+ * together with all relationships between those entries. Uses a recursive CTE over `relationships`.
+ *
+ * @param datasetName The name of the dataset to operate on.
+ * @param entryId The ID of the starting entry.
+ * @param depth The maximum number of hops (clamped to 1..MAX_NEIGHBORHOOD_DEPTH).
+ * @param type Optional relationship type; if given, only relationships of this type are followed and returned.
+ * @returns A promise resolving to the Neighborhood, or null if the starting entry does not exist.
+ * @throws {Error} If the operation fails or no dataset is specified.
  */
-export async function getAllRelationships(): Promise<RelationshipEntry[]> {
-    const currentActiveDataset = activeDatasetName; // Capture at the start
-    if (!currentActiveDataset) {
-        console.error(`[getAllRelationships Service] No active dataset selected.`);
-        throw new Error('No active dataset selected.');
+export async function getNeighborhood(datasetName: string, entryId: number | string, depth: number, type?: string): Promise<Neighborhood | null> {
+    const currentDataset = requireDatasetName(datasetName, 'getNeighborhood');
+    const rootId = String(entryId);
+    const maxDepth = Math.min(Math.max(Math.trunc(depth) || 1, 1), MAX_NEIGHBORHOOD_DEPTH);
+    const typeFilter = type?.trim() || null;
+    console.log(`[getNeighborhood Service - Dataset: ${currentDataset}] Called for ID: ${rootId}, depth: ${maxDepth}${typeFilter ? `, type: ${typeFilter}` : ''}`);
+
+    const client = await getPool().connect();
+    try {
+        // UNION (not UNION ALL) drops repeated (entry, distance) pairs, and the distance bound ends the recursion even on cycles
+        const walkQuery = `
+            WITH RECURSIVE walk(entry_id, distance) AS (
+                SELECT entry_id, 0
+                FROM data_entries
+                WHERE dataset_name = $1 AND entry_id = $2
+              UNION
+                SELECT CASE WHEN r.source_entry_id = w.entry_id THEN r.target_entry_id ELSE r.source_entry_id END,
+                       w.distance + 1
+                FROM walk w
+                JOIN relationships r
+                  ON r.dataset_name = $1
+                 AND (r.source_entry_id = w.entry_id OR r.target_entry_id = w.entry_id)
+                WHERE w.distance < $3 AND ($4::text IS NULL OR r.type = $4)
+            )
+            SELECT w.entry_id, MIN(w.distance)::int AS distance, e.data
+            FROM walk w
+            JOIN data_entries e ON e.dataset_name = $1 AND e.entry_id = w.entry_id
+            GROUP BY w.entry_id, e.data
+            ORDER BY distance, w.entry_id;
+        `;
+        const walkResult: QueryResult<{ entry_id: string; distance: number; data: any }> =
+            await client.query(walkQuery, [currentDataset, rootId, maxDepth, typeFilter]);
+
+        if (walkResult.rowCount === 0) {
+            console.warn(`[getNeighborhood Service - Dataset: ${currentDataset}] Entry ${rootId} not found.`);
+            return null;
+        }
+
+        const nodeIds = walkResult.rows.map(row => row.entry_id);
+        const relationshipsResult: QueryResult<RelationshipEntry> = await client.query(
+            `SELECT ${RELATIONSHIP_COLUMNS}
+             FROM relationships
+             WHERE dataset_name = $1
+               AND source_entry_id = ANY($2::text[]) AND target_entry_id = ANY($2::text[])
+               AND ($3::text IS NULL OR type = $3)
+             ORDER BY id`,
+            [currentDataset, nodeIds, typeFilter]
+        );
+
+        console.log(`[getNeighborhood Service - Dataset: ${currentDataset}] Found ${nodeIds.length} entries and ${relationshipsResult.rowCount} relationships within ${maxDepth} hops of ${rootId}.`);
+        return {
+            rootId,
+            depth: maxDepth,
+            nodes: walkResult.rows.map(row => ({
+                entry: { id: row.entry_id, ...row.data },
+                distance: row.distance,
+            })),
+            relationships: relationshipsResult.rows,
+        };
+    } catch (error) {
+        console.error(`[getNeighborhood Service - Dataset: ${currentDataset}] Error fetching neighborhood of ${rootId}:`, error);
+        throw new Error(`Failed to fetch neighborhood of ID ${rootId} from database: ${(error as Error).message}`);
+    } finally {
+        client.release();
     }
-    console.log(`[getAllRelationships Service - Active: ${currentActiveDataset}] Called`);
+}
+
+/**
+ * Asynchronously fetches all relationships from the given dataset in PostgreSQL.
+ *
+ * @param datasetName The name of the dataset to operate on.
+ * @param type Optional relationship type; if given, only relationships of this type are returned.
+ * @returns A promise resolving to an array of all RelationshipEntry objects in the dataset.
+ * @throws {Error} If the operation fails or no dataset is specified.
+ */
+export async function getAllRelationships(datasetName: string, type?: string): Promise<RelationshipEntry[]> {
+    const currentDataset = requireDatasetName(datasetName, 'getAllRelationships');
+    const typeFilter = type?.trim() || null;
+    console.log(`[getAllRelationships Service - Dataset: ${currentDataset}] Called${typeFilter ? ` for type: ${typeFilter}` : ''}`);
 
     const client = await getPool().connect();
     try {
         const query = `
-            SELECT id, source_entry_id, target_entry_id, created_at
+            SELECT ${RELATIONSHIP_COLUMNS}
             FROM relationships
-            WHERE dataset_name = $1
+            WHERE dataset_name = $1 AND ($2::text IS NULL OR type = $2)
             ORDER BY created_at DESC;
         `;
-        const result: QueryResult<RelationshipEntry> = await client.query(query, [currentActiveDataset]);
+        const result: QueryResult<RelationshipEntry> = await client.query(query, [currentDataset, typeFilter]);
 
-        console.log(`[getAllRelationships Service - Active: ${currentActiveDataset}] Returning ${result.rowCount} relationships.`);
+        console.log(`[getAllRelationships Service - Dataset: ${currentDataset}] Returning ${result.rowCount} relationships.`);
         return result.rows;
     } catch (error) {
-        console.error(`[getAllRelationships Service - Active: ${currentActiveDataset}] Error fetching all relationships:`, error);
+        console.error(`[getAllRelationships Service - Dataset: ${currentDataset}] Error fetching all relationships:`, error);
         throw new Error(`Failed to fetch all relationships from database: ${error.message}`);
     } finally {
         client.release();
     }
 }
 
-// Consider adding functions for deleting entries and relationships if needed.
-// export async function deleteDataById(id: number | string): Promise<boolean> { ... }
-// export async function deleteRelationship(relationshipId: number): Promise<boolean> { ... }
-// export async function deleteDataset(name: string): Promise<boolean> { ... }
+/**
+ * Asynchronously fetches the distinct relationship types used in the given dataset, with how often each is used.
+ *
+ * @param datasetName The name of the dataset to operate on.
+ * @returns A promise resolving to the types ordered by name.
+ * @throws {Error} If the operation fails or no dataset is specified.
+ */
+export async function getRelationshipTypes(datasetName: string): Promise<{ type: string; count: number }[]> {
+    const currentDataset = requireDatasetName(datasetName, 'getRelationshipTypes');
+    console.log(`[getRelationshipTypes Service - Dataset: ${currentDataset}] Called`);
+
+    const client = await getPool().connect();
+    try {
+        const result = await client.query<{ type: string; count: number }>(
+            'SELECT type, COUNT(*)::int AS count FROM relationships WHERE dataset_name = $1 GROUP BY type ORDER BY type',
+            [currentDataset]
+        );
+        return result.rows;
+    } catch (error) {
+        console.error(`[getRelationshipTypes Service - Dataset: ${currentDataset}] Error fetching relationship types:`, error);
+        throw new Error(`Failed to fetch relationship types from database: ${(error as Error).message}`);
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * Asynchronously fetches a single relationship by its ID from the given dataset in PostgreSQL.
+ *
+ * @param datasetName The name of the dataset to operate on.
+ * @param relationshipId The primary key of the relationship.
+ * @returns A promise resolving to the RelationshipEntry or null if not found.
+ * @throws {Error} If the operation fails or no dataset is specified.
+ */
+export async function getRelationshipById(datasetName: string, relationshipId: number): Promise<RelationshipEntry | null> {
+    const currentDataset = requireDatasetName(datasetName, 'getRelationshipById');
+    console.log(`[getRelationshipById Service - Dataset: ${currentDataset}] Called for relationship ID: ${relationshipId}`);
+
+    const client = await getPool().connect();
+    try {
+        const result: QueryResult<RelationshipEntry> = await client.query(
+            `SELECT ${RELATIONSHIP_COLUMNS} FROM relationships WHERE dataset_name = $1 AND id = $2`,
+            [currentDataset, relationshipId]
+        );
+
+        if (result.rowCount === 0) {
+            console.warn(`[getRelationshipById Service - Dataset: ${currentDataset}] Relationship not found for ID ${relationshipId}.`);
+            return null;
+        }
+        return result.rows[0];
+    } catch (error) {
+        console.error(`[getRelationshipById Service - Dataset: ${currentDataset}] Error fetching relationship ${relationshipId}:`, error);
+        throw new Error(`Failed to fetch relationship ${relationshipId} from database: ${(error as Error).message}`);
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * Asynchronously changes the source, target, type, properties and/or weight of an existing relationship in the given dataset.
+ * The relationship keeps its ID. Fields left undefined are not changed; null clears properties or weight.
+ *
+ * @param datasetName The name of the dataset to operate on.
+ * @param relationshipId The primary key of the relationship to update.
+ * @param changes The new source/target entry IDs and attributes.
+ * @param context Who is changing the relationship and how; recorded in the audit log.
+ * @returns A promise resolving to the updated RelationshipEntry, or null if the relationship, source or target was not found,
+ *          the change would create a self-reference, or an identical relationship already exists.
+ * @throws {Error} If the database operation fails or no dataset is specified.
+ */
+export async function updateRelationship(
+    datasetName: string,
+    relationshipId: number,
+    changes: { sourceEntryId?: number | string; targetEntryId?: number | string } & RelationshipAttributes,
+    context: MutationContext
+): Promise<RelationshipEntry | null> {
+    const currentDataset = requireDatasetName(datasetName, 'updateRelationship');
+    console.log(`[updateRelationship Service - Dataset: ${currentDataset}] Called for relationship ID: ${relationshipId}`, changes);
+
+    const client = await getPool().connect();
+    try {
+        await client.query('BEGIN');
+
+        const existing: QueryResult<RelationshipEntry> = await client.query(
+            `SELECT ${RELATIONSHIP_COLUMNS} FROM relationships WHERE dataset_name = $1 AND id = $2 FOR UPDATE`,
+            [currentDataset, relationshipId]
+        );
+        if (existing.rowCount === 0) {
+            console.warn(`[updateRelationship Service - Dataset: ${currentDataset}] Relationship ${relationshipId} not found.`);
+            await client.query('ROLLBACK');
+            return null;
+        }
+
+        const sourceIdStr = changes.sourceEntryId !== undefined ? String(changes.sourceEntryId) : existing.rows[0].source_entry_id;
+        const targetIdStr = changes.targetEntryId !== undefined ? String(changes.targetEntryId) : existing.rows[0].target_entry_id;
+        const type = changes.type !== undefined ? normalizeRelationshipType(changes.type) : existing.rows[0].type;
+        const properties = changes.properties !== undefined ? changes.properties : existing.rows[0].properties;
+        const weight = changes.weight !== undefined ? changes.weight : existing.rows[0].weight;
+
+        if (sourceIdStr === targetIdStr) {
+            console.warn(`[updateRelationship Service - Dataset: ${currentDataset}] Failed: Update would make relationship ${relationshipId} self-referencing.`);
+            await client.query('ROLLBACK');
+            return null;
+        }
+
+        const checkEntries = await client.query(
+            'SELECT entry_id FROM data_entries WHERE dataset_name = $1 AND entry_id = ANY($2::text[])',
+            [currentDataset, [sourceIdStr, targetIdStr]]
+        );
+        if (checkEntries.rowCount !== 2) {
+            console.warn(`[updateRelationship Service - Dataset: ${currentDataset}] Failed: Source ${sourceIdStr} or target ${targetIdStr} not found.`);
+            await client.query('ROLLBACK');
+            return null;
+        }
+
+        const duplicate = await client.query(
+            'SELECT 1 FROM relationships WHERE dataset_name = $1 AND source_entry_id = $2 AND target_entry_id = $3 AND type = $4 AND id <> $5',
+            [currentDataset, sourceIdStr, targetIdStr, type, relationshipId]
+        );
+        if ((duplicate.rowCount ?? 0) > 0) {
+            console.warn(`[updateRelationship Service - Dataset: ${currentDataset}] Failed: Relationship ${sourceIdStr} -[${type}]-> ${targetIdStr} already exists.`);
+            await client.query('ROLLBACK');
+            return null;
+        }
+
+        const updateResult: QueryResult<RelationshipEntry> = await client.query(
+            `UPDATE relationships
+             SET source_entry_id = $3, target_entry_id = $4, type = $5, properties = $6, weight = $7
+             WHERE dataset_name = $1 AND id = $2
+             RETURNING ${RELATIONSHIP_COLUMNS}`,
+            [currentDataset, relationshipId, sourceIdStr, targetIdStr, type, properties ? JSON.stringify(properties) : null, weight ?? null]
+        );
+
+        await recordAudit(client, {
+            action: 'relationship.update',
+            datasetName: currentDataset,
+            targetId: relationshipId,
+            before: relationshipPayload(existing.rows[0]),
+            after: relationshipPayload(updateResult.rows[0]),
+        }, context);
+        await touchDataset(client, currentDataset);
+        await client.query('COMMIT');
+        console.log(`[updateRelationship Service - Dataset: ${currentDataset}] Relationship ${relationshipId} is now ${sourceIdStr} -[${type}]-> ${targetIdStr}.`);
+        return updateResult.rows[0];
+    } catch (error) {
+        await client.query('ROLLBACK');
+        console.error(`[updateRelationship Service - Dataset: ${currentDataset}] Error updating relationship ${relationshipId}:`, error);
+        throw new Error(`Failed to update relationship ${relationshipId} in database: ${(error as Error).message}`);
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * Asynchronously deletes a relationship by its ID from the given dataset in PostgreSQL.
+ *
+ * @param datasetName The name of the dataset to operate on.
+ * @param relationshipId The primary key of the relationship to delete.
+ * @param context Who is deleting the relationship and how; recorded in the audit log.
+ * @returns A promise resolving to the deleted RelationshipEntry, or null if it was not found.
+ * @throws {Error} If the operation fails or no dataset is specified.
+ */
+export async function deleteRelationship(datasetName: string, relationshipId: number, context: MutationContext): Promise<RelationshipEntry | null> {
+    const currentDataset = requireDatasetName(datasetName, 'deleteRelationship');
+    console.log(`[deleteRelationship Service - Dataset: ${currentDataset}] Called for relationship ID: ${relationshipId}`);
+
+    const client = await getPool().connect();
+    try {
+        await client.query('BEGIN');
+        const result: QueryResult<RelationshipEntry> = await client.query(
+            `DELETE FROM relationships
+             WHERE dataset_name = $1 AND id = $2
+             RETURNING ${RELATIONSHIP_COLUMNS}`,
+            [currentDataset, relationshipId]
+        );
+
+        if (result.rowCount === 0) {
+            await client.query('ROLLBACK');
+            console.warn(`[deleteRelationship Service - Dataset: ${currentDataset}] Relationship ${relationshipId} not found.`);
+            return null;
+        }
+
+        await recordAudit(client, { action: 'relationship.delete', datasetName: currentDataset, targetId: relationshipId, before: relationshipPayload(result.rows[0]) }, context);
+        await touchDataset(client, currentDataset);
+        await client.query('COMMIT');
+        console.log(`[deleteRelationship Service - Dataset: ${currentDataset}] Deleted relationship ${relationshipId}.`);
+        return result.rows[0];
+    } catch (error) {
+        await client.query('ROLLBACK');
+        console.error(`[deleteRelationship Service - Dataset: ${currentDataset}] Error deleting relationship ${relationshipId}:`, error);
+        throw new Error(`Failed to delete relationship ${relationshipId} from database: ${(error as Error).message}`);
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * Re-inserts a previously deleted relationship with its original ID and creation time (used to undo a deletion).
+ *
+ * @param datasetName The name of the dataset to operate on.
+ * @param relationship The relationship as returned by deleteRelationship.
+ * @param context Who is restoring the relationship and how; recorded in the audit log.
+ * @returns A promise resolving to the restored RelationshipEntry, or null if one of its entries no longer exists
+ *          or the same relationship (or ID) was created again in the meantime.
+ * @throws {Error} If the database operation fails or no dataset is specified.
+ */
+export async function restoreRelationship(datasetName: string, relationship: RelationshipEntry, context: MutationContext): Promise<RelationshipEntry | null> {
+    const currentDataset = requireDatasetName(datasetName, 'restoreRelationship');
+    console.log(`[restoreRelationship Service - Dataset: ${currentDataset}] Called for relationship ID: ${relationship.id}`);
+
+    const client = await getPool().connect();
+    try {
+        await client.query('BEGIN');
+        const checkEntries = await client.query(
+            'SELECT entry_id FROM data_entries WHERE dataset_name = $1 AND entry_id = ANY($2::text[])',
+            [currentDataset, [relationship.source_entry_id, relationship.target_entry_id]]
+        );
+        if (checkEntries.rowCount !== 2) {
+            console.warn(`[restoreRelationship Service - Dataset: ${currentDataset}] Failed: Source ${relationship.source_entry_id} or target ${relationship.target_entry_id} no longer exists.`);
+            await client.query('ROLLBACK');
+            return null;
+        }
+
+        const insertResult: QueryResult<RelationshipEntry> = await client.query(
+            `INSERT INTO relationships (id, dataset_name, source_entry_id, target_entry_id, type, properties, weight, created_at)
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+             ON CONFLICT DO NOTHING
+             RETURNING ${RELATIONSHIP_COLUMNS}`,
+            [
+                relationship.id,
+                currentDataset,
+                relationship.source_entry_id,
+                relationship.target_entry_id,
+                normalizeRelationshipType(relationship.type),
+                relationship.properties ? JSON.stringify(relationship.properties) : null,
+                relationship.weight ?? null,
+                relationship.created_at,
+            ]
+        );
+        if (insertResult.rowCount === 0) {
+            console.warn(`[restoreRelationship Service - Dataset: ${currentDataset}] Failed: Relationship ${relationship.id} or ${relationship.source_entry_id} -> ${relationship.target_entry_id} already exists.`);
+            await client.query('ROLLBACK');
+            return null;
+        }
+
+        await recordAudit(client, {
+            action: 'relationship.add',
+            datasetName: currentDataset,
+            targetId: relationship.id,
+            after: relationshipPayload(insertResult.rows[0]),
+            details: { restored: true },
+        }, context);
+        await touchDataset(client, currentDataset);
+        await client.query('COMMIT');
+        console.log(`[restoreRelationship Service - Dataset: ${currentDataset}] Restored relationship ${relationship.id}.`);
+        return insertResult.rows[0];
+    } catch (error) {
+        await client.query('ROLLBACK');
+        console.error(`[restoreRelationship Service - Dataset: ${currentDataset}] Error restoring relationship ${relationship.id}:`, error);
+        throw new Error(`Failed to restore relationship ${relationship.id} in database: ${(error as Error).message}`);
+    } finally {
+        client.release();
+    }
+}
+
+// --- Deletion Operations ---
+
+/**
+ * Asynchronously deletes a data entry by its ID from the given dataset in PostgreSQL.
+ * Relationships pointing to or from the entry are removed by the ON DELETE CASCADE foreign keys.
+ *
+ * @param datasetName The name of the dataset to operate on.
+ * @param id The entry_id of the data entry to delete.
+ * @param context Who is deleting the entry and how; recorded in the audit log.
+ * @returns A promise that resolves to true if the entry was deleted, false if it was not found.
+ * @throws {Error} If the operation fails or no dataset is specified.
+ */
+export async function deleteDataById(datasetName: string, id: number | string, context: MutationContext): Promise<boolean> {
+    const currentDataset = requireDatasetName(datasetName, 'deleteDataById');
+    const deleteId = String(id);
+    console.log(`[deleteDataById Service - Dataset: ${currentDataset}] Called for ID: ${deleteId}`);
+
+    const client = await getPool().connect();
+    try {
+        await client.query('BEGIN');
+        await recordEntryDeletes(client, currentDataset, [deleteId], context);
+        const result = await client.query(
+            'DELETE FROM data_entries WHERE dataset_name = $1 AND entry_id = $2',
+            [currentDataset, deleteId]
+        );
+
+        if (result.rowCount === 0) {
+            await client.query('ROLLBACK');
+            console.warn(`[deleteDataById Service - Dataset: ${currentDataset}] Entry not found for deletion (ID: ${deleteId}).`);
+            return false;
+        }
+
+        await touchDataset(client, currentDataset);
+        await client.query('COMMIT');
+        console.log(`[deleteDataById Service - Dataset: ${currentDataset}] Successfully deleted entry ID ${deleteId}.`);
+        return true;
+    } catch (error) {
+        await client.query('ROLLBACK');
+        console.error(`[deleteDataById Service - Dataset: ${currentDataset}] Error deleting data for ID ${deleteId}:`, error);
+        throw new Error(`Failed to delete data for ID ${deleteId} from database: ${(error as Error).message}`);
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * Reports what deleting the given entries would remove, without deleting anything.
+ *
+ * @param datasetName The name of the dataset to operate on.
+ * @param ids The entry_ids of the entries that would be deleted.
+ * @returns A promise resolving to the existing and missing IDs and the number of relationships that would be removed.
+ * @throws {Error} If the operation fails or no dataset is specified.
+ */
+export async function previewDataDeletion(datasetName: string, ids: (number | string)[]): Promise<DeletionPreview> {
+    const currentDataset = requireDatasetName(datasetName, 'previewDataDeletion');
+    const stringIds = Array.from(new Set(ids.map(String)));
+    console.log(`[previewDataDeletion Service - Dataset: ${currentDataset}] Called for ${stringIds.length} IDs.`);
+    if (stringIds.length === 0) {
+        return { entryIds: [], missingIds: [], relationshipCount: 0 };
+    }
+
+    const client = await getPool().connect();
+    try {
+        const entriesResult = await client.query<{ entry_id: string }>(
+            'SELECT entry_id FROM data_entries WHERE dataset_name = $1 AND entry_id = ANY($2::text[])',
+            [currentDataset, stringIds]
+        );
+        const entryIds = entriesResult.rows.map(row => row.entry_id);
+        const existing = new Set(entryIds);
+
+        const relationshipsResult = await client.query<{ count: number }>(
+            `SELECT COUNT(*)::int AS count FROM relationships
+             WHERE dataset_name = $1 AND (source_entry_id = ANY($2::text[]) OR target_entry_id = ANY($2::text[]))`,
+            [currentDataset, entryIds]
+        );
+
+        const preview: DeletionPreview = {
+            entryIds,
+            missingIds: stringIds.filter(id => !existing.has(id)),
+            relationshipCount: relationshipsResult.rows[0]?.count ?? 0,
+        };
+        console.log(`[previewDataDeletion Service - Dataset: ${currentDataset}] ${entryIds.length} entries and ${preview.relationshipCount} relationships would be deleted.`);
+        return preview;
+    } catch (error) {
+        console.error(`[previewDataDeletion Service - Dataset: ${currentDataset}] Error previewing deletion:`, error);
+        throw new Error(`Failed to preview deletion from database: ${(error as Error).message}`);
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * Deletes several data entries of the given dataset in a single statement.
+ * Relationships pointing to or from the entries are removed by the ON DELETE CASCADE foreign keys.
+ *
+ * @param datasetName The name of the dataset to operate on.
+ * @param ids The entry_ids of the data entries to delete. IDs that do not exist are ignored.
+ * @param context Who is deleting the entries and how; recorded in the audit log.
+ * @returns A promise that resolves to the entry_ids that were actually deleted.
+ * @throws {Error} If the operation fails or no dataset is specified.
+ */
+export async function deleteDataByIds(datasetName: string, ids: (number | string)[], context: MutationContext): Promise<string[]> {
+    const currentDataset = requireDatasetName(datasetName, 'deleteDataByIds');
+    const stringIds = Array.from(new Set(ids.map(String)));
+    console.log(`[deleteDataByIds Service - Dataset: ${currentDataset}] Called for ${stringIds.length} IDs.`);
+    if (stringIds.length === 0) {
+        return [];
+    }
+
+    const client = await getPool().connect();
+    try {
+        await client.query('BEGIN');
+        await recordEntryDeletes(client, currentDataset, stringIds, context);
+        const result = await client.query<{ entry_id: string }>(
+            'DELETE FROM data_entries WHERE dataset_name = $1 AND entry_id = ANY($2::text[]) RETURNING entry_id',
+            [currentDataset, stringIds]
+        );
+        const deletedIds = result.rows.map(row => row.entry_id);
+        if (deletedIds.length > 0) {
+            await touchDataset(client, currentDataset);
+        }
+        await client.query('COMMIT');
+        console.log(`[deleteDataByIds Service - Dataset: ${currentDataset}] Deleted ${deletedIds.length} of ${stringIds.length} requested entries.`);
+        return deletedIds;
+    } catch (error) {
+        await client.query('ROLLBACK');
+        console.error(`[deleteDataByIds Service - Dataset: ${currentDataset}] Error deleting entries:`, error);
+        throw new Error(`Failed to delete data entries from database: ${(error as Error).message}`);
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * Deletes a dataset together with all of its entries and relationships.
+ *
+ * @param name The name of the dataset to delete.
+ * @param context Who is deleting the dataset and how; recorded in the audit log.
+ * @returns A promise resolving to true if the dataset was deleted, false if it did not exist.
+ * @throws {Error} If the database operation fails.
+ */
+export async function deleteDataset(name: string, context: MutationContext): Promise<boolean> {
+    const trimmedName = name.trim();
+    console.log(`[deleteDataset Service] Called for name: ${trimmedName}`);
+
+    const client = await getPool().connect();
+    try {
+        await client.query('BEGIN');
+        const existing: QueryResult<DatasetInfo> = await client.query(
+            `SELECT ${DATASET_INFO_COLUMNS} FROM datasets d WHERE d.name = $1 FOR UPDATE`,
+            [trimmedName]
+        );
+        if (existing.rowCount === 0) {
+            await client.query('ROLLBACK');
+            console.warn(`[deleteDataset Service] Dataset '${trimmedName}' not found.`);
+            return false;
+        }
+
+        // Entries and relationships are removed by the ON DELETE CASCADE foreign keys;
+        // the audit log keeps one event for the dataset rather than one per entry
+        const { entry_count, relationship_count } = existing.rows[0];
+        await recordAudit(client, {
+            action: 'dataset.delete',
+            datasetName: trimmedName,
+            before: datasetPayload(existing.rows[0]),
+            details: { entries: entry_count, relationships: relationship_count },
+        }, context);
+        await client.query('DELETE FROM datasets WHERE name = $1', [trimmedName]);
+        await client.query('COMMIT');
+
+        console.log(`[deleteDataset Service] Dataset '${trimmedName}' deleted.`);
+        return true;
+    } catch (error) {
+        await client.query('ROLLBACK');
+        console.error(`[deleteDataset Service] Error deleting dataset '${trimmedName}':`, error);
+        throw new Error(`Failed to delete dataset '${trimmedName}' from database: ${(error as Error).message}`);
+    } finally {
+        client.release();
+    }
+}
+
+// --- Dataset Lifecycle ---
+
+/**
+ * Fetches all datasets with their metadata and entry/relationship counts.
+ * @returns A promise resolving to an array of DatasetInfo objects ordered by name.
+ * @throws {Error} If the database operation fails.
+ */
+export async function getAllDatasets(): Promise<DatasetInfo[]> {
+    console.log('[getAllDatasets Service] Fetching all datasets with metadata...');
+    const client = await getPool().connect();
+    try {
+        const result: QueryResult<DatasetInfo> = await client.query(
+            `SELECT ${DATASET_INFO_COLUMNS} FROM datasets d ORDER BY d.name`
+        );
+        console.log(`[getAllDatasets Service] Returning ${result.rowCount} datasets.`);
+        return result.rows;
+    } catch (error) {
+        console.error('[getAllDatasets Service] Error fetching datasets:', error);
+        throw new Error(`Failed to fetch datasets from database: ${(error as Error).message}`);
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * Fetches a single dataset with its metadata and entry/relationship counts.
+ * @param name The dataset name.
+ * @returns A promise resolving to the DatasetInfo or null if the dataset does not exist.
+ * @throws {Error} If the database operation fails.
+ */
+export async function getDatasetInfo(name: string): Promise<DatasetInfo | null> {
+    console.log(`[getDatasetInfo Service] Called for dataset: ${name}`);
+    const client = await getPool().connect();
+    try {
+        const result: QueryResult<DatasetInfo> = await client.query(
+            `SELECT ${DATASET_INFO_COLUMNS} FROM datasets d WHERE d.name = $1`,
+            [name]
+        );
+        if (result.rowCount === 0) {
+            console.warn(`[getDatasetInfo Service] Dataset '${name}' not found.`);
+            return null;
+        }
+        return result.rows[0];
+    } catch (error) {
+        console.error(`[getDatasetInfo Service] Error fetching dataset '${name}':`, error);
+        throw new Error(`Failed to fetch dataset '${name}' from database: ${(error as Error).message}`);
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * Updates the description, owner and/or tags of a dataset. Fields left undefined are not changed.
+ * @param name The dataset name.
+ * @param changes The metadata fields to update.
+ * @param context Who is changing the metadata and how; recorded in the audit log.
+ * @returns A promise resolving to the updated DatasetInfo or null if the dataset does not exist.
+ * @throws {Error} If the database operation fails.
+ */
+export async function updateDatasetMetadata(name: string, changes: Partial<DatasetMetadata>, context: MutationContext): Promise<DatasetInfo | null> {
+    console.log(`[updateDatasetMetadata Service] Called for dataset: ${name}`, changes);
+    const assignments: string[] = [];
+    const values: any[] = [name];
+    if (changes.description !== undefined) {
+        values.push(changes.description?.trim() || null);
+        assignments.push(`description = $${values.length}`);
+    }
+    if (changes.owner !== undefined) {
+        values.push(changes.owner?.trim() || null);
+        assignments.push(`owner = $${values.length}`);
+    }
+    if (changes.tags !== undefined) {
+        // Store tags trimmed and de-duplicated, dropping empty ones
+        values.push(Array.from(new Set(changes.tags.map(tag => tag.trim()).filter(Boolean))));
+        assignments.push(`tags = $${values.length}`);
+    }
+
+    const client = await getPool().connect();
+    try {
+        await client.query('BEGIN');
+        const before: QueryResult<DatasetMetadata> = await client.query(
+            'SELECT description, owner, tags FROM datasets WHERE name = $1 FOR UPDATE',
+            [name]
+        );
+        if (before.rowCount === 0) {
+            await client.query('ROLLBACK');
+            console.warn(`[updateDatasetMetadata Service] Dataset '${name}' not found.`);
+            return null;
+        }
+        if (assignments.length > 0) {
+            await client.query(
+                `UPDATE datasets SET ${assignments.join(', ')}, updated_at = NOW() WHERE name = $1`,
+                values
+            );
+        }
+        const info: QueryResult<DatasetInfo> = await client.query(
+            `SELECT ${DATASET_INFO_COLUMNS} FROM datasets d WHERE d.name = $1`,
+            [name]
+        );
+        if (assignments.length > 0) {
+            await recordAudit(client, {
+                action: 'dataset.update',
+                datasetName: name,
+                before: datasetPayload(before.rows[0]),
+                after: datasetPayload(info.rows[0]),
+            }, context);
+        }
+        await client.query('COMMIT');
+        console.log(`[updateDatasetMetadata Service] Metadata of dataset '${name}' updated.`);
+        return info.rows[0] ?? null;
+    } catch (error) {
+        await client.query('ROLLBACK');
+        console.error(`[updateDatasetMetadata Service] Error updating dataset '${name}':`, error);
+        throw new Error(`Failed to update dataset '${name}' in database: ${(error as Error).message}`);
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * Renames a dataset. Entries and relationships follow through the ON UPDATE CASCADE foreign keys.
+ * @param name The current dataset name.
+ * @param newName The new dataset name.
+ * @param context Who is renaming the dataset and how; recorded in the audit log.
+ * @returns A promise resolving to 'done', 'not-found' if the dataset does not exist, or 'name-taken' if a dataset named newName exists.
+ * @throws {Error} If the database operation fails.
+ */
+export async function renameDataset(name: string, newName: string, context: MutationContext): Promise<DatasetRenameResult> {
+    const trimmedNewName = newName.trim();
+    console.log(`[renameDataset Service] Renaming dataset '${name}' to '${trimmedNewName}'`);
+    if (!trimmedNewName) {
+        throw new Error('New dataset name cannot be empty.');
+    }
+
+    const client = await getPool().connect();
+    try {
+        await client.query('BEGIN');
+        const conflict = await client.query('SELECT 1 FROM datasets WHERE name = $1', [trimmedNewName]);
+        if ((conflict.rowCount ?? 0) > 0) {
+            await client.query('ROLLBACK');
+            console.warn(`[renameDataset Service] A dataset named '${trimmedNewName}' already exists.`);
+            return 'name-taken';
+        }
+
+        const result = await client.query(
+            'UPDATE datasets SET name = $2, updated_at = NOW() WHERE name = $1',
+            [name, trimmedNewName]
+        );
+        if (result.rowCount === 0) {
+            await client.query('ROLLBACK');
+            console.warn(`[renameDataset Service] Dataset '${name}' not found.`);
+            return 'not-found';
+        }
+
+        // Recorded under the old name, which earlier events of the dataset carry
+        await recordAudit(client, { action: 'dataset.rename', datasetName: name, details: { newName: trimmedNewName } }, context);
+        await client.query('COMMIT');
+        console.log(`[renameDataset Service] Dataset '${name}' renamed to '${trimmedNewName}'.`);
+        return 'done';
+    } catch (error) {
+        await client.query('ROLLBACK');
+        if (isUniqueViolation(error)) {
+            // A dataset with the new name was created concurrently after the check above
+            return 'name-taken';
+        }
+        console.error(`[renameDataset Service] Error renaming dataset '${name}':`, error);
+        throw new Error(`Failed to rename dataset '${name}': ${(error as Error).message}`);
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * Deep-clones a dataset: metadata, all entries (keeping their IDs) and all relationships are copied under a new name.
+ * @param sourceName The dataset to copy.
+ * @param targetName The name of the new dataset.
+ * @param context Who is cloning the dataset and how; recorded in the audit log.
+ * @returns A promise resolving to 'done', 'not-found' if the source dataset does not exist, or 'name-taken' if a dataset named targetName exists.
+ * @throws {Error} If the database operation fails.
+ */
+export async function cloneDataset(sourceName: string, targetName: string, context: MutationContext): Promise<DatasetRenameResult> {
+    const trimmedTargetName = targetName.trim();
+    console.log(`[cloneDataset Service] Cloning dataset '${sourceName}' into '${trimmedTargetName}'`);
+    if (!trimmedTargetName) {
+        throw new Error('Target dataset name cannot be empty.');
+    }
+
+    const client = await getPool().connect();
+    try {
+        await client.query('BEGIN');
+        const conflict = await client.query('SELECT 1 FROM datasets WHERE name = $1', [trimmedTargetName]);
+        if ((conflict.rowCount ?? 0) > 0) {
+            await client.query('ROLLBACK');
+            console.warn(`[cloneDataset Service] A dataset named '${trimmedTargetName}' already exists.`);
+            return 'name-taken';
+        }
+
+        const datasetResult: QueryResult<DatasetMetadata> = await client.query(
+            `INSERT INTO datasets (name, description, owner, tags, cleaning_rules, documented_schema)
+             SELECT $2, description, owner, tags, cleaning_rules, documented_schema FROM datasets WHERE name = $1
+             RETURNING description, owner, tags`,
+            [sourceName, trimmedTargetName]
+        );
+        if (datasetResult.rowCount === 0) {
+            await client.query('ROLLBACK');
+            console.warn(`[cloneDataset Service] Source dataset '${sourceName}' not found.`);
+            return 'not-found';
+        }
+
+        const entriesResult = await client.query(
+            `INSERT INTO data_entries (dataset_name, entry_id, data)
+             SELECT $2, entry_id, data FROM data_entries WHERE dataset_name = $1 ORDER BY internal_id`,
+            [sourceName, trimmedTargetName]
+        );
+        const relationshipsResult = await client.query(
+            `INSERT INTO relationships (dataset_name, source_entry_id, target_entry_id, type, properties, weight)
+             SELECT $2, source_entry_id, target_entry_id, type, properties, weight FROM relationships WHERE dataset_name = $1 ORDER BY id`,
+            [sourceName, trimmedTargetName]
+        );
+
+        await recordAudit(client, {
+            action: 'dataset.clone',
+            datasetName: trimmedTargetName,
+            after: datasetPayload(datasetResult.rows[0]),
+            details: { source: sourceName, entries: entriesResult.rowCount, relationships: relationshipsResult.rowCount },
+        }, context);
+        await client.query('COMMIT');
+        console.log(`[cloneDataset Service] Cloned '${sourceName}' into '${trimmedTargetName}': ${entriesResult.rowCount} entries, ${relationshipsResult.rowCount} relationships.`);
+        return 'done';
+    } catch (error) {
+        await client.query('ROLLBACK');
+        if (isUniqueViolation(error)) {
+            // A dataset with the new name was created concurrently after the check above
+            return 'name-taken';
+        }
+        console.error(`[cloneDataset Service] Error cloning dataset '${sourceName}':`, error);
+        throw new Error(`Failed to clone dataset '${sourceName}': ${(error as Error).message}`);
+    } finally {
+        client.release();
+    }
+}
+
+// --- Backup and Restore ---
+
+const ARCHIVE_PAGE_SIZE = 1000; // Rows read per query while writing an archive
+
+function toIsoTimestamp(value: Date | string | null): string | null {
+    if (value === null) return null;
+    return value instanceof Date ? value.toISOString() : new Date(value).toISOString();
+}
+
+/**
+ * Reads a whole dataset as backup archive records: the dataset line (metadata and counts), every entry
+ * and then every relationship, in creation order. Rows are read page by page from one consistent
+ * snapshot, so the archive matches the dataset at the moment the backup started.
+ * Stopping the iteration early ends the snapshot and releases the connection.
+ *
+ * @param name The dataset to back up.
+ * @returns An async generator of archive records; it yields nothing if the dataset does not exist.
+ * @throws {Error} If the database operation fails.
+ */
+export async function* streamDatasetArchive(name: string): AsyncGenerator<ArchiveRecord> {
+    const currentDataset = requireDatasetName(name, 'streamDatasetArchive');
+    console.log(`[streamDatasetArchive Service - Dataset: ${currentDataset}] Called.`);
+
+    const client = await getPool().connect();
+    let inTransaction = false;
+    try {
+        await client.query('BEGIN ISOLATION LEVEL REPEATABLE READ READ ONLY');
+        inTransaction = true;
+        const info: QueryResult<DatasetInfo & { documented_schema: DatasetSchema | null }> = await client.query(
+            `SELECT ${DATASET_INFO_COLUMNS}, d.documented_schema FROM datasets d WHERE d.name = $1`,
+            [currentDataset]
+        );
+        if (info.rowCount === 0) {
+            console.warn(`[streamDatasetArchive Service - Dataset: ${currentDataset}] Dataset not found.`);
+            return;
+        }
+        const dataset = info.rows[0];
+        yield {
+            kind: 'dataset',
+            format: ARCHIVE_FORMAT,
+            version: ARCHIVE_VERSION,
+            exported_at: new Date().toISOString(),
+            dataset: {
+                name: dataset.name,
+                description: dataset.description,
+                owner: dataset.owner,
+                tags: dataset.tags,
+                created_at: toIsoTimestamp(dataset.created_at),
+                schema: dataset.documented_schema,
+            },
+            entry_count: dataset.entry_count,
+            relationship_count: dataset.relationship_count,
+        };
+
+        let lastInternalId = 0;
+        while (true) {
+            const page = await client.query(
+                `SELECT internal_id, entry_id, data, created_at FROM data_entries
+                 WHERE dataset_name = $1 AND internal_id > $2 ORDER BY internal_id LIMIT $3`,
+                [currentDataset, lastInternalId, ARCHIVE_PAGE_SIZE]
+            );
+            for (const row of page.rows) {
+                yield { kind: 'entry', id: row.entry_id, data: row.data, created_at: toIsoTimestamp(row.created_at) };
+            }
+            if (page.rows.length < ARCHIVE_PAGE_SIZE) break;
+            lastInternalId = page.rows[page.rows.length - 1].internal_id;
+        }
+
+        let lastRelationshipId = 0;
+        while (true) {
+            const page: QueryResult<RelationshipEntry> = await client.query(
+                `SELECT ${RELATIONSHIP_COLUMNS} FROM relationships
+                 WHERE dataset_name = $1 AND id > $2 ORDER BY id LIMIT $3`,
+                [currentDataset, lastRelationshipId, ARCHIVE_PAGE_SIZE]
+            );
+            for (const row of page.rows) {
+                yield {
+                    kind: 'relationship',
+                    source_entry_id: row.source_entry_id,
+                    target_entry_id: row.target_entry_id,
+                    type: row.type,
+                    properties: row.properties,
+                    weight: row.weight,
+                    created_at: toIsoTimestamp(row.created_at),
+                };
+            }
+            if (page.rows.length < ARCHIVE_PAGE_SIZE) break;
+            lastRelationshipId = page.rows[page.rows.length - 1].id;
+        }
+
+        await client.query('COMMIT');
+        inTransaction = false;
+        console.log(`[streamDatasetArchive Service - Dataset: ${currentDataset}] Archived ${dataset.entry_count} entries and ${dataset.relationship_count} relationships.`);
+    } catch (error) {
+        console.error(`[streamDatasetArchive Service - Dataset: ${currentDataset}] Error reading dataset:`, error);
+        throw new Error(`Failed to back up dataset '${currentDataset}': ${(error as Error).message}`);
+    } finally {
+        if (inTransaction) await client.query('ROLLBACK').catch(() => undefined); // Also reached when the reader stops early
+        client.release();
+    }
+}
+
+/**
+ * Writes one batch of archived entries with a single multi-row INSERT, keeping their creation time.
+ * With overwrite, existing entries get the archived content; otherwise rows whose ID exists are left alone.
+ * @returns The number of rows written.
+ */
+async function insertArchiveEntryBatch(client: PoolClient, datasetName: string, entries: ArchiveEntry[], overwrite: boolean): Promise<number> {
+    const values: string[] = [];
+    const params: unknown[] = [datasetName];
+    for (const entry of entries) {
+        params.push(entry.id, JSON.stringify(entry.data), entry.created_at);
+        values.push(`($1, $${params.length - 2}, $${params.length - 1}::jsonb, COALESCE($${params.length}::timestamptz, NOW()))`);
+    }
+    const result = await client.query(
+        `INSERT INTO data_entries (dataset_name, entry_id, data, created_at)
+         VALUES ${values.join(', ')}
+         ON CONFLICT (dataset_name, entry_id)
+         ${overwrite ? 'DO UPDATE SET data = EXCLUDED.data' : 'DO NOTHING'}`,
+        params
+    );
+    return result.rowCount ?? 0;
+}
+
+/**
+ * Writes one batch of archived relationships. A relationship that already exists (same source, target
+ * and type) is updated with overwrite and left alone otherwise.
+ * @returns The number of rows written.
+ */
+async function insertArchiveRelationshipBatch(client: PoolClient, datasetName: string, relationships: ArchiveRelationship[], overwrite: boolean): Promise<number> {
+    const values: string[] = [];
+    const params: unknown[] = [datasetName];
+    for (const relationship of relationships) {
+        params.push(
+            relationship.source_entry_id,
+            relationship.target_entry_id,
+            relationship.type,
+            relationship.properties === null ? null : JSON.stringify(relationship.properties),
+            relationship.weight,
+            relationship.created_at
+        );
+        const n = params.length;
+        values.push(`($1, $${n - 5}, $${n - 4}, $${n - 3}, $${n - 2}::jsonb, $${n - 1}::double precision, COALESCE($${n}::timestamptz, NOW()))`);
+    }
+    const result = await client.query(
+        `INSERT INTO relationships (dataset_name, source_entry_id, target_entry_id, type, properties, weight, created_at)
+         VALUES ${values.join(', ')}
+         ON CONFLICT ON CONSTRAINT relationships_unique_typed_link
+         ${overwrite ? 'DO UPDATE SET properties = EXCLUDED.properties, weight = EXCLUDED.weight' : 'DO NOTHING'}`,
+        params
+    );
+    return result.rowCount ?? 0;
+}
+
+/**
+ * Restores a backup archive into a dataset, in one transaction. A missing dataset is created with the
+ * archived metadata; into an existing dataset the archive is merged, and `collision` decides what happens
+ * to archived entries whose ID already exists there. Archived relationships are always restored, between
+ * the entries they linked: with 'skip' that is the existing entry, with 'remap' the entry's new ID.
+ *
+ * @param datasetName The dataset to restore into; need not be the name the archive was taken from.
+ * @param records The validated archive records, typically read from a request body (see readArchive).
+ * @param collision How to treat entry IDs that already exist in the dataset.
+ * @param context Who is restoring; recorded in the audit log and with the versions of entries that are overwritten.
+ * @returns A promise resolving to a summary of what was written.
+ * @throws {Error} If reading the archive or writing it fails; nothing is restored in that case.
+ */
+export async function restoreDatasetArchive(datasetName: string, records: AsyncIterable<ArchiveRecord>, collision: RestoreCollisionMode, context: MutationContext): Promise<RestoreSummary> {
+    const currentDataset = requireDatasetName(datasetName, 'restoreDatasetArchive');
+    console.log(`[restoreDatasetArchive Service - Dataset: ${currentDataset}] Called. Collision mode: ${collision}`);
+
+    const summary: RestoreSummary = {
+        datasetName: currentDataset,
+        createdDataset: false,
+        entriesRestored: 0,
+        entriesOverwritten: 0,
+        entriesSkipped: 0,
+        entriesRemapped: 0,
+        relationshipsRestored: 0,
+        relationshipsSkipped: 0,
+    };
+    const remappedIds = new Map<string, string>(); // Archived ID -> ID the entry was restored under
+    const overwrite = collision === 'overwrite';
+
+    const client = await getPool().connect();
+    try {
+        await client.query('BEGIN');
+
+        let entryBatch: ArchiveEntry[] = [];
+        const flushEntries = async () => {
+            if (entryBatch.length === 0) return;
+            const existing = await client.query(
+                'SELECT entry_id FROM data_entries WHERE dataset_name = $1 AND entry_id = ANY($2)',
+                [currentDataset, entryBatch.map(entry => entry.id)]
+            );
+            const existingIds = new Set<string>(existing.rows.map(row => row.entry_id));
+            let batch = entryBatch;
+            if (existingIds.size > 0) {
+                if (collision === 'skip') {
+                    batch = entryBatch.filter(entry => !existingIds.has(entry.id));
+                    summary.entriesSkipped += existingIds.size;
+                } else if (collision === 'remap') {
+                    batch = entryBatch.map(entry => {
+                        if (!existingIds.has(entry.id)) return entry;
+                        const newId = uuidv4();
+                        remappedIds.set(entry.id, newId);
+                        return { ...entry, id: newId };
+                    });
+                    summary.entriesRemapped += existingIds.size;
+                } else {
+                    summary.entriesOverwritten += existingIds.size;
+                }
+            }
+            if (batch.length > 0) {
+                await recordEntryWrites(client, currentDataset, new Map(batch.map(entry => [entry.id, JSON.stringify(entry.data)])), context);
+                await insertArchiveEntryBatch(client, currentDataset, batch, overwrite);
+            }
+            summary.entriesRestored += entryBatch.length - existingIds.size;
+            entryBatch = [];
+        };
+
+        let relationshipBatch: ArchiveRelationship[] = [];
+        const flushRelationships = async () => {
+            if (relationshipBatch.length === 0) return;
+            const written = await insertArchiveRelationshipBatch(client, currentDataset, relationshipBatch, overwrite);
+            summary.relationshipsRestored += written;
+            summary.relationshipsSkipped += relationshipBatch.length - written;
+            relationshipBatch = [];
+        };
+
+        for await (const record of records) {
+            if (record.kind === 'dataset') {
+                const { description, owner, tags, created_at, schema } = record.dataset;
+                const documentedSchema = schema ? JSON.stringify(schema) : null;
+                const created = await client.query(
+                    `INSERT INTO datasets (name, description, owner, tags, created_at, documented_schema)
+                     VALUES ($1, $2, $3, $4, COALESCE($5::timestamptz, NOW()), $6)
+                     ON CONFLICT (name) DO NOTHING`,
+                    [currentDataset, description, owner, tags, created_at, documentedSchema]
+                );
+                summary.createdDataset = (created.rowCount ?? 0) > 0;
+                if (!summary.createdDataset && overwrite) {
+                    // An archive without a schema keeps the one the dataset has
+                    await client.query(
+                        'UPDATE datasets SET description = $2, owner = $3, tags = $4, documented_schema = COALESCE($5, documented_schema) WHERE name = $1',
+                        [currentDataset, description, owner, tags, documentedSchema]
+                    );
+                }
+                console.log(`[restoreDatasetArchive Service - Dataset: ${currentDataset}] Restoring '${record.dataset.name}' (${record.entry_count} entries, ${record.relationship_count} relationships) into ${summary.createdDataset ? 'a new' : 'the existing'} dataset.`);
+            } else if (record.kind === 'entry') {
+                entryBatch.push(record);
+                if (entryBatch.length >= IMPORT_BATCH_SIZE) await flushEntries();
+            } else {
+                await flushEntries(); // Relationships follow the entries; their endpoints must be written first
+                relationshipBatch.push({
+                    ...record,
+                    source_entry_id: remappedIds.get(record.source_entry_id) ?? record.source_entry_id,
+                    target_entry_id: remappedIds.get(record.target_entry_id) ?? record.target_entry_id,
+                });
+                if (relationshipBatch.length >= IMPORT_BATCH_SIZE) await flushRelationships();
+            }
+        }
+        await flushEntries();
+        await flushRelationships();
+
+        await recordAudit(client, { action: 'dataset.restore', datasetName: currentDataset, details: { ...summary, collision } }, context);
+        await touchDataset(client, currentDataset);
+        await client.query('COMMIT');
+        console.log(`[restoreDatasetArchive Service - Dataset: ${currentDataset}] Restore complete:`, summary);
+        return summary;
+    } catch (error) {
+        await client.query('ROLLBACK');
+        console.error(`[restoreDatasetArchive Service - Dataset: ${currentDataset}] Error restoring archive:`, error);
+        const message = (error as Error).message;
+        // Problems with the uploaded archive are reported as they are
+        if (message.startsWith(INVALID_UPLOAD_PREFIX)) throw error;
+        throw new Error(`Failed to restore dataset '${currentDataset}': ${message}`);
+    } finally {
+        client.release();
+    }
+}
+
+// --- Dataset Schema ---
+
+/**
+ * Fetches the documented schema of a dataset.
+ *
+ * @param datasetName The name of the dataset to operate on.
+ * @returns A promise that resolves to `{ schema }` (null if none has been documented yet), or null if the dataset does not exist.
+ * @throws {Error} If the operation fails or no dataset is specified.
+ */
+export async function getDatasetSchema(datasetName: string): Promise<{ schema: DatasetSchema | null } | null> {
+    const currentDataset = requireDatasetName(datasetName, 'getDatasetSchema');
+
+    const client = await getPool().connect();
+    try {
+        const result: QueryResult<{ documented_schema: DatasetSchema | null }> = await client.query(
+            'SELECT documented_schema FROM datasets WHERE name = $1',
+            [currentDataset]
+        );
+        if (result.rowCount === 0) {
+            console.warn(`[getDatasetSchema Service - Dataset: ${currentDataset}] Dataset not found.`);
+            return null;
+        }
+        return { schema: result.rows[0].documented_schema };
+    } catch (error) {
+        console.error(`[getDatasetSchema Service - Dataset: ${currentDataset}] Error fetching schema:`, error);
+        throw new Error(`Failed to fetch dataset schema from database: ${(error as Error).message}`);
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * Replaces the documented schema of a dataset. The schema is stored as given; validate it with datasetSchemaError first.
+ *
+ * @param datasetName The name of the dataset to operate on.
+ * @param schema The new schema, or null to remove it.
+ * @param context Who is documenting the schema; recorded in the audit log.
+ * @param details Extra details for the audit event, e.g. the model that inferred the schema.
+ * @returns A promise that resolves to true if the dataset exists and was updated.
+ * @throws {Error} If the operation fails or no dataset is specified.
+ */
+export async function setDatasetSchema(
+    datasetName: string,
+    schema: DatasetSchema | null,
+    context: MutationContext,
+    details: Record<string, unknown> = {}
+): Promise<boolean> {
+    const currentDataset = requireDatasetName(datasetName, 'setDatasetSchema');
+    console.log(`[setDatasetSchema Service - Dataset: ${currentDataset}] Called with ${schema ? `${schema.fields.length} fields` : 'no schema'}.`);
+
+    const client = await getPool().connect();
+    try {
+        await client.query('BEGIN');
+        const before: QueryResult<{ documented_schema: DatasetSchema | null }> = await client.query(
+            'SELECT documented_schema FROM datasets WHERE name = $1 FOR UPDATE',
+            [currentDataset]
+        );
+        if (before.rowCount === 0) {
+            await client.query('ROLLBACK');
+            console.warn(`[setDatasetSchema Service - Dataset: ${currentDataset}] Dataset not found.`);
+            return false;
+        }
+        await client.query(
+            'UPDATE datasets SET documented_schema = $2, updated_at = NOW() WHERE name = $1',
+            [currentDataset, schema ? JSON.stringify(schema) : null]
+        );
+        await recordAudit(client, {
+            action: 'dataset.update',
+            datasetName: currentDataset,
+            before: { schema: before.rows[0].documented_schema },
+            after: { schema },
+            details: { schemaFields: schema?.fields.length ?? 0, ...details },
+        }, context);
+        await client.query('COMMIT');
+        console.log(`[setDatasetSchema Service - Dataset: ${currentDataset}] Schema saved.`);
+        return true;
+    } catch (error) {
+        await client.query('ROLLBACK');
+        console.error(`[setDatasetSchema Service - Dataset: ${currentDataset}] Error saving schema:`, error);
+        throw new Error(`Failed to save dataset schema in database: ${(error as Error).message}`);
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * Picks entries of a dataset at random, e.g. to infer its schema from them.
+ *
+ * @param datasetName The name of the dataset to operate on.
+ * @param size The largest number of entries to return.
+ * @returns A promise that resolves to up to `size` entries (all entries for smaller datasets), or null if the dataset does not exist.
+ * @throws {Error} If the operation fails or no dataset is specified.
+ */
+export async function sampleEntries(datasetName: string, size: number): Promise<DataEntry[] | null> {
+    const currentDataset = requireDatasetName(datasetName, 'sampleEntries');
+    console.log(`[sampleEntries Service - Dataset: ${currentDataset}] Called with size: ${size}`);
+
+    const client = await getPool().connect();
+    try {
+        const exists = await client.query('SELECT 1 FROM datasets WHERE name = $1', [currentDataset]);
+        if (exists.rowCount === 0) {
+            console.warn(`[sampleEntries Service - Dataset: ${currentDataset}] Dataset not found.`);
+            return null;
+        }
+        const result = await client.query(
+            'SELECT entry_id, data FROM data_entries WHERE dataset_name = $1 ORDER BY random() LIMIT $2',
+            [currentDataset, size]
+        );
+        return result.rows.map(row => ({ id: row.entry_id, ...row.data }));
+    } catch (error) {
+        console.error(`[sampleEntries Service - Dataset: ${currentDataset}] Error sampling entries:`, error);
+        throw new Error(`Failed to sample entries from database: ${(error as Error).message}`);
+    } finally {
+        client.release();
+    }
+}
+
+// --- Cleaning Rules ---
+
+const RULE_CLEANING_SAMPLE_SIZE = 20;
+
+/**
+ * Fetches the cleaning rule set of a dataset.
+ *
+ * @param datasetName The name of the dataset to operate on.
+ * @returns A promise that resolves to the rules in the order they run, or null if the dataset does not exist.
+ * @throws {Error} If the operation fails or no dataset is specified.
+ */
+export async function getCleaningRules(datasetName: string): Promise<CleaningRule[] | null> {
+    const currentDataset = requireDatasetName(datasetName, 'getCleaningRules');
+
+    const client = await getPool().connect();
+    try {
+        const result: QueryResult<{ cleaning_rules: CleaningRule[] }> = await client.query(
+            'SELECT cleaning_rules FROM datasets WHERE name = $1',
+            [currentDataset]
+        );
+        if (result.rowCount === 0) {
+            console.warn(`[getCleaningRules Service - Dataset: ${currentDataset}] Dataset not found.`);
+            return null;
+        }
+        return result.rows[0].cleaning_rules;
+    } catch (error) {
+        console.error(`[getCleaningRules Service - Dataset: ${currentDataset}] Error fetching cleaning rules:`, error);
+        throw new Error(`Failed to fetch cleaning rules from database: ${(error as Error).message}`);
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * Replaces the cleaning rule set of a dataset. Rules are stored as given; validate them with cleaningRulesError first.
+ *
+ * @param datasetName The name of the dataset to operate on.
+ * @param rules The new rules, in the order they run.
+ * @param context Who is changing the rules; recorded in the audit log.
+ * @returns A promise that resolves to true if the dataset exists and was updated.
+ * @throws {Error} If the operation fails or no dataset is specified.
+ */
+export async function setCleaningRules(datasetName: string, rules: CleaningRule[], context: MutationContext): Promise<boolean> {
+    const currentDataset = requireDatasetName(datasetName, 'setCleaningRules');
+    console.log(`[setCleaningRules Service - Dataset: ${currentDataset}] Called with ${rules.length} rules.`);
+
+    const client = await getPool().connect();
+    try {
+        await client.query('BEGIN');
+        const before: QueryResult<{ cleaning_rules: CleaningRule[] }> = await client.query(
+            'SELECT cleaning_rules FROM datasets WHERE name = $1 FOR UPDATE',
+            [currentDataset]
+        );
+        if (before.rowCount === 0) {
+            await client.query('ROLLBACK');
+            console.warn(`[setCleaningRules Service - Dataset: ${currentDataset}] Dataset not found.`);
+            return false;
+        }
+        await client.query(
+            'UPDATE datasets SET cleaning_rules = $2, updated_at = NOW() WHERE name = $1',
+            [currentDataset, JSON.stringify(rules)]
+        );
+        await recordAudit(client, {
+            action: 'dataset.update',
+            datasetName: currentDataset,
+            before: { cleaning_rules: before.rows[0].cleaning_rules },
+            after: { cleaning_rules: rules },
+            details: { cleaningRules: rules.length },
+        }, context);
+        await client.query('COMMIT');
+        console.log(`[setCleaningRules Service - Dataset: ${currentDataset}] Cleaning rules saved.`);
+        return true;
+    } catch (error) {
+        await client.query('ROLLBACK');
+        console.error(`[setCleaningRules Service - Dataset: ${currentDataset}] Error saving cleaning rules:`, error);
+        throw new Error(`Failed to save cleaning rules in database: ${(error as Error).message}`);
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * Runs cleaning rules over all entries of a dataset, or those matching a listing's filters. With `apply`, the entries
+ * the rules change are written in one transaction (recorded as rule cleanings in the entry history and audit log);
+ * without it, nothing is written and the result only tells what would change.
+ *
+ * @param datasetName The name of the dataset to operate on.
+ * @param rules The rules to run; pass the stored rule set to apply it, or edited rules to try them out.
+ * @param query Filters and relationship filter selecting the entries (sort, limit and cursor are ignored), or null for all entries.
+ * @param apply Whether to write the changes.
+ * @param context Who is cleaning; recorded when changes are written.
+ * @returns A promise that resolves to the number of entries examined and changed, with samples of the changes.
+ * @throws {Error} If the operation fails or no dataset is specified.
+ */
+export async function runCleaningRules(
+    datasetName: string,
+    rules: CleaningRule[],
+    query: EntryQuery | null,
+    apply: boolean,
+    context: MutationContext
+): Promise<RuleCleaningSummary> {
+    const currentDataset = requireDatasetName(datasetName, 'runCleaningRules');
+    const selection: EntryQuery = { filters: query?.filters ?? [], relatedToSourceId: query?.relatedToSourceId ?? null };
+    console.log(`[runCleaningRules Service - Dataset: ${currentDataset}] Called with ${rules.length} rules, filters: ${selection.filters?.length ?? 0}, apply: ${apply}`);
+    const summary: RuleCleaningSummary = { examined: 0, changed: 0, samples: [] };
+
+    const client = await getPool().connect();
+    try {
+        await client.query('BEGIN');
+        let cursor: string | null = null;
+        do {
+            const page = await fetchEntryPage(client, currentDataset, { ...selection, limit: MAX_ENTRY_PAGE_SIZE, cursor }, false);
+            const changes = new Map<string, string>();
+            for (const { id, ...data } of page.entries) {
+                summary.examined++;
+                const cleaned = applyCleaningRules(data, rules);
+                if (isDeepEqual(data, cleaned)) continue;
+                summary.changed++;
+                changes.set(id, JSON.stringify(cleaned));
+                if (summary.samples.length < RULE_CLEANING_SAMPLE_SIZE) {
+                    summary.samples.push({ id, before: data, after: cleaned });
+                }
+            }
+            if (apply && changes.size > 0) {
+                await recordEntryWrites(client, currentDataset, changes, context);
+                await client.query(
+                    `UPDATE data_entries e SET data = incoming.data
+                     FROM unnest($2::text[], $3::jsonb[]) AS incoming(entry_id, data)
+                     WHERE e.dataset_name = $1 AND e.entry_id = incoming.entry_id`,
+                    [currentDataset, Array.from(changes.keys()), Array.from(changes.values())]
+                );
+            }
+            cursor = page.nextCursor;
+        } while (cursor);
+
+        if (apply && summary.changed > 0) {
+            await touchDataset(client, currentDataset);
+            await client.query('COMMIT');
+        } else {
+            await client.query('ROLLBACK'); // Nothing written
+        }
+        console.log(`[runCleaningRules Service - Dataset: ${currentDataset}] ${summary.changed} of ${summary.examined} entries ${apply ? 'cleaned' : 'would change'}.`);
+        return summary;
+    } catch (error) {
+        await client.query('ROLLBACK');
+        console.error(`[runCleaningRules Service - Dataset: ${currentDataset}] Error running cleaning rules:`, error);
+        throw new Error(`Failed to run cleaning rules on dataset '${currentDataset}': ${(error as Error).message}`);
+    } finally {
+        client.release();
+    }
+}
+
+// --- Cleaning Jobs ---
+
+// Columns returned for every CleaningJob; 'active' is added by the job runner
+const CLEANING_JOB_COLUMNS = `
+    j.id, j.dataset_name, j.status, j.query, j.concurrency, j.model, j.actor, j.created_at, j.updated_at,
+    (SELECT COUNT(*)::int FROM cleaning_job_items i WHERE i.job_id = j.id) AS total,
+    (SELECT COALESCE(jsonb_object_agg(c.status, c.count), '{}'::jsonb)
+     FROM (SELECT i.status, COUNT(*)::int AS count FROM cleaning_job_items i WHERE i.job_id = j.id GROUP BY i.status) c) AS counts`;
+
+/**
+ * Creates a batch AI cleaning job for all entries of a dataset, or for the entries matching a listing's filters.
+ * The matching entries are fixed when the job is created; entries added later are not cleaned by it.
+ * The job is only recorded here; the job runner does the cleaning.
+ *
+ * @param datasetName The name of the dataset to operate on.
+ * @param query Filters and relationship filter selecting the entries (sort, limit and cursor are ignored), or null for all entries.
+ * @param concurrency How many entries the runner cleans at the same time.
+ * @param model The AI model the job runs on, for display.
+ * @param context Who is starting the job.
+ * @returns A promise that resolves to the new job, or null if no entries match.
+ * @throws {Error} If the operation fails or no dataset is specified.
+ */
+export async function createCleaningJob(datasetName: string, query: EntryQuery | null, concurrency: number, model: string, context: MutationContext): Promise<CleaningJob | null> {
+    const currentDataset = requireDatasetName(datasetName, 'createCleaningJob');
+    const selection: EntryQuery | null = query && (query.filters?.length || query.relatedToSourceId)
+        ? { filters: query.filters ?? [], relatedToSourceId: query.relatedToSourceId ?? null }
+        : null;
+    console.log(`[createCleaningJob Service - Dataset: ${currentDataset}] Called. filters: ${selection?.filters?.length ?? 0}${selection?.relatedToSourceId ? `, sourceId: ${selection.relatedToSourceId}` : ''}, concurrency: ${concurrency}`);
+
+    const entryIds: string[] = [];
+    for await (const entry of streamData(currentDataset, selection ?? {})) {
+        entryIds.push(entry.id);
+    }
+    if (entryIds.length === 0) {
+        console.warn(`[createCleaningJob Service - Dataset: ${currentDataset}] No entries match; no job created.`);
+        return null;
+    }
+
+    const client = await getPool().connect();
+    try {
+        await client.query('BEGIN');
+        const inserted: QueryResult<{ id: number }> = await client.query(
+            'INSERT INTO cleaning_jobs (dataset_name, query, concurrency, model, actor) VALUES ($1, $2, $3, $4, $5) RETURNING id',
+            [currentDataset, selection ? JSON.stringify(selection) : null, concurrency, model, context.actor]
+        );
+        const jobId = inserted.rows[0].id;
+        await client.query(
+            'INSERT INTO cleaning_job_items (job_id, entry_id) SELECT $1, unnest($2::text[]) ON CONFLICT DO NOTHING',
+            [jobId, entryIds]
+        );
+        const job: QueryResult<CleaningJob> = await client.query(`SELECT ${CLEANING_JOB_COLUMNS} FROM cleaning_jobs j WHERE j.id = $1`, [jobId]);
+        await client.query('COMMIT');
+        console.log(`[createCleaningJob Service - Dataset: ${currentDataset}] Created job ${jobId} for ${entryIds.length} entries.`);
+        return job.rows[0];
+    } catch (error) {
+        await client.query('ROLLBACK');
+        console.error(`[createCleaningJob Service - Dataset: ${currentDataset}] Error creating cleaning job:`, error);
+        throw new Error(`Failed to create cleaning job in database: ${(error as Error).message}`);
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * Lists the cleaning jobs of a dataset with their progress, newest first.
+ *
+ * @param datasetName The name of the dataset to operate on.
+ * @returns A promise that resolves to the dataset's jobs.
+ * @throws {Error} If the operation fails or no dataset is specified.
+ */
+export async function getCleaningJobs(datasetName: string): Promise<CleaningJob[]> {
+    const currentDataset = requireDatasetName(datasetName, 'getCleaningJobs');
+    console.log(`[getCleaningJobs Service - Dataset: ${currentDataset}] Called.`);
+
+    const client = await getPool().connect();
+    try {
+        const result: QueryResult<CleaningJob> = await client.query(
+            `SELECT ${CLEANING_JOB_COLUMNS} FROM cleaning_jobs j WHERE j.dataset_name = $1 ORDER BY j.id DESC`,
+            [currentDataset]
+        );
+        console.log(`[getCleaningJobs Service - Dataset: ${currentDataset}] Found ${result.rowCount} jobs.`);
+        return result.rows;
+    } catch (error) {
+        console.error(`[getCleaningJobs Service - Dataset: ${currentDataset}] Error fetching cleaning jobs:`, error);
+        throw new Error(`Failed to fetch cleaning jobs from database: ${(error as Error).message}`);
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * Fetches one cleaning job with its progress.
+ *
+ * @param datasetName The name of the dataset to operate on.
+ * @param jobId The ID of the job; it must belong to the dataset.
+ * @returns A promise that resolves to the job, or null if it does not exist.
+ * @throws {Error} If the operation fails or no dataset is specified.
+ */
+export async function getCleaningJob(datasetName: string, jobId: number): Promise<CleaningJob | null> {
+    const currentDataset = requireDatasetName(datasetName, 'getCleaningJob');
+
+    const client = await getPool().connect();
+    try {
+        const result: QueryResult<CleaningJob> = await client.query(
+            `SELECT ${CLEANING_JOB_COLUMNS} FROM cleaning_jobs j WHERE j.dataset_name = $1 AND j.id = $2`,
+            [currentDataset, jobId]
+        );
+        if (result.rowCount === 0) {
+            console.warn(`[getCleaningJob Service - Dataset: ${currentDataset}] Job ${jobId} not found.`);
+            return null;
+        }
+        return result.rows[0];
+    } catch (error) {
+        console.error(`[getCleaningJob Service - Dataset: ${currentDataset}] Error fetching cleaning job ${jobId}:`, error);
+        throw new Error(`Failed to fetch cleaning job ${jobId} from database: ${(error as Error).message}`);
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * Fetches one page of a cleaning job's entries, ordered by entry ID, optionally only those in one state
+ * (e.g. 'proposed' for the review queue).
+ *
+ * @param datasetName The name of the dataset to operate on.
+ * @param jobId The ID of the job; it must belong to the dataset.
+ * @param options Status filter, page size (default DEFAULT_CLEANING_ITEM_PAGE_SIZE, at most MAX_CLEANING_ITEM_PAGE_SIZE) and cursor.
+ * @returns A promise that resolves to the page (empty if the job does not exist).
+ * @throws {Error} If the operation fails or no dataset is specified.
+ */
+export async function getCleaningJobItems(
+    datasetName: string,
+    jobId: number,
+    options: { status?: CleaningItemStatus; limit?: number; cursor?: string | null } = {}
+): Promise<CleaningJobItemPage> {
+    const currentDataset = requireDatasetName(datasetName, 'getCleaningJobItems');
+    const limit = Math.min(Math.max(Math.trunc(options.limit ?? DEFAULT_CLEANING_ITEM_PAGE_SIZE) || DEFAULT_CLEANING_ITEM_PAGE_SIZE, 1), MAX_CLEANING_ITEM_PAGE_SIZE);
+    console.log(`[getCleaningJobItems Service - Dataset: ${currentDataset}] Called for job ${jobId}. status: ${options.status ?? 'any'}, limit: ${limit}${options.cursor ? ', with cursor' : ''}`);
+
+    const client = await getPool().connect();
+    try {
+        const result = await client.query(
+            `SELECT i.entry_id, i.status, i.original, i.proposed, i.error, i.attempts, i.updated_at
+             FROM cleaning_job_items i
+             JOIN cleaning_jobs j ON j.id = i.job_id
+             WHERE j.dataset_name = $1 AND i.job_id = $2
+               AND ($3::text IS NULL OR i.status = $3) AND ($4::text IS NULL OR i.entry_id > $4)
+             ORDER BY i.entry_id
+             LIMIT $5`,
+            [currentDataset, jobId, options.status ?? null, options.cursor || null, limit + 1]
+        );
+        const items = result.rows.slice(0, limit);
+        const nextCursor = result.rows.length > limit ? items[items.length - 1].entry_id : null;
+        return { items, nextCursor };
+    } catch (error) {
+        console.error(`[getCleaningJobItems Service - Dataset: ${currentDataset}] Error fetching items of job ${jobId}:`, error);
+        throw new Error(`Failed to fetch items of cleaning job ${jobId} from database: ${(error as Error).message}`);
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * Lists the entries of a job that have not been cleaned yet, for the job runner.
+ */
+export async function getPendingCleaningItemIds(jobId: number): Promise<string[]> {
+    const result: QueryResult<{ entry_id: string }> = await getPool().query(
+        `SELECT entry_id FROM cleaning_job_items WHERE job_id = $1 AND status = 'pending' ORDER BY entry_id`,
+        [jobId]
+    );
+    return result.rows.map(row => row.entry_id);
+}
+
+/**
+ * Fetches the current content of an entry of a job, looked up in the job's dataset (which follows renames),
+ * together with the dataset's cleaning rules, which run before the model sees the entry.
+ * Returns null if the entry was deleted meanwhile.
+ */
+export async function getCleaningItemEntry(jobId: number, entryId: string): Promise<{ entry: DataEntry; cleaningRules: CleaningRule[] } | null> {
+    const result: QueryResult<{ entry_id: string; data: any; cleaning_rules: CleaningRule[] }> = await getPool().query(
+        `SELECT e.entry_id, e.data, d.cleaning_rules
+         FROM cleaning_jobs j
+         JOIN datasets d ON d.name = j.dataset_name
+         JOIN data_entries e ON e.dataset_name = j.dataset_name AND e.entry_id = $2
+         WHERE j.id = $1`,
+        [jobId, entryId]
+    );
+    if (result.rowCount === 0) return null;
+    const row = result.rows[0];
+    return { entry: { id: row.entry_id, ...row.data }, cleaningRules: row.cleaning_rules };
+}
+
+/**
+ * Stores the outcome of cleaning one entry of a job. Only pending entries are updated, so a result
+ * arriving after the entry was reviewed or the job was reset is dropped.
+ */
+export async function recordCleaningResult(
+    jobId: number,
+    entryId: string,
+    result: { status: CleaningItemStatus; original?: Record<string, unknown> | null; proposed?: Record<string, unknown> | null; error?: string | null; attempts: number }
+): Promise<void> {
+    await getPool().query(
+        `UPDATE cleaning_job_items
+         SET status = $3, original = $4, proposed = $5, error = $6, attempts = $7, updated_at = NOW()
+         WHERE job_id = $1 AND entry_id = $2 AND status = 'pending'`,
+        [
+            jobId,
+            entryId,
+            result.status,
+            result.original ? JSON.stringify(result.original) : null,
+            result.proposed ? JSON.stringify(result.proposed) : null,
+            result.error ?? null,
+            result.attempts,
+        ]
+    );
+    await getPool().query('UPDATE cleaning_jobs SET updated_at = NOW() WHERE id = $1', [jobId]);
+}
+
+/**
+ * Marks a running job as completed once none of its entries is pending. Called by the job runner when it runs out of work.
+ */
+export async function completeCleaningJob(jobId: number): Promise<void> {
+    await getPool().query(
+        `UPDATE cleaning_jobs SET status = 'completed', updated_at = NOW()
+         WHERE id = $1 AND status = 'running'
+           AND NOT EXISTS (SELECT 1 FROM cleaning_job_items WHERE job_id = $1 AND status = 'pending')`,
+        [jobId]
+    );
+}
+
+/**
+ * Sets the state of a cleaning job: 'cancelled' stops a running job (its pending entries stay pending),
+ * 'running' resumes it and puts failed entries back into the queue for another round of attempts.
+ *
+ * @param datasetName The name of the dataset to operate on.
+ * @param jobId The ID of the job; it must belong to the dataset.
+ * @param status The new state.
+ * @param model When resuming, the AI model the job now runs on.
+ * @returns A promise that resolves to the updated job, or null if it does not exist.
+ * @throws {Error} If the operation fails or no dataset is specified.
+ */
+export async function setCleaningJobStatus(datasetName: string, jobId: number, status: 'running' | 'cancelled', model?: string): Promise<CleaningJob | null> {
+    const currentDataset = requireDatasetName(datasetName, 'setCleaningJobStatus');
+    console.log(`[setCleaningJobStatus Service - Dataset: ${currentDataset}] Called for job ${jobId}: ${status}`);
+
+    const client = await getPool().connect();
+    try {
+        await client.query('BEGIN');
+        const updated = await client.query(
+            'UPDATE cleaning_jobs SET status = $3, model = COALESCE($4, model), updated_at = NOW() WHERE dataset_name = $1 AND id = $2',
+            [currentDataset, jobId, status, model ?? null]
+        );
+        if (updated.rowCount === 0) {
+            await client.query('ROLLBACK');
+            console.warn(`[setCleaningJobStatus Service - Dataset: ${currentDataset}] Job ${jobId} not found.`);
+            return null;
+        }
+        if (status === 'running') {
+            await client.query(
+                `UPDATE cleaning_job_items SET status = 'pending', error = NULL, attempts = 0, updated_at = NOW()
+                 WHERE job_id = $1 AND status = 'failed'`,
+                [jobId]
+            );
+        }
+        const job: QueryResult<CleaningJob> = await client.query(`SELECT ${CLEANING_JOB_COLUMNS} FROM cleaning_jobs j WHERE j.id = $1`, [jobId]);
+        await client.query('COMMIT');
+        console.log(`[setCleaningJobStatus Service - Dataset: ${currentDataset}] Job ${jobId} is now ${status}.`);
+        return job.rows[0];
+    } catch (error) {
+        await client.query('ROLLBACK');
+        console.error(`[setCleaningJobStatus Service - Dataset: ${currentDataset}] Error updating job ${jobId}:`, error);
+        throw new Error(`Failed to update cleaning job ${jobId} in database: ${(error as Error).message}`);
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * Accepts or rejects suggestions of a cleaning job. Accepting writes the suggested content to each entry
+ * (recorded as an AI cleaning in the entry history and audit log), unless the entry changed or was deleted
+ * after the suggestion was made; such suggestions are marked stale instead of overwriting the newer content.
+ *
+ * @param datasetName The name of the dataset to operate on.
+ * @param jobId The ID of the job; it must belong to the dataset.
+ * @param decision 'accept' or 'reject'.
+ * @param entryIds The entries whose suggestions to review, or null for every suggestion still waiting for review.
+ * @param context Who is reviewing; recorded with the entry versions and audit events of accepted suggestions.
+ * @returns A promise that resolves to what was done, or null if the job does not exist.
+ * @throws {Error} If the operation fails or no dataset is specified.
+ */
+export async function reviewCleaningItems(
+    datasetName: string,
+    jobId: number,
+    decision: 'accept' | 'reject',
+    entryIds: string[] | null,
+    context: MutationContext
+): Promise<CleaningReviewSummary | null> {
+    const currentDataset = requireDatasetName(datasetName, 'reviewCleaningItems');
+    console.log(`[reviewCleaningItems Service - Dataset: ${currentDataset}] Called for job ${jobId}: ${decision} ${entryIds ? `${entryIds.length} entries` : 'all suggestions'}`);
+    const summary: CleaningReviewSummary = { accepted: 0, acceptedIds: [], rejected: 0, stale: 0 };
+
+    const client = await getPool().connect();
+    try {
+        await client.query('BEGIN');
+        const job = await client.query('SELECT id FROM cleaning_jobs WHERE dataset_name = $1 AND id = $2 FOR UPDATE', [currentDataset, jobId]);
+        if (job.rowCount === 0) {
+            await client.query('ROLLBACK');
+            console.warn(`[reviewCleaningItems Service - Dataset: ${currentDataset}] Job ${jobId} not found.`);
+            return null;
+        }
+        const selection = `i.job_id = $1 AND i.status = 'proposed' AND ($2::text[] IS NULL OR i.entry_id = ANY($2::text[]))`;
+
+        if (decision === 'reject') {
+            const rejected = await client.query(
+                `UPDATE cleaning_job_items i SET status = 'rejected', updated_at = NOW() WHERE ${selection}`,
+                [jobId, entryIds]
+            );
+            summary.rejected = rejected.rowCount ?? 0;
+        } else {
+            // Suggestions whose entry still has the content they were made for; the entries are locked until commit
+            const applicable: QueryResult<{ entry_id: string; proposed: Record<string, unknown> }> = await client.query(
+                `SELECT i.entry_id, i.proposed
+                 FROM cleaning_job_items i
+                 JOIN data_entries e ON e.dataset_name = $3 AND e.entry_id = i.entry_id
+                 WHERE ${selection} AND e.data = i.original
+                 FOR UPDATE OF e, i`,
+                [jobId, entryIds, currentDataset]
+            );
+            const changes = new Map(applicable.rows.map(row => [row.entry_id, JSON.stringify(row.proposed)]));
+            if (changes.size > 0) {
+                await recordEntryWrites(client, currentDataset, changes, context);
+                await client.query(
+                    `UPDATE data_entries e SET data = incoming.data
+                     FROM unnest($2::text[], $3::jsonb[]) AS incoming(entry_id, data)
+                     WHERE e.dataset_name = $1 AND e.entry_id = incoming.entry_id`,
+                    [currentDataset, Array.from(changes.keys()), Array.from(changes.values())]
+                );
+                await client.query(
+                    `UPDATE cleaning_job_items SET status = 'accepted', updated_at = NOW() WHERE job_id = $1 AND entry_id = ANY($2::text[])`,
+                    [jobId, Array.from(changes.keys())]
+                );
+                await touchDataset(client, currentDataset);
+            }
+            summary.accepted = changes.size;
+            summary.acceptedIds = Array.from(changes.keys());
+
+            const stale = await client.query(
+                `UPDATE cleaning_job_items i
+                 SET status = 'stale', error = 'The entry was changed or deleted after this suggestion was made.', updated_at = NOW()
+                 WHERE ${selection}`,
+                [jobId, entryIds]
+            );
+            summary.stale = stale.rowCount ?? 0;
+        }
+
+        await client.query('UPDATE cleaning_jobs SET updated_at = NOW() WHERE id = $1', [jobId]);
+        await client.query('COMMIT');
+        console.log(`[reviewCleaningItems Service - Dataset: ${currentDataset}] Job ${jobId}: ${summary.accepted} accepted, ${summary.rejected} rejected, ${summary.stale} stale.`);
+        return summary;
+    } catch (error) {
+        await client.query('ROLLBACK');
+        console.error(`[reviewCleaningItems Service - Dataset: ${currentDataset}] Error reviewing suggestions of job ${jobId}:`, error);
+        throw new Error(`Failed to review suggestions of cleaning job ${jobId} in database: ${(error as Error).message}`);
+    } finally {
+        client.release();
+    }
+}
+
+// --- Audit Log ---
+
+/**
+ * Fetches audit events, newest first, optionally filtered by dataset, actor and action.
+ * Pages are keyset-based on the event ID: pass the returned nextCursor to get the following page.
+ *
+ * @param query Filters, page size (default DEFAULT_AUDIT_PAGE_SIZE, at most MAX_AUDIT_PAGE_SIZE) and cursor.
+ * @returns A promise resolving to one page of events.
+ * @throws {Error} If the database operation fails.
+ */
+export async function queryAuditLog(query: AuditQuery = {}): Promise<AuditPage> {
+    const limit = Math.min(Math.max(query.limit ?? DEFAULT_AUDIT_PAGE_SIZE, 1), MAX_AUDIT_PAGE_SIZE);
+    console.log('[queryAuditLog Service] Called:', query);
+
+    const conditions: string[] = [];
+    const values: unknown[] = [];
+    const param = (value: unknown) => {
+        values.push(value);
+        return `$${values.length}`;
+    };
+    if (query.datasetName) conditions.push(`dataset_name = ${param(query.datasetName)}`);
+    if (query.actor) conditions.push(`actor = ${param(query.actor)}`);
+    if (query.action) conditions.push(`action = ${param(query.action)}`);
+    if (query.cursor !== undefined) conditions.push(`id < ${param(query.cursor)}`);
+
+    const client = await getPool().connect();
+    try {
+        const result = await client.query(
+            `SELECT id, recorded_at, actor, source, action, dataset_name, target_id, before_hash, after_hash, details
+             FROM audit_log
+             ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+             ORDER BY id DESC
+             LIMIT ${param(limit + 1)}`,
+            values
+        );
+        // BIGSERIAL ids arrive as strings
+        const events = result.rows.slice(0, limit).map(row => ({ ...row, id: Number(row.id) }));
+        const nextCursor = result.rows.length > limit ? events[events.length - 1].id : null;
+        console.log(`[queryAuditLog Service] Returning ${events.length} events.`);
+        return { events, nextCursor };
+    } catch (error) {
+        console.error('[queryAuditLog Service] Error fetching audit events:', error);
+        throw new Error(`Failed to fetch audit events from database: ${(error as Error).message}`);
+    } finally {
+        client.release();
+    }
+}
+
+// --- Search ---
+
+// Markers ts_headline puts around matches; the snippet is split on them so no HTML ever leaves the database
+const HIGHLIGHT_START = '\u0002';
+const HIGHLIGHT_STOP = '\u0003';
+const DEFAULT_SEARCH_LIMIT = 20;
+const MAX_SEARCH_LIMIT = 100;
+const HEADLINE_OPTIONS = `StartSel="${HIGHLIGHT_START}", StopSel="${HIGHLIGHT_STOP}", MaxFragments=2, MaxWords=20, MinWords=5, FragmentDelimiter=" … "`;
+
+function splitHighlights(headline: string): SearchSnippetPart[] {
+    const parts: SearchSnippetPart[] = [];
+    headline.split(HIGHLIGHT_START).forEach((chunk, index) => {
+        if (index === 0) {
+            if (chunk) parts.push({ text: chunk, highlighted: false });
+            return;
+        }
+        const [match, rest = ''] = chunk.split(HIGHLIGHT_STOP);
+        if (match) parts.push({ text: match, highlighted: true });
+        if (rest) parts.push({ text: rest, highlighted: false });
+    });
+    return parts;
+}
+
+/**
+ * Searches the entries of a dataset with PostgreSQL full-text search over their ID and JSON content.
+ * The search text supports web-search syntax: "quoted phrases", OR, and -excluded words.
+ *
+ * @param datasetName The name of the dataset to operate on.
+ * @param searchText The user's search text.
+ * @param limit Maximum number of results (default 20, max. 100).
+ * @returns A promise resolving to the matching entries, most relevant first, each with a highlighted snippet.
+ * @throws {Error} If the operation fails or no dataset is specified.
+ */
+export async function searchData(datasetName: string, searchText: string, limit = DEFAULT_SEARCH_LIMIT): Promise<SearchResult[]> {
+    const currentDataset = requireDatasetName(datasetName, 'searchData');
+    const trimmedText = searchText.trim();
+    const maxResults = Math.min(Math.max(Math.trunc(limit) || DEFAULT_SEARCH_LIMIT, 1), MAX_SEARCH_LIMIT);
+    console.log(`[searchData Service - Dataset: ${currentDataset}] Called with query: "${trimmedText}", limit: ${maxResults}`);
+    if (!trimmedText) {
+        return [];
+    }
+
+    const client = await getPool().connect();
+    try {
+        // The snippet is built from the entry's string and number values, not its raw JSON text
+        const result: QueryResult<{ entry_id: string; data: any; rank: number; headline: string | null }> = await client.query(
+            `WITH search AS (SELECT websearch_to_tsquery('simple', $2) AS query)
+             SELECT e.entry_id, e.data, ts_rank_cd(e.search_vector, search.query)::float8 AS rank,
+                    ts_headline('simple',
+                        COALESCE((SELECT string_agg(value #>> '{}', ' · ')
+                                  FROM jsonb_path_query(e.data, 'strict $.** ? (@.type() == "string" || @.type() == "number")') AS value), ''),
+                        search.query,
+                        $4
+                    ) AS headline
+             FROM data_entries e, search
+             WHERE e.dataset_name = $1 AND e.search_vector @@ search.query
+             ORDER BY rank DESC, e.entry_id
+             LIMIT $3`,
+            [currentDataset, trimmedText, maxResults, HEADLINE_OPTIONS]
+        );
+
+        console.log(`[searchData Service - Dataset: ${currentDataset}] Found ${result.rowCount} results.`);
+        return result.rows.map(row => ({
+            entry: { id: row.entry_id, ...row.data },
+            rank: row.rank,
+            snippet: splitHighlights(row.headline ?? ''),
+        }));
+    } catch (error) {
+        console.error(`[searchData Service - Dataset: ${currentDataset}] Error searching data:`, error);
+        throw new Error(`Failed to search data in database: ${(error as Error).message}`);
+    } finally {
+        client.release();
+    }
+}
 
 // Graceful shutdown
 process.on('SIGINT', async () => {
@@ -0,0 +1,109 @@
+// src/services/relationship-suggestions.ts
+// Proposes relationships for one entry or a whole dataset. The deterministic heuristics (see
+// lib/relationship-suggestions.ts) always run; the AI model is shown a sample of the entries and adds what they
+// cannot see. If the model fails, or is not wanted, the heuristic suggestions are returned on their own.
+
+import { suggestRelationshipsFlow, type SuggestRelationshipsOutput } from '@/ai/flows/suggest-relationships-flow';
+import { flowModelName } from '@/ai/model-config';
+import { datasetExists, getAllRelationships, getDataById, getRelationshipTypes, queryData } from '@/services/database';
+import { MAX_ENTRY_PAGE_SIZE } from '@/lib/entry-query';
+import { SUGGESTED_RELATIONSHIP_TYPES } from '@/lib/relationship-types';
+import { heuristicRelationshipSuggestions, mergeRelationshipSuggestions, withoutExistingRelationships } from '@/lib/relationship-suggestions';
+import type { DataEntry, RelationshipSuggestion, RelationshipSuggestionResult } from '@/services/types';
+
+// Entries the heuristics look at; larger datasets are only searched in their oldest entries
+const MAX_SUGGESTION_ENTRIES = 5000;
+// Entries shown to the AI model in one request
+const MAX_AI_SUGGESTION_ENTRIES = 30;
+
+async function loadEntries(datasetName: string): Promise<DataEntry[]> {
+    const entries: DataEntry[] = [];
+    let cursor: string | null = null;
+    do {
+        const page = await queryData(datasetName, {
+            limit: Math.min(MAX_ENTRY_PAGE_SIZE, MAX_SUGGESTION_ENTRIES - entries.length),
+            cursor,
+            sortDirection: 'asc', // Oldest first, so shared-value suggestions point from older to newer entries
+        });
+        entries.push(...page.entries);
+        cursor = page.nextCursor;
+    } while (cursor && entries.length < MAX_SUGGESTION_ENTRIES);
+    return entries;
+}
+
+/**
+ * The entries to show the AI model: the focus entry, then the entries the heuristics connect (to it), then random others.
+ */
+function pickEntriesForModel(entries: DataEntry[], focus: DataEntry | null, heuristic: RelationshipSuggestion[]): DataEntry[] {
+    const byId = new Map(entries.map(entry => [entry.id, entry]));
+    const picked = new Map<string, DataEntry>();
+    if (focus) picked.set(focus.id, focus);
+    for (const suggestion of heuristic) {
+        for (const id of [suggestion.source_entry_id, suggestion.target_entry_id]) {
+            const entry = byId.get(id);
+            if (entry && picked.size < MAX_AI_SUGGESTION_ENTRIES) picked.set(id, entry);
+        }
+    }
+    const others = entries.filter(entry => !picked.has(entry.id));
+    while (picked.size < MAX_AI_SUGGESTION_ENTRIES && others.length > 0) {
+        const [entry] = others.splice(Math.floor(Math.random() * others.length), 1);
+        picked.set(entry.id, entry);
+    }
+    return Array.from(picked.values());
+}
+
+/**
+ * Suggests relationships that do not exist yet, best first.
+ * @param entryId Only suggest relationships from or to this entry; null for the whole dataset.
+ * @param useAi Whether to ask the AI model besides running the heuristics.
+ * @returns The suggestions, or null if the dataset or entry does not exist.
+ */
+export async function suggestRelationships(datasetName: string, entryId: string | null, useAi: boolean): Promise<RelationshipSuggestionResult | null> {
+    console.log(`[suggestRelationships Service - Dataset: ${datasetName}] Called for ${entryId ? `entry ${entryId}` : 'the whole dataset'}, AI: ${useAi}`);
+    if (!(await datasetExists(datasetName))) {
+        return null;
+    }
+    const [entries, relationships, usedTypes] = await Promise.all([
+        loadEntries(datasetName),
+        getAllRelationships(datasetName),
+        getRelationshipTypes(datasetName),
+    ]);
+
+    let focus: DataEntry | null = null;
+    if (entryId !== null) {
+        focus = entries.find(entry => entry.id === entryId) ?? await getDataById(datasetName, entryId);
+        if (!focus) {
+            return null;
+        }
+        if (!entries.some(entry => entry.id === entryId)) entries.push(focus); // Beyond MAX_SUGGESTION_ENTRIES
+    }
+
+    const heuristic = heuristicRelationshipSuggestions(entries, relationships, entryId);
+    console.log(`[suggestRelationships Service - Dataset: ${datasetName}] ${heuristic.length} heuristic suggestions from ${entries.length} entries.`);
+
+    let aiSuggestions: RelationshipSuggestion[] = [];
+    let model: string | null = null;
+    let aiError: string | null = null;
+    if (useAi && entries.length >= 2) {
+        try {
+            model = flowModelName('suggestRelationships');
+            const { suggestions } = await suggestRelationshipsFlow({
+                entries: pickEntriesForModel(entries, focus, heuristic),
+                focusId: entryId,
+                knownTypes: Array.from(new Set([...SUGGESTED_RELATIONSHIP_TYPES, ...usedTypes.map(({ type }) => type)])),
+            }) as SuggestRelationshipsOutput;
+            aiSuggestions = withoutExistingRelationships(suggestions, relationships);
+        } catch (error) {
+            // The heuristic suggestions are still worth showing
+            console.warn(`[suggestRelationships Service - Dataset: ${datasetName}] AI suggestions failed; returning heuristic ones only:`, error);
+            aiError = error instanceof Error ? error.message : 'The AI model could not be asked.';
+        }
+    }
+
+    return {
+        suggestions: mergeRelationshipSuggestions(heuristic, aiSuggestions),
+        examined: entries.length,
+        model,
+        aiError,
+    };
+}
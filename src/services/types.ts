@@ -11,11 +11,426 @@ export interface DataEntry {
 }
 
 /**
- * Represents a relationship between two data entries.
+ * How a filter compares a top-level field of the entry data:
+ * - equals:   the field's text value equals `value`
+ * - contains: the field's text value contains `value` (case-insensitive); for arrays, any element does
+ * - range:    the field lies between `min` and `max` (either may be omitted); numeric if the bounds are numbers
+ * - exists:   the field is present
+ */
+export type EntryFilterOperator = 'equals' | 'contains' | 'range' | 'exists';
+
+export interface EntryFilter {
+  field: string; // Top-level key of the entry data
+  operator: EntryFilterOperator;
+  value?: string | number | boolean; // For equals and contains
+  min?: string | number; // For range
+  max?: string | number; // For range
+}
+
+/**
+ * Options for listing one page of entries. Pages are fetched with keyset pagination:
+ * pass the `nextCursor` of the previous page as `cursor` to get the following page.
+ */
+export interface EntryQuery {
+  limit?: number;
+  cursor?: string | null;
+  sortField?: string | null; // Top-level key of the entry data, or 'id'; defaults to the creation time
+  sortDirection?: 'asc' | 'desc'; // Defaults to 'desc' for the creation time, 'asc' otherwise
+  filters?: EntryFilter[]; // Combined with AND
+  relatedToSourceId?: string | null; // Only targets of relationships from this entry
+}
+
+export interface EntryPage {
+  entries: DataEntry[];
+  nextCursor: string | null; // null on the last page
+  totalCount: number; // Number of entries matching the filters, across all pages
+}
+
+/**
+ * A piece of a search snippet; highlighted parts matched the search terms.
+ */
+export interface SearchSnippetPart {
+  text: string;
+  highlighted: boolean;
+}
+
+/**
+ * An entry found by full-text search, with its relevance and a snippet of the matching content.
+ */
+export interface SearchResult {
+  entry: DataEntry;
+  rank: number; // ts_rank_cd score; higher is more relevant
+  snippet: SearchSnippetPart[];
+}
+
+/**
+ * Represents a directed, typed relationship from a source entry to a target entry.
+ * The same two entries can be linked once per type.
  */
 export interface RelationshipEntry {
     id: number; // Primary key (SERIAL) for the relationship itself
     source_entry_id: string; // Corresponds to entry_id (TEXT)
     target_entry_id: string; // Corresponds to entry_id (TEXT)
+    type: string; // Label describing what the link means, e.g. 'parent_of', 'duplicates', 'references'
+    properties: Record<string, any> | null; // Optional JSONB properties bag
+    weight: number | null; // Optional DOUBLE PRECISION weight
     created_at: string | Date; // TIMESTAMPTZ
 }
+
+/**
+ * A relationship proposed between two entries that does not exist yet. 'heuristic' suggestions come from fields
+ * holding another entry's ID and from values two entries share; 'ai' ones from the AI model.
+ */
+export interface RelationshipSuggestion {
+    source_entry_id: string;
+    target_entry_id: string;
+    type: string;
+    score: number; // 0..1, how likely the relationship is
+    reason: string;
+    origin: 'heuristic' | 'ai';
+}
+
+/**
+ * Relationship suggestions for one entry or a whole dataset, best first. `model` is the AI model that was asked,
+ * or null if it was not; `aiError` tells why only heuristic suggestions are returned when asking the model failed.
+ */
+export interface RelationshipSuggestionResult {
+    suggestions: RelationshipSuggestion[];
+    examined: number; // Entries the heuristics looked at
+    model: string | null;
+    aiError: string | null;
+}
+
+/**
+ * What adding several relationships at once did: the new ones, those of the same type that already existed,
+ * and how many were skipped because one of their entries does not exist (or both are the same entry).
+ */
+export interface RelationshipBatchSummary {
+    created: RelationshipEntry[];
+    existing: RelationshipEntry[];
+    skipped: number;
+}
+
+/**
+ * The optional attributes of a relationship, as accepted when creating or updating one.
+ */
+export interface RelationshipAttributes {
+    type?: string;
+    properties?: Record<string, any> | null;
+    weight?: number | null;
+}
+
+/**
+ * An entry reached while walking relationships (in either direction) from a starting entry.
+ */
+export interface NeighborhoodNode {
+    entry: DataEntry;
+    distance: number; // Number of hops from the starting entry (0 for the starting entry itself)
+}
+
+/**
+ * The entries within a number of hops of a starting entry, and the relationships between them.
+ */
+export interface Neighborhood {
+    rootId: string;
+    depth: number;
+    nodes: NeighborhoodNode[]; // Ordered by distance, then ID
+    relationships: RelationshipEntry[]; // All relationships whose source and target are both in nodes
+}
+
+/**
+ * Editable descriptive metadata of a dataset.
+ */
+export interface DatasetMetadata {
+    description: string | null;
+    owner: string | null;
+    tags: string[];
+}
+
+/**
+ * Type of a documented field. 'integer' is a number without a fractional part; 'mixed' means the values have
+ * more than one type (besides null).
+ */
+export type DatasetSchemaFieldType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null' | 'mixed';
+
+/**
+ * One documented field of a dataset's entries. `path` is a dot-separated path into the entry content like the
+ * fields of cleaning rules (e.g. 'address.city'); '*' stands for the items of an array (e.g. 'tags.*').
+ */
+export interface DatasetSchemaField {
+    path: string;
+    type: DatasetSchemaFieldType;
+    optional: boolean; // Missing or null in some entries
+    enum?: (string | number)[]; // The only allowed values, if the field has a fixed set
+    format?: string; // Format of string values, e.g. 'email', 'date', 'date-time', 'uri', 'uuid'
+    description: string;
+}
+
+/**
+ * The documented schema of a dataset's entries. `inferred_by` records the model and sample of the last
+ * AI inference; it is kept when the schema is edited afterwards, and null for schemas written by hand.
+ */
+export interface DatasetSchema {
+    description: string; // What one entry represents
+    fields: DatasetSchemaField[];
+    inferred_by: { model: string; sample_size: number; inferred_at: string } | null;
+}
+
+/**
+ * A dataset with its metadata and entry/relationship counts.
+ */
+export interface DatasetInfo extends DatasetMetadata {
+    name: string; // Primary key (TEXT)
+    created_at: string | Date; // TIMESTAMPTZ
+    updated_at: string | Date; // TIMESTAMPTZ, bumped on every change to entries or relationships
+    entry_count: number;
+    relationship_count: number;
+}
+
+/**
+ * What renaming or cloning a dataset did: it went through, the dataset does not exist, or the new name is taken.
+ */
+export type DatasetRenameResult = 'done' | 'not-found' | 'name-taken';
+
+/**
+ * Where a change to the data came from: an edit in the UI, an applied AI cleaning suggestion,
+ * the dataset's cleaning rules, an accepted relationship suggestion, an upload/import, or a REST API call.
+ */
+export type MutationSource = 'manual' | 'ai-clean' | 'rule-clean' | 'suggestion' | 'upload' | 'api';
+
+/**
+ * Who made a change and how, recorded with the entry versions and audit events it creates.
+ */
+export interface MutationContext {
+    actor: string; // From the actor header or cookie; 'anonymous' if neither is set
+    source: MutationSource;
+}
+
+/**
+ * A previous content of an entry, recorded when the entry was overwritten.
+ */
+export interface EntryVersion {
+    id: number; // Primary key (SERIAL); higher is newer
+    entry_id: string;
+    data: Record<string, any>; // The content before the change, without 'id'
+    actor: string; // Who made the change that replaced this content
+    source: MutationSource;
+    recorded_at: string | Date; // TIMESTAMPTZ, when this content was replaced
+}
+
+/**
+ * What an audit event records. 'entry.clean' is an entry update that applied an AI cleaning suggestion or cleaning rules.
+ */
+export type AuditAction =
+  | 'dataset.create' | 'dataset.replace' | 'dataset.update' | 'dataset.rename' | 'dataset.clone' | 'dataset.delete'
+  | 'dataset.import' | 'dataset.restore'
+  | 'entry.add' | 'entry.update' | 'entry.clean' | 'entry.delete'
+  | 'relationship.add' | 'relationship.update' | 'relationship.delete';
+
+/**
+ * One row of the append-only audit log. Hashes are hex SHA-256 digests of the affected payload
+ * (entry content, relationship or dataset details) before and after the change; null where there is none.
+ */
+export interface AuditEvent {
+    id: number; // Primary key (BIGSERIAL); higher is newer
+    recorded_at: string | Date; // TIMESTAMPTZ
+    actor: string;
+    source: MutationSource;
+    action: AuditAction;
+    dataset_name: string; // Name at the time of the change; events are kept when a dataset is renamed or deleted
+    target_id: string | null; // Entry ID or relationship ID; null for dataset events
+    before_hash: string | null;
+    after_hash: string | null;
+    details: Record<string, any> | null; // e.g. the new name of a renamed dataset or the counts of an import
+}
+
+/**
+ * Filters and keyset paging for the audit log (newest first).
+ */
+export interface AuditQuery {
+    datasetName?: string;
+    actor?: string;
+    action?: AuditAction;
+    limit?: number;
+    cursor?: number; // Return events older than this event ID
+}
+
+export interface AuditPage {
+    events: AuditEvent[];
+    nextCursor: number | null; // ID to pass as cursor for the next page, null on the last page
+}
+
+/**
+ * State of a batch AI cleaning job. A job is 'running' until every selected entry has been sent to the model,
+ * or until it is cancelled; reviewing its suggestions does not change it.
+ */
+export type CleaningJobStatus = 'running' | 'completed' | 'cancelled';
+
+/**
+ * State of one entry in a cleaning job:
+ * - pending:   not cleaned yet
+ * - proposed:  the model suggested changes, waiting for review
+ * - unchanged: the model suggested no changes
+ * - failed:    the model failed on every attempt (see error)
+ * - accepted / rejected: reviewed
+ * - stale:     not applied because the entry changed or was deleted after the suggestion was made
+ */
+export type CleaningItemStatus = 'pending' | 'proposed' | 'unchanged' | 'failed' | 'accepted' | 'rejected' | 'stale';
+
+/**
+ * A batch AI cleaning job over all entries of a dataset, or the entries matching a listing's filters.
+ * Progress is stored per entry, so a job survives page reloads and can be resumed after a server restart.
+ */
+export interface CleaningJob {
+    id: number; // Primary key (SERIAL)
+    dataset_name: string;
+    status: CleaningJobStatus;
+    query: EntryQuery | null; // Filters the entries were selected with; null for all entries
+    concurrency: number; // Entries cleaned at the same time
+    model: string | null; // AI model the job runs on, e.g. 'local/llama3.1'; null for jobs from before models were configurable
+    actor: string; // Who started the job
+    created_at: string | Date;
+    updated_at: string | Date;
+    total: number; // Entries selected
+    counts: Partial<Record<CleaningItemStatus, number>>; // Entries per state
+    active?: boolean; // Whether this server is working on the job; false for a 'running' job that was interrupted
+}
+
+/**
+ * One entry of a cleaning job, with the content the suggestion was made for and the suggested content.
+ */
+export interface CleaningJobItem {
+    entry_id: string;
+    status: CleaningItemStatus;
+    original: Record<string, any> | null; // Entry content (without 'id') when it was cleaned
+    proposed: Record<string, any> | null; // Suggested content (without 'id'); null unless proposed, accepted, rejected or stale
+    error: string | null; // Last model error, or why a suggestion was not applied
+    attempts: number; // Model calls made for the entry
+    updated_at: string | Date;
+}
+
+export interface CleaningJobItemPage {
+    items: CleaningJobItem[];
+    nextCursor: string | null; // Entry ID to pass as cursor for the next page, null on the last page
+}
+
+/**
+ * What reviewing suggestions of a cleaning job did.
+ */
+export interface CleaningReviewSummary {
+    accepted: number; // Suggestions written to their entries
+    acceptedIds: string[]; // The entries they were written to
+    rejected: number;
+    stale: number; // Not applied because the entry changed or was deleted after the suggestion was made
+}
+
+/**
+ * One deterministic cleaning rule of a dataset's rule set. A rule changes the values at the given fields
+ * (dot paths such as 'address.city'; '*' matches any key or array index at its level), or every value if no
+ * fields are given. Values a rule does not apply to (e.g. numbers for 'trim', unparseable dates) are left as they are.
+ * - trim:          remove leading/trailing whitespace from strings
+ * - case:          lower-, upper- or title-case strings
+ * - regex-replace: replace matches of a regular expression in strings (flags default to 'g')
+ * - coerce:        convert numeric strings to numbers, boolean-like values to booleans, or scalars to strings
+ * - date:          parse strings with the first matching date-fns format and write them as ISO 8601
+ * - map:           replace values listed in a mapping table (keys are the values as text)
+ * - null:          replace placeholder strings such as 'N/A' with null (compared trimmed and case-insensitively)
+ */
+export type CleaningRule = {
+    fields?: string[];
+    enabled?: boolean; // Disabled rules are kept in the rule set but skipped; defaults to true
+} & (
+    | { type: 'trim' }
+    | { type: 'case'; mode: 'lower' | 'upper' | 'title' }
+    | { type: 'regex-replace'; pattern: string; flags?: string; replacement: string }
+    | { type: 'coerce'; to: 'number' | 'boolean' | 'string' }
+    | { type: 'date'; formats: string[]; output: 'date' | 'datetime' } // 'date': YYYY-MM-DD; 'datetime': full ISO 8601 in UTC
+    | { type: 'map'; mapping: Record<string, unknown>; caseInsensitive?: boolean }
+    | { type: 'null'; values: string[] }
+);
+
+export type CleaningRuleType = CleaningRule['type'];
+
+/**
+ * Kind of fix a cleaning change makes. The AI model reports one of the first six; 'rule' marks changes made by
+ * the dataset's cleaning rules.
+ */
+export type CleaningChangeCategory = 'trim' | 'typo' | 'boolean' | 'date' | 'casing' | 'other' | 'rule';
+
+/**
+ * One field-level change suggested by cleaning. `path` is a JSON Pointer (RFC 6901) into the entry content,
+ * e.g. '/address/city'; `before` is the value stored at the path, `after` the suggested one.
+ */
+export interface CleaningChange {
+    path: string;
+    before: unknown;
+    after: unknown;
+    category: CleaningChangeCategory;
+    rationale: string;
+    confidence: number; // 0..1; changes made by cleaning rules are always 1
+}
+
+/**
+ * What running cleaning rules over a dataset did, or would do. Samples hold the content (without 'id')
+ * before and after cleaning of the first changed entries.
+ */
+export interface RuleCleaningSummary {
+    examined: number;
+    changed: number;
+    samples: { id: string; before: Record<string, any>; after: Record<string, any> }[];
+}
+
+/**
+ * One operation of an RFC 6902 JSON Patch. Paths are JSON Pointers (RFC 6901) into the entry content, e.g. '/address/city'.
+ */
+export type JsonPatchOperation =
+  | { op: 'add' | 'replace' | 'test'; path: string; value: unknown }
+  | { op: 'remove'; path: string }
+  | { op: 'move' | 'copy'; from: string; path: string };
+
+/**
+ * A partial update of an entry's content:
+ * - merge:      RFC 7396 JSON Merge Patch; nested objects are merged, null removes a field
+ * - fields:     the given top-level fields are replaced as they are (null included), the others kept
+ * - json-patch: RFC 6902 JSON Patch; the operations are applied in order, all or nothing
+ */
+export type EntryPatch =
+  | { type: 'merge'; patch: Record<string, unknown> }
+  | { type: 'fields'; fields: Record<string, unknown> }
+  | { type: 'json-patch'; operations: JsonPatchOperation[] };
+
+/**
+ * What deleting a set of entries would remove. Relationships are counted once even if both ends are deleted.
+ */
+export interface DeletionPreview {
+    entryIds: string[]; // Requested IDs that exist in the dataset
+    missingIds: string[]; // Requested IDs that do not exist
+    relationshipCount: number; // Relationships from or to the entries, removed by the ON DELETE CASCADE foreign keys
+}
+
+/**
+ * How a bulk import treats the target dataset: 'append' upserts into an existing dataset (like addData),
+ * 'replace' creates the dataset if needed and clears its entries and relationships first (like createOrReplaceDataset).
+ */
+export type ImportMode = 'append' | 'replace';
+
+/**
+ * How restoring a backup treats archive entries whose ID already exists in the target dataset:
+ * 'skip' keeps the existing entry, 'overwrite' replaces its content with the archived one,
+ * 'remap' restores the archived entry under a new ID (and points its relationships at that ID).
+ */
+export type RestoreCollisionMode = 'skip' | 'overwrite' | 'remap';
+
+/**
+ * What restoring a backup archive did.
+ */
+export interface RestoreSummary {
+    datasetName: string;
+    createdDataset: boolean; // False if the archive was restored into an existing dataset
+    entriesRestored: number; // Archived entries written under their own ID
+    entriesOverwritten: number; // Existing entries replaced ('overwrite')
+    entriesSkipped: number; // Archived entries left out because their ID exists ('skip')
+    entriesRemapped: number; // Archived entries written under a new ID ('remap')
+    relationshipsRestored: number;
+    relationshipsSkipped: number; // Already present with the same source, target and type (except with 'overwrite', which updates them)
+}